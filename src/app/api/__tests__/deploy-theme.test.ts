@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { POST } from '../deploy-theme/route';
+import { Theme } from '@/models';
+import { isAuthenticated, getCurrentUserId } from '@/lib/auth';
+import { ThemeCompiler } from '@/services/ai/exporter/themeCompiler';
+import { ScaleEngine } from '@/services/ai/generator/scaleEngine';
+import { MotionEngine } from '@/services/ai/generator/motionEngine';
+
+jest.mock('@/lib/mongoose', () => jest.fn());
+jest.mock('@/lib/auth', () => ({
+  isAuthenticated: jest.fn(),
+  getCurrentUserId: jest.fn(),
+}));
+jest.mock('@/models', () => ({
+  Theme: { findById: jest.fn() },
+  Activity: jest.fn().mockImplementation(() => ({ save: jest.fn() })),
+}));
+
+const stored = {
+  name: 'Shades Bold Typography',
+  type: 'Bold Typography',
+  colorPalette: {
+    primary: '#2B6CB0',
+    secondary: '#3182CE',
+    accent: '#F6AD55',
+    background: '#F7FAFC',
+    text: '#1A202C',
+  },
+  typography: {
+    headingFont: 'Montserrat, sans-serif',
+    bodyFont: 'Open Sans, sans-serif',
+    codeFont: 'Source Code Pro, monospace',
+  },
+  components: {},
+  pageLayouts: {},
+};
+
+const deploy = () => POST(new NextRequest('http://localhost/api/deploy-theme', {
+  method: 'POST',
+  body: JSON.stringify({ themeId: 'theme-1', deploymentOptions: { platform: 'netlify' } }),
+}));
+
+describe('POST /api/deploy-theme', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (isAuthenticated as jest.Mock).mockResolvedValue(null);
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    (Theme.findById as jest.Mock).mockResolvedValue({
+      ...stored,
+      creator: 'user-1',
+      downloads: 0,
+      toObject: () => stored,
+      save: jest.fn(),
+    });
+  });
+
+  it('declares the same variables in the preview as the compiled theme', async () => {
+    const response = await deploy();
+    const { deploymentFiles } = await response.json();
+    const html: string = deploymentFiles['index.html'];
+
+    const variables = new ThemeCompiler().toCSSVariables({
+      ...stored,
+      scales: new ScaleEngine().getDefaultScales(),
+      motion: new MotionEngine().getDefaultMotion(),
+    });
+    const declared = (css: string) => new Set(css.match(/--[\w-]+(?=:)/g));
+
+    expect(response.status).toBe(200);
+    expect(declared(html)).toEqual(declared(variables));
+    expect(html).toContain(':root[data-theme="dark"]');
+    expect(html).toContain('var(--color-primary)');
+    expect(html).not.toContain('--primary-color');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { POST } from '../generate-theme/save/route';
+import { Theme } from '@/models';
+import { isAuthenticated, getCurrentUserId } from '@/lib/auth';
+import { recordThemeRevision } from '@/lib/themeHistory';
+import { ThemeGenerator } from '@/services/ai/generator/themeGenerator';
+
+jest.mock('openai', () => jest.fn().mockImplementation(() => ({})));
+jest.mock('@/lib/mongoose', () => jest.fn());
+jest.mock('@/lib/auth', () => ({
+  isAuthenticated: jest.fn(),
+  getCurrentUserId: jest.fn(),
+}));
+jest.mock('@/models', () => ({
+  Theme: jest.fn(),
+  ThemeRevision: {},
+}));
+jest.mock('@/lib/themeHistory', () => ({
+  ...jest.requireActual('@/lib/themeHistory'),
+  recordThemeRevision: jest.fn(),
+}));
+
+const save = (theme: unknown) => POST(new NextRequest('http://localhost/api/generate-theme/save', {
+  method: 'POST',
+  body: JSON.stringify({ theme }),
+}));
+
+describe('POST /api/generate-theme/save', () => {
+  let saved: Record<string, unknown>[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    saved = [];
+    (isAuthenticated as jest.Mock).mockResolvedValue(null);
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    (Theme as unknown as jest.Mock).mockImplementation(data => ({
+      ...data,
+      _id: 'theme-1',
+      save: jest.fn(async () => saved.push(data)),
+    }));
+    (recordThemeRevision as jest.Mock).mockResolvedValue({ revision: 1 });
+  });
+
+  it('saves a streamed theme with its first revision', async () => {
+    const generated = await new ThemeGenerator().generateTheme('Modern Minimalism');
+    const { name, type, colorPalette, typography, scales, motion, components, styles, pageLayouts } = generated;
+
+    const response = await save({ name, type, colorPalette, typography, scales, motion, components, styles, pageLayouts, tags: [type] });
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(body).toMatchObject({ success: true, theme: { _id: 'theme-1' }, revision: 1 });
+    expect(saved).toHaveLength(1);
+    expect(saved[0]).toMatchObject({ name, type, creator: 'user-1', isPublished: false, isPublic: false, revisionCount: 1, motion, scales });
+    expect(saved[0].accessibility).toBeDefined();
+    expect(recordThemeRevision).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: 'theme-1' }),
+      'user-1',
+      expect.objectContaining({ source: 'initial' })
+    );
+  });
+
+  it('saves themes carrying every page category', async () => {
+    const generated = await new ThemeGenerator().generateTheme('Dark Mode', 'web', { pageCategories: ['dashboard', 'docs'] });
+    const { name, type, colorPalette, typography, components, styles, pageLayouts } = generated;
+
+    const response = await save({ name, type, colorPalette, typography, components, styles, pageLayouts });
+
+    expect(response.status).toBe(201);
+    expect(saved[0].pageLayouts).toHaveProperty('dashboard.overview.chartColors.primary', colorPalette.primary);
+  });
+
+  it('rejects themes that fail validation', async () => {
+    const response = await save({ name: 'Broken', type: 'custom', typography: {}, colorPalette: { primary: 'red;}' } });
+
+    expect(response.status).toBe(400);
+    expect(saved).toHaveLength(0);
+    expect(recordThemeRevision).not.toHaveBeenCalled();
+  });
+
+  it('requires authentication', async () => {
+    (isAuthenticated as jest.Mock).mockResolvedValue(new Response(null, { status: 401 }));
+
+    expect((await save({})).status).toBe(401);
+  });
+});
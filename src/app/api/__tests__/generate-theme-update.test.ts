@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { PATCH } from '../generate-theme/route';
+import { Theme } from '@/models';
+import { isAuthenticated, getCurrentUserId } from '@/lib/auth';
+import { recordThemeRevision } from '@/lib/themeHistory';
+
+jest.mock('openai', () => jest.fn().mockImplementation(() => ({})));
+jest.mock('@/lib/mongoose', () => jest.fn());
+jest.mock('@/lib/auth', () => ({
+  isAuthenticated: jest.fn(),
+  getCurrentUserId: jest.fn(),
+}));
+jest.mock('@/lib/designTrends', () => ({ loadGeneratorTrends: jest.fn() }));
+jest.mock('@/models', () => ({
+  Theme: { findById: jest.fn(), findOneAndUpdate: jest.fn() },
+  Collaboration: { findOne: jest.fn() },
+  ThemeRevision: {},
+}));
+jest.mock('@/lib/themeHistory', () => ({
+  ...jest.requireActual('@/lib/themeHistory'),
+  ensureInitialRevision: jest.fn(),
+  recordThemeRevision: jest.fn(),
+}));
+
+const update = (body: Record<string, unknown>) => PATCH(new NextRequest('http://localhost/api/generate-theme', {
+  method: 'PATCH',
+  body: JSON.stringify(body),
+}));
+
+describe('PATCH /api/generate-theme', () => {
+  const loadedAt = new Date('2026-01-01T00:00:00.000Z');
+  let stored: { _id: string; name: string; updatedAt: Date; revisionCount: number } | null;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stored = { _id: 'theme-1', name: 'Shades Modern Minimalism', updatedAt: loadedAt, revisionCount: 1 };
+    (isAuthenticated as jest.Mock).mockResolvedValue(null);
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    (Theme.findById as jest.Mock).mockImplementation(async () => stored && { ...stored, creator: { _id: 'user-1' } });
+    // Applies an update only while the stored theme matches the filter, as MongoDB would
+    (Theme.findOneAndUpdate as jest.Mock).mockImplementation(async (filter, { $set, $inc }) => {
+      if (!stored || (filter.updatedAt && filter.updatedAt.getTime() !== stored.updatedAt.getTime())) return null;
+      stored = {
+        ...stored,
+        ...$set,
+        revisionCount: stored.revisionCount + ($inc?.revisionCount || 0),
+        updatedAt: new Date(stored.updatedAt.getTime() + 1000),
+      };
+      return stored;
+    });
+    (recordThemeRevision as jest.Mock).mockImplementation(async theme => ({ revision: theme.revisionCount }));
+  });
+
+  it('applies a save based on the current copy and records its revision', async () => {
+    const response = await update({ id: 'theme-1', updates: { name: 'Shades Ocean' }, expectedUpdatedAt: loadedAt.toISOString() });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ theme: { name: 'Shades Ocean' }, revision: 2 });
+  });
+
+  it('rejects the second of two concurrent saves based on the same copy', async () => {
+    const responses = await Promise.all([
+      update({ id: 'theme-1', updates: { name: 'Shades Ocean' }, expectedUpdatedAt: loadedAt.toISOString() }),
+      update({ id: 'theme-1', updates: { name: 'Shades Forest' }, expectedUpdatedAt: loadedAt.toISOString() }),
+    ]);
+
+    expect(responses.map(response => response.status).sort()).toEqual([200, 409]);
+    expect(stored).toMatchObject({ revisionCount: 2 });
+    expect(recordThemeRevision).toHaveBeenCalledTimes(1);
+
+    const conflict = await responses.find(response => response.status === 409)!.json();
+    expect(conflict.theme.name).toBe(stored!.name);
+  });
+
+  it('reports themes deleted while saving as not found', async () => {
+    (Theme.findOneAndUpdate as jest.Mock).mockImplementationOnce(async () => {
+      stored = null;
+      return null;
+    });
+
+    const response = await update({ id: 'theme-1', updates: { name: 'Shades Ocean' }, expectedUpdatedAt: loadedAt.toISOString() });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { GET, POST } from '../scrape-website/route';
+import { Website } from '@/models';
+import { isAuthenticated, getCurrentUserId } from '@/lib/auth';
+import { AssetStore, StoredAsset, getAssetStore, hashAsset, toAssetPath } from '@/services/assets';
+
+// The route's shared fetch pipeline reads these on first use
+process.env.SCRAPER_RETRIES = '0';
+process.env.SCRAPER_HOST_INTERVAL = '0';
+process.env.SCRAPER_ALLOW_PRIVATE_ADDRESSES = 'true';
+delete process.env.SCRAPER_PROXIES;
+
+jest.mock('@/lib/mongoose', () => jest.fn());
+jest.mock('@/lib/auth', () => ({
+  isAuthenticated: jest.fn(),
+  getCurrentUserId: jest.fn(),
+}));
+jest.mock('@/models', () => ({ Website: jest.fn() }));
+jest.mock('@/services/assets', () => ({
+  ...jest.requireActual('@/services/assets/types'),
+  getAssetStore: jest.fn(),
+}));
+
+const ROUTES: Record<string, { status: number; contentType: string; body: string }> = {
+  '/': {
+    status: 200,
+    contentType: 'text/html',
+    body: '<html><head><title>Acme</title><link rel="stylesheet" href="/main.css"></head>'
+      + '<body><header><nav><a href="/about">About</a></nav></header></body></html>',
+  },
+  '/about': { status: 200, contentType: 'text/html', body: '<html><head><title>About Acme</title></head><body></body></html>' },
+  '/main.css': { status: 200, contentType: 'text/css', body: 'body { color: #123456; }' },
+  '/robots.txt': { status: 200, contentType: 'text/plain', body: 'User-agent: *\nAllow: /' },
+  '/report.pdf': { status: 200, contentType: 'application/pdf', body: '%PDF-1.7' },
+};
+
+describe('GET /api/scrape-website', () => {
+  let server: http.Server;
+  let origin: string;
+
+  const get = (params: Record<string, string>) =>
+    GET(new NextRequest(`http://localhost/api/scrape-website?${new URLSearchParams(params)}`));
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      const route = ROUTES[request.url || ''] || { status: 404, contentType: 'text/html', body: 'Not found' };
+      response.writeHead(route.status, { 'Content-Type': route.contentType });
+      response.end(route.body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('scrapes a page and inlines its stylesheets', async () => {
+    const response = await get({ url: `${origin}/` });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ title: 'Acme', url: `${origin}/`, css: ['body { color: #123456; }'] });
+    expect(body.links).toBeUndefined();
+  });
+
+  it('crawls the pages a start page links to', async () => {
+    (isAuthenticated as jest.Mock).mockResolvedValue(null);
+    const response = await get({ url: `${origin}/`, crawl: 'true', maxDepth: '1' });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.pages.map((page: { path: string }) => page.path)).toEqual(['/', '/about']);
+  });
+
+  it('requires signing in to render or crawl', async () => {
+    (isAuthenticated as jest.Mock).mockResolvedValue(NextResponse.json({ error: 'Authentication required' }, { status: 401 }));
+
+    expect((await get({ url: `${origin}/`, render: 'true' })).status).toBe(401);
+    expect((await get({ url: `${origin}/`, crawl: 'true' })).status).toBe(401);
+    expect((await get({ url: `${origin}/` })).status).toBe(200);
+  });
+
+  it('says why a site could not be fetched', async () => {
+    const missing = await get({ url: `${origin}/missing` });
+    expect(missing.status).toBe(502);
+    expect(await missing.json()).toMatchObject({ reason: 'http', status: 404, url: `${origin}/missing` });
+
+    const pdf = await get({ url: `${origin}/report.pdf` });
+    expect(pdf.status).toBe(422);
+    expect(await pdf.json()).toMatchObject({ reason: 'non_html' });
+  });
+
+  it('refuses proxy-only scrapes when no proxies are configured', async () => {
+    const response = await get({ url: `${origin}/`, useProxy: 'true' });
+
+    expect(response.status).toBe(501);
+  });
+
+  it('requires a URL', async () => {
+    expect((await get({})).status).toBe(400);
+  });
+});
+
+// Keeps stored assets in memory
+class MemoryAssetStore implements AssetStore {
+  readonly name = 'memory';
+  assets = new Map<string, { asset: StoredAsset; data: Buffer }>();
+
+  async put(data: Buffer, contentType: string): Promise<StoredAsset> {
+    const asset = { hash: hashAsset(data), size: data.length, contentType };
+    this.assets.set(asset.hash, { asset, data });
+    return asset;
+  }
+
+  async get(hash: string) {
+    return this.assets.get(hash) || null;
+  }
+}
+
+describe('POST /api/scrape-website', () => {
+  const WebsiteModel = jest.requireActual('@/models/Website').default;
+  let store: MemoryAssetStore;
+  let saved: Record<string, unknown>[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = new MemoryAssetStore();
+    saved = [];
+    (getAssetStore as jest.Mock).mockReturnValue(store);
+    (isAuthenticated as jest.Mock).mockResolvedValue(null);
+    (getCurrentUserId as jest.Mock).mockResolvedValue('user-1');
+    (Website as unknown as jest.Mock).mockImplementation(data => ({
+      ...data,
+      _id: 'website-1',
+      save: jest.fn(async () => saved.push(data)),
+    }));
+  });
+
+  it('stores a stylesheet shared by every crawled page once', async () => {
+    // Inlined into each of 51 pages, the 360 KB stylesheet would put the document past MongoDB's 16 MB limit
+    const stylesheet = Array.from({ length: 12000 }, (_, i) => `.rule-${i} { color: #123456; }`).join('\n');
+    const page = (path: string) => ({
+      html: '<html><head><link rel="stylesheet" href="https://example.com/site.css"></head><body></body></html>',
+      css: [stylesheet],
+      images: [],
+      title: path,
+      description: '',
+      url: `https://example.com${path}`,
+      structure: { header: false, footer: false, navigation: false, sections: 0 },
+      path,
+      depth: 1,
+    });
+    const scrapedContent = { ...page('/'), pages: Array.from({ length: 50 }, (_, i) => page(`/page-${i}`)) };
+
+    const response = await POST(new NextRequest('http://localhost/api/scrape-website', {
+      method: 'POST',
+      body: JSON.stringify({ scrapedContent, name: 'Example' }),
+    }));
+
+    expect(response.status).toBe(200);
+    expect(saved).toHaveLength(1);
+
+    const stored = toAssetPath({ hash: hashAsset(Buffer.from(stylesheet)), contentType: 'text/css' });
+    const document = new WebsiteModel(saved[0]);
+    expect(document.originalContent.css).toEqual([stored]);
+    expect(document.pages).toHaveLength(50);
+    expect(document.pages.every((entry: { originalContent: { css: string[] } }) => entry.originalContent.css[0] === stored)).toBe(true);
+    expect(store.assets.size).toBe(1);
+    expect(mongoose.mongo.BSON.calculateObjectSize(document.toBSON())).toBeLessThan(stylesheet.length);
+  });
+});
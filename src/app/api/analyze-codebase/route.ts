@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { isAuthenticated, getCurrentUserId } from '@/lib/auth';
 import { CodebaseAnalyzer, CodeFile } from '@/services/ai/analyzer/codebaseAnalyzer';
+import { StructuredOutputError } from '@/services/ai/openai/structuredOutput';
 import { Activity } from '@/models';
 import dbConnect from '@/lib/mongoose';
+import { loadGeneratorTrends } from '@/lib/designTrends';
 import { z } from 'zod';
 
 // Define validation schema for request body
@@ -46,11 +48,12 @@ export async function POST(request: NextRequest) {
 
     const { files, saveAnalysis } = validationResult.data;
 
-    // Initialize analyzer
-    const analyzer = new CodebaseAnalyzer();
+    // Initialize analyzer with the trends visible to the user
+    const analyzer = new CodebaseAnalyzer(undefined, await loadGeneratorTrends(userId));
 
     // Analyze codebase
     const analysis = await analyzer.analyzeCodebase(files);
+    const trendAlignment = analyzer.analyzeTrendAlignment(files);
 
     // Save analysis if requested
     if (saveAnalysis) {
@@ -73,9 +76,16 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       analysis,
+      trendAlignment,
     });
   } catch (error) {
     console.error('Error analyzing codebase:', error);
+    if (error instanceof StructuredOutputError) {
+      return NextResponse.json(
+        { error: error.message, reason: error.reason, issues: error.issues },
+        { status: 502 }
+      );
+    }
     return NextResponse.json(
       { error: `Failed to analyze codebase: ${error instanceof Error ? error.message : String(error)}` },
       { status: 500 }
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongoose';
+import { getAssetStore } from '@/services/assets';
+
+// This ensures the API route is not statically generated
+export const dynamic = 'force-dynamic';
+
+/**
+ * Serve an asset captured from a scraped site. Assets are public like the images they were captured from,
+ * and addressed by their content hash, so a response never changes and can be cached forever.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ file: string }> }) {
+  try {
+    const { file } = await params;
+    const hash = file.split('.')[0];
+
+    const store = getAssetStore();
+    if (store.name === 'gridfs') {
+      await dbConnect();
+    }
+
+    const stored = await store.get(hash);
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Asset not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(stored.data), {
+      headers: {
+        'Content-Type': stored.asset.contentType,
+        'Content-Length': String(stored.asset.size),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        // Captured files come from other sites: never sniff them into another type, and opened directly
+        // (an SVG, say) they run without scripts or access to the app's origin
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "sandbox; default-src 'none'; style-src 'unsafe-inline'; img-src data:",
+      },
+    });
+  } catch (error) {
+    console.error('Error serving asset:', error);
+    return NextResponse.json(
+      { error: `Failed to serve asset: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { isAuthenticated, getCurrentUserId } from '@/lib/auth';
 import dbConnect from '@/lib/mongoose';
 import { Theme, Activity } from '@/models';
+import { ScaleEngine, ThemeScales } from '@/services/ai/generator/scaleEngine';
+import { MotionEngine, ThemeMotion } from '@/services/ai/generator/motionEngine';
+import { ThemeCompiler } from '@/services/ai/exporter/themeCompiler';
 import { z } from 'zod';
 
 // Define validation schema for request body
@@ -63,8 +66,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate deployment files
-    const deploymentFiles = generateDeploymentFiles(theme, deploymentOptions);
+    // Generate deployment files from the theme's plain data
+    const deploymentFiles = generateDeploymentFiles(theme.toObject(), deploymentOptions);
 
     // In a real implementation, we would actually deploy the theme to the selected platform
     // For now, we'll just simulate a successful deployment
@@ -108,6 +111,11 @@ export async function POST(request: NextRequest) {
  * Generate deployment files for the theme
  */
 function generateDeploymentFiles(theme: any, deploymentOptions: any) {
+  // Themes stored before scales existed are previewed with a neutral trend's scales
+  const scales: ThemeScales = theme.scales || new ScaleEngine().getDefaultScales();
+  const motion: ThemeMotion = theme.motion || new MotionEngine().getDefaultMotion();
+  const compiler = new ThemeCompiler();
+
   // Create a simple HTML preview of the theme
   const html = `
 <!DOCTYPE html>
@@ -117,76 +125,86 @@ function generateDeploymentFiles(theme: any, deploymentOptions: any) {
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>${theme.name} - Theme Preview</title>
   <style>
-    :root {
-      --primary-color: ${theme.colorPalette.primary};
-      --secondary-color: ${theme.colorPalette.secondary};
-      --accent-color: ${theme.colorPalette.accent || '#f59e0b'};
-      --background-color: ${theme.colorPalette.background};
-      --text-color: ${theme.colorPalette.text};
-      --heading-font: ${theme.typography.headingFont || 'sans-serif'};
-      --body-font: ${theme.typography.bodyFont || 'sans-serif'};
-      --code-font: ${theme.typography.codeFont || 'monospace'};
-    }
-    
+    /* The theme's variables as the compiled theme.css declares them; the preview follows the visitor's
+       system color scheme and offers a toggle between both schemes */
+${indentLines(compiler.toCSSVariables({ ...theme, scales, motion }), '    ')}
+${indentLines(compiler.toResponsiveCSS({ ...theme, scales }), '    ')}
+${indentLines(compiler.toMotionCSS({ ...theme, motion }), '    ')}
     body {
-      font-family: var(--body-font);
-      background-color: var(--background-color);
-      color: var(--text-color);
+      background-color: var(--color-background);
+      color: var(--color-text);
       line-height: 1.6;
       margin: 0;
       padding: 0;
     }
     
     .container {
-      max-width: 1200px;
-      margin: 0 auto;
-      padding: 2rem;
+      padding-block: var(--space-8);
     }
     
     header {
-      background-color: var(--primary-color);
+      position: relative;
+      background-color: var(--color-primary);
       color: white;
-      padding: 1rem 0;
+      padding: var(--space-4) 0;
       text-align: center;
     }
     
-    h1, h2, h3, h4, h5, h6 {
-      font-family: var(--heading-font);
-    }
-    
     .btn {
       display: inline-block;
-      background-color: var(--primary-color);
+      background-color: var(--color-primary);
       color: white;
-      padding: 0.5rem 1rem;
-      border-radius: 0.25rem;
+      padding: var(--space-2) var(--space-4);
+      border-radius: var(--radius-md);
       text-decoration: none;
-      transition: background-color 0.3s;
+      transition: var(--motion-transition-fast);
     }
     
     .btn:hover {
-      background-color: var(--secondary-color);
+      background-color: var(--color-secondary);
+      transform: var(--motion-transform-hover);
+    }
+
+    .btn:active {
+      transform: var(--motion-transform-active);
+    }
+
+    .btn:focus-visible {
+      outline: 2px solid var(--color-accent);
+      outline-offset: 2px;
     }
     
     .card {
-      background-color: white;
-      border-radius: 0.5rem;
-      box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-      padding: 1.5rem;
-      margin-bottom: 1.5rem;
+      /* Cards sit on a surface slightly lighter than the page */
+      background-color: color-mix(in oklch, var(--color-background), white 6%);
+      border-radius: var(--radius-lg);
+      box-shadow: var(--shadow-md);
+      padding: var(--space-6);
+      margin-bottom: var(--space-6);
+      transition: var(--motion-transition-emphasized);
+      animation: var(--motion-animation-enter);
+    }
+
+    .card:hover {
+      box-shadow: var(--shadow-lg);
     }
     
     .color-palette {
-      display: flex;
-      flex-wrap: wrap;
-      gap: 1rem;
-      margin: 2rem 0;
+      display: grid;
+      grid-template-columns: repeat(2, 1fr);
+      gap: var(--space-4);
+      margin: var(--space-8) 0;
+    }
+
+    @media (min-width: ${scales.breakpoints.md}) {
+      .color-palette {
+        grid-template-columns: repeat(5, 1fr);
+      }
     }
     
     .color-swatch {
-      width: 100px;
       height: 100px;
-      border-radius: 0.5rem;
+      border-radius: var(--radius-lg);
       display: flex;
       align-items: center;
       justify-content: center;
@@ -194,10 +212,23 @@ function generateDeploymentFiles(theme: any, deploymentOptions: any) {
       font-weight: bold;
       text-shadow: 0 1px 2px rgba(0, 0, 0, 0.3);
     }
+
+    .theme-toggle {
+      position: absolute;
+      top: var(--space-4);
+      right: var(--space-4);
+      background: transparent;
+      color: inherit;
+      border: 1px solid currentColor;
+      border-radius: var(--radius-md);
+      padding: var(--space-1) var(--space-3);
+      cursor: pointer;
+    }
   </style>
 </head>
 <body>
   <header>
+    <button type="button" class="theme-toggle" aria-label="Toggle light and dark mode">Light / Dark</button>
     <div class="container">
       <h1>${theme.name}</h1>
       <p>${theme.description || `A ${theme.type} theme`}</p>
@@ -214,11 +245,11 @@ function generateDeploymentFiles(theme: any, deploymentOptions: any) {
     <div class="card">
       <h2>Color Palette</h2>
       <div class="color-palette">
-        <div class="color-swatch" style="background-color: ${theme.colorPalette.primary}">Primary</div>
-        <div class="color-swatch" style="background-color: ${theme.colorPalette.secondary}">Secondary</div>
-        <div class="color-swatch" style="background-color: ${theme.colorPalette.accent || '#f59e0b'}">Accent</div>
-        <div class="color-swatch" style="background-color: ${theme.colorPalette.background}; color: ${theme.colorPalette.text}">Background</div>
-        <div class="color-swatch" style="background-color: ${theme.colorPalette.text}">Text</div>
+        <div class="color-swatch" style="background-color: var(--color-primary)">Primary</div>
+        <div class="color-swatch" style="background-color: var(--color-secondary)">Secondary</div>
+        <div class="color-swatch" style="background-color: var(--color-accent)">Accent</div>
+        <div class="color-swatch" style="background-color: var(--color-background); color: var(--color-text)">Background</div>
+        <div class="color-swatch" style="background-color: var(--color-text); color: var(--color-background)">Text</div>
       </div>
     </div>
     
@@ -237,6 +268,22 @@ function generateDeploymentFiles(theme: any, deploymentOptions: any) {
       <p>Theme created with Shades by DTI Technologies</p>
     </div>
   </footer>
+
+  <script>
+    (function () {
+      var root = document.documentElement;
+      var stored = localStorage.getItem('shades-color-scheme');
+      if (stored) root.setAttribute('data-theme', stored);
+
+      document.querySelector('.theme-toggle').addEventListener('click', function () {
+        var current = root.getAttribute('data-theme')
+          || (window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light');
+        var next = current === 'dark' ? 'light' : 'dark';
+        root.setAttribute('data-theme', next);
+        localStorage.setItem('shades-color-scheme', next);
+      });
+    })();
+  </script>
 </body>
 </html>
   `;
@@ -278,6 +325,10 @@ function generateDeploymentFiles(theme: any, deploymentOptions: any) {
   };
 }
 
+function indentLines(text: string, indent: string) {
+  return text.split('\n').map(line => (line ? indent + line : line)).join('\n');
+}
+
 /**
  * Generate a deployment URL based on deployment options
  */
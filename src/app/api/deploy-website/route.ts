@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { isAuthenticated, getCurrentUserId } from '@/lib/auth';
 import dbConnect from '@/lib/mongoose';
 import { Website, Activity } from '@/models';
+import { ASSET_BASE_PATH, getAssetStore, isAssetPath, toAssetFile } from '@/services/assets';
 import { z } from 'zod';
 
 // Define validation schema for request body
@@ -72,7 +73,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate deployment files
-    const deploymentFiles = generateDeploymentFiles(website, deploymentOptions);
+    const deploymentFiles = await generateDeploymentFiles(website, deploymentOptions);
 
     // Perform the deployment based on the selected platform
     const deploymentUrl = await performDeployment(deploymentFiles, deploymentOptions);
@@ -96,7 +97,9 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       message: 'Website deployment successful',
-      deploymentFiles,
+      // Binary assets are listed by path; text files are returned as deployed
+      deploymentFiles: Object.fromEntries(Object.entries(deploymentFiles).filter(([, content]) => typeof content === 'string')),
+      assetFiles: Object.keys(deploymentFiles).filter(path => typeof deploymentFiles[path] !== 'string'),
       deploymentUrl,
     });
   } catch (error) {
@@ -109,15 +112,24 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Generate deployment files for the website
+ * File a crawled page is deployed as: directories get an index.html, e.g. /pricing becomes pricing/index.html
  */
-function generateDeploymentFiles(website: any, deploymentOptions: any) {
-  const { rebrandedContent } = website;
-  const { html, css } = rebrandedContent;
+function toPageFile(path: string): string {
+  const pathname = path.split('?')[0].replace(/^\/+/, '');
+  if (!pathname || pathname.endsWith('/')) {
+    return `${pathname}index.html`;
+  }
+  return /\.html?$/.test(pathname) ? pathname : `${pathname}/index.html`;
+}
 
-  // Create index.html with embedded CSS
+/**
+ * Insert a page's stylesheets into its HTML
+ */
+function renderPage({ html, css }: { html: string; css: string[] }): string {
+  // Create the page with embedded CSS
   const cssLinks = css.map((cssUrl: string) => {
-    if (cssUrl.startsWith('http')) {
+    // Stored stylesheets are linked like remote ones and deployed with the other assets
+    if (cssUrl.startsWith('http') || isAssetPath(cssUrl)) {
       return `<link rel="stylesheet" href="${cssUrl}">`;
     } else {
       return `<style>${cssUrl}</style>`;
@@ -125,11 +137,76 @@ function generateDeploymentFiles(website: any, deploymentOptions: any) {
   }).join('\n');
 
   // Insert CSS links into HTML
-  let indexHtml = html;
-  if (indexHtml.includes('</head>')) {
-    indexHtml = indexHtml.replace('</head>', `${cssLinks}\n</head>`);
-  } else {
-    indexHtml = `<html><head>${cssLinks}</head>${indexHtml}</html>`;
+  if (html.includes('</head>')) {
+    return html.replace('</head>', `${cssLinks}\n</head>`);
+  }
+  return `<html><head>${cssLinks}</head>${html}</html>`;
+}
+
+// A reference to a stored asset in a page or stylesheet, captured when the site was scraped
+const ASSET_REFERENCE = new RegExp(`${ASSET_BASE_PATH}/([a-f0-9]{64})`, 'g');
+
+/**
+ * Point references to stored assets at the deployment's own copies
+ */
+function toDeployedReferences(text: string): string {
+  return text.split(`${ASSET_BASE_PATH}/`).join('/assets/');
+}
+
+/**
+ * Collect the stored assets the pages reference, and those their stylesheets reference in turn,
+ * as files under assets/ so the deployment loads nothing from the app or the source site
+ */
+async function generateAssetFiles(pageFiles: Record<string, string>): Promise<Record<string, string | Buffer>> {
+  const store = getAssetStore();
+  const assetFiles: Record<string, string | Buffer> = {};
+  const seen = new Set<string>();
+  const pending = Object.values(pageFiles);
+
+  while (pending.length > 0) {
+    for (const [, hash] of Array.from(pending.pop()!.matchAll(ASSET_REFERENCE))) {
+      if (seen.has(hash)) continue;
+      seen.add(hash);
+
+      const stored = await store.get(hash);
+      if (!stored) {
+        throw new Error(`Asset ${hash} is missing from the asset store`);
+      }
+
+      const file = `assets/${toAssetFile(stored.asset)}`;
+      if (stored.asset.contentType === 'text/css') {
+        const css = stored.data.toString('utf8');
+        pending.push(css);
+        assetFiles[file] = toDeployedReferences(css);
+      } else {
+        assetFiles[file] = stored.data;
+      }
+    }
+  }
+
+  return assetFiles;
+}
+
+/**
+ * Generate deployment files for the website
+ */
+async function generateDeploymentFiles(website: any, deploymentOptions: any): Promise<Record<string, string | Buffer>> {
+  const pageFiles: Record<string, string> = {
+    'index.html': renderPage(website.rebrandedContent),
+  };
+
+  // Crawled sites deploy every rebranded page at its original path; pages sharing a path
+  // apart from their query string are deployed once
+  for (const page of website.pages || []) {
+    const file = toPageFile(page.path);
+    if (page.rebrandedContent?.html && !(file in pageFiles)) {
+      pageFiles[file] = renderPage(page.rebrandedContent);
+    }
+  }
+
+  const assetFiles = await generateAssetFiles(pageFiles);
+  for (const file of Object.keys(pageFiles)) {
+    pageFiles[file] = toDeployedReferences(pageFiles[file]);
   }
 
   // Generate configuration files based on platform
@@ -139,7 +216,7 @@ function generateDeploymentFiles(website: any, deploymentOptions: any) {
     case 'vercel':
       configFiles['vercel.json'] = JSON.stringify({
         version: 2,
-        builds: [{ src: '*.html', use: '@vercel/static' }],
+        builds: [{ src: '**/*', use: '@vercel/static' }],
         routes: [{ handle: 'filesystem' }, { src: '/(.*)', dest: '/index.html' }],
       }, null, 2);
       break;
@@ -160,7 +237,8 @@ function generateDeploymentFiles(website: any, deploymentOptions: any) {
   }
 
   return {
-    'index.html': indexHtml,
+    ...pageFiles,
+    ...assetFiles,
     ...configFiles,
   };
 }
@@ -169,7 +247,7 @@ function generateDeploymentFiles(website: any, deploymentOptions: any) {
  * Perform the actual deployment to the selected platform
  * In a production environment, this would integrate with the APIs of the respective platforms
  */
-async function performDeployment(deploymentFiles: Record<string, string>, deploymentOptions: any): Promise<string> {
+async function performDeployment(deploymentFiles: Record<string, string | Buffer>, deploymentOptions: any): Promise<string> {
   const { platform, customDomain, repositoryUrl, deploymentToken } = deploymentOptions;
 
   // In a real implementation, we would use the platform-specific APIs to deploy the files
@@ -0,0 +1,273 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthenticated, getCurrentUserId, isUserAdmin } from '@/lib/auth';
+import dbConnect from '@/lib/mongoose';
+import { DesignTrend } from '@/models';
+import type { IDesignTrend } from '@/models';
+import { findVisibleTrends } from '@/lib/designTrends';
+import { paletteRolesSchema, typographySchema } from '@/lib/themeValidation';
+import { z } from 'zod';
+
+// This ensures the API route is not statically generated
+export const dynamic = 'force-dynamic';
+
+const descriptorsSchema = z.array(z.string().trim().min(1).max(100)).max(20);
+
+// Define validation schema for trend fields
+const trendFieldsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(60, 'Name cannot be more than 60 characters'),
+  description: z.string().max(500, 'Description cannot be more than 500 characters').optional(),
+  features: z.object({
+    colorPalette: descriptorsSchema,
+    typography: descriptorsSchema,
+    components: descriptorsSchema,
+    animations: descriptorsSchema,
+    layout: descriptorsSchema,
+  }),
+  palette: paletteRolesSchema,
+  typography: typographySchema,
+});
+
+// Define validation schema for trend creation
+const trendCreateSchema = trendFieldsSchema.extend({
+  // Shared trends are visible to everyone and can only be created by admins
+  shared: z.boolean().optional(),
+});
+
+// Define validation schema for trend updates
+const trendUpdateSchema = z.object({
+  id: z.string().min(1, 'Trend ID is required'),
+  updates: trendFieldsSchema.partial().strict(),
+});
+
+/**
+ * Whether the current user may change a trend: admins manage shared trends, users their own
+ */
+function canManageTrend(trend: IDesignTrend, userId: string, isAdmin: boolean): boolean {
+  return trend.owner ? trend.owner.toString() === userId : isAdmin;
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number })?.code === 11000;
+}
+
+/**
+ * GET /api/design-trends
+ * List the shared trends and, for signed-in users, their private trends
+ */
+export async function GET() {
+  try {
+    const userId = await getCurrentUserId();
+    const isAdmin = userId ? await isUserAdmin() : false;
+
+    // Connect to database
+    await dbConnect();
+
+    const trends = await findVisibleTrends(userId);
+
+    return NextResponse.json({
+      trends: trends.map(trend => ({
+        ...trend.toObject(),
+        shared: !trend.owner,
+        editable: !!userId && canManageTrend(trend, userId, isAdmin),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching design trends:', error);
+    return NextResponse.json(
+      { error: `Failed to fetch design trends: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/design-trends
+ * Create a private trend, or a shared trend when the user is an admin
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await isAuthenticated(request);
+    if (authError) return authError;
+
+    // Get user ID
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID not found' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = trendCreateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { shared, ...fields } = validationResult.data;
+
+    if (shared && !(await isUserAdmin())) {
+      return NextResponse.json(
+        { error: 'Admin access required to create shared trends' },
+        { status: 403 }
+      );
+    }
+
+    // Connect to database
+    await dbConnect();
+
+    const trend = new DesignTrend({
+      ...fields,
+      owner: shared ? null : userId,
+      createdBy: userId,
+    });
+
+    await trend.save();
+
+    return NextResponse.json({ trend }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating design trend:', error);
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json(
+        { error: 'A trend with this name already exists' },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      { error: `Failed to create design trend: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/design-trends
+ * Update a trend the user manages
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await isAuthenticated(request);
+    if (authError) return authError;
+
+    // Get user ID
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID not found' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = trendUpdateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { id, updates } = validationResult.data;
+
+    // Connect to database
+    await dbConnect();
+
+    const trend = await DesignTrend.findById(id);
+    if (!trend) {
+      return NextResponse.json(
+        { error: 'Trend not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageTrend(trend, userId, await isUserAdmin())) {
+      return NextResponse.json(
+        { error: 'You do not have permission to update this trend' },
+        { status: 403 }
+      );
+    }
+
+    trend.set(updates);
+    await trend.save();
+
+    return NextResponse.json({ trend });
+  } catch (error) {
+    console.error('Error updating design trend:', error);
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json(
+        { error: 'A trend with this name already exists' },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      { error: `Failed to update design trend: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/design-trends?id=...
+ * Delete a trend the user manages
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await isAuthenticated(request);
+    if (authError) return authError;
+
+    // Get user ID
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID not found' },
+        { status: 401 }
+      );
+    }
+
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Trend ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Connect to database
+    await dbConnect();
+
+    const trend = await DesignTrend.findById(id);
+    if (!trend) {
+      return NextResponse.json(
+        { error: 'Trend not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageTrend(trend, userId, await isUserAdmin())) {
+      return NextResponse.json(
+        { error: 'You do not have permission to delete this trend' },
+        { status: 403 }
+      );
+    }
+
+    await trend.deleteOne();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting design trend:', error);
+    return NextResponse.json(
+      { error: `Failed to delete design trend: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
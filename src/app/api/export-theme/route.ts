@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserId } from '@/lib/auth';
+import { getThemeRole } from '@/lib/themeAccess';
+import dbConnect from '@/lib/mongoose';
+import { Theme } from '@/models';
+import { DesignTokenExporter } from '@/services/ai/exporter/designTokenExporter';
+import { ThemeCompiler } from '@/services/ai/exporter/themeCompiler';
+import { EditorThemeExporter } from '@/services/ai/exporter/editorThemeExporter';
+import { toSlug } from '@/services/ai/exporter/archive';
+import { z } from 'zod';
+
+// This ensures the API route is not statically generated
+export const dynamic = 'force-dynamic';
+
+// Define validation schema for query parameters
+const exportQuerySchema = z.object({
+  id: z.string().min(1, 'Theme ID is required'),
+  format: z.enum(['dtcg', 'style-dictionary', 'zip', 'editor']).default('dtcg'),
+});
+
+/**
+ * GET /api/export-theme
+ * Export a saved theme as design tokens, or as a zip of ready-to-use code or editor themes
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validationResult = exportQuerySchema.safeParse({
+      id: searchParams.get('id') || '',
+      format: searchParams.get('format') || undefined,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { id, format } = validationResult.data;
+
+    // Connect to database
+    await dbConnect();
+
+    // Find theme
+    const theme = await Theme.findById(id).lean();
+    if (!theme) {
+      return NextResponse.json(
+        { error: 'Theme not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check if user can access this theme
+    if (!theme.isPublic) {
+      const userId = await getCurrentUserId();
+      if (!userId || !(await getThemeRole(theme, userId))) {
+        return NextResponse.json(
+          { error: 'You do not have permission to export this theme' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const slug = toSlug(theme.name);
+
+    if (format === 'zip' || format === 'editor') {
+      const archive = format === 'zip'
+        ? await new ThemeCompiler().createArchive(theme)
+        : await new EditorThemeExporter().createArchive(theme);
+
+      return new NextResponse(archive, {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${format === 'zip' ? slug : `${slug}-editor-themes`}.zip"`,
+        },
+      });
+    }
+
+    const exporter = new DesignTokenExporter();
+    const tokens = format === 'style-dictionary'
+      ? exporter.toStyleDictionary(theme)
+      : exporter.toDTCG(theme);
+
+    const filename = format === 'style-dictionary' ? `${slug}.style-dictionary.json` : `${slug}.tokens.json`;
+
+    return new NextResponse(JSON.stringify(tokens, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting theme:', error);
+    return NextResponse.json(
+      { error: `Failed to export theme: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
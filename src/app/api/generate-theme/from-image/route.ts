@@ -0,0 +1,88 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { ThemeGenerator } from '@/services/ai/generator/themeGenerator';
+import { ImagePaletteError, ImagePaletteExtractor } from '@/services/ai/analyzer/imagePaletteExtractor';
+import { StructuredOutputError } from '@/services/ai/openai/structuredOutput';
+import { getCurrentUserId } from '@/lib/auth';
+import { loadGeneratorTrends } from '@/lib/designTrends';
+import { z } from 'zod';
+
+// This ensures the API route is not statically generated
+export const dynamic = 'force-dynamic';
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Define validation schema for the form fields next to the upload
+const themeFromImageSchema = z.object({
+    themeType: z.string().min(1).optional(),
+    projectType: z.string().optional(),
+    description: z.string().max(500).optional(),
+});
+
+/**
+ * POST /api/generate-theme/from-image
+ * Generate a theme around the dominant colors of an uploaded PNG, JPEG or SVG.
+ * Expects multipart form data with the image in the "image" field.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const formData = await request.formData();
+        const image = formData.get('image');
+
+        if (!image || typeof image === 'string') {
+            return NextResponse.json(
+                { error: 'An image file is required' },
+                { status: 400 }
+            );
+        }
+
+        if (image.size > MAX_IMAGE_BYTES) {
+            return NextResponse.json(
+                { error: 'Images must be 10 MB or smaller' },
+                { status: 413 }
+            );
+        }
+
+        const validationResult = themeFromImageSchema.safeParse({
+            themeType: formData.get('themeType') || undefined,
+            projectType: formData.get('projectType') || undefined,
+            description: formData.get('description') || undefined,
+        });
+        if (!validationResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: validationResult.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const { themeType, projectType, description } = validationResult.data;
+
+        const { palette, swatches } = new ImagePaletteExtractor().extractPalette(Buffer.from(await image.arrayBuffer()));
+
+        const trends = await loadGeneratorTrends(await getCurrentUserId());
+
+        const theme = await new ThemeGenerator(undefined, trends).generateAITheme(themeType || 'Custom', projectType || 'web', {
+            colorPalette: palette,
+            description: description || 'Build the theme around the colors of the uploaded image.'
+        });
+
+        return NextResponse.json({ theme, palette, swatches });
+    } catch (error) {
+        console.error('Error generating theme from image:', error);
+        if (error instanceof ImagePaletteError) {
+            return NextResponse.json(
+                { error: error.message, reason: error.reason },
+                { status: error.reason === 'too_large' ? 413 : 400 }
+            );
+        }
+        if (error instanceof StructuredOutputError) {
+            return NextResponse.json(
+                { error: `Failed to generate theme from image: ${error.message}`, reason: error.reason, issues: error.issues },
+                { status: 502 }
+            );
+        }
+        return NextResponse.json(
+            { error: `Failed to generate theme from image: ${error instanceof Error ? error.message : String(error)}` },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,66 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { ThemeGenerator } from '@/services/ai/generator/themeGenerator';
+import { BrandAnalyzer } from '@/services/ai/analyzer/brandAnalyzer';
+import { WebsiteScraper } from '@/services/ai/scraper/websiteScraper';
+import { StructuredOutputError } from '@/services/ai/openai/structuredOutput';
+import { getCurrentUserId } from '@/lib/auth';
+import { loadGeneratorTrends } from '@/lib/designTrends';
+import { z } from 'zod';
+
+// This ensures the API route is not statically generated
+export const dynamic = 'force-dynamic';
+
+// Define validation schema for request body
+const themeFromUrlSchema = z.object({
+    url: z.string().url('A valid URL is required').refine(
+        url => /^https?:\/\//i.test(url),
+        'Only http and https URLs can be scraped'
+    ),
+    themeType: z.string().min(1).optional(),
+    projectType: z.string().optional(),
+    useProxy: z.boolean().optional(),
+    // Render the page in headless Chromium, for sites built with JavaScript
+    render: z.boolean().optional(),
+});
+
+/**
+ * POST /api/generate-theme/from-url
+ * Scrape a website, detect its brand and generate a theme that matches it
+ */
+export async function POST(request: NextRequest) {
+    try {
+        // Validate request body
+        const body = await request.json();
+        const validationResult = themeFromUrlSchema.safeParse(body);
+        if (!validationResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: validationResult.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const { url, themeType, projectType, useProxy, render } = validationResult.data;
+
+        // Scrape through the scrape-website route, served by this app
+        const scrapedContent = await new WebsiteScraper(request.nextUrl.origin).scrapeWebsite(url, useProxy, render);
+        const brand = await new BrandAnalyzer().analyzeBrand(scrapedContent);
+
+        const trends = await loadGeneratorTrends(await getCurrentUserId());
+
+        const theme = await new ThemeGenerator(undefined, trends).generateBrandTheme(brand, themeType, projectType || 'web');
+
+        return NextResponse.json({ theme, brand });
+    } catch (error) {
+        console.error('Error generating theme from URL:', error);
+        if (error instanceof StructuredOutputError) {
+            return NextResponse.json(
+                { error: `Failed to generate theme from URL: ${error.message}`, reason: error.reason, issues: error.issues },
+                { status: 502 }
+            );
+        }
+        return NextResponse.json(
+            { error: `Failed to generate theme from URL: ${error instanceof Error ? error.message : String(error)}` },
+            { status: 500 }
+        );
+    }
+}
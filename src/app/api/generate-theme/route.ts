@@ -1,27 +1,30 @@
 import { NextResponse, NextRequest } from 'next/server';
 import { ThemeGenerator } from '@/services/ai/generator/themeGenerator';
+import { ContrastAuditor } from '@/services/ai/analyzer/contrastAuditor';
+import { StructuredOutputError } from '@/services/ai/openai/structuredOutput';
 import { isAuthenticated, getCurrentUserId } from '@/lib/auth';
 import dbConnect from '@/lib/mongoose';
-import { Theme } from '@/models';
+import { Theme, Collaboration, ThemeRevision } from '@/models';
+import type { ThemeSnapshot } from '@/models';
+import { getThemeRole, canEditTheme } from '@/lib/themeAccess';
+import { NEXT_REVISION, SNAPSHOT_FIELDS, ensureInitialRevision, recordThemeRevision } from '@/lib/themeHistory';
+import { loadGeneratorTrends } from '@/lib/designTrends';
+import { themeGenerationRequestSchema, themeUpdateSchema } from '@/lib/themeValidation';
 import { z } from 'zod';
 
 // This ensures the API route is not statically generated
 export const dynamic = 'force-dynamic';
 
-// Define validation schema for request body
-const themeRequestSchema = z.object({
-    themeType: z.string().min(1, 'Theme type is required'),
-    projectType: z.string().optional(),
-    useAI: z.boolean().optional(),
-    saveToDatabase: z.boolean().optional(),
-    customOptions: z.object({
-        colorPalette: z.record(z.string()).optional(),
-        typography: z.record(z.string()).optional(),
-        components: z.record(z.any()).optional(),
-        description: z.string().optional(),
-    }).optional(),
+// Define validation schema for theme updates
+const themeUpdateRequestSchema = z.object({
+    id: z.string().min(1, 'Theme ID is required'),
+    updates: themeUpdateSchema,
+    expectedUpdatedAt: z.string().datetime().optional(),
 });
 
+// Fields collaborators with the editor role may change
+const EDITOR_UPDATES = ['name', 'description', 'colorPalette', 'typography', 'components', 'pageLayouts'];
+
 export async function POST(request: NextRequest) {
     try {
         // Check authentication if saving to database
@@ -32,7 +35,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Validate request body
-        const validationResult = themeRequestSchema.safeParse(body);
+        const validationResult = themeGenerationRequestSchema.safeParse(body);
         if (!validationResult.success) {
             return NextResponse.json(
                 { error: 'Invalid request data', details: validationResult.error.format() },
@@ -40,17 +43,17 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const { themeType, projectType, useAI, saveToDatabase, customOptions } = validationResult.data;
+        const { themeType, projectType, useAI, saveToDatabase, seedColor, harmony, languages, pageCategories, customOptions } = validationResult.data;
+        const paletteOptions = { seedColor, harmony, languages, pageCategories };
 
-        // Generate the theme
-        const themeGenerator = new ThemeGenerator();
+        // Generate the theme against the trends visible to the user
+        const themeGenerator = new ThemeGenerator(undefined, await loadGeneratorTrends(await getCurrentUserId()));
         const theme = useAI
-            ? await themeGenerator.generateAITheme(themeType, projectType || 'web', customOptions)
-            : await themeGenerator.generateTheme(themeType, projectType || 'web');
+            ? await themeGenerator.generateAITheme(themeType, projectType || 'web', customOptions, paletteOptions)
+            : await themeGenerator.generateTheme(themeType, projectType || 'web', paletteOptions);
 
         // Save to database if requested
         if (saveToDatabase) {
-            await dbConnect();
             const userId = await getCurrentUserId();
 
             if (!userId) {
@@ -60,8 +63,12 @@ export async function POST(request: NextRequest) {
                 );
             }
 
+            // Connect to database
+            await dbConnect();
+
             const newTheme = new Theme({
                 ...theme,
+                accessibility: new ContrastAuditor().summarize(theme),
                 creator: userId,
                 description: customOptions?.description || `A ${themeType} theme for ${projectType || 'web'} projects`,
                 isPublished: false,
@@ -80,6 +87,12 @@ export async function POST(request: NextRequest) {
         return NextResponse.json(theme);
     } catch (error) {
         console.error('Error generating theme:', error);
+        if (error instanceof StructuredOutputError) {
+            return NextResponse.json(
+                { error: `Failed to generate theme: ${error.message}`, reason: error.reason, issues: error.issues },
+                { status: 502 }
+            );
+        }
         return NextResponse.json(
             { error: `Failed to generate theme: ${error instanceof Error ? error.message : String(error)}` },
             { status: 500 }
@@ -102,18 +115,19 @@ export async function PATCH(request: NextRequest) {
             );
         }
 
-        // Parse request body
+        // Parse and validate request body
         const body = await request.json();
-        const { id, updates } = body;
-
-        if (!id) {
+        const validationResult = themeUpdateRequestSchema.safeParse(body);
+        if (!validationResult.success) {
             return NextResponse.json(
-                { error: 'Theme ID is required' },
+                { error: 'Invalid request data', details: validationResult.error.format() },
                 { status: 400 }
             );
         }
 
-        if (!updates || Object.keys(updates).length === 0) {
+        const { id, updates, expectedUpdatedAt } = validationResult.data;
+
+        if (Object.keys(updates).length === 0) {
             return NextResponse.json(
                 { error: 'No updates provided' },
                 { status: 400 }
@@ -132,39 +146,81 @@ export async function PATCH(request: NextRequest) {
             );
         }
 
-        // Check if user owns the theme
-        if (theme.creator.toString() !== userId) {
+        // Owners can change anything, editors only the design of the theme
+        const role = await getThemeRole(theme, userId);
+        if (!canEditTheme(role)) {
             return NextResponse.json(
                 { error: 'You do not have permission to update this theme' },
                 { status: 403 }
             );
         }
 
-        // Validate updates
-        const allowedUpdates = [
-            'name', 'description', 'isPublished', 'isPublic', 'price', 'tags', 'previewImage',
-            'colorPalette', 'typography', 'components'
-        ];
+        if (role === 'editor') {
+            const ownerOnlyUpdates = Object.keys(updates).filter(key => !EDITOR_UPDATES.includes(key));
+            if (ownerOnlyUpdates.length > 0) {
+                return NextResponse.json(
+                    { error: `Only the owner can update: ${ownerOnlyUpdates.join(', ')}` },
+                    { status: 403 }
+                );
+            }
+        }
 
-        const invalidUpdates = Object.keys(updates).filter(key => !allowedUpdates.includes(key));
-        if (invalidUpdates.length > 0) {
+        // Reject saves based on a stale copy so concurrent editors don't overwrite each other
+        if (expectedUpdatedAt && new Date(expectedUpdatedAt).getTime() !== theme.updatedAt.getTime()) {
             return NextResponse.json(
-                { error: `Invalid updates: ${invalidUpdates.join(', ')}` },
-                { status: 400 }
+                { error: 'This theme has been modified since it was loaded', theme },
+                { status: 409 }
             );
         }
 
-        // Update theme
-        const updatedTheme = await Theme.findByIdAndUpdate(
-            id,
-            { $set: updates },
+        // Only changes to the theme's design and details are versioned, not publishing settings
+        const versionedFields = Object.keys(updates).filter(key => SNAPSHOT_FIELDS.includes(key as keyof ThemeSnapshot));
+        if (versionedFields.length > 0) {
+            await ensureInitialRevision(theme);
+        }
+
+        // Re-audit contrast against the theme as it will be saved
+        const accessibility = updates.colorPalette || updates.components || updates.pageLayouts
+            ? new ContrastAuditor().summarize({
+                colorPalette: updates.colorPalette || theme.colorPalette,
+                components: updates.components || theme.components,
+                pageLayouts: updates.pageLayouts || theme.pageLayouts,
+            })
+            : undefined;
+
+        // Update theme, allocating the revision that records versioned changes. Saves based on a copy
+        // only apply while the theme is unchanged, so of two concurrent saves the second is rejected
+        const updatedTheme = await Theme.findOneAndUpdate(
+            expectedUpdatedAt ? { _id: id, updatedAt: theme.updatedAt } : { _id: id },
+            {
+                $set: accessibility ? { ...updates, accessibility } : updates,
+                ...(versionedFields.length > 0 ? NEXT_REVISION : {})
+            },
             { new: true, runValidators: true }
         );
 
+        if (!updatedTheme) {
+            const current = await Theme.findById(id);
+            return current
+                ? NextResponse.json(
+                    { error: 'This theme has been modified since it was loaded', theme: current },
+                    { status: 409 }
+                )
+                : NextResponse.json(
+                    { error: 'Theme not found' },
+                    { status: 404 }
+                );
+        }
+
+        const revision = versionedFields.length > 0
+            ? await recordThemeRevision(updatedTheme, userId, { changedFields: versionedFields })
+            : null;
+
         return NextResponse.json({
             success: true,
             message: 'Theme updated successfully',
-            theme: updatedTheme
+            theme: updatedTheme,
+            revision: revision?.revision
         });
     } catch (error) {
         console.error('Error updating theme:', error);
@@ -220,8 +276,9 @@ export async function DELETE(request: NextRequest) {
             );
         }
 
-        // Delete theme
+        // Delete theme and its history
         await Theme.findByIdAndDelete(id);
+        await ThemeRevision.deleteMany({ theme: id });
 
         return NextResponse.json({ success: true, message: 'Theme deleted successfully' });
     } catch (error) {
@@ -238,9 +295,8 @@ export async function GET(request: NextRequest) {
         const { searchParams } = new URL(request.url);
         const action = searchParams.get('action');
 
-        const themeGenerator = new ThemeGenerator();
-
         if (action === 'getThemeTypes') {
+            const themeGenerator = new ThemeGenerator(undefined, await loadGeneratorTrends(await getCurrentUserId()));
             const themeTypes = themeGenerator.getAvailableThemeTypes();
             return NextResponse.json({ themeTypes });
         } else if (action === 'getThemePreview') {
@@ -252,6 +308,7 @@ export async function GET(request: NextRequest) {
                 );
             }
 
+            const themeGenerator = new ThemeGenerator(undefined, await loadGeneratorTrends(await getCurrentUserId()));
             const preview = themeGenerator.getThemePreview(themeType);
             return NextResponse.json(preview);
         } else if (action === 'getUserThemes') {
@@ -274,9 +331,54 @@ export async function GET(request: NextRequest) {
             // Get user's themes
             const themes = await Theme.find({ creator: userId })
                 .sort({ updatedAt: -1 })
-                .select('name type description colorPalette isPublished isPublic downloads rating createdAt updatedAt');
+                .select('name type description colorPalette accessibility isPublished isPublic downloads rating createdAt updatedAt');
 
             return NextResponse.json({ themes });
+        } else if (action === 'getEditableThemes') {
+            // Check authentication
+            const authError = await isAuthenticated(request);
+            if (authError) return authError;
+
+            // Get user ID
+            const userId = await getCurrentUserId();
+            if (!userId) {
+                return NextResponse.json(
+                    { error: 'User ID not found' },
+                    { status: 401 }
+                );
+            }
+
+            // Connect to database
+            await dbConnect();
+
+            // Themes shared with the user for editing
+            const collaborations = await Collaboration.find({
+                resourceType: 'theme',
+                user: userId,
+                status: 'accepted',
+                role: { $in: ['owner', 'editor'] },
+            }).select('resource role');
+
+            const themes = await Theme.find({
+                $or: [
+                    { creator: userId },
+                    { _id: { $in: collaborations.map(collaboration => collaboration.resource) } }
+                ]
+            })
+                .sort({ updatedAt: -1 })
+                .select('name type creator updatedAt');
+
+            return NextResponse.json({
+                themes: themes.map(theme => ({
+                    _id: theme._id,
+                    name: theme.name,
+                    type: theme.type,
+                    updatedAt: theme.updatedAt,
+                    role: theme.creator.toString() === userId
+                        ? 'owner'
+                        : collaborations.find(c => c.resource.toString() === String(theme._id))?.role
+                }))
+            });
         } else if (action === 'getPublicThemes') {
             // Connect to database
             await dbConnect();
@@ -302,7 +404,7 @@ export async function GET(request: NextRequest) {
                 .sort(sort === 'rating' ? { rating: -1 } : sort === 'downloads' ? { downloads: -1 } : { createdAt: -1 })
                 .skip(skip)
                 .limit(limit)
-                .select('name type description colorPalette creator isPublished isPublic downloads rating createdAt updatedAt')
+                .select('name type description colorPalette accessibility creator isPublished isPublic downloads rating ratingCount createdAt updatedAt')
                 .populate('creator', 'name image');
 
             return NextResponse.json({
@@ -340,7 +442,7 @@ export async function GET(request: NextRequest) {
             // Check if user can access this theme
             if (!theme.isPublic) {
                 const userId = await getCurrentUserId();
-                if (!userId || userId !== theme.creator.toString()) {
+                if (!userId || !(await getThemeRole(theme, userId))) {
                     return NextResponse.json(
                         { error: 'You do not have permission to access this theme' },
                         { status: 403 }
@@ -0,0 +1,79 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { isAuthenticated, getCurrentUserId } from '@/lib/auth';
+import dbConnect from '@/lib/mongoose';
+import { Theme } from '@/models';
+import { ContrastAuditor } from '@/services/ai/analyzer/contrastAuditor';
+import { SNAPSHOT_FIELDS, recordThemeRevision } from '@/lib/themeHistory';
+import { themeCreateSchema } from '@/lib/themeValidation';
+
+// This ensures the API route is not statically generated
+export const dynamic = 'force-dynamic';
+
+/**
+ * Save a generated theme, such as one streamed from the generator, as an unpublished theme of the user.
+ * Its first revision is recorded with it, so the first edit can be undone.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        // Check authentication
+        const authError = await isAuthenticated(request);
+        if (authError) return authError;
+
+        // Get user ID
+        const userId = await getCurrentUserId();
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'User ID not found' },
+                { status: 401 }
+            );
+        }
+
+        // Validate request body
+        const body = await request.json();
+        const validationResult = themeCreateSchema.safeParse(body.theme);
+        if (!validationResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: validationResult.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const data = validationResult.data;
+
+        // Connect to database
+        await dbConnect();
+
+        const theme = new Theme({
+            ...data,
+            description: data.description || `A ${data.type} theme`,
+            accessibility: new ContrastAuditor().summarize({
+                colorPalette: data.colorPalette,
+                components: data.components || {},
+                pageLayouts: data.pageLayouts || {},
+            }),
+            creator: userId,
+            isPublished: data.isPublished ?? false,
+            isPublic: data.isPublic ?? false,
+            revisionCount: 1,
+        });
+
+        await theme.save();
+
+        const revision = await recordThemeRevision(theme, userId, {
+            source: 'initial',
+            changedFields: [...SNAPSHOT_FIELDS],
+        });
+
+        return NextResponse.json({
+            success: true,
+            theme,
+            revision: revision.revision
+        }, { status: 201 });
+    } catch (error) {
+        console.error('Error saving theme:', error);
+        return NextResponse.json(
+            { error: `Failed to save theme: ${error instanceof Error ? error.message : String(error)}` },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,99 @@
+import { NextResponse, NextRequest } from 'next/server';
+import { GenerationCancelledError, GenerationHooks, ThemeGenerator } from '@/services/ai/generator/themeGenerator';
+import { StructuredOutputError } from '@/services/ai/openai/structuredOutput';
+import { formatServerSentEvent } from '@/lib/serverSentEvents';
+import { themeGenerationRequestSchema } from '@/lib/themeValidation';
+import { getCurrentUserId } from '@/lib/auth';
+import { loadGeneratorTrends } from '@/lib/designTrends';
+
+// This ensures the API route is not statically generated
+export const dynamic = 'force-dynamic';
+
+// Streamed themes are saved from the generator page once the user keeps them
+const streamRequestSchema = themeGenerationRequestSchema.omit({ saveToDatabase: true });
+
+/**
+ * Generate a theme and stream its progress as Server-Sent Events:
+ * - `stage`: a stage started or completed; completed stages carry the partial theme
+ * - `theme`: the finished theme
+ * - `error`: generation failed; the stream ends after it
+ * Closing the connection cancels the run.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+
+        // Validate request body
+        const validationResult = streamRequestSchema.safeParse(body);
+        if (!validationResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid request data', details: validationResult.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const { themeType, projectType, useAI, seedColor, harmony, languages, pageCategories, customOptions } = validationResult.data;
+        const paletteOptions = { seedColor, harmony, languages, pageCategories };
+
+        const trends = await loadGeneratorTrends(await getCurrentUserId());
+
+        // Aborted when the client disconnects or cancels the stream
+        const abortController = new AbortController();
+        request.signal?.addEventListener('abort', () => abortController.abort());
+
+        const encoder = new TextEncoder();
+        const stream = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                const send = (event: string, data: unknown) => {
+                    if (!abortController.signal.aborted) {
+                        controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+                    }
+                };
+
+                const hooks: GenerationHooks = {
+                    signal: abortController.signal,
+                    onProgress: progress => send('stage', progress),
+                };
+
+                try {
+                    const themeGenerator = new ThemeGenerator(undefined, trends);
+                    const theme = useAI
+                        ? await themeGenerator.generateAITheme(themeType, projectType || 'web', customOptions, paletteOptions, hooks)
+                        : await themeGenerator.generateTheme(themeType, projectType || 'web', paletteOptions, hooks);
+
+                    send('theme', theme);
+                } catch (error) {
+                    if (!(error instanceof GenerationCancelledError)) {
+                        console.error('Error streaming theme generation:', error);
+                        send('error', error instanceof StructuredOutputError
+                            ? { error: `Failed to generate theme: ${error.message}`, reason: error.reason, issues: error.issues }
+                            : { error: `Failed to generate theme: ${error instanceof Error ? error.message : String(error)}` });
+                    }
+                } finally {
+                    try {
+                        controller.close();
+                    } catch {
+                        // The client already cancelled the stream
+                    }
+                }
+            },
+            cancel() {
+                abortController.abort();
+            },
+        });
+
+        return new Response(stream, {
+            headers: {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache, no-transform',
+                Connection: 'keep-alive',
+            },
+        });
+    } catch (error) {
+        console.error('Error generating theme:', error);
+        return NextResponse.json(
+            { error: `Failed to generate theme: ${error instanceof Error ? error.message : String(error)}` },
+            { status: 500 }
+        );
+    }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { OpenAIService } from '@/services/ai/openai/openaiService';
+import { StructuredOutputError, fromJsonSchema } from '@/services/ai/openai/structuredOutput';
 import { isAuthenticated } from '@/lib/auth';
 import { z } from 'zod';
 
@@ -45,7 +46,9 @@ export async function POST(request: NextRequest) {
     // Generate response based on request type
     let response;
     if (structured && schema) {
-      response = await openaiService.generateStructuredData(prompt, schema, options);
+      // Accept a full JSON Schema or, as before, a map of property schemas
+      const jsonSchema = schema.type === 'object' && schema.properties ? schema : { type: 'object', properties: schema };
+      response = await openaiService.generateStructuredData(prompt, fromJsonSchema(jsonSchema), options);
     } else {
       response = await openaiService.generateText(prompt, options);
     }
@@ -53,6 +56,12 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ result: response });
   } catch (error) {
     console.error('Error in OpenAI API route:', error);
+    if (error instanceof StructuredOutputError) {
+      return NextResponse.json(
+        { error: `OpenAI API error: ${error.message}`, reason: error.reason, issues: error.issues },
+        { status: 502 }
+      );
+    }
     return NextResponse.json(
       { error: `OpenAI API error: ${error instanceof Error ? error.message : String(error)}` },
       { status: 500 }
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { isAuthenticated, getCurrentUserId } from '@/lib/auth';
 import dbConnect from '@/lib/mongoose';
-import { Website, Activity } from '@/models';
+import { Website, Activity, IWebsiteContent, IRebrandedContent } from '@/models';
 import { OpenAIService } from '@/services/ai/openai/openaiService';
+import { getAssetStore, storeStylesheets } from '@/services/assets';
 import * as cheerio from 'cheerio';
 import { z } from 'zod';
 
@@ -83,12 +84,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get original content
-    const { html, css } = website.originalContent;
-
-    // Rebrand the website
-    let rebrandedHtml = html;
-    let rebrandedCss = [...css];
+    // Stylesheets added to every page of the site
+    const addedCss: string[] = [];
 
     if (useAI) {
       // Use OpenAI to help with rebranding
@@ -116,27 +113,12 @@ export async function POST(request: NextRequest) {
       const aiGeneratedCss = await openAIService.generateText(prompt, { temperature: 0.7 });
 
       // Add the AI-generated CSS to the rebranded CSS
-      rebrandedCss.push(aiGeneratedCss);
+      addedCss.push(aiGeneratedCss);
     }
 
-    // Basic rebranding (replace text, colors, etc.)
-    const $ = cheerio.load(rebrandedHtml);
-
-    // Replace brand name in text nodes
     const oldBrandName = website.brandElements.name;
     const newBrandName = newBrandElements.name;
 
-    $('body').find('*').contents().each((_, element) => {
-      if (element.type === 'text' && element.data) {
-        element.data = element.data.replace(new RegExp(oldBrandName, 'g'), newBrandName);
-      }
-    });
-
-    // Replace logo if provided
-    if (newBrandElements.logo && website.brandElements.logo) {
-      $('img[src*="logo"], img[alt*="logo"], img[alt*="Logo"]').attr('src', newBrandElements.logo);
-    }
-
     // Generate CSS for color replacements
     let colorReplacementCss = '';
     const oldColors = website.brandElements.colors;
@@ -167,18 +149,40 @@ export async function POST(request: NextRequest) {
     `;
 
     // Add the color replacement CSS to the rebranded CSS
-    rebrandedCss.push(colorReplacementCss);
+    addedCss.push(colorReplacementCss);
 
-    // Update the rebranded HTML
-    rebrandedHtml = $.html();
+    // Every page gets the same added CSS, so it is stored once and the pages reference it
+    const addedStylesheets = await storeStylesheets(getAssetStore(), addedCss);
 
-    // Update website with rebranded content
-    website.rebrandedContent = {
-      html: rebrandedHtml,
-      css: rebrandedCss,
-      images: website.originalContent.images,
+    // Basic rebranding (replace text, logo) of one page
+    const rebrandPage = ({ html, css, images }: IWebsiteContent): IRebrandedContent => {
+      const $ = cheerio.load(html);
+
+      // Replace brand name in text nodes
+      $('body').find('*').contents().each((_, element) => {
+        if (element.type === 'text' && element.data) {
+          element.data = element.data.replace(new RegExp(oldBrandName, 'g'), newBrandName);
+        }
+      });
+
+      // Replace logo if provided
+      if (newBrandElements.logo && website.brandElements.logo) {
+        $('img[src*="logo"], img[alt*="logo"], img[alt*="Logo"]').attr('src', newBrandElements.logo);
+      }
+
+      return {
+        html: $.html(),
+        css: [...css, ...addedStylesheets],
+        images,
+      };
     };
 
+    // Update website with rebranded content; crawled sites rebrand every page
+    website.rebrandedContent = rebrandPage(website.originalContent);
+    for (const page of website.pages) {
+      page.rebrandedContent = rebrandPage(page.originalContent);
+    }
+
     // Update brand elements
     website.brandElements = newBrandElements;
 
@@ -193,6 +197,7 @@ export async function POST(request: NextRequest) {
       metadata: {
         oldBrandName,
         newBrandName,
+        pages: Math.max(website.pages.length, 1),
       },
     });
 
@@ -1,15 +1,34 @@
 import { NextResponse, NextRequest } from 'next/server';
-import axios from 'axios';
-import * as cheerio from 'cheerio';
+import { z } from 'zod';
 import { isAuthenticated, getCurrentUserId } from '@/lib/auth';
 import dbConnect from '@/lib/mongoose';
-import { Website } from '@/models';
-import { Logger } from '@/lib/logger';
-import { ProxyService } from '@/services/ai/scraper/proxyService';
+import { IWebsiteContent, Website } from '@/models';
+import { logger } from '@/lib/logger';
+import { parsePage } from '@/services/ai/scraper/pageParser';
+import { BrowserRenderer, getBrowserRendererOptions } from '@/services/ai/scraper/browserRenderer';
+import type { ComputedStyles } from '@/services/ai/scraper/computedStyles';
+import { FetchError, FetchFailure, ProxyMode, getFetchPipeline } from '@/services/ai/scraper/fetchPipeline';
+import { StylesheetInliner } from '@/services/ai/scraper/stylesheetInliner';
+import { CrawledPage, MAX_CRAWL_PAGES, SiteCrawler } from '@/services/ai/scraper/siteCrawler';
+import { FetchedAsset, MAX_ASSET_BYTES, SiteSnapshotter } from '@/services/ai/scraper/siteSnapshotter';
+import { getAssetStore, storeStylesheets } from '@/services/assets';
+import type { ScrapedContent } from '@/services/ai/scraper/websiteScraper';
 
 // This ensures the API route is not statically generated
 export const dynamic = 'force-dynamic';
 
+function toWebsiteContent(content: ScrapedContent): IWebsiteContent {
+    return {
+        html: content.html,
+        css: content.css,
+        images: content.images,
+        // Untitled pages are named after their URL
+        title: content.title || content.url,
+        description: content.description,
+        structure: content.structure
+    };
+}
+
 export async function POST(request: NextRequest) {
     try {
         // Check authentication
@@ -39,19 +58,43 @@ export async function POST(request: NextRequest) {
         // Connect to database
         await dbConnect();
 
+        // Capture the assets every page loads, so previews and deployments no longer depend on the source site
+        const store = getAssetStore();
+        const snapshotter = new SiteSnapshotter(fetchAsset, store);
+        const startPage: ScrapedContent = await snapshotter.snapshot(scrapedContent);
+        const pages: CrawledPage[] = [];
+        for (const page of (scrapedContent.pages || []) as CrawledPage[]) {
+            pages.push(await snapshotter.snapshot(page));
+        }
+
+        // Pages of a site share most of their stylesheets, so each is stored once and pages reference it;
+        // inlined copies on every page would outgrow MongoDB's document size limit
+        const toStoredContent = async (page: ScrapedContent): Promise<IWebsiteContent> =>
+            toWebsiteContent({ ...page, css: await storeStylesheets(store, page.css) });
+        const storedPages = [];
+        for (const page of pages) {
+            storedPages.push({
+                path: page.path,
+                url: page.url,
+                depth: page.depth,
+                originalContent: await toStoredContent(page)
+            });
+        }
+
+        const failures = snapshotter.getFailures();
+        if (failures.length > 0) {
+            console.warn(`Could not capture ${failures.length} assets of ${scrapedContent.url}:`, failures);
+        }
+
         // Create website
         const website = new Website({
             name,
             url: scrapedContent.url,
             description: description || scrapedContent.description,
-            originalContent: {
-                html: scrapedContent.html,
-                css: scrapedContent.css,
-                images: scrapedContent.images,
-                title: scrapedContent.title,
-                description: scrapedContent.description,
-                structure: scrapedContent.structure
-            },
+            originalContent: await toStoredContent(startPage),
+            // Crawled sites keep every page as its own entry
+            pages: storedPages,
+            assets: snapshotter.getAssets(),
             brandElements: brandElements || {
                 name: name,
                 colors: {
@@ -85,9 +128,50 @@ export async function POST(request: NextRequest) {
     }
 }
 
+// Crawl mode parameters; lists are comma-separated path globs
+const crawlQuerySchema = z.object({
+    maxDepth: z.coerce.number().int().min(0).max(5).optional(),
+    maxPages: z.coerce.number().int().min(1).max(MAX_CRAWL_PAGES).optional(),
+    sameOrigin: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+    respectRobotsTxt: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+    include: z.string().transform(splitGlobs).optional(),
+    exclude: z.string().transform(splitGlobs).optional(),
+});
+
+function splitGlobs(value: string): string[] {
+    return value.split(',').map(glob => glob.trim()).filter(Boolean);
+}
+
+// Response statuses for fetch failures; the others are failures of the site upstream
+const FETCH_FAILURE_STATUS: Partial<Record<FetchFailure, number>> = {
+    timeout: 504,
+    non_html: 422,
+    private_address: 403,
+};
+
+/**
+ * Fetch a stylesheet; error pages served as HTML are not stylesheets
+ */
+async function fetchStylesheet(url: string): Promise<string> {
+    const response = await getFetchPipeline().fetch(url, { accept: 'text/css,*/*;q=0.1' });
+    if (/text\/html/i.test(response.contentType)) {
+        throw new Error(`Not a stylesheet: ${url}`);
+    }
+    return response.data.toString('utf8');
+}
+
+/**
+ * Fetch an asset's bytes
+ */
+async function fetchAsset(url: string): Promise<FetchedAsset> {
+    const { data, contentType } = await getFetchPipeline().fetch(url, { maxBytes: MAX_ASSET_BYTES });
+    return { data, contentType: contentType || undefined };
+}
+
 export async function GET(request: NextRequest) {
-    const logger = new Logger('scrape-website');
-    const proxyService = new ProxyService();
+    // Download linked stylesheets so the analyzer and rebrander see the whole cascade
+    const stylesheetInliner = new StylesheetInliner(fetchStylesheet);
+    let renderer: BrowserRenderer | null = null;
 
     try {
         // Skip authentication for GET requests - we're just scraping public websites
@@ -97,6 +181,12 @@ export async function GET(request: NextRequest) {
         const url = searchParams.get('url');
         const useProxy = searchParams.get('useProxy') === 'true';
 
+        // Rendering launches Chromium and crawling fans out into many fetches, so only signed-in users may do either
+        if (searchParams.get('render') === 'true' || searchParams.get('crawl') === 'true') {
+            const authError = await isAuthenticated(request);
+            if (authError) return authError;
+        }
+
         if (!url) {
             return NextResponse.json(
                 { error: 'URL parameter is required' },
@@ -104,137 +194,77 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        logger.info(`Attempting to scrape website: ${url}${useProxy ? ' using proxy' : ''}`);
-
-        let html: string;
+        // Only the operator's proxies are used; without any, there is nothing to fetch through
+        const pipeline = getFetchPipeline();
+        if (useProxy && !pipeline.hasProxies()) {
+            return NextResponse.json(
+                { error: 'Proxy fetching is not available: set SCRAPER_PROXIES to the proxies the scraper may use' },
+                { status: 501 }
+            );
+        }
+        // Proxies are a fallback unless requested, when every fetch goes through them
+        const proxyMode: ProxyMode = useProxy ? 'always' : 'fallback';
 
-        // If proxy is explicitly requested, use it directly
-        if (useProxy) {
-            try {
-                html = await proxyService.fetchViaProxy(url);
-                logger.info(`Successfully fetched website content via proxy from: ${url}`);
-            } catch (proxyError) {
-                logger.error('Proxy fetch failed:', {
-                    error: proxyError instanceof Error ? proxyError.message : String(proxyError),
-                    url
-                });
+        // Sites built with JavaScript are rendered in headless Chromium; the proxy only serves plain fetches
+        if (searchParams.get('render') === 'true') {
+            const options = getBrowserRendererOptions();
+            if (!options) {
                 return NextResponse.json(
-                    { error: `Failed to fetch via proxy: ${proxyError instanceof Error ? proxyError.message : String(proxyError)}` },
-                    { status: 502 }
+                    { error: 'Rendering is not available: set CHROMIUM_EXECUTABLE_PATH to a Chromium build on the server' },
+                    { status: 501 }
                 );
             }
-        } else {
-            // Try direct fetch first
-            try {
-                // Configure axios with timeout and headers to mimic a browser
-                const response = await axios.get(url, {
-                    timeout: 15000, // 15 seconds timeout
-                    headers: {
-                        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-                        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-                        'Accept-Language': 'en-US,en;q=0.5',
-                        'Referer': 'https://www.google.com/',
-                        'DNT': '1',
-                        'Connection': 'keep-alive',
-                        'Upgrade-Insecure-Requests': '1',
-                        'Cache-Control': 'max-age=0'
-                    },
-                    maxRedirects: 5
-                });
-
-                logger.info(`Successfully fetched website content directly from: ${url}`);
-                html = response.data;
-            } catch (directError) {
-                logger.warn('Direct fetch failed, trying proxy as fallback:', {
-                    error: directError instanceof Error ? directError.message : String(directError),
-                    url
-                });
-
-                // If direct fetch fails, try via proxy as fallback
-                try {
-                    html = await proxyService.fetchViaProxy(url);
-                    logger.info(`Successfully fetched website content via proxy fallback from: ${url}`);
-                } catch (proxyError) {
-                    logger.error('Both direct and proxy fetch failed:', {
-                        directError: directError instanceof Error ? directError.message : String(directError),
-                        proxyError: proxyError instanceof Error ? proxyError.message : String(proxyError),
-                        url
-                    });
-
-                    // Re-throw the original error to be handled by the catch block
-                    throw directError;
-                }
-            }
+            renderer = new BrowserRenderer(options);
         }
 
-        // Parse the HTML
-        const $ = cheerio.load(html);
-
-        // Extract CSS
-        const cssLinks: string[] = [];
-        $('link[rel="stylesheet"]').each((_, element) => {
-            const href = $(element).attr('href');
-            if (href) {
-                // Handle relative URLs
-                if (href.startsWith('http')) {
-                    cssLinks.push(href);
-                } else {
-                    const baseUrl = new URL(url);
-                    const absoluteUrl = new URL(href, baseUrl.origin).toString();
-                    cssLinks.push(absoluteUrl);
-                }
+        // Computed styles of rendered pages by URL
+        const computedStyles = new Map<string, ComputedStyles>();
+        const fetchRobots = async (robotsUrl: string): Promise<string> => {
+            const response = await pipeline.fetch(robotsUrl, { accept: 'text/plain', proxy: proxyMode });
+            return response.data.toString('utf8');
+        };
+        const fetchPage = async (pageUrl: string): Promise<string> => {
+            if (!renderer) {
+                return pipeline.fetchHtml(pageUrl, proxyMode);
             }
-        });
-
-        // Extract inline CSS
-        const inlineStyles: string[] = [];
-        $('style').each((_, element) => {
-            inlineStyles.push($(element).html() || '');
-        });
+            await pipeline.checkAddress(pageUrl);
+            const rendered = await renderer.render(pageUrl);
+            computedStyles.set(pageUrl, rendered.computedStyles);
+            return rendered.html;
+        };
 
-        // Extract images
-        const images: string[] = [];
-        $('img').each((_, element) => {
-            const src = $(element).attr('src');
-            if (src) {
-                // Handle relative URLs
-                if (src.startsWith('http')) {
-                    images.push(src);
-                } else {
-                    const baseUrl = new URL(url);
-                    const absoluteUrl = new URL(src, baseUrl.origin).toString();
-                    images.push(absoluteUrl);
-                }
+        if (searchParams.get('crawl') === 'true') {
+            const validationResult = crawlQuerySchema.safeParse(Object.fromEntries(searchParams));
+            if (!validationResult.success) {
+                return NextResponse.json(
+                    { error: 'Invalid request data', details: validationResult.error.format() },
+                    { status: 400 }
+                );
             }
-        });
 
-        // Extract metadata
-        const title = $('title').text() || '';
-        const description = $('meta[name="description"]').attr('content') || '';
-
-        // Analyze structure
-        const hasHeader = $('header').length > 0 || $('div[class*="header"]').length > 0;
-        const hasFooter = $('footer').length > 0 || $('div[class*="footer"]').length > 0;
-        const hasNavigation = $('nav').length > 0 || $('div[class*="nav"]').length > 0;
-        const sectionCount = $('section').length + $('div[class*="section"]').length;
-
-        // Combine all CSS
-        const allCss = [...cssLinks, ...inlineStyles];
-
-        const scrapedContent = {
-            html,
-            css: allCss,
-            images,
-            title,
-            description,
-            url,
-            structure: {
-                header: hasHeader,
-                footer: hasFooter,
-                navigation: hasNavigation,
-                sections: sectionCount
+            logger.info(`Attempting to crawl website: ${url}${renderer ? ' rendering pages' : useProxy ? ' using proxy' : ''}`);
+
+            const crawler = new SiteCrawler(fetchPage, fetchRobots);
+            const { pages, skipped } = await crawler.crawl(url, validationResult.data);
+            for (const page of pages) {
+                page.css = await stylesheetInliner.inline(page.css, page.url);
+                page.computedStyles = computedStyles.get(page.url);
             }
-        };
+            const { path, depth, ...startPage } = pages[0];
+
+            logger.info(`Crawled ${pages.length} pages from: ${url}`, { skipped: skipped.length });
+
+            return NextResponse.json({ ...startPage, pages, skipped });
+        }
+
+        logger.info(`Attempting to scrape website: ${url}${renderer ? ' rendering the page' : useProxy ? ' using proxy' : ''}`);
+
+        const html = await fetchPage(url);
+
+        // Links are only needed to crawl
+        const { links, ...scrapedContent } = parsePage(html, url);
+        scrapedContent.css = await stylesheetInliner.inline(scrapedContent.css, url);
+        scrapedContent.computedStyles = computedStyles.get(url);
 
         return NextResponse.json(scrapedContent);
     } catch (error) {
@@ -244,32 +274,12 @@ export async function GET(request: NextRequest) {
             stack: error instanceof Error ? error.stack : undefined
         });
 
-        // Provide more specific error messages based on the type of error
-        if (axios.isAxiosError(error)) {
-            if (error.code === 'ECONNABORTED') {
-                return NextResponse.json(
-                    { error: 'Request timed out. The website might be too slow to respond.' },
-                    { status: 504 }
-                );
-            }
-
-            if (error.response) {
-                // The request was made and the server responded with a status code
-                // that falls out of the range of 2xx
-                return NextResponse.json(
-                    {
-                        error: `Website returned an error: ${error.response.status} ${error.response.statusText}`,
-                        details: error.response.data
-                    },
-                    { status: error.response.status }
-                );
-            } else if (error.request) {
-                // The request was made but no response was received
-                return NextResponse.json(
-                    { error: 'No response received from the website. It might be down or blocking our requests.' },
-                    { status: 502 }
-                );
-            }
+        // Say why the site could not be fetched; no placeholder page is ever returned in its place
+        if (error instanceof FetchError) {
+            return NextResponse.json(
+                { error: error.message, reason: error.reason, url: error.url, status: error.status },
+                { status: FETCH_FAILURE_STATUS[error.reason] || 502 }
+            );
         }
 
         // Generic error response for other types of errors
@@ -277,5 +287,9 @@ export async function GET(request: NextRequest) {
             { error: `Failed to scrape website: ${error instanceof Error ? error.message : String(error)}` },
             { status: 500 }
         );
+    } finally {
+        await renderer?.close().catch(closeError => logger.warn('Failed to close the browser:', {
+            error: closeError instanceof Error ? closeError.message : String(closeError)
+        }));
     }
 }
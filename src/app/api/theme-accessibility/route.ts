@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserId } from '@/lib/auth';
+import dbConnect from '@/lib/mongoose';
+import { Theme } from '@/models';
+import { getThemeRole } from '@/lib/themeAccess';
+import { ContrastAuditor } from '@/services/ai/analyzer/contrastAuditor';
+import { z } from 'zod';
+
+// This ensures the API route is not statically generated
+export const dynamic = 'force-dynamic';
+
+// Define validation schema for audit and repair requests
+const accessibilityRequestSchema = z.object({
+  id: z.string().min(1, 'Theme ID is required'),
+  target: z.enum(['AA', 'AAA']).default('AA'),
+});
+
+/**
+ * Load a theme the current user may read, or the error response to return instead
+ */
+async function loadTheme(id: string) {
+  await dbConnect();
+
+  const theme = await Theme.findById(id).lean();
+  if (!theme) {
+    return { error: NextResponse.json({ error: 'Theme not found' }, { status: 404 }) };
+  }
+
+  if (!theme.isPublic) {
+    const userId = await getCurrentUserId();
+    if (!userId || !(await getThemeRole(theme, userId))) {
+      return {
+        error: NextResponse.json(
+          { error: 'You do not have permission to access this theme' },
+          { status: 403 }
+        ),
+      };
+    }
+  }
+
+  return { theme };
+}
+
+/**
+ * GET /api/theme-accessibility
+ * Audit the contrast of every foreground/background pair a theme uses
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validationResult = accessibilityRequestSchema.safeParse({
+      id: searchParams.get('id') || '',
+      target: searchParams.get('target') || undefined,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { id, target } = validationResult.data;
+    const { theme, error } = await loadTheme(id);
+    if (error) return error;
+
+    return NextResponse.json({ report: new ContrastAuditor().audit(theme, target) });
+  } catch (error) {
+    console.error('Error auditing theme contrast:', error);
+    return NextResponse.json(
+      { error: `Failed to audit theme: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/theme-accessibility
+ * Propose a repaired palette, components and layouts that meet the target level.
+ * Nothing is saved; apply the result through PATCH /api/generate-theme.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = accessibilityRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { id, target } = validationResult.data;
+    const { theme, error } = await loadTheme(id);
+    if (error) return error;
+
+    const { theme: repaired, changes, before, after } = new ContrastAuditor().repair(theme, target);
+
+    return NextResponse.json({
+      changes,
+      before,
+      after,
+      updates: {
+        colorPalette: repaired.colorPalette,
+        components: repaired.components,
+        pageLayouts: repaired.pageLayouts,
+      },
+    });
+  } catch (error) {
+    console.error('Error repairing theme contrast:', error);
+    return NextResponse.json(
+      { error: `Failed to repair theme: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
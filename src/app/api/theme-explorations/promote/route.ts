@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { isAuthenticated, getCurrentUserId } from '@/lib/auth';
+import dbConnect from '@/lib/mongoose';
+import { Theme, ThemeExploration } from '@/models';
+import { ContrastAuditor } from '@/services/ai/analyzer/contrastAuditor';
+import { z } from 'zod';
+
+// This ensures the API route is not statically generated
+export const dynamic = 'force-dynamic';
+
+// Define validation schema for request body
+const promoteSchema = z.object({
+  explorationId: z.string().min(1, 'Exploration ID is required'),
+  variantId: z.string().min(1, 'Variant ID is required'),
+  name: z.string().trim().min(1).max(100, 'Name cannot be more than 100 characters').optional(),
+});
+
+/**
+ * POST /api/theme-explorations/promote
+ * Save one variant of an exploration as an unpublished theme
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await isAuthenticated(request);
+    if (authError) return authError;
+
+    // Get user ID
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID not found' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = promoteSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { explorationId, variantId, name } = validationResult.data;
+
+    // Connect to database
+    await dbConnect();
+
+    const exploration = await ThemeExploration.findOne({ _id: explorationId, creator: userId });
+    if (!exploration) {
+      return NextResponse.json(
+        { error: 'Exploration not found' },
+        { status: 404 }
+      );
+    }
+
+    const variant = exploration.variants.id(variantId);
+    if (!variant) {
+      return NextResponse.json(
+        { error: 'Variant not found' },
+        { status: 404 }
+      );
+    }
+
+    if (variant.promotedTheme) {
+      return NextResponse.json(
+        { error: 'This variant has already been saved as a theme', themeId: variant.promotedTheme.toString() },
+        { status: 409 }
+      );
+    }
+
+    const theme = new Theme({
+      ...variant.theme,
+      name: name || variant.theme.name,
+      description: exploration.description.slice(0, 500),
+      accessibility: new ContrastAuditor().summarize(variant.theme),
+      creator: userId,
+      isPublished: false,
+      isPublic: false,
+      tags: [variant.trend, exploration.projectType],
+    });
+
+    await theme.save();
+
+    variant.promotedTheme = theme._id as mongoose.Types.ObjectId;
+    await exploration.save();
+
+    return NextResponse.json({
+      themeId: theme._id ? theme._id.toString() : undefined,
+      theme,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error promoting theme variant:', error);
+    return NextResponse.json(
+      { error: `Failed to promote theme variant: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthenticated, getCurrentUserId } from '@/lib/auth';
+import dbConnect from '@/lib/mongoose';
+import { ThemeExploration } from '@/models';
+import { colorSchema } from '@/lib/themeValidation';
+import { loadDesignTrends } from '@/lib/designTrends';
+import { MAX_VARIANTS, ThemeExplorer } from '@/services/ai/generator/themeExplorer';
+import { ThemeGenerator } from '@/services/ai/generator/themeGenerator';
+import { StructuredOutputError } from '@/services/ai/openai/structuredOutput';
+import { z } from 'zod';
+
+// This ensures the API route is not statically generated
+export const dynamic = 'force-dynamic';
+
+// Define validation schema for query parameters
+const explorationQuerySchema = z.object({
+  id: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+// Define validation schema for batch generation requests
+const explorationRequestSchema = z.object({
+  description: z.string().trim().min(1, 'Description is required').max(1000, 'Description cannot be more than 1000 characters'),
+  count: z.number().int().min(1).max(MAX_VARIANTS, `At most ${MAX_VARIANTS} variants can be generated at once`),
+  themeType: z.string().min(1).optional(),
+  projectType: z.string().optional(),
+  seedColors: z.array(colorSchema).max(MAX_VARIANTS).optional(),
+});
+
+/**
+ * GET /api/theme-explorations
+ * List the user's explorations, or fetch one with its variants
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await isAuthenticated(request);
+    if (authError) return authError;
+
+    // Get user ID
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID not found' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validationResult = explorationQuerySchema.safeParse(
+      Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ''))
+    );
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { id, page, limit } = validationResult.data;
+
+    // Connect to database
+    await dbConnect();
+
+    if (id) {
+      const exploration = await ThemeExploration.findOne({ _id: id, creator: userId });
+      if (!exploration) {
+        return NextResponse.json(
+          { error: 'Exploration not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ exploration });
+    }
+
+    // List explorations, newest first, without the bulky parts of their themes
+    const total = await ThemeExploration.countDocuments({ creator: userId });
+    const explorations = await ThemeExploration.find({ creator: userId })
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .select('-variants.theme.styles -variants.theme.pageLayouts');
+
+    return NextResponse.json({
+      explorations,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching theme explorations:', error);
+    return NextResponse.json(
+      { error: `Failed to fetch theme explorations: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/theme-explorations
+ * Generate a batch of candidate themes for a brief and keep them as a draft exploration
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await isAuthenticated(request);
+    if (authError) return authError;
+
+    // Get user ID
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID not found' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = explorationRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { description, count, themeType, projectType, seedColors } = validationResult.data;
+
+    // Connect to database
+    await dbConnect();
+
+    // Variants rotate through the trends visible to the user
+    const themeGenerator = new ThemeGenerator(undefined, await loadDesignTrends(userId));
+    const variants = await new ThemeExplorer(themeGenerator).explore(description, { count, themeType, projectType, seedColors });
+
+    const exploration = new ThemeExploration({
+      creator: userId,
+      description,
+      themeType,
+      projectType: projectType || 'web',
+      seedColors: seedColors || [],
+      variants,
+    });
+
+    await exploration.save();
+
+    return NextResponse.json({ exploration, failed: count - variants.length }, { status: 201 });
+  } catch (error) {
+    console.error('Error generating theme exploration:', error);
+    if (error instanceof StructuredOutputError) {
+      return NextResponse.json(
+        { error: `Failed to generate theme exploration: ${error.message}`, reason: error.reason, issues: error.issues },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json(
+      { error: `Failed to generate theme exploration: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,263 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAuthenticated, getCurrentUserId } from '@/lib/auth';
+import dbConnect from '@/lib/mongoose';
+import { Theme, ThemeRevision } from '@/models';
+import { getThemeRole, canEditTheme } from '@/lib/themeAccess';
+import { ContrastAuditor } from '@/services/ai/analyzer/contrastAuditor';
+import { NEXT_REVISION, createSnapshot, diffSnapshots, ensureInitialRevision, recordThemeRevision } from '@/lib/themeHistory';
+import { z } from 'zod';
+
+// This ensures the API route is not statically generated
+export const dynamic = 'force-dynamic';
+
+const revisionNumber = z.coerce.number().int().min(1);
+
+// Define validation schema for query parameters
+const revisionQuerySchema = z.object({
+  themeId: z.string().min(1, 'Theme ID is required'),
+  action: z.enum(['list', 'get', 'diff']).default('list'),
+  revision: revisionNumber.optional(),
+  from: revisionNumber.optional(),
+  // Omitting "to" diffs against the theme's current state
+  to: revisionNumber.optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Define validation schema for rollback requests
+const rollbackSchema = z.object({
+  themeId: z.string().min(1, 'Theme ID is required'),
+  revision: revisionNumber,
+});
+
+/**
+ * GET /api/theme-revisions
+ * List a theme's revisions, fetch one revision, or diff two revisions
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await isAuthenticated(request);
+    if (authError) return authError;
+
+    // Get user ID
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID not found' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validationResult = revisionQuerySchema.safeParse(
+      Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ''))
+    );
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { themeId, action, revision, from, to, page, limit } = validationResult.data;
+
+    // Connect to database
+    await dbConnect();
+
+    // Find theme
+    const theme = await Theme.findById(themeId);
+    if (!theme) {
+      return NextResponse.json(
+        { error: 'Theme not found' },
+        { status: 404 }
+      );
+    }
+
+    // Any collaborator may view the history
+    const role = await getThemeRole(theme, userId);
+    if (!role) {
+      return NextResponse.json(
+        { error: 'You do not have permission to view this theme\'s history' },
+        { status: 403 }
+      );
+    }
+
+    if (action === 'get') {
+      if (!revision) {
+        return NextResponse.json(
+          { error: 'Revision number is required' },
+          { status: 400 }
+        );
+      }
+
+      const themeRevision = await ThemeRevision.findOne({ theme: themeId, revision })
+        .populate('author', 'name image');
+      if (!themeRevision) {
+        return NextResponse.json(
+          { error: 'Revision not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ revision: themeRevision });
+    }
+
+    if (action === 'diff') {
+      if (!from) {
+        return NextResponse.json(
+          { error: 'The "from" revision is required' },
+          { status: 400 }
+        );
+      }
+
+      const revisions = await ThemeRevision.find({ theme: themeId, revision: { $in: to ? [from, to] : [from] } });
+      const fromRevision = revisions.find(r => r.revision === from);
+      const toRevision = to ? revisions.find(r => r.revision === to) : undefined;
+
+      if (!fromRevision || (to && !toRevision)) {
+        return NextResponse.json(
+          { error: 'Revision not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        from,
+        to: to || 'current',
+        diff: diffSnapshots(fromRevision.snapshot, toRevision ? toRevision.snapshot : createSnapshot(theme)),
+      });
+    }
+
+    // List revisions, newest first, without their snapshots
+    const total = await ThemeRevision.countDocuments({ theme: themeId });
+    const revisions = await ThemeRevision.find({ theme: themeId })
+      .sort({ revision: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .select('-snapshot')
+      .populate('author', 'name image');
+
+    return NextResponse.json({
+      revisions,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching theme revisions:', error);
+    return NextResponse.json(
+      { error: `Failed to fetch theme revisions: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/theme-revisions
+ * Roll a theme back to an earlier revision. The rollback itself becomes a new revision,
+ * so it can be undone like any other change.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await isAuthenticated(request);
+    if (authError) return authError;
+
+    // Get user ID
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID not found' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validationResult = rollbackSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validationResult.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { themeId, revision } = validationResult.data;
+
+    // Connect to database
+    await dbConnect();
+
+    // Find theme
+    const theme = await Theme.findById(themeId);
+    if (!theme) {
+      return NextResponse.json(
+        { error: 'Theme not found' },
+        { status: 404 }
+      );
+    }
+
+    const role = await getThemeRole(theme, userId);
+    if (!canEditTheme(role)) {
+      return NextResponse.json(
+        { error: 'You do not have permission to update this theme' },
+        { status: 403 }
+      );
+    }
+
+    const targetRevision = await ThemeRevision.findOne({ theme: themeId, revision });
+    if (!targetRevision) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    await ensureInitialRevision(theme);
+
+    // Restore the snapshot, recording which fields actually change
+    const diff = diffSnapshots(createSnapshot(theme), targetRevision.snapshot);
+    const changedFields = Array.from(new Set(
+      Object.values(diff).flat().map(change => change.path.split('.')[0])
+    ));
+
+    const restored = createSnapshot(targetRevision.snapshot);
+    const updatedTheme = await Theme.findByIdAndUpdate(
+      themeId,
+      { $set: { ...restored, accessibility: new ContrastAuditor().summarize(restored) }, ...NEXT_REVISION },
+      { new: true, runValidators: true }
+    );
+
+    if (!updatedTheme) {
+      return NextResponse.json(
+        { error: 'Theme not found' },
+        { status: 404 }
+      );
+    }
+
+    const newRevision = await recordThemeRevision(updatedTheme, userId, {
+      source: 'rollback',
+      changedFields,
+      restoredFrom: revision,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Theme rolled back to revision ${revision}`,
+      theme: updatedTheme,
+      revision: newRevision.revision,
+      diff,
+    });
+  } catch (error) {
+    console.error('Error rolling back theme:', error);
+    return NextResponse.json(
+      { error: `Failed to roll back theme: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
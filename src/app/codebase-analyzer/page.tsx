@@ -4,6 +4,7 @@ import { useState } from 'react';
 import FileUploader from '@/components/analyzer/FileUploader';
 import AnalysisResults from '@/components/analyzer/AnalysisResults';
 import { CodeAnalysisResult, CodeFile } from '@/services/ai/analyzer/codebaseAnalyzer';
+import type { TrendAlignment } from '@/services/ai/trends/designTrendAnalyzer';
 
 export default function CodebaseAnalyzerPage() {
   const [files, setFiles] = useState<File[]>([]);
@@ -11,6 +12,7 @@ export default function CodebaseAnalyzerPage() {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [error, setError] = useState('');
   const [analysisResults, setAnalysisResults] = useState<CodeAnalysisResult | null>(null);
+  const [trendAlignment, setTrendAlignment] = useState<TrendAlignment[]>([]);
   const [saveAnalysis, setSaveAnalysis] = useState(true);
 
   const handleFilesSelected = (newFiles: File[]) => {
@@ -97,6 +99,7 @@ export default function CodebaseAnalyzerPage() {
 
       const data = await response.json();
       setAnalysisResults(data.analysis);
+      setTrendAlignment(data.trendAlignment || []);
     } catch (error: any) {
       console.error('Error analyzing codebase:', error);
       setError(error.message || 'An error occurred while analyzing the codebase');
@@ -261,7 +264,7 @@ export default function CodebaseAnalyzerPage() {
 
           {/* Analysis Results */}
           {analysisResults && (
-            <AnalysisResults analysis={analysisResults} />
+            <AnalysisResults analysis={analysisResults} trendAlignment={trendAlignment} />
           )}
         </div>
       </div>
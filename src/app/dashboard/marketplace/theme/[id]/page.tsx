@@ -1,8 +1,11 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
+import TrendAlignmentPanel from '@/components/analyzer/TrendAlignmentPanel';
+import ComponentGallery from '@/components/marketplace/ComponentGallery';
+import { DesignTrendAnalyzer, DesignTrendDefinition, sampleTheme } from '@/services/ai/trends/designTrendAnalyzer';
 
 export default function ThemeDetailPage() {
   const params = useParams();
@@ -18,6 +21,7 @@ export default function ThemeDetailPage() {
   const [submittingReview, setSubmittingReview] = useState(false);
   const [reviewError, setReviewError] = useState('');
   const [downloadLoading, setDownloadLoading] = useState(false);
+  const [trends, setTrends] = useState<DesignTrendDefinition[]>([]);
 
   useEffect(() => {
     if (params.id) {
@@ -26,6 +30,16 @@ export default function ThemeDetailPage() {
     }
   }, [params.id]);
 
+  useEffect(() => {
+    fetchTrends();
+  }, []);
+
+  // Scored in the browser against the trends visible to the user
+  const trendAlignment = useMemo(
+    () => (theme && trends.length > 0 ? new DesignTrendAnalyzer(trends).rankTrendAlignment(sampleTheme(theme)) : []),
+    [theme, trends]
+  );
+
   const fetchTheme = async () => {
     try {
       setLoading(true);
@@ -60,6 +74,21 @@ export default function ThemeDetailPage() {
     }
   };
 
+  const fetchTrends = async () => {
+    try {
+      const response = await fetch('/api/design-trends');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch design trends');
+      }
+
+      const data = await response.json();
+      setTrends(data.trends || []);
+    } catch (error) {
+      console.error('Error fetching design trends:', error);
+    }
+  };
+
   const handleReviewSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setReviewError('');
@@ -105,10 +134,28 @@ export default function ThemeDetailPage() {
     }
   };
 
-  const handleDownload = async () => {
+  const handleDownload = async (format: 'zip' | 'editor') => {
     try {
       setDownloadLoading(true);
-      
+
+      // Fetch the compiled theme bundle (CSS, SCSS, Tailwind, TypeScript and tokens)
+      // or the matching editor themes (VS Code, JetBrains, Vim, highlight.js, Prism)
+      const response = await fetch(`/api/export-theme?id=${params.id}&format=${format}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to export theme');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${theme.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}${format === 'editor' ? '-editor-themes' : ''}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
       // Log the download
       await fetch('/api/analytics', {
         method: 'POST',
@@ -119,19 +166,16 @@ export default function ThemeDetailPage() {
           action: 'download',
           resourceType: 'theme',
           resourceId: params.id,
+          metadata: { format },
         }),
       });
-      
-      // In a real app, we would generate and download the theme files
-      // For now, we'll just simulate a download
-      setTimeout(() => {
-        setDownloadLoading(false);
-        alert('Theme downloaded successfully!');
-      }, 1000);
+
+      fetchTheme(); // Refresh theme to get updated download count
     } catch (error) {
       console.error('Error downloading theme:', error);
-      setDownloadLoading(false);
       alert('Failed to download theme. Please try again.');
+    } finally {
+      setDownloadLoading(false);
     }
   };
 
@@ -172,7 +216,14 @@ export default function ThemeDetailPage() {
           </div>
           <div className="mt-4 md:mt-0 flex space-x-3">
             <button
-              onClick={handleDownload}
+              onClick={() => handleDownload('editor')}
+              disabled={downloadLoading}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md shadow-sm text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Editor Themes
+            </button>
+            <button
+              onClick={() => handleDownload('zip')}
               disabled={downloadLoading}
               className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
             >
@@ -221,6 +272,13 @@ export default function ThemeDetailPage() {
                   </div>
                 )}
               </div>
+
+              {theme.components && (
+                <div className="mt-6">
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Components</h3>
+                  <ComponentGallery theme={theme} />
+                </div>
+              )}
             </div>
             
             <div className="border-t md:border-t-0 md:border-l border-gray-200 dark:border-gray-700 p-4 sm:p-6">
@@ -303,6 +361,15 @@ export default function ThemeDetailPage() {
                     </div>
                   </dl>
                 </div>
+
+                {trendAlignment.length > 0 && (
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900 dark:text-white">Design Trend Alignment</h3>
+                    <div className="mt-2">
+                      <TrendAlignmentPanel alignments={trendAlignment} />
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           </div>
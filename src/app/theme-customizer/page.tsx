@@ -1,34 +1,385 @@
 'use client';
 
-import { useState } from 'react';
+// This ensures the page is rendered on the client side
+// and not pre-rendered during build time
+export const dynamic = 'force-dynamic';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import axios from 'axios';
+import { GeneratedTheme } from '@/services/ai/generator/themeGenerator';
+import { Harmony, PaletteEngine, PaletteRole } from '@/services/ai/generator/paletteEngine';
+import { replaceColor } from '@/lib/color';
+import PaletteEditor from '@/components/customizer/PaletteEditor';
+import TypographyEditor from '@/components/customizer/TypographyEditor';
+import ComponentEditor from '@/components/customizer/ComponentEditor';
+import LayoutPreview from '@/components/customizer/LayoutPreview';
+import RevisionHistory from '@/components/customizer/RevisionHistory';
+import AccessibilityPanel from '@/components/customizer/AccessibilityPanel';
+
+interface EditableTheme {
+  _id: string;
+  name: string;
+  type: string;
+  updatedAt: string;
+  role: 'owner' | 'editor';
+}
+
+type ThemeDraft = Pick<GeneratedTheme, 'name' | 'colorPalette' | 'typography' | 'components' | 'pageLayouts'>;
+
+const paletteEngine = new PaletteEngine();
+
+type EditorTab = 'palette' | 'typography' | 'components' | 'accessibility';
+
+/**
+ * Replace every occurrence of a color in a style tree, including inside
+ * compound values such as borders, so components follow palette edits
+ */
+function replaceColorInTree(node: any, from: string, to: string): any {
+  return mapStrings(node, value => replaceColor(value, from, to));
+}
+
+/**
+ * Replace property values that exactly match the old value, e.g. a font stack
+ */
+function replaceValue(node: any, from: string, to: string): any {
+  return mapStrings(node, value => (value === from ? to : value));
+}
+
+function mapStrings(node: any, transform: (value: string) => string): any {
+  if (typeof node === 'string') {
+    return transform(node);
+  }
+  if (node && typeof node === 'object' && !Array.isArray(node)) {
+    return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, mapStrings(value, transform)]));
+  }
+  return node;
+}
+
+/**
+ * Set a nested property without mutating the original object
+ */
+function setPath(node: Record<string, any>, [key, ...rest]: string[], value: unknown): Record<string, any> {
+  return {
+    ...node,
+    [key]: rest.length === 0 ? value : setPath(node[key] || {}, rest, value),
+  };
+}
+
+/**
+ * Flatten zod's formatted error tree into readable "path: message" lines
+ */
+function formatValidationErrors(details: any, path: string[] = []): string[] {
+  if (!details || typeof details !== 'object') return [];
+
+  return Object.entries(details).flatMap(([key, value]: [string, any]) =>
+    key === '_errors'
+      ? (value as string[]).map(message => (path.length ? `${path.join('.')}: ${message}` : message))
+      : formatValidationErrors(value, [...path, key]));
+}
 
 export default function ThemeCustomizerPage() {
+  const { status } = useSession();
+  const [themes, setThemes] = useState<EditableTheme[]>([]);
+  const [selectedThemeId, setSelectedThemeId] = useState('');
+  const [draft, setDraft] = useState<ThemeDraft | null>(null);
+  const [savedDraft, setSavedDraft] = useState<string>('');
+  const [updatedAt, setUpdatedAt] = useState('');
+  const [activeTab, setActiveTab] = useState<EditorTab>('palette');
   const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [successMessage, setSuccessMessage] = useState('');
+
+  useEffect(() => {
+    const fetchThemes = async () => {
+      try {
+        // Skip API calls during server-side rendering
+        if (typeof window === 'undefined' || status !== 'authenticated') {
+          return;
+        }
+
+        const response = await axios.get('/api/generate-theme?action=getEditableThemes');
+        setThemes(response.data.themes);
+        if (response.data.themes.length > 0) {
+          setSelectedThemeId(response.data.themes[0]._id);
+        }
+      } catch (err) {
+        console.error('Error fetching themes:', err);
+        setError('Failed to load your themes. Please try again later.');
+      }
+    };
+
+    fetchThemes();
+  }, [status]);
+
+  useEffect(() => {
+    if (selectedThemeId) {
+      loadTheme(selectedThemeId);
+    }
+  }, [selectedThemeId]);
+
+  const loadTheme = async (id: string) => {
+    try {
+      setIsLoading(true);
+      setError('');
+      setValidationErrors([]);
+      setSuccessMessage('');
+
+      const response = await axios.get(`/api/generate-theme?action=getThemeById&id=${id}`);
+      const { name, colorPalette, typography, components, pageLayouts } = response.data.theme;
+      const loadedDraft = { name, colorPalette, typography, components, pageLayouts };
+
+      setDraft(loadedDraft);
+      setSavedDraft(JSON.stringify(loadedDraft));
+      setUpdatedAt(response.data.theme.updatedAt);
+    } catch (err) {
+      console.error('Error loading theme:', err);
+      setError('Failed to load the selected theme.');
+      setDraft(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePaletteChange = (role: PaletteRole, color: string) => {
+    if (!draft) return;
+
+    const previous = draft.colorPalette[role];
+    setDraft({
+      ...draft,
+      // Scales and the other color scheme are derived from the roles, so regenerate them
+      colorPalette: paletteEngine.enrichPalette({ ...draft.colorPalette, [role]: color }),
+      components: replaceColorInTree(draft.components, previous, color),
+      pageLayouts: replaceColorInTree(draft.pageLayouts, previous, color),
+    });
+  };
+
+  const handleGeneratePalette = (seedColor: string, harmony: Harmony) => {
+    if (!draft) return;
+
+    const generated = paletteEngine.generateHarmony(seedColor, harmony);
+    setDraft({
+      ...draft,
+      colorPalette: paletteEngine.enrichPalette(generated),
+      components: paletteEngine.applyPalette(draft.components, draft.colorPalette, generated),
+      pageLayouts: paletteEngine.applyPalette(draft.pageLayouts, draft.colorPalette, generated),
+    });
+  };
+
+  const handleTypographyChange = (field: keyof ThemeDraft['typography'], fontStack: string) => {
+    if (!draft) return;
+
+    const previous = draft.typography[field];
+    setDraft({
+      ...draft,
+      typography: { ...draft.typography, [field]: fontStack },
+      components: previous ? replaceValue(draft.components, previous, fontStack) : draft.components,
+      pageLayouts: previous ? replaceValue(draft.pageLayouts, previous, fontStack) : draft.pageLayouts,
+    });
+  };
+
+  const handleComponentChange = (path: string[], value: string | number) => {
+    if (!draft) return;
+    setDraft({ ...draft, components: setPath(draft.components, path, value) });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    try {
+      setIsSaving(true);
+      setError('');
+      setValidationErrors([]);
+      setSuccessMessage('');
+
+      const response = await axios.patch('/api/generate-theme', {
+        id: selectedThemeId,
+        updates: draft,
+        expectedUpdatedAt: updatedAt,
+      });
+
+      setSavedDraft(JSON.stringify(draft));
+      setUpdatedAt(response.data.theme.updatedAt);
+      setSuccessMessage('Theme saved successfully.');
+
+      // Log activity
+      await axios.post('/api/analytics', {
+        action: 'update',
+        resourceType: 'theme',
+        resourceId: selectedThemeId,
+        metadata: { name: draft.name, source: 'customizer' },
+      });
+    } catch (err) {
+      console.error('Error saving theme:', err);
+
+      if (axios.isAxiosError(err) && err.response?.status === 400 && err.response.data.details) {
+        setValidationErrors(formatValidationErrors(err.response.data.details.updates));
+        setError('Some values are invalid. Fix them and save again.');
+      } else if (axios.isAxiosError(err) && err.response?.status === 409) {
+        setError('Someone else saved this theme after you opened it. Reset to load their changes before saving again.');
+      } else {
+        const message = axios.isAxiosError(err) ? err.response?.data?.error || err.message : String(err);
+        setError(`Error saving theme: ${message}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDirty = draft !== null && JSON.stringify(draft) !== savedDraft;
+
+  if (status === 'unauthenticated') {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold mb-6">Theme Customizer</h1>
+        <div className="card">
+          <p className="mb-4">Sign in to customize your themes.</p>
+          <Link href="/auth/signin" className="btn-primary">Sign In</Link>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="container mx-auto px-4 py-8">
       <h1 className="text-3xl font-bold mb-6">Theme Customizer</h1>
-      
-      <div className="card">
-        <h2 className="text-xl font-bold mb-4">Customize Your Theme</h2>
-        <p className="mb-6">
-          This feature will be implemented soon. The Theme Customizer will allow you to customize an existing theme
-          to match your brand and preferences.
-        </p>
-        
-        <div className="bg-blue-50 border-l-4 border-blue-500 p-4 mb-6">
-          <p className="text-blue-700">
-            Coming soon! This feature is currently being migrated from the VS Code extension.
-          </p>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+          <p>{error}</p>
+          {validationErrors.length > 0 && (
+            <ul className="list-disc list-inside mt-2 text-sm">
+              {validationErrors.map((message) => <li key={message}>{message}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {successMessage && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-4">
+          {successMessage}
         </div>
-        
-        <button
-          disabled={true}
-          className="btn-primary opacity-50 cursor-not-allowed"
-        >
-          Customize Theme
-        </button>
+      )}
+
+      <div className="card mb-8">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[200px]">
+            <label htmlFor="theme" className="block text-gray-700 mb-2">Theme</label>
+            <select
+              id="theme"
+              value={selectedThemeId}
+              onChange={(e) => setSelectedThemeId(e.target.value)}
+              className="input-field"
+              disabled={isLoading || isSaving || themes.length === 0}
+            >
+              {themes.length === 0 && <option value="">No themes yet</option>}
+              {themes.map((theme) => (
+                <option key={theme._id} value={theme._id}>
+                  {theme.name}{theme.role === 'editor' ? ' (shared with you)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {draft && (
+            <div className="flex-1 min-w-[200px]">
+              <label htmlFor="themeName" className="block text-gray-700 mb-2">Name</label>
+              <input
+                id="themeName"
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="input-field"
+              />
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => loadTheme(selectedThemeId)}
+              disabled={!isDirty || isSaving}
+              className={`btn-secondary ${!isDirty || isSaving ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              Reset
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!isDirty || isSaving}
+              className={`btn-primary ${!isDirty || isSaving ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {isSaving ? 'Saving...' : 'Save Theme'}
+            </button>
+          </div>
+        </div>
+
+        {themes.length === 0 && (
+          <p className="mt-4 text-gray-500">
+            You don&apos;t have any themes yet. <Link href="/theme-generator" className="text-blue-600 hover:underline">Generate one</Link> to start customizing.
+          </p>
+        )}
       </div>
+
+      {isLoading && (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      )}
+
+      {draft && !isLoading && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="card">
+            <div className="flex border-b border-gray-200 mb-4">
+              {(['palette', 'typography', 'components', 'accessibility'] as EditorTab[]).map((tab) => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={`px-4 py-2 capitalize -mb-px border-b-2 ${
+                    activeTab === tab ? 'border-blue-500 text-blue-600 font-medium' : 'border-transparent text-gray-500'
+                  }`}
+                >
+                  {tab}
+                </button>
+              ))}
+            </div>
+
+            {activeTab === 'palette' && (
+              <PaletteEditor
+                palette={draft.colorPalette}
+                onChange={handlePaletteChange}
+                onGenerate={handleGeneratePalette}
+              />
+            )}
+            {activeTab === 'typography' && (
+              <TypographyEditor typography={draft.typography} onChange={handleTypographyChange} />
+            )}
+            {activeTab === 'components' && (
+              <ComponentEditor components={draft.components} onChange={handleComponentChange} />
+            )}
+            {activeTab === 'accessibility' && (
+              <AccessibilityPanel theme={draft} onRepair={(repaired) => setDraft({ ...draft, ...repaired })} />
+            )}
+          </div>
+
+          <div className="card">
+            <h2 className="text-xl font-bold mb-4">Live Preview</h2>
+            <LayoutPreview theme={draft} />
+          </div>
+        </div>
+      )}
+
+      {selectedThemeId && (
+        <div className="card mt-8">
+          <h2 className="text-xl font-bold mb-4">Revision History</h2>
+          <RevisionHistory
+            themeId={selectedThemeId}
+            refreshKey={updatedAt}
+            onRestored={() => loadTheme(selectedThemeId)}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -4,24 +4,77 @@
 // and not pre-rendered during build time
 export const dynamic = 'force-dynamic';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import axios from 'axios';
-import { GeneratedTheme } from '@/services/ai/generator/themeGenerator';
+import type { GeneratedTheme, GenerationProgress } from '@/services/ai/generator/themeGenerator';
+import { GENERATION_STAGES, GenerationStage } from '@/services/ai/generator/generationStages';
+import { HARMONIES, Harmony } from '@/services/ai/generator/paletteEngine';
+import { DEFAULT_LANGUAGES } from '@/services/ai/generator/languageCatalog';
+import { DEFAULT_PAGE_CATEGORIES } from '@/services/ai/generator/pageTypeCatalog';
+import { readServerSentEvents } from '@/lib/serverSentEvents';
+import { isValidColor } from '@/lib/themeValidation';
+import VariantComparison, { ExplorationVariant } from '@/components/generator/VariantComparison';
+
+interface DesignTrendOption {
+  _id: string;
+  name: string;
+  description: string;
+  shared: boolean;
+}
+
+const STAGE_LABELS: Record<GenerationStage, string> = {
+  'trends': 'Design trends',
+  'palette': 'Color palette',
+  'typography': 'Typography',
+  'ai-draft': 'AI draft',
+  'language-styles': 'Language styles',
+  'page-layouts': 'Page layouts',
+};
+
+// Add or remove an id from a checkbox selection
+function toggleSelection(selection: string[], id: string, checked: boolean): string[] {
+  return checked ? [...selection, id] : selection.filter((selected) => selected !== id);
+}
 
 export default function ThemeGeneratorPage() {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
-  const [themeTypes, setThemeTypes] = useState<string[]>([]);
+  const [trends, setTrends] = useState<DesignTrendOption[]>([]);
   const [selectedThemeType, setSelectedThemeType] = useState('');
   const [projectType, setProjectType] = useState('web');
+  const [useSeedColor, setUseSeedColor] = useState(false);
+  const [seedColor, setSeedColor] = useState('#2B6CB0');
+  const [harmony, setHarmony] = useState<Harmony>('complementary');
+  const [useAI, setUseAI] = useState(false);
+  const [languages, setLanguages] = useState<string[]>(
+    DEFAULT_LANGUAGES.filter((language) => language.includeByDefault).map((language) => language.id)
+  );
+  const [pageCategories, setPageCategories] = useState<string[]>(
+    DEFAULT_PAGE_CATEGORIES.filter((category) => category.includeByDefault).map((category) => category.id)
+  );
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [stageStatus, setStageStatus] = useState<Partial<Record<GenerationStage, GenerationProgress['status']>>>({});
   const [generatedTheme, setGeneratedTheme] = useState<GeneratedTheme | null>(null);
   const [themePreview, setThemePreview] = useState<any>(null);
   const [savedThemeId, setSavedThemeId] = useState<string | null>(null);
   const [error, setError] = useState('');
+  const generationAbort = useRef<AbortController | null>(null);
+  const [brandUrl, setBrandUrl] = useState('');
+  const [brandName, setBrandName] = useState<string | null>(null);
+  const [isAnalyzingBrand, setIsAnalyzingBrand] = useState(false);
+  const [moodboard, setMoodboard] = useState<File | null>(null);
+  const [moodboardSwatches, setMoodboardSwatches] = useState<{ color: string; weight: number }[]>([]);
+  const [isAnalyzingImage, setIsAnalyzingImage] = useState(false);
+  const [brief, setBrief] = useState('');
+  const [variantCount, setVariantCount] = useState(5);
+  const [variantSeedColors, setVariantSeedColors] = useState('');
+  const [isExploring, setIsExploring] = useState(false);
+  const [exploration, setExploration] = useState<{ _id: string; variants: ExplorationVariant[] } | null>(null);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
 
   useEffect(() => {
-    // Fetch available theme types
+    // Fetch the design trends available to the user
     const fetchThemeTypes = async () => {
       try {
         // Skip API calls during server-side rendering
@@ -30,10 +83,14 @@ export default function ThemeGeneratorPage() {
           return;
         }
 
-        const response = await axios.get('/api/generate-theme?action=getThemeTypes');
-        setThemeTypes(response.data.themeTypes);
-        if (response.data.themeTypes.length > 0) {
-          setSelectedThemeType(response.data.themeTypes[0]);
+        const response = await axios.get('/api/design-trends');
+        const available: DesignTrendOption[] = response.data.trends;
+        // A private trend replaces the shared trend it shares a name with
+        const privateNames = new Set(available.filter((trend) => !trend.shared).map((trend) => trend.name));
+        const visible = available.filter((trend) => !trend.shared || !privateNames.has(trend.name));
+        setTrends(visible);
+        if (visible.length > 0) {
+          setSelectedThemeType(visible[0].name);
         }
       } catch (err) {
         console.error('Error fetching theme types:', err);
@@ -66,24 +123,192 @@ export default function ThemeGeneratorPage() {
   };
 
   const handleGenerateTheme = async () => {
+    const abortController = new AbortController();
+    generationAbort.current = abortController;
+
     try {
       setIsLoading(true);
+      setIsGenerating(true);
+      setStageStatus({});
+      setGeneratedTheme(null);
+      setSavedThemeId(null);
+      setBrandName(null);
+      setMoodboardSwatches([]);
       setError('');
 
-      const response = await axios.post('/api/generate-theme', {
-        themeType: selectedThemeType,
-        projectType
+      // Stream the run so the preview fills in stage by stage
+      const response = await fetch('/api/generate-theme/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          themeType: selectedThemeType,
+          projectType,
+          useAI,
+          languages,
+          pageCategories,
+          ...(useSeedColor ? { seedColor, harmony } : {})
+        }),
+        signal: abortController.signal,
       });
 
-      setGeneratedTheme(response.data);
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Request failed with status ${response.status}`);
+      }
+
+      await readServerSentEvents(response.body, ({ event, data }) => {
+        if (event === 'stage') {
+          const progress = data as GenerationProgress;
+          setStageStatus(previous => ({ ...previous, [progress.stage]: progress.status }));
+          if (progress.theme) {
+            // Show what the run has produced so far over the theme type's preview
+            setThemePreview((previous: any) => ({ ...previous, ...progress.theme }));
+          }
+        } else if (event === 'theme') {
+          setGeneratedTheme(data as GeneratedTheme);
+        } else if (event === 'error') {
+          setError(data.error || 'Failed to generate theme. Please try again later.');
+        }
+      });
     } catch (err) {
+      if (abortController.signal.aborted) return;
       console.error('Error generating theme:', err);
       setError('Failed to generate theme. Please try again later.');
     } finally {
+      generationAbort.current = null;
+      setIsGenerating(false);
       setIsLoading(false);
     }
   };
 
+  const handleCancelGeneration = () => {
+    generationAbort.current?.abort();
+    setStageStatus({});
+    // Drop the partial theme from the preview
+    if (selectedThemeType) {
+      fetchThemePreview(selectedThemeType);
+    }
+  };
+
+  const handleGenerateFromUrl = async () => {
+    try {
+      setIsLoading(true);
+      setIsAnalyzingBrand(true);
+      setError('');
+      setSavedThemeId(null);
+
+      const response = await axios.post('/api/generate-theme/from-url', {
+        url: brandUrl.trim(),
+        projectType,
+        ...(selectedThemeType ? { themeType: selectedThemeType } : {})
+      });
+
+      setGeneratedTheme(response.data.theme);
+      setBrandName(response.data.brand.name);
+      setMoodboardSwatches([]);
+    } catch (err) {
+      console.error('Error generating theme from URL:', err);
+      setError(
+        axios.isAxiosError(err) && err.response?.data?.error
+          ? err.response.data.error
+          : 'Failed to generate a theme from this website. Please try again later.'
+      );
+    } finally {
+      setIsAnalyzingBrand(false);
+      setIsLoading(false);
+    }
+  };
+
+  const handleGenerateFromImage = async () => {
+    if (!moodboard) return;
+
+    try {
+      setIsLoading(true);
+      setIsAnalyzingImage(true);
+      setError('');
+      setSavedThemeId(null);
+
+      const formData = new FormData();
+      formData.append('image', moodboard);
+      formData.append('projectType', projectType);
+      if (selectedThemeType) formData.append('themeType', selectedThemeType);
+
+      const response = await axios.post('/api/generate-theme/from-image', formData);
+
+      setGeneratedTheme(response.data.theme);
+      setMoodboardSwatches(response.data.swatches);
+      setBrandName(moodboard.name);
+    } catch (err) {
+      console.error('Error generating theme from image:', err);
+      setError(
+        axios.isAxiosError(err) && err.response?.data?.error
+          ? err.response.data.error
+          : 'Failed to generate a theme from this image. Please try again later.'
+      );
+    } finally {
+      setIsAnalyzingImage(false);
+      setIsLoading(false);
+    }
+  };
+
+  const handleExploreVariants = async () => {
+    const seedColors = variantSeedColors.split(/[\s,]+/).filter(Boolean);
+    const invalid = seedColors.filter((color) => !isValidColor(color));
+    if (invalid.length > 0) {
+      setError(`Invalid seed colors: ${invalid.join(', ')}`);
+      return;
+    }
+
+    try {
+      setIsExploring(true);
+      setError('');
+
+      const response = await axios.post('/api/theme-explorations', {
+        description: brief,
+        count: variantCount,
+        projectType,
+        ...(selectedThemeType ? { themeType: selectedThemeType } : {}),
+        ...(seedColors.length > 0 ? { seedColors } : {})
+      });
+
+      setExploration(response.data.exploration);
+      if (response.data.failed > 0) {
+        setError(`${response.data.failed} of ${variantCount} variants could not be generated.`);
+      }
+    } catch (err) {
+      console.error('Error generating variants:', err);
+      setError('Failed to generate variants. Please try again later.');
+    } finally {
+      setIsExploring(false);
+    }
+  };
+
+  const handlePromoteVariant = async (variantId: string) => {
+    if (!exploration) return;
+
+    try {
+      setPromotingId(variantId);
+      setError('');
+
+      const response = await axios.post('/api/theme-explorations/promote', {
+        explorationId: exploration._id,
+        variantId,
+      });
+
+      setExploration({
+        ...exploration,
+        variants: exploration.variants.map((variant) =>
+          variant._id === variantId ? { ...variant, promotedTheme: response.data.themeId } : variant
+        ),
+      });
+    } catch (err) {
+      console.error('Error saving variant:', err);
+      setError('Failed to save the variant as a theme. Please try again later.');
+    } finally {
+      setPromotingId(null);
+    }
+  };
+
   const handleDownloadTheme = () => {
     if (!generatedTheme) return;
 
@@ -111,14 +336,15 @@ export default function ThemeGeneratorPage() {
         return;
       }
 
-      const response = await axios.post('/api/generate-theme', {
-        action: 'saveTheme',
+      const response = await axios.post('/api/generate-theme/save', {
         theme: {
           name: generatedTheme.name,
           type: generatedTheme.type,
           description: `A ${generatedTheme.type} theme for ${projectType} projects`,
           colorPalette: generatedTheme.colorPalette,
           typography: generatedTheme.typography,
+          scales: generatedTheme.scales,
+          motion: generatedTheme.motion,
           components: generatedTheme.components,
           styles: generatedTheme.styles,
           pageLayouts: generatedTheme.pageLayouts,
@@ -202,10 +428,24 @@ export default function ThemeGeneratorPage() {
               className="input-field"
               disabled={isLoading}
             >
-              {themeTypes.map((type) => (
-                <option key={type} value={type}>{type}</option>
-              ))}
+              <optgroup label="Design Trends">
+                {trends.filter((trend) => trend.shared).map((trend) => (
+                  <option key={trend._id} value={trend.name}>{trend.name}</option>
+                ))}
+              </optgroup>
+              {trends.some((trend) => !trend.shared) && (
+                <optgroup label="My Trends">
+                  {trends.filter((trend) => !trend.shared).map((trend) => (
+                    <option key={trend._id} value={trend.name}>{trend.name}</option>
+                  ))}
+                </optgroup>
+              )}
             </select>
+            {trends.find((trend) => trend.name === selectedThemeType)?.description && (
+              <p className="text-sm text-gray-500 mt-1">
+                {trends.find((trend) => trend.name === selectedThemeType)?.description}
+              </p>
+            )}
           </div>
 
           <div className="mb-6">
@@ -226,13 +466,123 @@ export default function ThemeGeneratorPage() {
             </select>
           </div>
 
-          <button
-            onClick={handleGenerateTheme}
-            disabled={isLoading || !selectedThemeType}
-            className={`btn-primary ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
-          >
-            {isLoading ? 'Generating...' : 'Generate Theme'}
-          </button>
+          <div className="mb-6">
+            <label className="flex items-center gap-2 text-gray-700 mb-2">
+              <input
+                type="checkbox"
+                checked={useSeedColor}
+                onChange={(e) => setUseSeedColor(e.target.checked)}
+                disabled={isLoading}
+              />
+              Build the palette from a brand color
+            </label>
+            {useSeedColor && (
+              <div className="flex gap-3">
+                <input
+                  type="color"
+                  aria-label="Seed color"
+                  value={seedColor}
+                  onChange={(e) => setSeedColor(e.target.value.toUpperCase())}
+                  className="w-16 h-10 rounded border border-gray-200 cursor-pointer"
+                  disabled={isLoading}
+                />
+                <select
+                  aria-label="Color harmony"
+                  value={harmony}
+                  onChange={(e) => setHarmony(e.target.value as Harmony)}
+                  className="input-field capitalize"
+                  disabled={isLoading}
+                >
+                  {HARMONIES.map((name) => (
+                    <option key={name} value={name}>{name.replace('-', ' ')}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          <details className="mb-6">
+            <summary className="text-gray-700 cursor-pointer">
+              Code languages and page types ({languages.length} languages, {pageCategories.length} page categories)
+            </summary>
+            <fieldset className="mt-3" disabled={isLoading}>
+              <legend className="text-sm font-medium text-gray-700 mb-1">Code languages</legend>
+              <div className="grid grid-cols-3 gap-1 text-sm">
+                {DEFAULT_LANGUAGES.map((language) => (
+                  <label key={language.id} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={languages.includes(language.id)}
+                      onChange={(e) => setLanguages(toggleSelection(languages, language.id, e.target.checked))}
+                    />
+                    {language.label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+            <fieldset className="mt-3" disabled={isLoading}>
+              <legend className="text-sm font-medium text-gray-700 mb-1">Page categories</legend>
+              <div className="grid grid-cols-2 gap-1 text-sm">
+                {DEFAULT_PAGE_CATEGORIES.map((category) => (
+                  <label key={category.id} className="flex items-center gap-1" title={category.types.join(', ')}>
+                    <input
+                      type="checkbox"
+                      checked={pageCategories.includes(category.id)}
+                      onChange={(e) => setPageCategories(toggleSelection(pageCategories, category.id, e.target.checked))}
+                    />
+                    {category.label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          </details>
+
+          <div className="mb-6">
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={useAI}
+                onChange={(e) => setUseAI(e.target.checked)}
+                disabled={isLoading}
+              />
+              Refine the theme with AI
+            </label>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleGenerateTheme}
+              disabled={isLoading || !selectedThemeType}
+              className={`btn-primary ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {isGenerating ? 'Generating...' : 'Generate Theme'}
+            </button>
+            {isGenerating && (
+              <button
+                onClick={handleCancelGeneration}
+                className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100 transition-all"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+
+          {Object.keys(stageStatus).length > 0 && (
+            <ol className="mt-4 space-y-1 text-sm">
+              {GENERATION_STAGES.filter((stage) => useAI || stage !== 'ai-draft').map((stage) => (
+                <li
+                  key={stage}
+                  className={
+                    stageStatus[stage] === 'completed'
+                      ? 'text-green-700'
+                      : stageStatus[stage] === 'started' ? 'text-gray-900 font-medium' : 'text-gray-400'
+                  }
+                >
+                  {stageStatus[stage] === 'completed' ? '✓' : stageStatus[stage] === 'started' ? '…' : '○'} {STAGE_LABELS[stage]}
+                </li>
+              ))}
+            </ol>
+          )}
         </div>
 
         <div className="card">
@@ -243,15 +593,17 @@ export default function ThemeGeneratorPage() {
               <div className="mb-4">
                 <h3 className="font-semibold mb-2">Color Palette</h3>
                 <div className="flex flex-wrap gap-2">
-                  {Object.entries(themePreview.colorPalette).map(([name, color]) => (
-                    <div key={name} className="flex flex-col items-center">
-                      <div
-                        className="w-12 h-12 rounded-md border border-gray-200"
-                        style={{ backgroundColor: color as string }}
-                      ></div>
-                      <span className="text-xs mt-1">{name}</span>
-                    </div>
-                  ))}
+                  {Object.entries(themePreview.colorPalette)
+                    .filter(([, color]) => typeof color === 'string')
+                    .map(([name, color]) => (
+                      <div key={name} className="flex flex-col items-center">
+                        <div
+                          className="w-12 h-12 rounded-md border border-gray-200"
+                          style={{ backgroundColor: color as string }}
+                        ></div>
+                        <span className="text-xs mt-1">{name}</span>
+                      </div>
+                    ))}
                 </div>
               </div>
 
@@ -281,25 +633,25 @@ export default function ThemeGeneratorPage() {
                     <div className="flex gap-2 mt-1">
                       <button
                         style={{
-                          backgroundColor: themePreview.components.buttons.primary.backgroundColor,
-                          color: themePreview.components.buttons.primary.color,
-                          borderRadius: themePreview.components.buttons.primary.borderRadius,
-                          padding: themePreview.components.buttons.primary.padding,
-                          fontFamily: themePreview.components.buttons.primary.fontFamily,
-                          fontWeight: themePreview.components.buttons.primary.fontWeight
+                          backgroundColor: themePreview.components.buttons?.primary?.backgroundColor,
+                          color: themePreview.components.buttons?.primary?.color,
+                          borderRadius: themePreview.components.buttons?.primary?.borderRadius,
+                          padding: themePreview.components.buttons?.primary?.padding,
+                          fontFamily: themePreview.components.buttons?.primary?.fontFamily,
+                          fontWeight: themePreview.components.buttons?.primary?.fontWeight
                         }}
                       >
                         Primary
                       </button>
                       <button
                         style={{
-                          backgroundColor: themePreview.components.buttons.secondary.backgroundColor,
-                          color: themePreview.components.buttons.secondary.color,
-                          borderRadius: themePreview.components.buttons.secondary.borderRadius,
-                          padding: themePreview.components.buttons.secondary.padding,
-                          border: themePreview.components.buttons.secondary.border,
-                          fontFamily: themePreview.components.buttons.secondary.fontFamily,
-                          fontWeight: themePreview.components.buttons.secondary.fontWeight
+                          backgroundColor: themePreview.components.buttons?.secondary?.backgroundColor,
+                          color: themePreview.components.buttons?.secondary?.color,
+                          borderRadius: themePreview.components.buttons?.secondary?.borderRadius,
+                          padding: themePreview.components.buttons?.secondary?.padding,
+                          border: themePreview.components.buttons?.secondary?.border,
+                          fontFamily: themePreview.components.buttons?.secondary?.fontFamily,
+                          fontWeight: themePreview.components.buttons?.secondary?.fontWeight
                         }}
                       >
                         Secondary
@@ -312,11 +664,11 @@ export default function ThemeGeneratorPage() {
                     <div
                       className="p-4 mt-1"
                       style={{
-                        backgroundColor: themePreview.components.cards.backgroundColor,
-                        borderRadius: themePreview.components.cards.borderRadius,
-                        padding: themePreview.components.cards.padding,
-                        boxShadow: themePreview.components.cards.boxShadow,
-                        border: themePreview.components.cards.border
+                        backgroundColor: themePreview.components.cards?.backgroundColor,
+                        borderRadius: themePreview.components.cards?.borderRadius,
+                        padding: themePreview.components.cards?.padding,
+                        boxShadow: themePreview.components.cards?.boxShadow,
+                        border: themePreview.components.cards?.border
                       }}
                     >
                       <p className="text-sm">Sample card content</p>
@@ -333,6 +685,136 @@ export default function ThemeGeneratorPage() {
         </div>
       </div>
 
+      <div className="card mt-8">
+        <h2 className="text-xl font-bold mb-4">Theme from a Website</h2>
+        <p className="text-gray-600 mb-4">
+          Match an existing brand: we scrape the site, detect its colors, fonts and corner style, and build a full theme around them.
+        </p>
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            type="url"
+            aria-label="Website URL"
+            value={brandUrl}
+            onChange={(e) => setBrandUrl(e.target.value)}
+            className="input-field flex-1"
+            placeholder="https://example.com"
+            disabled={isLoading}
+          />
+          <button
+            onClick={handleGenerateFromUrl}
+            disabled={isLoading || !brandUrl.trim()}
+            className={`btn-primary ${isLoading || !brandUrl.trim() ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            {isAnalyzingBrand ? 'Analyzing...' : 'Generate from Website'}
+          </button>
+        </div>
+      </div>
+
+      <div className="card mt-8">
+        <h2 className="text-xl font-bold mb-4">Theme from an Image</h2>
+        <p className="text-gray-600 mb-4">
+          Upload a logo or moodboard (PNG, JPEG or SVG). Its dominant colors become a readable palette for a full theme.
+        </p>
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            type="file"
+            aria-label="Logo or moodboard image"
+            accept="image/png,image/jpeg,image/svg+xml"
+            onChange={(e) => setMoodboard(e.target.files?.[0] || null)}
+            className="input-field flex-1"
+            disabled={isLoading}
+          />
+          <button
+            onClick={handleGenerateFromImage}
+            disabled={isLoading || !moodboard}
+            className={`btn-primary ${isLoading || !moodboard ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            {isAnalyzingImage ? 'Analyzing...' : 'Generate from Image'}
+          </button>
+        </div>
+
+        {moodboardSwatches.length > 0 && (
+          <div className="flex mt-4 h-6 rounded overflow-hidden border border-gray-200" aria-label="Extracted colors">
+            {moodboardSwatches.map((swatch) => (
+              <div
+                key={swatch.color}
+                title={`${swatch.color} (${Math.round(swatch.weight * 100)}%)`}
+                style={{ backgroundColor: swatch.color, flexGrow: swatch.weight }}
+              ></div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="card mt-8">
+        <h2 className="text-xl font-bold mb-4">Explore Variants</h2>
+        <p className="text-gray-600 mb-4">
+          Generate several candidate themes for one brief, compare them side by side and save the ones worth keeping.
+        </p>
+
+        <div className="mb-4">
+          <label htmlFor="brief" className="block text-gray-700 mb-2">Design Brief</label>
+          <textarea
+            id="brief"
+            value={brief}
+            onChange={(e) => setBrief(e.target.value)}
+            className="input-field"
+            rows={3}
+            maxLength={1000}
+            placeholder="A calm, trustworthy dashboard for a personal finance app"
+            disabled={isExploring}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <div>
+            <label htmlFor="variantCount" className="block text-gray-700 mb-2">Variants</label>
+            <input
+              id="variantCount"
+              type="number"
+              min={1}
+              max={10}
+              value={variantCount}
+              onChange={(e) => setVariantCount(Math.min(Math.max(Number(e.target.value) || 1, 1), 10))}
+              className="input-field"
+              disabled={isExploring}
+            />
+          </div>
+          <div>
+            <label htmlFor="variantSeedColors" className="block text-gray-700 mb-2">Seed Colors (optional)</label>
+            <input
+              id="variantSeedColors"
+              type="text"
+              value={variantSeedColors}
+              onChange={(e) => setVariantSeedColors(e.target.value)}
+              className="input-field"
+              placeholder="#2B6CB0, #E53E3E"
+              disabled={isExploring}
+            />
+          </div>
+        </div>
+
+        <button
+          onClick={handleExploreVariants}
+          disabled={isExploring || !brief.trim()}
+          className={`btn-primary ${isExploring || !brief.trim() ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          {isExploring ? `Generating ${variantCount} variants...` : 'Generate Variants'}
+        </button>
+
+        {exploration && exploration.variants.length > 0 && (
+          <div className="mt-6">
+            <VariantComparison
+              variants={exploration.variants}
+              onPromote={handlePromoteVariant}
+              promotingId={promotingId}
+            />
+          </div>
+        )}
+      </div>
+
       {generatedTheme && (
         <div className="card mt-8">
           <h2 className="text-xl font-bold mb-4">Generated Theme: {generatedTheme.name}</h2>
@@ -340,6 +822,10 @@ export default function ThemeGeneratorPage() {
           <div className="mb-4">
             <h3 className="font-semibold mb-2">Theme Details</h3>
             <p><strong>Type:</strong> {generatedTheme.type}</p>
+            {brandName && <p><strong>Based on:</strong> {brandName}</p>}
+            <p>
+              <strong>Color Schemes:</strong> {generatedTheme.colorPalette.light ? 'Dark (default) and light' : 'Light (default) and dark'}
+            </p>
             <p><strong>Supported Languages:</strong> {Object.keys(generatedTheme.styles).join(', ')}</p>
             <p><strong>Page Layouts:</strong> {Object.keys(generatedTheme.pageLayouts).join(', ')}</p>
           </div>
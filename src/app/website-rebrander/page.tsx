@@ -20,6 +20,7 @@ export default function WebsiteRebranderPage() {
   const [originalBrand, setOriginalBrand] = useState<BrandElements | null>(null);
   const [savedWebsiteId, setSavedWebsiteId] = useState<string | null>(null);
   const [useProxy, setUseProxy] = useState(false);
+  const [render, setRender] = useState(false);
   const [newBrand, setNewBrand] = useState<BrandElements>({
     name: '',
     colors: {
@@ -57,7 +58,7 @@ export default function WebsiteRebranderPage() {
       }
 
       const scraper = new WebsiteScraper();
-      const content = await scraper.scrapeWebsite(url, useProxy);
+      const content = await scraper.scrapeWebsite(url, useProxy, render);
 
       if (!content) {
         throw new Error('Failed to scrape website content');
@@ -273,7 +274,19 @@ export default function WebsiteRebranderPage() {
                 className="mr-2"
               />
               <label htmlFor="useProxy" className="text-gray-700">
-                Use proxy (try this if you have trouble scraping certain websites)
+                Fetch through proxy only (needs proxies configured on the server)
+              </label>
+            </div>
+            <div className="mb-4 flex items-center">
+              <input
+                type="checkbox"
+                id="render"
+                checked={render}
+                onChange={(e) => setRender(e.target.checked)}
+                className="mr-2"
+              />
+              <label htmlFor="render" className="text-gray-700">
+                Render JavaScript (for single-page apps that show up empty)
               </label>
             </div>
             <button
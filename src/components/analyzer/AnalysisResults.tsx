@@ -1,12 +1,15 @@
 'use client';
 
 import { CodeAnalysisResult } from '@/services/ai/analyzer/codebaseAnalyzer';
+import type { TrendAlignment } from '@/services/ai/trends/designTrendAnalyzer';
+import TrendAlignmentPanel from './TrendAlignmentPanel';
 
 interface AnalysisResultsProps {
   analysis: CodeAnalysisResult;
+  trendAlignment?: TrendAlignment[];
 }
 
-export default function AnalysisResults({ analysis }: AnalysisResultsProps) {
+export default function AnalysisResults({ analysis, trendAlignment }: AnalysisResultsProps) {
   return (
     <div className="space-y-8">
       {/* Summary Scores */}
@@ -271,6 +274,21 @@ export default function AnalysisResults({ analysis }: AnalysisResultsProps) {
           </div>
         </div>
       </div>
+
+      {/* Design Trend Alignment */}
+      {trendAlignment && (
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Design Trend Alignment</h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              How closely your stylesheets follow each design trend
+            </p>
+          </div>
+          <div className="px-4 py-5 sm:p-6">
+            <TrendAlignmentPanel alignments={trendAlignment} />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
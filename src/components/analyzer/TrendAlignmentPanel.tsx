@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { AlignmentCategory, TrendAlignment } from '@/services/ai/trends/designTrendAnalyzer';
+
+interface TrendAlignmentPanelProps {
+  alignments: TrendAlignment[];
+}
+
+const CATEGORY_LABELS: Record<AlignmentCategory, string> = {
+  colorPalette: 'Color',
+  typography: 'Typography',
+  components: 'Components',
+  layout: 'Layout',
+};
+
+const getScoreBarColor = (score: number) => {
+  if (score >= 80) return 'bg-green-500';
+  if (score >= 60) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+/**
+ * Per-category trend alignment scores, with the recommendations for the selected trend
+ */
+export default function TrendAlignmentPanel({ alignments }: TrendAlignmentPanelProps) {
+  const [selectedTrend, setSelectedTrend] = useState(alignments[0]?.trend || '');
+
+  useEffect(() => {
+    setSelectedTrend(alignments[0]?.trend || '');
+  }, [alignments]);
+
+  if (alignments.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No styles to compare against design trends</p>;
+  }
+
+  const selected = alignments.find((alignment) => alignment.trend === selectedTrend) || alignments[0];
+
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-2">
+        {alignments.map((alignment) => (
+          <li key={alignment.trend}>
+            <button
+              type="button"
+              onClick={() => setSelectedTrend(alignment.trend)}
+              className={`w-full text-left p-2 rounded-md ${
+                alignment.trend === selected.trend ? 'bg-blue-50 dark:bg-blue-900/40' : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              <div className="flex justify-between text-sm">
+                <span className="font-medium text-gray-900 dark:text-white">{alignment.trend}</span>
+                <span className="text-gray-500 dark:text-gray-400">{alignment.overall}/100</span>
+              </div>
+              <div className="mt-1 overflow-hidden h-2 flex rounded bg-gray-200 dark:bg-gray-700">
+                <div style={{ width: `${alignment.overall}%` }} className={getScoreBarColor(alignment.overall)}></div>
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">{selected.trend} by category</h4>
+        <dl className="grid grid-cols-2 gap-2">
+          {(Object.keys(CATEGORY_LABELS) as AlignmentCategory[]).map((category) => (
+            <div key={category} className="flex justify-between text-sm">
+              <dt className="text-gray-500 dark:text-gray-400">{CATEGORY_LABELS[category]}</dt>
+              <dd className="text-gray-900 dark:text-white">
+                {selected.categories[category] === undefined ? 'n/a' : selected.categories[category]}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      {selected.recommendations.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">To move closer to {selected.trend}</h4>
+          <ul className="space-y-1">
+            {selected.recommendations.map((recommendation, index) => (
+              <li key={`${recommendation.property}-${index}`} className="text-sm text-gray-700 dark:text-gray-300">
+                <span className="font-mono text-xs text-gray-500 dark:text-gray-400 mr-1">{CATEGORY_LABELS[recommendation.category]}</span>
+                {recommendation.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
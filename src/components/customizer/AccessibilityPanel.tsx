@@ -0,0 +1,64 @@
+'use client';
+
+import { useMemo } from 'react';
+import { AuditableTheme, ContrastAuditor } from '@/services/ai/analyzer/contrastAuditor';
+
+interface AccessibilityPanelProps {
+  theme: AuditableTheme;
+  onRepair: (repaired: AuditableTheme) => void;
+}
+
+const auditor = new ContrastAuditor();
+
+export default function AccessibilityPanel({ theme, onRepair }: AccessibilityPanelProps) {
+  const report = useMemo(() => auditor.audit(theme), [theme]);
+
+  const levelClasses = {
+    AAA: 'bg-green-100 text-green-800',
+    AA: 'bg-blue-100 text-blue-800',
+    fail: 'bg-yellow-100 text-yellow-800',
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <span className={`rounded-full px-3 py-1 text-sm font-medium ${levelClasses[report.level]}`}>
+            {report.level === 'fail' ? 'Below WCAG AA' : `WCAG ${report.level}`}
+          </span>
+          <span className="text-sm text-gray-600">{report.score}% of color pairs pass AA</span>
+        </div>
+        {report.failures.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onRepair(auditor.repair(theme).theme)}
+            className="btn-secondary text-sm"
+          >
+            Repair Contrast
+          </button>
+        )}
+      </div>
+
+      {report.failures.length > 0 ? (
+        <ul className="space-y-2">
+          {report.failures.map((failure) => (
+            <li key={`${failure.foreground}-${failure.background}`} className="flex items-center gap-3 text-sm">
+              <span
+                className="px-2 py-1 rounded border border-gray-200 font-medium"
+                style={{ color: failure.foreground, backgroundColor: failure.background }}
+              >
+                Aa
+              </span>
+              <span className="font-mono">{failure.ratio.toFixed(2)}:1</span>
+              <span className="text-gray-500 truncate" title={failure.paths.join(', ')}>
+                {failure.paths[0]}{failure.paths.length > 1 ? ` and ${failure.paths.length - 1} more` : ''}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-600">Every text and background pair in this theme meets WCAG AA.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import { isValidColor } from '@/lib/themeValidation';
+import { parseColor, toHex } from '@/lib/color';
+
+interface ComponentEditorProps {
+  components: Record<string, any>;
+  onChange: (path: string[], value: string | number) => void;
+}
+
+interface PropertyField {
+  path: string[];
+  value: string | number;
+}
+
+/**
+ * Collect the editable leaf properties of a component, e.g. buttons.primary.backgroundColor
+ */
+function getFields(node: Record<string, any>, path: string[]): PropertyField[] {
+  return Object.entries(node).flatMap(([key, value]) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return getFields(value, [...path, key]);
+    }
+    return typeof value === 'string' || typeof value === 'number' ? [{ path: [...path, key], value }] : [];
+  });
+}
+
+export default function ComponentEditor({ components, onChange }: ComponentEditorProps) {
+  const [openComponent, setOpenComponent] = useState<string | null>(Object.keys(components)[0] || null);
+
+  return (
+    <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+      {Object.entries(components).map(([name, properties]) => (
+        <div key={name}>
+          <button
+            type="button"
+            onClick={() => setOpenComponent(openComponent === name ? null : name)}
+            className="w-full flex justify-between items-center px-4 py-3 text-left font-medium capitalize hover:bg-gray-50"
+          >
+            {name}
+            <span className="text-gray-400">{openComponent === name ? '−' : '+'}</span>
+          </button>
+
+          {openComponent === name && properties && typeof properties === 'object' && (
+            <div className="px-4 pb-4 space-y-2">
+              {getFields(properties, [name]).map(({ path, value }) => {
+                const key = path[path.length - 1];
+                const isColor = /color$/i.test(key);
+                const isValid = !isColor || isValidColor(String(value));
+
+                return (
+                  <div key={path.join('.')} className="flex items-center gap-3">
+                    <label htmlFor={`component-${path.join('-')}`} className="w-48 text-sm text-gray-700 truncate">
+                      {path.slice(1).join(' › ')}
+                    </label>
+                    {isColor && (
+                      <input
+                        type="color"
+                        aria-label={`${path.join('.')} color picker`}
+                        value={parseColor(String(value)) ? toHex(String(value)) : '#000000'}
+                        onChange={(e) => onChange(path, e.target.value.toUpperCase())}
+                        className="w-8 h-8 rounded border border-gray-200 cursor-pointer"
+                      />
+                    )}
+                    <input
+                      id={`component-${path.join('-')}`}
+                      type={typeof value === 'number' ? 'number' : 'text'}
+                      value={value}
+                      onChange={(e) => onChange(path, typeof value === 'number' ? Number(e.target.value) : e.target.value)}
+                      className={`input-field flex-1 text-sm ${isValid ? '' : 'border-red-500'}`}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
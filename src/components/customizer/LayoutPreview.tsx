@@ -0,0 +1,230 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { GeneratedTheme } from '@/services/ai/generator/themeGenerator';
+import { ColorScheme, PaletteEngine } from '@/services/ai/generator/paletteEngine';
+
+interface LayoutPreviewProps {
+  theme: Pick<GeneratedTheme, 'colorPalette' | 'typography' | 'components' | 'pageLayouts'>;
+}
+
+const paletteEngine = new PaletteEngine();
+
+const SPACING: Record<string, string> = {
+  compact: '16px',
+  comfortable: '32px',
+};
+
+// Layout properties already reflected visually in the preview
+const RENDERED_PROPERTIES = [
+  'backgroundColor', 'textColor', 'headingFont', 'bodyFont', 'spacing', 'borderRadius', 'boxShadow',
+  'layout', 'callToAction', 'typography'
+];
+
+export default function LayoutPreview({ theme: baseTheme }: LayoutPreviewProps) {
+  const { defaultScheme } = paletteEngine.getSchemes(baseTheme.colorPalette);
+  const [scheme, setScheme] = useState<ColorScheme>(defaultScheme);
+
+  // Every theme is previewed in both schemes; the other one swaps each palette color for its counterpart
+  const theme = paletteEngine.applyScheme(baseTheme, scheme);
+
+  const categories = Object.keys(theme.pageLayouts || {});
+  const [category, setCategory] = useState(categories[0] || '');
+  const pageTypes = Object.keys(theme.pageLayouts?.[category] || {});
+  const [pageType, setPageType] = useState(pageTypes[0] || '');
+
+  useEffect(() => {
+    if (!pageTypes.includes(pageType)) {
+      setPageType(pageTypes[0] || '');
+    }
+  }, [category, pageType, pageTypes]);
+
+  const layout = theme.pageLayouts?.[category]?.[pageType];
+  if (!layout) {
+    return <p className="text-gray-500">This theme has no page layouts to preview.</p>;
+  }
+
+  const { colorPalette, typography, components } = theme;
+  const primaryButton = components.buttons?.primary || {};
+  const secondaryButton = components.buttons?.secondary || {};
+  const callToAction = layout.callToAction || primaryButton;
+  const gap = SPACING[layout.spacing] || '24px';
+  const hasSidebar = ['sidebar', 'split'].includes(layout.layout);
+
+  const card = (title: string) => (
+    <div
+      key={title}
+      style={{
+        backgroundColor: components.cards?.backgroundColor,
+        borderRadius: layout.borderRadius,
+        boxShadow: layout.boxShadow,
+        border: components.cards?.border,
+        padding: components.cards?.padding || gap,
+      }}
+    >
+      <h4 style={{ fontFamily: layout.headingFont, fontWeight: 600, marginBottom: '8px' }}>{title}</h4>
+      <p style={{ fontSize: '0.875rem', opacity: 0.8 }}>
+        Supporting copy set in the body font of this layout.
+      </p>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex gap-4 mb-4">
+        <select
+          aria-label="Page category"
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="input-field capitalize"
+        >
+          {categories.map((name) => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select
+          aria-label="Page type"
+          value={pageType}
+          onChange={(e) => setPageType(e.target.value)}
+          className="input-field capitalize"
+        >
+          {pageTypes.map((name) => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select
+          aria-label="Color scheme"
+          value={scheme}
+          onChange={(e) => setScheme(e.target.value as ColorScheme)}
+          className="input-field"
+        >
+          <option value="light">Light{defaultScheme === 'light' ? ' (default)' : ''}</option>
+          <option value="dark">Dark{defaultScheme === 'dark' ? ' (default)' : ''}</option>
+        </select>
+      </div>
+
+      <div
+        className="overflow-hidden border border-gray-200"
+        style={{
+          backgroundColor: layout.backgroundColor || colorPalette.background,
+          color: layout.textColor || colorPalette.text,
+          fontFamily: layout.bodyFont || typography.bodyFont,
+          borderRadius: layout.borderRadius,
+        }}
+      >
+        <nav
+          className="flex items-center justify-between"
+          style={{
+            backgroundColor: components.navigation?.backgroundColor || colorPalette.primary,
+            color: components.navigation?.color,
+            fontFamily: components.navigation?.fontFamily,
+            padding: `12px ${gap}`,
+          }}
+        >
+          <span style={{ fontWeight: 700 }}>Brand</span>
+          <div className="flex gap-4 text-sm">
+            <span>Home</span>
+            <span>About</span>
+            <span>Contact</span>
+          </div>
+        </nav>
+
+        <div
+          style={{
+            display: hasSidebar ? 'grid' : 'block',
+            gridTemplateColumns: hasSidebar ? `${layout.sidebarWidth || '200px'} 1fr` : undefined,
+            gap,
+            padding: gap,
+          }}
+        >
+          {hasSidebar && (
+            <aside
+              className="text-sm space-y-2"
+              style={{ borderRight: `1px solid ${colorPalette.secondary}`, paddingRight: gap }}
+            >
+              {['Overview', 'Details', 'Settings'].map((item, i) => (
+                <div key={item} style={{ color: i === 0 ? colorPalette.accent : undefined }}>{item}</div>
+              ))}
+            </aside>
+          )}
+
+          <main
+            style={{
+              maxWidth: layout.readingWidth,
+              margin: layout.layout === 'centered' ? '0 auto' : undefined,
+              textAlign: layout.layout === 'centered' ? 'center' : undefined,
+            }}
+          >
+            <h3
+              style={{
+                fontFamily: layout.headingFont || typography.headingFont,
+                fontSize: layout.typography?.headingSize || '1.75rem',
+                fontWeight: 700,
+                marginBottom: '8px',
+              }}
+            >
+              {pageType.charAt(0).toUpperCase() + pageType.slice(1)} page
+            </h3>
+            <p
+              style={{
+                fontSize: layout.typography?.bodySize,
+                lineHeight: layout.typography?.lineHeight || 1.6,
+                marginBottom: gap,
+              }}
+            >
+              A preview of the {category} layout using this theme&apos;s colors, fonts and components.
+            </p>
+
+            <div className="flex flex-wrap gap-3" style={{ marginBottom: gap, justifyContent: layout.layout === 'centered' ? 'center' : undefined }}>
+              <button
+                type="button"
+                style={{
+                  backgroundColor: callToAction.backgroundColor,
+                  color: callToAction.textColor || callToAction.color,
+                  borderRadius: callToAction.borderRadius,
+                  padding: callToAction.padding,
+                  fontFamily: primaryButton.fontFamily,
+                  fontWeight: primaryButton.fontWeight,
+                }}
+              >
+                Get started
+              </button>
+              <button
+                type="button"
+                style={{
+                  backgroundColor: secondaryButton.backgroundColor,
+                  color: secondaryButton.color,
+                  borderRadius: secondaryButton.borderRadius,
+                  padding: secondaryButton.padding,
+                  border: secondaryButton.border,
+                  fontFamily: secondaryButton.fontFamily,
+                  fontWeight: secondaryButton.fontWeight,
+                }}
+              >
+                Learn more
+              </button>
+            </div>
+
+            <div
+              style={{
+                display: 'grid',
+                gridTemplateColumns: layout.layout === 'grid' ? 'repeat(3, minmax(0, 1fr))' : '1fr',
+                gap,
+                textAlign: 'left',
+              }}
+            >
+              {['First item', 'Second item', 'Third item'].map(card)}
+            </div>
+          </main>
+        </div>
+      </div>
+
+      <dl className="mt-4 grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+        {Object.entries(layout)
+          .filter(([key, value]) => !RENDERED_PROPERTIES.includes(key) && typeof value !== 'object')
+          .map(([key, value]) => (
+            <div key={key} className="flex justify-between">
+              <dt className="text-gray-500">{key}</dt>
+              <dd className="font-medium">{String(value)}</dd>
+            </div>
+          ))}
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { GeneratedTheme } from '@/services/ai/generator/themeGenerator';
+import {
+  BaseColorPalette,
+  HARMONIES,
+  Harmony,
+  PALETTE_ROLES,
+  PaletteEngine,
+  PaletteRole,
+  SCALE_STEPS,
+} from '@/services/ai/generator/paletteEngine';
+import { parseColor, toHex } from '@/lib/color';
+
+interface PaletteEditorProps {
+  palette: GeneratedTheme['colorPalette'];
+  onChange: (role: PaletteRole, color: string) => void;
+  onGenerate: (seedColor: string, harmony: Harmony) => void;
+}
+
+const paletteEngine = new PaletteEngine();
+
+const pickRoles = (palette: GeneratedTheme['colorPalette']): BaseColorPalette =>
+  Object.fromEntries(PALETTE_ROLES.map(role => [role, palette[role]])) as BaseColorPalette;
+
+export default function PaletteEditor({ palette, onChange, onGenerate }: PaletteEditorProps) {
+  // Text inputs keep their own draft so half-typed colors are never pushed into the theme
+  const [drafts, setDrafts] = useState<BaseColorPalette>(pickRoles(palette));
+  const [seedColor, setSeedColor] = useState(toHex(palette.primary));
+  const [harmony, setHarmony] = useState<Harmony>('complementary');
+
+  useEffect(() => {
+    setDrafts(pickRoles(palette));
+  }, [palette]);
+
+  // The palette roles belong to the theme's default scheme; show the other scheme beside them
+  const { defaultScheme, ...schemes } = paletteEngine.getSchemes(palette);
+  const otherScheme = defaultScheme === 'light' ? 'dark' : 'light';
+  const counterpart = schemes[otherScheme];
+
+  const handleTextChange = (role: PaletteRole, value: string) => {
+    setDrafts({ ...drafts, [role]: value });
+    // Scales and the other scheme are derived from the roles, so keywords like transparent are not enough
+    if (parseColor(value)) {
+      onChange(role, value);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-3 mb-6 pb-4 border-b border-gray-200">
+        <div>
+          <label htmlFor="seedColor" className="block text-sm text-gray-700 mb-1">Seed color</label>
+          <input
+            id="seedColor"
+            type="color"
+            value={parseColor(seedColor) ? toHex(seedColor) : '#000000'}
+            onChange={(e) => setSeedColor(e.target.value.toUpperCase())}
+            className="w-16 h-10 rounded border border-gray-200 cursor-pointer"
+          />
+        </div>
+        <div className="flex-1 min-w-[160px]">
+          <label htmlFor="harmony" className="block text-sm text-gray-700 mb-1">Harmony</label>
+          <select
+            id="harmony"
+            value={harmony}
+            onChange={(e) => setHarmony(e.target.value as Harmony)}
+            className="input-field capitalize"
+          >
+            {HARMONIES.map((name) => (
+              <option key={name} value={name}>{name.replace('-', ' ')}</option>
+            ))}
+          </select>
+        </div>
+        <button type="button" onClick={() => onGenerate(seedColor, harmony)} className="btn-secondary">
+          Generate Palette
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {PALETTE_ROLES.map((role) => {
+          const isValid = parseColor(drafts[role]) !== null;
+
+          return (
+            <div key={role}>
+              <div className="flex items-center gap-3">
+                <input
+                  type="color"
+                  aria-label={`${role} color picker`}
+                  value={parseColor(palette[role]) ? toHex(palette[role]) : '#000000'}
+                  onChange={(e) => onChange(role, e.target.value.toUpperCase())}
+                  className="w-10 h-10 rounded border border-gray-200 cursor-pointer"
+                />
+                <label htmlFor={`palette-${role}`} className="w-24 text-sm font-medium text-gray-700 capitalize">
+                  {role}
+                </label>
+                <input
+                  id={`palette-${role}`}
+                  type="text"
+                  value={drafts[role]}
+                  onChange={(e) => handleTextChange(role, e.target.value)}
+                  className={`input-field flex-1 font-mono text-sm ${isValid ? '' : 'border-red-500'}`}
+                />
+                <div
+                  className="w-10 h-10 rounded border border-gray-200"
+                  style={{ backgroundColor: counterpart[role] }}
+                  title={`${otherScheme === 'dark' ? 'Dark' : 'Light'} scheme: ${counterpart[role]}`}
+                ></div>
+              </div>
+
+              {palette.scale?.[role] && (
+                <div className="flex mt-2 ml-[136px] rounded overflow-hidden">
+                  {SCALE_STEPS.map((step) => (
+                    <div
+                      key={step}
+                      className="flex-1 h-5"
+                      style={{ backgroundColor: palette.scale![role][step] }}
+                      title={`${role}-${step}: ${palette.scale![role][step]}`}
+                    ></div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+import type { ThemeChange, ThemeDiff } from '@/lib/themeHistory';
+
+interface Revision {
+  _id: string;
+  revision: number;
+  source: 'initial' | 'update' | 'rollback';
+  changedFields: string[];
+  restoredFrom?: number;
+  author?: { name: string };
+  createdAt: string;
+}
+
+interface RevisionHistoryProps {
+  themeId: string;
+  // Changes whenever the theme is saved so the list refreshes
+  refreshKey: string;
+  onRestored: () => void;
+}
+
+const DIFF_SECTIONS: { key: keyof ThemeDiff; label: string }[] = [
+  { key: 'details', label: 'Details' },
+  { key: 'palette', label: 'Palette' },
+  { key: 'typography', label: 'Typography' },
+  { key: 'components', label: 'Components' },
+  { key: 'layouts', label: 'Page Layouts' },
+];
+
+function formatValue(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export default function RevisionHistory({ themeId, refreshKey, onRestored }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [comparing, setComparing] = useState<number | null>(null);
+  const [diff, setDiff] = useState<ThemeDiff | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      try {
+        const response = await axios.get(`/api/theme-revisions?themeId=${themeId}`);
+        setRevisions(response.data.revisions);
+        setError('');
+      } catch (err) {
+        console.error('Error fetching revisions:', err);
+        setError('Failed to load the revision history.');
+      }
+    };
+
+    setComparing(null);
+    setDiff(null);
+    fetchRevisions();
+  }, [themeId, refreshKey]);
+
+  const handleCompare = async (revision: number) => {
+    if (comparing === revision) {
+      setComparing(null);
+      setDiff(null);
+      return;
+    }
+
+    try {
+      const response = await axios.get(`/api/theme-revisions?themeId=${themeId}&action=diff&from=${revision}`);
+      setComparing(revision);
+      setDiff(response.data.diff);
+    } catch (err) {
+      console.error('Error comparing revisions:', err);
+      setError('Failed to compare revisions.');
+    }
+  };
+
+  const handleRestore = async (revision: number) => {
+    if (!confirm(`Restore revision ${revision}? Your current version stays in the history.`)) return;
+
+    try {
+      setIsRestoring(true);
+      await axios.post('/api/theme-revisions', { themeId, revision });
+      onRestored();
+    } catch (err) {
+      console.error('Error restoring revision:', err);
+      setError('Failed to restore the revision.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const renderChange = (change: ThemeChange) => (
+    <li key={change.path} className="font-mono text-xs break-all">
+      <span className="text-gray-500">{change.path}</span>{' '}
+      {change.type !== 'added' && <span className="text-red-600 line-through">{formatValue(change.from)}</span>}{' '}
+      {change.type !== 'removed' && <span className="text-green-700">{formatValue(change.to)}</span>}
+    </li>
+  );
+
+  if (error) {
+    return <p className="text-red-600 text-sm">{error}</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-gray-500 text-sm">No revisions yet. Every save is recorded here.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {revisions.map((revision, index) => (
+        <li key={revision._id} className="py-3">
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <p className="font-medium">
+                Revision {revision.revision}
+                {index === 0 && <span className="ml-2 text-xs text-green-700">current</span>}
+              </p>
+              <p className="text-xs text-gray-500">
+                {revision.source === 'initial' && 'Original version'}
+                {revision.source === 'update' && `Changed ${revision.changedFields.join(', ')}`}
+                {revision.source === 'rollback' && `Restored revision ${revision.restoredFrom}`}
+                {revision.author && ` by ${revision.author.name}`} · {new Date(revision.createdAt).toLocaleString()}
+              </p>
+            </div>
+            {index > 0 && (
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => handleCompare(revision.revision)} className="text-sm text-blue-600 hover:underline">
+                  {comparing === revision.revision ? 'Hide changes' : 'Compare'}
+                </button>
+                <button
+                  onClick={() => handleRestore(revision.revision)}
+                  disabled={isRestoring}
+                  className="text-sm text-blue-600 hover:underline disabled:opacity-50"
+                >
+                  Restore
+                </button>
+              </div>
+            )}
+          </div>
+
+          {comparing === revision.revision && diff && (
+            <div className="mt-2 bg-gray-50 rounded p-3 space-y-2">
+              <p className="text-xs text-gray-500">Changes from this revision to the current theme</p>
+              {DIFF_SECTIONS.filter(({ key }) => diff[key].length > 0).map(({ key, label }) => (
+                <div key={key}>
+                  <p className="text-sm font-semibold">{label}</p>
+                  <ul className="space-y-1">{diff[key].map(renderChange)}</ul>
+                </div>
+              ))}
+              {DIFF_SECTIONS.every(({ key }) => diff[key].length === 0) && (
+                <p className="text-sm text-gray-500">No differences.</p>
+              )}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { GeneratedTheme } from '@/services/ai/generator/themeGenerator';
+import { isValidFontStack } from '@/lib/themeValidation';
+
+type Typography = GeneratedTheme['typography'];
+
+interface TypographyEditorProps {
+  typography: Typography;
+  onChange: (field: keyof Typography, fontStack: string) => void;
+}
+
+const FIELDS: { field: keyof Typography; label: string; sample: string }[] = [
+  { field: 'headingFont', label: 'Heading Font', sample: 'The quick brown fox jumps over the lazy dog' },
+  { field: 'bodyFont', label: 'Body Font', sample: 'The quick brown fox jumps over the lazy dog' },
+  { field: 'codeFont', label: 'Code Font', sample: 'const greeting = "Hello, World!";' },
+];
+
+export default function TypographyEditor({ typography, onChange }: TypographyEditorProps) {
+  return (
+    <div className="space-y-4">
+      {FIELDS.map(({ field, label, sample }) => {
+        const isValid = isValidFontStack(typography[field]);
+
+        return (
+          <div key={field}>
+            <label htmlFor={`typography-${field}`} className="block text-gray-700 mb-1">{label}</label>
+            <input
+              id={`typography-${field}`}
+              type="text"
+              value={typography[field]}
+              onChange={(e) => onChange(field, e.target.value)}
+              className={`input-field font-mono text-sm ${isValid ? '' : 'border-red-500'}`}
+              placeholder="Inter, system-ui, sans-serif"
+            />
+            {isValid ? (
+              <p className="mt-1 text-gray-600" style={{ fontFamily: typography[field] }}>{sample}</p>
+            ) : (
+              <p className="mt-1 text-xs text-red-600">
+                Use a comma-separated list of font names, quoting names with special characters
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
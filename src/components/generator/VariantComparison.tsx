@@ -0,0 +1,108 @@
+'use client';
+
+import Link from 'next/link';
+import type { CSSProperties } from 'react';
+import { GeneratedTheme } from '@/services/ai/generator/themeGenerator';
+
+export interface ExplorationVariant {
+  _id: string;
+  theme: GeneratedTheme;
+  trend: string;
+  temperature: number;
+  seedColor?: string;
+  harmony?: string;
+  promotedTheme?: string;
+}
+
+interface VariantComparisonProps {
+  variants: ExplorationVariant[];
+  onPromote: (variantId: string) => void;
+  promotingId?: string | null;
+}
+
+const PALETTE_ROLES = ['primary', 'secondary', 'accent', 'background', 'text'] as const;
+
+// Component styles may nest states such as hover; only the flat CSS properties can be applied inline
+function toStyle(styles: unknown): CSSProperties {
+  if (!styles || typeof styles !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(styles).filter(([, value]) => typeof value === 'string' || typeof value === 'number')
+  );
+}
+
+/**
+ * Renders the variants of an exploration side by side from their own component styles
+ */
+export default function VariantComparison({ variants, onPromote, promotingId }: VariantComparisonProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+      {variants.map((variant) => {
+        const { theme } = variant;
+        const buttons = theme.components?.buttons || {};
+
+        return (
+          <div key={variant._id} className="border border-gray-200 rounded-lg overflow-hidden flex flex-col">
+            <div
+              className="p-4 flex-1"
+              style={{
+                backgroundColor: theme.colorPalette.background,
+                color: theme.colorPalette.text,
+                fontFamily: theme.typography.bodyFont,
+              }}
+            >
+              <h3 className="text-lg font-bold mb-1" style={{ fontFamily: theme.typography.headingFont }}>
+                {theme.name}
+              </h3>
+              <p className="text-xs opacity-75 mb-3">
+                {variant.trend} · temperature {variant.temperature}
+                {variant.seedColor && ` · ${variant.seedColor} ${variant.harmony || ''}`}
+              </p>
+
+              <div className="flex gap-1 mb-3">
+                {PALETTE_ROLES.map((role) => (
+                  <div
+                    key={role}
+                    title={`${role}: ${theme.colorPalette[role]}`}
+                    className="w-8 h-8 rounded border border-gray-200"
+                    style={{ backgroundColor: theme.colorPalette[role] }}
+                  ></div>
+                ))}
+              </div>
+
+              <div className="flex gap-2 mb-3">
+                <button type="button" style={toStyle(buttons.primary)}>Primary</button>
+                <button type="button" style={toStyle(buttons.secondary)}>Secondary</button>
+              </div>
+
+              <div style={toStyle(theme.components?.cards)}>
+                <p className="text-sm">Sample card content</p>
+                <code className="text-xs" style={{ fontFamily: theme.typography.codeFont }}>
+                  const theme = &quot;{theme.type}&quot;;
+                </code>
+              </div>
+            </div>
+
+            <div className="p-3 bg-white border-t border-gray-200 flex justify-end">
+              {variant.promotedTheme ? (
+                <Link
+                  href={`/dashboard/marketplace/theme/${variant.promotedTheme}`}
+                  className="text-sm text-green-700 hover:underline"
+                >
+                  Saved as a theme
+                </Link>
+              ) : (
+                <button
+                  onClick={() => onPromote(variant._id)}
+                  disabled={!!promotingId}
+                  className={`btn-primary text-sm ${promotingId ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                  {promotingId === variant._id ? 'Saving...' : 'Save as Theme'}
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+'use client';
+
+import { CSSProperties, ReactNode, useState } from 'react';
+import { GeneratedTheme } from '@/services/ai/generator/themeGenerator';
+import { ColorScheme, PaletteEngine } from '@/services/ai/generator/paletteEngine';
+
+interface ComponentGalleryProps {
+  theme: Pick<GeneratedTheme, 'colorPalette' | 'typography' | 'components'>;
+}
+
+const paletteEngine = new PaletteEngine();
+
+const STATES = ['hover', 'active', 'focus', 'disabled'];
+
+// Component properties that are not CSS properties; the gallery draws them itself
+const NON_CSS_PROPERTIES = ['placeholderColor', 'iconColor', 'activeColor', 'inactiveColor', 'backdropColor', 'size'];
+
+/**
+ * Inline style of a component in one of its states: the state's properties over the resting ones
+ */
+function toStyle(node: Record<string, any> | undefined, state = 'rest'): CSSProperties {
+  const merged = { ...node, ...(state === 'rest' ? {} : node?.[state]) };
+
+  return Object.fromEntries(Object.entries(merged).filter(([key, value]) =>
+    (typeof value === 'string' || typeof value === 'number') && !NON_CSS_PROPERTIES.includes(key)
+  ));
+}
+
+interface StateRowProps {
+  node: Record<string, any>;
+  render: (style: CSSProperties, state: string) => ReactNode;
+  // States to show after the resting style, where the component defines them
+  states?: string[];
+}
+
+/**
+ * The resting style of a component followed by each state it defines
+ */
+function StateRow({ node, render, states = STATES }: StateRowProps) {
+  const shown = ['rest', ...states.filter(state => node[state])];
+
+  return (
+    <div className="flex flex-wrap items-end gap-6">
+      {shown.map(state => (
+        <div key={state} className="flex flex-col items-start gap-2">
+          {render(toStyle(node, state), state)}
+          <span className="text-xs opacity-60 capitalize">{state}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="space-y-3">
+      <h4 className="text-sm font-semibold uppercase tracking-wide opacity-70">{title}</h4>
+      {children}
+    </section>
+  );
+}
+
+export default function ComponentGallery({ theme: baseTheme }: ComponentGalleryProps) {
+  const { defaultScheme } = paletteEngine.getSchemes(baseTheme.colorPalette);
+  const [scheme, setScheme] = useState<ColorScheme>(defaultScheme);
+
+  // Components are rendered in either scheme, with their state shades following the palette
+  const theme = paletteEngine.applyScheme(baseTheme, scheme);
+  const { colorPalette, typography, components } = theme;
+  const { buttons, cards, navigation, tabs, inputs, selects, checkboxes, alerts, badges, modals, tables, tooltips } = components;
+
+  return (
+    <div>
+      <div className="flex gap-4 mb-4">
+        <select
+          aria-label="Color scheme"
+          value={scheme}
+          onChange={(e) => setScheme(e.target.value as ColorScheme)}
+          className="input-field"
+        >
+          <option value="light">Light{defaultScheme === 'light' ? ' (default)' : ''}</option>
+          <option value="dark">Dark{defaultScheme === 'dark' ? ' (default)' : ''}</option>
+        </select>
+      </div>
+
+      <div
+        className="space-y-8 p-6 border border-gray-200 rounded-lg"
+        style={{ backgroundColor: colorPalette.background, color: colorPalette.text, fontFamily: typography.bodyFont }}
+      >
+        {buttons && (
+          <Section title="Buttons">
+            {Object.entries(buttons as Record<string, any>).map(([variant, button]) => (
+              <StateRow
+                key={variant}
+                node={button}
+                render={(style) => <button type="button" style={style} className="capitalize">{variant}</button>}
+              />
+            ))}
+          </Section>
+        )}
+
+        {badges && (
+          <Section title="Badges">
+            <StateRow node={badges} render={(style) => <span style={style}>New</span>} />
+          </Section>
+        )}
+
+        {inputs && (
+          <Section title="Inputs">
+            <StateRow
+              node={inputs}
+              render={(style, state) => <input type="text" readOnly placeholder="Email address" disabled={state === 'disabled'} style={style} />}
+            />
+          </Section>
+        )}
+
+        {selects && (
+          <Section title="Selects">
+            <StateRow
+              node={selects}
+              render={(style, state) => (
+                <select disabled={state === 'disabled'} style={style} defaultValue="monthly">
+                  <option value="monthly">Monthly</option>
+                  <option value="yearly">Yearly</option>
+                </select>
+              )}
+            />
+            {selects.option && (
+              <ul className="w-48" style={{ ...toStyle(selects), padding: 0 }}>
+                <li style={{ ...toStyle(selects.option.selected), padding: '4px 12px' }}>Monthly</li>
+                <li style={{ ...toStyle(selects.option.hover), padding: '4px 12px' }}>Yearly</li>
+              </ul>
+            )}
+          </Section>
+        )}
+
+        {checkboxes && (
+          <Section title="Checkboxes">
+            <StateRow
+              node={checkboxes}
+              states={['checked', ...STATES]}
+              render={(style, state) => (
+                <span
+                  className="inline-flex items-center justify-center text-xs"
+                  style={{ ...style, width: checkboxes.size, height: checkboxes.size }}
+                >
+                  {state === 'checked' ? '✓' : ''}
+                </span>
+              )}
+            />
+          </Section>
+        )}
+
+        {alerts && (
+          <Section title="Alerts">
+            <div className="space-y-3">
+              {Object.entries(alerts as Record<string, any>).map(([status, alert]) => (
+                <div key={status} className="flex items-start justify-between gap-4" style={toStyle(alert)}>
+                  <span>
+                    <strong className="capitalize" style={{ color: alert.iconColor }}>{status}: </strong>
+                    A message shown with the {status} status.
+                  </span>
+                  {alert.dismiss && (
+                    <button type="button" aria-label="Dismiss" style={{ ...toStyle(alert.dismiss), padding: '0 6px' }}>×</button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </Section>
+        )}
+
+        {cards && (
+          <Section title="Cards">
+            <StateRow
+              node={cards}
+              render={(style) => (
+                <div className="w-48" style={{ ...style, animation: undefined }}>
+                  <h5 style={{ fontFamily: typography.headingFont, fontWeight: 600 }}>Card title</h5>
+                  <p className="text-sm opacity-80">Supporting copy.</p>
+                </div>
+              )}
+            />
+          </Section>
+        )}
+
+        {navigation && (
+          <Section title="Navigation">
+            <StateRow node={navigation} render={(style) => <nav style={style}>Home</nav>} />
+          </Section>
+        )}
+
+        {tabs && (
+          <Section title="Tabs">
+            <StateRow
+              node={tabs}
+              render={(style, state) => (
+                <span style={{ ...style, color: style.color || (state === 'rest' ? tabs.inactiveColor : tabs.activeColor), padding: '8px 16px' }}>
+                  Overview
+                </span>
+              )}
+            />
+          </Section>
+        )}
+
+        {tables && (
+          <Section title="Tables">
+            <table className="w-full border-collapse" style={toStyle(tables)}>
+              <thead>
+                <tr style={toStyle(tables.header)}>
+                  {['Plan', 'Seats', 'State'].map(heading => (
+                    <th key={heading} className="text-left" style={{ ...toStyle(tables.cell), borderBottom: `1px solid ${tables.borderColor}` }}>{heading}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {['rest', ...STATES].filter(state => state === 'rest' || tables.row?.[state]).map(state => (
+                  <tr key={state} style={toStyle(tables.row, state)}>
+                    <td style={toStyle(tables.cell)}>Team</td>
+                    <td style={toStyle(tables.cell)}>12</td>
+                    <td className="capitalize" style={toStyle(tables.cell)}>{state}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Section>
+        )}
+
+        {tooltips && (
+          <Section title="Tooltips">
+            <span className="inline-block" style={{ ...toStyle(tooltips), animation: undefined }}>Copied to clipboard</span>
+          </Section>
+        )}
+
+        {modals && (
+          <Section title="Modals">
+            <div className="flex items-center justify-center p-8 rounded" style={{ backgroundColor: modals.backdropColor }}>
+              <div role="dialog" aria-label="Example dialog" className="w-full" style={{ ...toStyle(modals), animation: undefined }}>
+                <div className="flex items-start justify-between gap-4">
+                  <h5 style={{ fontFamily: typography.headingFont, fontWeight: 600 }}>Delete project?</h5>
+                  {modals.close && (
+                    <button type="button" aria-label="Close" style={{ ...toStyle(modals.close), padding: '0 6px' }}>×</button>
+                  )}
+                </div>
+                <p className="mt-2 text-sm opacity-80">This removes the project and its themes for everyone on the team.</p>
+                {buttons?.primary && (
+                  <div className="mt-4 flex justify-end">
+                    <button type="button" style={toStyle(buttons.primary)}>Delete</button>
+                  </div>
+                )}
+              </div>
+            </div>
+          </Section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -23,9 +23,20 @@ interface ThemeCardProps {
     rating: number;
     ratingCount: number;
     previewImage?: string;
+    accessibility?: {
+      score: number;
+      level: 'AAA' | 'AA' | 'fail';
+      failures: number;
+    };
   };
 }
 
+const ACCESSIBILITY_BADGES = {
+  AAA: { label: 'WCAG AAA', className: 'bg-green-100 text-green-800' },
+  AA: { label: 'WCAG AA', className: 'bg-blue-100 text-blue-800' },
+  fail: { label: 'Low contrast', className: 'bg-yellow-100 text-yellow-800' },
+};
+
 export default function ThemeCard({ theme }: ThemeCardProps) {
   return (
     <div className="bg-white dark:bg-gray-800 overflow-hidden shadow rounded-lg">
@@ -46,6 +57,14 @@ export default function ThemeCard({ theme }: ThemeCardProps) {
             </div>
           </div>
         )}
+        {theme.accessibility && (
+          <div
+            className={`absolute top-2 left-2 rounded-full px-2 py-1 text-xs font-medium ${ACCESSIBILITY_BADGES[theme.accessibility.level].className}`}
+            title={`Contrast score ${theme.accessibility.score}/100, ${theme.accessibility.failures} failing color pair${theme.accessibility.failures === 1 ? '' : 's'}`}
+          >
+            {ACCESSIBILITY_BADGES[theme.accessibility.level].label}
+          </div>
+        )}
         <div className="absolute top-2 right-2 bg-white dark:bg-gray-800 rounded-full px-2 py-1 text-xs font-medium text-gray-700 dark:text-gray-300">
           {theme.type}
         </div>
@@ -0,0 +1,65 @@
+import dbConnect from '@/lib/mongoose';
+import { DesignTrend, Migration } from '@/models';
+import { DEFAULT_TRENDS } from '@/services/ai/trends/defaultTrends';
+import { DEFAULT_TRENDS_MIGRATION, ensureDefaultTrends, loadGeneratorTrends } from '../designTrends';
+
+jest.mock('@/lib/mongoose', () => jest.fn());
+jest.mock('@/models', () => ({
+  DesignTrend: { exists: jest.fn(), insertMany: jest.fn(), find: jest.fn() },
+  Migration: { exists: jest.fn(), create: jest.fn() },
+}));
+
+describe('designTrends', () => {
+  let migrations: string[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    migrations = [];
+    (Migration.exists as jest.Mock).mockImplementation(async ({ name }) => migrations.includes(name) || null);
+    (Migration.create as jest.Mock).mockImplementation(async ({ name }) => migrations.push(name));
+    (DesignTrend.exists as jest.Mock).mockResolvedValue(null);
+    (DesignTrend.find as jest.Mock).mockReturnValue({ sort: async () => [] });
+  });
+
+  describe('ensureDefaultTrends', () => {
+    it('should seed the built-in trends once and record it', async () => {
+      await ensureDefaultTrends();
+
+      expect(DesignTrend.insertMany).toHaveBeenCalledTimes(1);
+      expect((DesignTrend.insertMany as jest.Mock).mock.calls[0][0]).toHaveLength(DEFAULT_TRENDS.length);
+      expect(migrations).toEqual([DEFAULT_TRENDS_MIGRATION]);
+    });
+
+    it('should not seed again after admins delete every shared trend', async () => {
+      await ensureDefaultTrends();
+      await ensureDefaultTrends();
+
+      expect(DesignTrend.insertMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only record seeding for databases seeded before it was recorded', async () => {
+      (DesignTrend.exists as jest.Mock).mockResolvedValue({ _id: 'trend-1' });
+
+      await ensureDefaultTrends();
+
+      expect(DesignTrend.insertMany).not.toHaveBeenCalled();
+      expect(migrations).toEqual([DEFAULT_TRENDS_MIGRATION]);
+    });
+
+    it('should tolerate another request recording the seeding first', async () => {
+      (Migration.create as jest.Mock).mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+
+      await expect(ensureDefaultTrends()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('loadGeneratorTrends', () => {
+    it('should fall back to the built-in trends when the database is unavailable', async () => {
+      (dbConnect as jest.Mock).mockRejectedValue(new Error('connect ECONNREFUSED 127.0.0.1:27017'));
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      await expect(loadGeneratorTrends('user-1')).resolves.toBe(DEFAULT_TRENDS);
+      expect(DesignTrend.find).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * @jest-environment node
+ */
+import { ServerSentEvent, formatServerSentEvent, readServerSentEvents } from '../serverSentEvents';
+
+// Emit the text in arbitrary chunks, as a network stream would
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+describe('serverSentEvents', () => {
+  it('should format events with a JSON payload', () => {
+    expect(formatServerSentEvent('stage', { stage: 'palette' })).toBe('event: stage\ndata: {"stage":"palette"}\n\n');
+  });
+
+  it('should read events split across chunks', async () => {
+    const text = formatServerSentEvent('stage', { stage: 'trends', status: 'started' })
+      + ': keep-alive\n\n'
+      + formatServerSentEvent('theme', { name: 'Shades Minimal' });
+    const events: ServerSentEvent[] = [];
+
+    await readServerSentEvents(streamOf(text.slice(0, 17), text.slice(17, 60), text.slice(60)), event => events.push(event));
+
+    expect(events).toEqual([
+      { event: 'stage', data: { stage: 'trends', status: 'started' } },
+      { event: 'theme', data: { name: 'Shades Minimal' } },
+    ]);
+  });
+
+  it('should default the event name and keep non-JSON data as text', async () => {
+    const events: ServerSentEvent[] = [];
+
+    await readServerSentEvents(streamOf('data: hello\r\n\r\ndata: {"a":1}'), event => events.push(event));
+
+    expect(events).toEqual([
+      { event: 'message', data: 'hello' },
+      { event: 'message', data: { a: 1 } },
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+import { createSnapshot, diffSnapshots, ensureInitialRevision, recordThemeRevision } from '../themeHistory';
+import { Theme, ThemeRevision } from '@/models';
+import type { ITheme, ThemeSnapshot } from '@/models';
+
+jest.mock('@/models', () => ({
+  Theme: { updateOne: jest.fn(), findOneAndUpdate: jest.fn() },
+  ThemeRevision: Object.assign(jest.fn(), { findOne: jest.fn() }),
+}));
+
+describe('themeHistory', () => {
+  let snapshot: ThemeSnapshot;
+
+  beforeEach(() => {
+    snapshot = {
+      name: 'Shades Modern Minimalism',
+      description: 'A Modern Minimalism theme for web projects',
+      colorPalette: {
+        primary: '#2D3748',
+        secondary: '#4A5568',
+        accent: '#38B2AC',
+        background: '#FFFFFF',
+        text: '#1A202C',
+      },
+      typography: {
+        headingFont: 'Inter, sans-serif',
+        bodyFont: 'Inter, sans-serif',
+        codeFont: 'Fira Code, monospace',
+      },
+      components: {
+        buttons: { primary: { backgroundColor: '#2D3748', borderRadius: '2px' } },
+      },
+      styles: {},
+      pageLayouts: {
+        blog: { post: { layout: 'centered', readingWidth: '680px' } },
+      },
+    };
+  });
+
+  describe('createSnapshot', () => {
+    it('should copy only the versioned fields', () => {
+      const copy = createSnapshot({ ...snapshot, isPublic: true } as ThemeSnapshot);
+
+      expect(Object.keys(copy)).not.toContain('isPublic');
+      expect(copy).toEqual(snapshot);
+      expect(copy.components).not.toBe(snapshot.components);
+    });
+  });
+
+  describe('diffSnapshots', () => {
+    it('should report no changes for identical snapshots', () => {
+      expect(diffSnapshots(snapshot, createSnapshot(snapshot))).toEqual({
+        details: [],
+        palette: [],
+        typography: [],
+        components: [],
+        layouts: [],
+      });
+    });
+
+    it('should group nested changes by area with their paths', () => {
+      const updated = createSnapshot(snapshot);
+      updated.name = 'Shades Ocean';
+      updated.colorPalette.primary = '#2B6CB0';
+      updated.components.buttons.primary.backgroundColor = '#2B6CB0';
+      delete updated.components.buttons.primary.borderRadius;
+      updated.pageLayouts.blog.post.imagePosition = 'top';
+
+      const diff = diffSnapshots(snapshot, updated);
+
+      expect(diff.details).toEqual([
+        { path: 'name', type: 'changed', from: 'Shades Modern Minimalism', to: 'Shades Ocean' },
+      ]);
+      expect(diff.palette).toEqual([
+        { path: 'colorPalette.primary', type: 'changed', from: '#2D3748', to: '#2B6CB0' },
+      ]);
+      expect(diff.typography).toEqual([]);
+      expect(diff.components).toEqual([
+        { path: 'components.buttons.primary.backgroundColor', type: 'changed', from: '#2D3748', to: '#2B6CB0' },
+        { path: 'components.buttons.primary.borderRadius', type: 'removed', from: '2px' },
+      ]);
+      expect(diff.layouts).toEqual([
+        { path: 'pageLayouts.blog.post.imagePosition', type: 'added', to: 'top' },
+      ]);
+    });
+  });
+
+  describe('revisions', () => {
+    let saved: Record<string, unknown>[];
+    let latest: { revision: number } | null;
+    let stored: { revisionCount?: number };
+
+    const theme = (fields: Partial<ITheme> = {}) =>
+      ({ ...snapshot, _id: 'theme-1', creator: 'user-1', revisionCount: 0, ...fields }) as unknown as ITheme;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      saved = [];
+      latest = null;
+      stored = {};
+      (ThemeRevision as unknown as jest.Mock).mockImplementation(data => ({
+        ...data,
+        save: jest.fn(async () => {
+          saved.push(data);
+          return data;
+        }),
+      }));
+      (ThemeRevision.findOne as jest.Mock).mockImplementation(() => ({
+        sort: () => ({ select: async () => latest }),
+      }));
+      // Applies the conditional updates to one stored theme, as MongoDB would
+      const matches = (filter: { revisionCount: { $not: { $gte: number } } }) =>
+        !((stored.revisionCount ?? -Infinity) >= filter.revisionCount.$not.$gte);
+      (Theme.updateOne as jest.Mock).mockImplementation(async (filter, update) => {
+        if (matches(filter)) Object.assign(stored, update.$set);
+      });
+      (Theme.findOneAndUpdate as jest.Mock).mockImplementation(async (filter, update) => {
+        if (!matches(filter)) return null;
+        Object.assign(stored, update.$set);
+        return theme(stored);
+      });
+    });
+
+    it('should record the revision allocated by the update', async () => {
+      const revision = await recordThemeRevision(theme({ revisionCount: 4 }), 'user-2', { changedFields: ['name'] });
+
+      expect(revision).toMatchObject({ theme: 'theme-1', revision: 4, author: 'user-2', source: 'update', changedFields: ['name'] });
+      expect(ThemeRevision.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should refuse themes saved without allocating a revision', async () => {
+      await expect(recordThemeRevision(theme(), 'user-1')).rejects.toThrow('Theme theme-1 was saved without allocating a revision');
+      expect(saved).toHaveLength(0);
+    });
+
+    it('should record the first revision once when updates race', async () => {
+      await Promise.all([ensureInitialRevision(theme()), ensureInitialRevision(theme())]);
+
+      expect(saved).toHaveLength(1);
+      expect(saved[0]).toMatchObject({ revision: 1, source: 'initial', author: 'user-1' });
+      expect(stored.revisionCount).toBe(1);
+    });
+
+    it('should start counting from the latest revision of themes versioned before the counter', async () => {
+      latest = { revision: 7 };
+
+      await ensureInitialRevision(theme());
+
+      expect(saved).toHaveLength(0);
+      expect(stored.revisionCount).toBe(7);
+    });
+
+    it('should leave themes that count their revisions alone', async () => {
+      await ensureInitialRevision(theme({ revisionCount: 3 }));
+
+      expect(ThemeRevision.findOne).not.toHaveBeenCalled();
+      expect(Theme.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { isValidColor, isValidFontStack, themeCreateSchema, themeGenerationRequestSchema, themeUpdateSchema } from '../themeValidation';
+import { ThemeGenerator } from '@/services/ai/generator/themeGenerator';
+
+jest.mock('openai', () => jest.fn().mockImplementation(() => ({})));
+
+describe('themeValidation', () => {
+  describe('isValidColor', () => {
+    it('should accept hex, rgb, hsl and keyword colors', () => {
+      ['#FFF', '#1A202C', 'rgba(0, 0, 0, 0.1)', 'hsl(210, 40%, 50%)', 'transparent'].forEach(color =>
+        expect(isValidColor(color)).toBe(true));
+    });
+
+    it('should reject malformed colors', () => {
+      ['#GGG', 'red; background: url(x)', '', 'rgb(0, 0)'].forEach(color =>
+        expect(isValidColor(color)).toBe(false));
+    });
+  });
+
+  describe('isValidFontStack', () => {
+    it('should accept quoted and unquoted families', () => {
+      expect(isValidFontStack('Inter, sans-serif')).toBe(true);
+      expect(isValidFontStack('"Fira Code", monospace')).toBe(true);
+    });
+
+    it('should reject stacks that break out of the declaration', () => {
+      expect(isValidFontStack('Inter; color: red')).toBe(false);
+      expect(isValidFontStack('Inter,, sans-serif')).toBe(false);
+      expect(isValidFontStack('"Inter</style>"')).toBe(false);
+    });
+  });
+
+  describe('themeUpdateSchema', () => {
+    it('should accept a generated theme', async () => {
+      const theme = await new ThemeGenerator().generateTheme('Modern Minimalism');
+      const { name, colorPalette, typography, components, pageLayouts } = theme;
+
+      expect(themeUpdateSchema.safeParse({ name, colorPalette, typography, components, pageLayouts }).success).toBe(true);
+    });
+
+    it('should report invalid component properties by path', () => {
+      const result = themeUpdateSchema.safeParse({
+        components: {
+          buttons: { primary: { backgroundColor: 'not-a-color', padding: '10px}body{display:none' } },
+        },
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues.map(issue => issue.path.join('.'))).toEqual([
+          'components.buttons.primary.backgroundColor',
+          'components.buttons.primary.padding',
+        ]);
+      }
+    });
+
+    it('should reject unknown fields and partial palettes', () => {
+      expect(themeUpdateSchema.safeParse({ creator: 'someone-else' }).success).toBe(false);
+      expect(themeUpdateSchema.safeParse({ colorPalette: { primary: '#000000' } }).success).toBe(false);
+    });
+  });
+
+  describe('themeCreateSchema', () => {
+    it('should accept a whole generated theme', async () => {
+      const { name, type, colorPalette, typography, scales, motion, components, styles, pageLayouts } =
+        await new ThemeGenerator().generateTheme('Modern Minimalism');
+
+      const result = themeCreateSchema.safeParse({ name, type, colorPalette, typography, scales, motion, components, styles, pageLayouts });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should require a name, type, palette and typography', () => {
+      const result = themeCreateSchema.safeParse({ name: 'Untyped' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(Object.keys(result.error.flatten().fieldErrors).sort()).toEqual(['colorPalette', 'type', 'typography']);
+      }
+    });
+  });
+
+  describe('themeGenerationRequestSchema', () => {
+    it('should accept languages and page categories from the catalogs', () => {
+      const result = themeGenerationRequestSchema.safeParse({
+        themeType: 'Dark Mode',
+        languages: ['rust', 'sql', 'shell'],
+        pageCategories: ['pricing', 'docs'],
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject languages and page categories outside the catalogs', () => {
+      expect(themeGenerationRequestSchema.safeParse({ themeType: 'Dark Mode', languages: ['cobol'] }).success).toBe(false);
+      expect(themeGenerationRequestSchema.safeParse({ themeType: 'Dark Mode', pageCategories: ['ingredients'] }).success).toBe(false);
+    });
+  });
+});
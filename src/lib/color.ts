@@ -0,0 +1,292 @@
+/**
+ * Color parsing and conversion helpers shared by the generators, exporters and analyzers
+ */
+
+export interface RGB {
+  r: number; // 0-255
+  g: number; // 0-255
+  b: number; // 0-255
+  a?: number; // 0-1
+}
+
+export interface HSL {
+  h: number; // 0-360
+  s: number; // 0-1
+  l: number; // 0-1
+}
+
+export interface OKLCH {
+  l: number; // 0-1 perceptual lightness
+  c: number; // chroma, 0 to roughly 0.37 for sRGB colors
+  h: number; // 0-360
+}
+
+const HEX_REGEX = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const RGB_REGEX = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/i;
+const HSL_REGEX = /^hsla?\(\s*([\d.]+)(?:deg)?[\s,]+([\d.]+)%[\s,]+([\d.]+)%(?:[\s,/]+([\d.]+%?))?\s*\)$/i;
+
+/**
+ * Parse a hex, rgb() or hsl() color string
+ * @param color The CSS color string
+ * @returns The RGB components, or null if the color cannot be parsed
+ */
+export function parseColor(color: string): RGB | null {
+  const value = color.trim();
+
+  const hexMatch = value.match(HEX_REGEX);
+  if (hexMatch) {
+    let hex = hexMatch[1];
+    if (hex.length <= 4) {
+      hex = hex.split('').map(c => c + c).join('');
+    }
+
+    const rgb: RGB = {
+      r: parseInt(hex.substring(0, 2), 16),
+      g: parseInt(hex.substring(2, 4), 16),
+      b: parseInt(hex.substring(4, 6), 16),
+    };
+    if (hex.length === 8) {
+      rgb.a = parseInt(hex.substring(6, 8), 16) / 255;
+    }
+    return rgb;
+  }
+
+  const rgbMatch = value.match(RGB_REGEX);
+  if (rgbMatch) {
+    const rgb: RGB = {
+      r: clamp(Number(rgbMatch[1]), 0, 255),
+      g: clamp(Number(rgbMatch[2]), 0, 255),
+      b: clamp(Number(rgbMatch[3]), 0, 255),
+    };
+    if (rgbMatch[4] !== undefined) {
+      rgb.a = parseAlpha(rgbMatch[4]);
+    }
+    return rgb;
+  }
+
+  const hslMatch = value.match(HSL_REGEX);
+  if (hslMatch) {
+    const rgb = hslToRgb(Number(hslMatch[1]), Number(hslMatch[2]) / 100, Number(hslMatch[3]) / 100);
+    if (hslMatch[4] !== undefined) {
+      rgb.a = parseAlpha(hslMatch[4]);
+    }
+    return rgb;
+  }
+
+  if (value.toLowerCase() === 'white') return { r: 255, g: 255, b: 255 };
+  if (value.toLowerCase() === 'black') return { r: 0, g: 0, b: 0 };
+
+  return null;
+}
+
+/**
+ * Convert RGB components to a 6-digit uppercase hex string (alpha is dropped)
+ */
+export function rgbToHex({ r, g, b }: RGB): string {
+  return '#' + [r, g, b]
+    .map(channel => Math.round(clamp(channel, 0, 255)).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+}
+
+/**
+ * Normalize any parseable color to a 6-digit hex string
+ * @returns The hex color, or the input unchanged if it cannot be parsed
+ */
+export function toHex(color: string): string {
+  const rgb = parseColor(color);
+  return rgb ? rgbToHex(rgb) : color;
+}
+
+/**
+ * Calculate the WCAG relative luminance of a color
+ * @returns The luminance (0-1), or null if the color cannot be parsed
+ */
+export function relativeLuminance(color: string): number | null {
+  const rgb = parseColor(color);
+  if (!rgb) return null;
+
+  const [r, g, b] = [rgb.r, rgb.g, rgb.b].map(channel => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Check whether a color is dark enough to need light foreground content
+ */
+export function isDarkColor(color: string): boolean {
+  const luminance = relativeLuminance(color);
+  return luminance !== null && luminance < 0.179;
+}
+
+/**
+ * Calculate the WCAG 2.1 contrast ratio between two colors
+ * @returns The ratio (1-21), or null if either color cannot be parsed
+ */
+export function contrastRatio(foreground: string, background: string): number | null {
+  const l1 = relativeLuminance(foreground);
+  const l2 = relativeLuminance(background);
+  if (l1 === null || l2 === null) return null;
+
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+/**
+ * Convert RGB components to hue (0-360), saturation (0-1) and lightness (0-1)
+ */
+export function rgbToHsl({ r, g, b }: RGB): HSL {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const l = (max + min) / 2;
+
+  if (max === min) {
+    return { h: 0, s: 0, l };
+  }
+
+  const delta = max - min;
+  const s = l > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  const h =
+    max === red ? ((green - blue) / delta + (green < blue ? 6 : 0)) * 60 :
+    max === green ? ((blue - red) / delta + 2) * 60 :
+    ((red - green) / delta + 4) * 60;
+
+  return { h, s, l };
+}
+
+/**
+ * Replace a color inside a CSS value, e.g. the color of a border shorthand.
+ * Matches whole colors only, so #FFF does not match inside #FFFFFF.
+ */
+export function replaceColor(value: string, from: string, to: string): string {
+  const escaped = from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(^|[^\\w#-])${escaped}(?![\\w-])`, 'gi');
+
+  return value.replace(pattern, (_, prefix) => `${prefix}${to}`);
+}
+
+/**
+ * Convert hue (0-360), saturation (0-1) and lightness (0-1) to RGB components
+ */
+export function hslToRgb(h: number, s: number, l: number): RGB {
+  const hue = ((h % 360) + 360) % 360;
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = l - chroma / 2;
+
+  const [r, g, b] =
+    hue < 60 ? [chroma, x, 0] :
+    hue < 120 ? [x, chroma, 0] :
+    hue < 180 ? [0, chroma, x] :
+    hue < 240 ? [0, x, chroma] :
+    hue < 300 ? [x, 0, chroma] :
+    [chroma, 0, x];
+
+  return {
+    r: Math.round((r + m) * 255),
+    g: Math.round((g + m) * 255),
+    b: Math.round((b + m) * 255),
+  };
+}
+
+/**
+ * Convert RGB components to OKLCH, a perceptually uniform space where equal steps
+ * in lightness look equal across hues
+ */
+export function rgbToOklch({ r, g, b }: RGB): OKLCH {
+  const [red, green, blue] = [r, g, b].map(channel => toLinear(channel / 255));
+
+  const l = Math.cbrt(0.4122214708 * red + 0.5363325363 * green + 0.0514459929 * blue);
+  const m = Math.cbrt(0.2119034982 * red + 0.6806995451 * green + 0.1073969566 * blue);
+  const s = Math.cbrt(0.0883024619 * red + 0.2817188376 * green + 0.6299787005 * blue);
+
+  const lightness = 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s;
+  const a = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+  const bAxis = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+
+  const chroma = Math.sqrt(a * a + bAxis * bAxis);
+  const hue = chroma < 1e-4 ? 0 : (Math.atan2(bAxis, a) * 180 / Math.PI + 360) % 360;
+
+  return { l: lightness, c: chroma, h: hue };
+}
+
+/**
+ * Convert OKLCH to RGB components. Colors outside the sRGB gamut keep their
+ * lightness and hue and lose chroma until they fit.
+ */
+export function oklchToRgb({ l, c, h }: OKLCH): RGB {
+  const lightness = clamp(l, 0, 1);
+  let chroma = Math.max(0, c);
+  let linear = oklchToLinearRgb(lightness, chroma, h);
+
+  if (!isInGamut(linear)) {
+    let low = 0;
+    let high = chroma;
+    for (let i = 0; i < 24; i++) {
+      chroma = (low + high) / 2;
+      if (isInGamut(oklchToLinearRgb(lightness, chroma, h))) {
+        low = chroma;
+      } else {
+        high = chroma;
+      }
+    }
+    linear = oklchToLinearRgb(lightness, low, h);
+  }
+
+  const [r, g, b] = linear.map(channel => Math.round(clamp(fromLinear(channel), 0, 1) * 255));
+  return { r, g, b };
+}
+
+/**
+ * Parse any supported color string into OKLCH
+ * @returns The OKLCH color, or null if the color cannot be parsed
+ */
+export function toOklch(color: string): OKLCH | null {
+  const rgb = parseColor(color);
+  return rgb ? rgbToOklch(rgb) : null;
+}
+
+/**
+ * Convert an OKLCH color to a 6-digit hex string
+ */
+export function oklchToHex(color: OKLCH): string {
+  return rgbToHex(oklchToRgb(color));
+}
+
+function oklchToLinearRgb(l: number, c: number, h: number): number[] {
+  const a = c * Math.cos(h * Math.PI / 180);
+  const b = c * Math.sin(h * Math.PI / 180);
+
+  const lCone = Math.pow(l + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const mCone = Math.pow(l - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const sCone = Math.pow(l - 0.0894841775 * a - 1.2914855480 * b, 3);
+
+  return [
+    4.0767416621 * lCone - 3.3077115913 * mCone + 0.2309699292 * sCone,
+    -1.2684380046 * lCone + 2.6097574011 * mCone - 0.3413193965 * sCone,
+    -0.0041960863 * lCone - 0.7034186147 * mCone + 1.7076147010 * sCone,
+  ];
+}
+
+function isInGamut(linear: number[]): boolean {
+  return linear.every(channel => channel >= -1e-4 && channel <= 1 + 1e-4);
+}
+
+function toLinear(value: number): number {
+  return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+
+function fromLinear(value: number): number {
+  return value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+}
+
+function parseAlpha(value: string): number {
+  return value.endsWith('%') ? clamp(parseFloat(value) / 100, 0, 1) : clamp(Number(value), 0, 1);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,52 @@
+/**
+ * Helpers for CSS custom property references such as `var(--space-4, 1rem)` in theme style values
+ */
+
+/**
+ * Rewrite every `var()` reference in a CSS value
+ * @param value The CSS value
+ * @param replace Maps a reference's custom property name (without the leading dashes) and fallback to its replacement
+ * @returns The value with each reference replaced
+ */
+export function replaceVariableReferences(
+  value: string,
+  replace: (name: string, fallback: string | undefined, reference: string) => string
+): string {
+  let result = '';
+  let index = 0;
+
+  while (index < value.length) {
+    const start = value.indexOf('var(--', index);
+    if (start === -1) break;
+
+    // Fallbacks such as rgba() or clamp() contain parentheses of their own
+    let depth = 0;
+    let end = start + 3;
+    for (; end < value.length; end++) {
+      if (value[end] === '(') depth++;
+      else if (value[end] === ')' && --depth === 0) break;
+    }
+    if (end >= value.length) break;
+
+    const reference = value.slice(start, end + 1);
+    const body = reference.slice(6, -1);
+    const comma = body.indexOf(',');
+    const name = (comma === -1 ? body : body.slice(0, comma)).trim();
+    const fallback = comma === -1 ? undefined : body.slice(comma + 1).trim();
+
+    result += value.slice(index, start) + replace(name, fallback, reference);
+    index = end + 1;
+  }
+
+  return result + value.slice(index);
+}
+
+/**
+ * Replace `var()` references with their fallback values so the value can be measured
+ * @param value The CSS value
+ * @returns The value as rendered when no custom property is defined; references without a fallback are kept
+ */
+export function resolveVariableFallbacks(value: string): string {
+  return replaceVariableReferences(value, (_name, fallback, reference) =>
+    fallback === undefined ? reference : resolveVariableFallbacks(fallback));
+}
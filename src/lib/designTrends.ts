@@ -0,0 +1,117 @@
+import dbConnect from '@/lib/mongoose';
+import { DesignTrend, Migration } from '@/models';
+import type { IDesignTrend } from '@/models';
+import { DEFAULT_TRENDS } from '@/services/ai/trends/defaultTrends';
+import type { DesignTrendDefinition } from '@/services/ai/trends/designTrendAnalyzer';
+
+/**
+ * Design trends stored in MongoDB: shared trends managed by admins and private trends owned by users
+ */
+
+/**
+ * Convert a stored trend to the plain definition the generator works with
+ */
+export function toTrendDefinition(trend: IDesignTrend): DesignTrendDefinition {
+  const { colorPalette, typography, components, animations, layout } = trend.features;
+  return {
+    name: trend.name,
+    description: trend.description,
+    features: {
+      colorPalette: [...colorPalette],
+      typography: [...typography],
+      components: [...components],
+      animations: [...animations],
+      layout: [...layout],
+    },
+    palette: {
+      primary: trend.palette.primary,
+      secondary: trend.palette.secondary,
+      accent: trend.palette.accent,
+      background: trend.palette.background,
+      text: trend.palette.text,
+    },
+    typography: {
+      headingFont: trend.typography.headingFont,
+      bodyFont: trend.typography.bodyFont,
+      codeFont: trend.typography.codeFont,
+    },
+  };
+}
+
+// Name of the migration recording that the built-in trends were seeded
+export const DEFAULT_TRENDS_MIGRATION = 'seed-default-design-trends';
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number }).code === 11000;
+}
+
+/**
+ * Seed the built-in trends as shared trends the first time trends are read.
+ * Seeding is recorded, so shared trends admins delete later stay deleted.
+ */
+export async function ensureDefaultTrends(): Promise<void> {
+  if (await Migration.exists({ name: DEFAULT_TRENDS_MIGRATION })) return;
+
+  // Databases seeded before seeding was recorded already have shared trends
+  if (!(await DesignTrend.exists({ owner: null }))) {
+    try {
+      await DesignTrend.insertMany(
+        DEFAULT_TRENDS.map(trend => ({ ...trend, owner: null })),
+        { ordered: false }
+      );
+    } catch (error) {
+      // Another request seeded concurrently; the unique index rejected the duplicates
+      if (!isDuplicateKeyError(error)) throw error;
+    }
+  }
+
+  try {
+    await Migration.create({ name: DEFAULT_TRENDS_MIGRATION });
+  } catch (error) {
+    if (!isDuplicateKeyError(error)) throw error;
+  }
+}
+
+/**
+ * List the stored trends visible to a user: shared trends first, then the user's own
+ * @param userId The current user, or null for anonymous requests
+ */
+export async function findVisibleTrends(userId?: string | null): Promise<IDesignTrend[]> {
+  await ensureDefaultTrends();
+
+  const filter = userId ? { owner: { $in: [null, userId] } } : { owner: null };
+  const trends = await DesignTrend.find(filter).sort({ createdAt: 1 });
+
+  return [
+    ...trends.filter(trend => !trend.owner),
+    ...trends.filter(trend => !!trend.owner),
+  ];
+}
+
+/**
+ * Load the trends the generator should resolve theme types against for a user.
+ * A private trend replaces a shared trend of the same name.
+ * @param userId The current user, or null for anonymous requests
+ */
+export async function loadDesignTrends(userId?: string | null): Promise<DesignTrendDefinition[]> {
+  const byName = new Map<string, DesignTrendDefinition>();
+  for (const trend of await findVisibleTrends(userId)) {
+    byName.set(trend.name, toTrendDefinition(trend));
+  }
+  return Array.from(byName.values());
+}
+
+/**
+ * Load the trends for a generator run, falling back to the built-in trends when the database is unavailable,
+ * so generating themes keeps working without MongoDB
+ * @param userId The current user, or null for anonymous requests
+ */
+export async function loadGeneratorTrends(userId?: string | null): Promise<DesignTrendDefinition[]> {
+  try {
+    await dbConnect();
+    return await loadDesignTrends(userId);
+  } catch (error) {
+    console.warn('Design trends are unavailable, using the built-in trends:', error instanceof Error ? error.message : String(error));
+    return DEFAULT_TRENDS;
+  }
+}
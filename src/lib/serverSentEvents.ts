@@ -0,0 +1,75 @@
+/**
+ * Helpers for Server-Sent Events. EventSource only supports GET, so POST endpoints
+ * stream events over fetch and clients read them with readServerSentEvents.
+ */
+
+export interface ServerSentEvent<T = any> {
+  event: string;
+  data: T;
+}
+
+/**
+ * Serialize an event in the text/event-stream format
+ * @param event The event name
+ * @param data The payload, sent as JSON
+ * @returns The encoded event, terminated by a blank line
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parse one event block; comments and unknown fields are ignored
+ */
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+
+  const raw = dataLines.join('\n');
+  try {
+    return { event, data: JSON.parse(raw) };
+  } catch {
+    return { event, data: raw };
+  }
+}
+
+/**
+ * Read events from a text/event-stream body until it ends
+ * @param body The response body
+ * @param onEvent Called for each event in order
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    buffer = buffer.replace(/\r\n?/g, '\n');
+
+    // Events are separated by blank lines; keep the unfinished tail for the next chunk
+    const blocks = buffer.split('\n\n');
+    buffer = done ? '' : blocks.pop() || '';
+
+    for (const block of blocks) {
+      const parsed = parseEventBlock(block);
+      if (parsed) onEvent(parsed);
+    }
+
+    if (done) return;
+  }
+}
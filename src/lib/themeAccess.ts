@@ -0,0 +1,36 @@
+import mongoose from 'mongoose';
+import { Collaboration } from '@/models';
+
+export type ThemeRole = 'owner' | 'editor' | 'viewer';
+
+/**
+ * Determine the user's role on a theme: its creator, or an accepted collaborator
+ * @param theme The theme document (lean or hydrated, creator populated or not)
+ * @param userId The user to check
+ * @returns The user's role, or null if they have no access beyond public visibility
+ */
+export async function getThemeRole(
+  theme: { _id: unknown; creator: mongoose.Types.ObjectId },
+  userId: string
+): Promise<ThemeRole | null> {
+  // creator may be populated, and ObjectId._id returns the id itself
+  if (theme.creator._id.toString() === userId) {
+    return 'owner';
+  }
+
+  const collaboration = await Collaboration.findOne({
+    resourceType: 'theme',
+    resource: theme._id,
+    user: userId,
+    status: 'accepted',
+  });
+
+  return collaboration ? collaboration.role : null;
+}
+
+/**
+ * Check whether a role allows changing a theme's design
+ */
+export function canEditTheme(role: ThemeRole | null): boolean {
+  return role === 'owner' || role === 'editor';
+}
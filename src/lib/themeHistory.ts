@@ -0,0 +1,148 @@
+import { Theme, ThemeRevision } from '@/models';
+import type { ITheme, IThemeRevision, ThemeSnapshot } from '@/models';
+
+/**
+ * Theme version history: snapshots taken on every update and structured diffs between them
+ */
+
+export const SNAPSHOT_FIELDS: (keyof ThemeSnapshot)[] = [
+  'name', 'description', 'colorPalette', 'typography', 'components', 'styles', 'pageLayouts'
+];
+
+export interface ThemeChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface ThemeDiff {
+  details: ThemeChange[];
+  palette: ThemeChange[];
+  typography: ThemeChange[];
+  components: ThemeChange[];
+  layouts: ThemeChange[];
+}
+
+interface RecordRevisionOptions {
+  source?: IThemeRevision['source'];
+  changedFields?: string[];
+  restoredFrom?: number;
+}
+
+/**
+ * Capture the versioned fields of a theme as plain data
+ */
+export function createSnapshot(theme: ITheme | ThemeSnapshot): ThemeSnapshot {
+  const snapshot = {} as Record<string, unknown>;
+  for (const field of SNAPSHOT_FIELDS) {
+    snapshot[field] = theme[field] === undefined ? undefined : JSON.parse(JSON.stringify(theme[field]));
+  }
+  return snapshot as unknown as ThemeSnapshot;
+}
+
+// Added to a theme update that creates a revision, so the revision number is allocated
+// atomically with the change it records and numbers follow the order of the updates
+export const NEXT_REVISION = { $inc: { revisionCount: 1 } };
+
+/**
+ * Store a snapshot of the theme as the revision allocated by the update that saved it
+ * @param theme The theme, as saved with NEXT_REVISION or, when new, with revisionCount 1
+ * @param authorId The user who made the change
+ * @param options Why the revision was created
+ * @returns The new revision
+ */
+export async function recordThemeRevision(
+  theme: ITheme,
+  authorId: string,
+  { source = 'update', changedFields = [], restoredFrom }: RecordRevisionOptions = {}
+): Promise<IThemeRevision> {
+  if (!theme.revisionCount) {
+    throw new Error(`Theme ${theme._id} was saved without allocating a revision`);
+  }
+
+  const revision = new ThemeRevision({
+    theme: theme._id,
+    revision: theme.revisionCount,
+    snapshot: createSnapshot(theme),
+    author: authorId,
+    source,
+    changedFields,
+    restoredFrom,
+  });
+
+  return revision.save();
+}
+
+/**
+ * Themes created before history existed have no revisions yet.
+ * Record their current state as the first revision so the first update can be undone.
+ * Call before an update that allocates a revision; the bookkeeping leaves the theme's updatedAt alone,
+ * so it does not fail the update's check for concurrent changes.
+ */
+export async function ensureInitialRevision(theme: ITheme): Promise<void> {
+  if (theme.revisionCount > 0) return;
+
+  // Themes versioned before revision numbers were counted start counting from their latest revision
+  const latest = await ThemeRevision.findOne({ theme: theme._id })
+    .sort({ revision: -1 })
+    .select('revision');
+  if (latest) {
+    await Theme.updateOne(
+      { _id: theme._id, revisionCount: { $not: { $gte: latest.revision } } },
+      { $set: { revisionCount: latest.revision } },
+      { timestamps: false }
+    );
+    return;
+  }
+
+  // Of concurrent updates, only the one claiming revision 1 records it
+  const claimed = await Theme.findOneAndUpdate(
+    { _id: theme._id, revisionCount: { $not: { $gte: 1 } } },
+    { $set: { revisionCount: 1 } },
+    { new: true, timestamps: false }
+  );
+  if (claimed) {
+    await recordThemeRevision(claimed, claimed.creator.toString(), {
+      source: 'initial',
+      changedFields: [...SNAPSHOT_FIELDS],
+    });
+  }
+}
+
+/**
+ * Compute a structured diff between two snapshots
+ * @param from The older snapshot
+ * @param to The newer snapshot
+ * @returns The changes grouped by area, with dot-separated paths
+ */
+export function diffSnapshots(from: ThemeSnapshot, to: ThemeSnapshot): ThemeDiff {
+  return {
+    details: [
+      ...diffValues(from.name, to.name, 'name'),
+      ...diffValues(from.description, to.description, 'description'),
+    ],
+    palette: diffValues(from.colorPalette, to.colorPalette, 'colorPalette'),
+    typography: diffValues(from.typography, to.typography, 'typography'),
+    components: diffValues(from.components, to.components, 'components'),
+    layouts: diffValues(from.pageLayouts, to.pageLayouts, 'pageLayouts'),
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function diffValues(from: unknown, to: unknown, path: string): ThemeChange[] {
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = Array.from(new Set([...Object.keys(from), ...Object.keys(to)])).sort();
+    return keys.flatMap(key => diffValues(from[key], to[key], `${path}.${key}`));
+  }
+
+  if (from === undefined && to === undefined) return [];
+  if (from === undefined) return [{ path, type: 'added', to }];
+  if (to === undefined) return [{ path, type: 'removed', from }];
+
+  // Arrays and primitives are compared as whole values
+  return JSON.stringify(from) === JSON.stringify(to) ? [] : [{ path, type: 'changed', from, to }];
+}
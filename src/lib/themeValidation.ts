@@ -0,0 +1,187 @@
+import { z } from 'zod';
+import { parseColor } from '@/lib/color';
+import { HARMONIES } from '@/services/ai/generator/paletteEngine';
+import { LANGUAGE_IDS } from '@/services/ai/generator/languageCatalog';
+import { PAGE_CATEGORY_IDS } from '@/services/ai/generator/pageTypeCatalog';
+
+/**
+ * Validation for user-edited theme data.
+ * Components and page layouts are stored as free-form objects, so every edit is checked here
+ * before it reaches the database: color properties must be real colors, font properties must be
+ * well-formed font stacks and no value may break out of a CSS declaration.
+ */
+
+const COLOR_KEYWORDS = ['transparent', 'currentcolor', 'inherit'];
+
+// A family is either a quoted name or a run of unquoted identifiers (e.g. Fira Code, sans-serif)
+const FONT_FAMILY_REGEX = /^(?:"[^"\\;{}<>]+"|'[^'\\;{}<>]+'|[A-Za-z0-9][A-Za-z0-9 _-]*)$/;
+const MAX_FONT_FAMILIES = 10;
+
+// Characters that would terminate a declaration or inject markup when rendered into CSS/HTML
+const UNSAFE_CSS_REGEX = /[;{}<>\\]|\/\*|url\s*\(|expression\s*\(/i;
+
+const MAX_STYLE_DEPTH = 5;
+
+/**
+ * Check whether a value is a CSS color the exporters and preview understand
+ */
+export function isValidColor(value: string): boolean {
+  return COLOR_KEYWORDS.includes(value.trim().toLowerCase()) || parseColor(value) !== null;
+}
+
+/**
+ * Check whether a value is a comma-separated CSS font stack
+ */
+export function isValidFontStack(value: string): boolean {
+  const families = value.split(',').map(family => family.trim());
+
+  return families.length <= MAX_FONT_FAMILIES
+    && families.every(family => FONT_FAMILY_REGEX.test(family));
+}
+
+export const colorSchema = z.string()
+  .trim()
+  .refine(isValidColor, value => ({ message: `"${value}" is not a valid color` }));
+
+export const fontStackSchema = z.string()
+  .trim()
+  .min(1, 'Font stack is required')
+  .max(300, 'Font stack is too long')
+  .refine(isValidFontStack, value => ({ message: `"${value}" is not a valid font stack` }));
+
+export const paletteRolesSchema = z.object({
+  primary: colorSchema,
+  secondary: colorSchema,
+  accent: colorSchema,
+  background: colorSchema,
+  text: colorSchema,
+});
+
+// 50-950 tonal scale generated by the palette engine
+const tonalScaleSchema = z.object({
+  50: colorSchema,
+  100: colorSchema,
+  200: colorSchema,
+  300: colorSchema,
+  400: colorSchema,
+  500: colorSchema,
+  600: colorSchema,
+  700: colorSchema,
+  800: colorSchema,
+  900: colorSchema,
+  950: colorSchema,
+});
+
+export const colorPaletteSchema = paletteRolesSchema.extend({
+  scale: z.object({
+    primary: tonalScaleSchema,
+    secondary: tonalScaleSchema,
+    accent: tonalScaleSchema,
+    background: tonalScaleSchema,
+    text: tonalScaleSchema,
+  }).optional(),
+  light: paletteRolesSchema.optional(),
+  dark: paletteRolesSchema.optional(),
+});
+
+export const typographySchema = z.object({
+  headingFont: fontStackSchema,
+  bodyFont: fontStackSchema,
+  codeFont: fontStackSchema,
+});
+
+const isColorProperty = (key: string) => /color$/i.test(key);
+const isFontProperty = (key: string) => key === 'fontFamily' || /Font$/.test(key);
+
+/**
+ * Validate a nested object of style properties (components, page layouts).
+ * Property names decide how string values are checked.
+ */
+function validateStyleTree(node: Record<string, unknown>, path: (string | number)[], ctx: z.RefinementCtx) {
+  if (path.length > MAX_STYLE_DEPTH) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: 'Style properties are nested too deeply' });
+    return;
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    const propertyPath = [...path, key];
+
+    if (!/^[A-Za-z][A-Za-z0-9_-]*$/.test(key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: propertyPath, message: `"${key}" is not a valid property name` });
+    } else if (typeof value === 'string') {
+      if (isColorProperty(key) && !isValidColor(value)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: propertyPath, message: `"${value}" is not a valid color` });
+      } else if (isFontProperty(key) && !isValidFontStack(value)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: propertyPath, message: `"${value}" is not a valid font stack` });
+      } else if (value.length > 200 || UNSAFE_CSS_REGEX.test(value)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: propertyPath, message: 'Value is not a safe CSS value' });
+      }
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      validateStyleTree(value as Record<string, unknown>, propertyPath, ctx);
+    } else if (typeof value !== 'number' && typeof value !== 'boolean') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: propertyPath, message: 'Value must be a string, number, boolean or object' });
+    }
+  }
+}
+
+export const styleTreeSchema = z.record(z.any())
+  .superRefine((tree, ctx) => validateStyleTree(tree, [], ctx));
+
+/**
+ * Fields a theme update may change. Unknown fields are rejected.
+ */
+export const themeUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name cannot be more than 100 characters'),
+  description: z.string().max(500, 'Description cannot be more than 500 characters'),
+  isPublished: z.boolean(),
+  isPublic: z.boolean(),
+  price: z.number().min(0, 'Price cannot be negative'),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20, 'A theme can have at most 20 tags'),
+  previewImage: z.string().max(2048),
+  colorPalette: colorPaletteSchema,
+  typography: typographySchema,
+  components: styleTreeSchema,
+  pageLayouts: styleTreeSchema,
+}).partial().strict();
+
+export type ThemeUpdate = z.infer<typeof themeUpdateSchema>;
+
+/**
+ * A new theme as the generator produced it. The design is checked like any edit;
+ * scales and motion are generated rather than edited and are stored as they come.
+ */
+export const themeCreateSchema = themeUpdateSchema.extend({
+  type: z.string().trim().min(1, 'Theme type is required').max(100),
+  scales: z.record(z.any()).optional(),
+  motion: z.record(z.any()).optional(),
+  styles: styleTreeSchema.optional(),
+}).required({ name: true, colorPalette: true, typography: true });
+
+export type ThemeCreate = z.infer<typeof themeCreateSchema>;
+
+/**
+ * Options for generating a theme, shared by the blocking and streaming generation endpoints
+ */
+export const themeGenerationRequestSchema = z.object({
+  themeType: z.string().min(1, 'Theme type is required'),
+  projectType: z.string().optional(),
+  useAI: z.boolean().optional(),
+  saveToDatabase: z.boolean().optional(),
+  seedColor: colorSchema.optional(),
+  harmony: z.enum(HARMONIES).optional(),
+  // Code languages and page categories to generate styles for; the defaults when omitted
+  languages: z.array(z.string()).refine(
+    languages => languages.every(language => LANGUAGE_IDS.includes(language)),
+    { message: `Languages must be among: ${LANGUAGE_IDS.join(', ')}` }
+  ).optional(),
+  pageCategories: z.array(z.string()).refine(
+    categories => categories.every(category => PAGE_CATEGORY_IDS.includes(category)),
+    { message: `Page categories must be among: ${PAGE_CATEGORY_IDS.join(', ')}` }
+  ).optional(),
+  customOptions: z.object({
+    colorPalette: z.record(z.string()).optional(),
+    typography: z.record(z.string()).optional(),
+    components: z.record(z.any()).optional(),
+    description: z.string().optional(),
+  }).optional(),
+});
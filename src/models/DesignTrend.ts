@@ -0,0 +1,86 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { DesignTrendFeatures } from '@/services/ai/trends/designTrendAnalyzer';
+import type { BaseColorPalette } from '@/services/ai/generator/paletteEngine';
+
+export interface IDesignTrend extends Document {
+  name: string;
+  description: string;
+  features: DesignTrendFeatures;
+  palette: BaseColorPalette;
+  typography: {
+    headingFont: string;
+    bodyFont: string;
+    codeFont: string;
+  };
+  // Null for shared trends managed by admins; otherwise the user the private trend belongs to
+  owner?: mongoose.Types.ObjectId | null;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const requiredColor = (role: string) => ({
+  type: String,
+  required: [true, `Palette ${role} color is required`],
+});
+
+const requiredFont = (role: string) => ({
+  type: String,
+  required: [true, `${role} font is required`],
+});
+
+/**
+ * A design trend that theme types resolve against: AI descriptors plus the starting palette and fonts
+ */
+const DesignTrendSchema = new Schema<IDesignTrend>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Please provide a trend name'],
+      trim: true,
+      maxlength: [60, 'Name cannot be more than 60 characters'],
+    },
+    description: {
+      type: String,
+      default: '',
+      maxlength: [500, 'Description cannot be more than 500 characters'],
+    },
+    features: {
+      colorPalette: { type: [String], default: [] },
+      typography: { type: [String], default: [] },
+      components: { type: [String], default: [] },
+      animations: { type: [String], default: [] },
+      layout: { type: [String], default: [] },
+    },
+    palette: {
+      primary: requiredColor('primary'),
+      secondary: requiredColor('secondary'),
+      accent: requiredColor('accent'),
+      background: requiredColor('background'),
+      text: requiredColor('text'),
+    },
+    typography: {
+      headingFont: requiredFont('Heading'),
+      bodyFont: requiredFont('Body'),
+      codeFont: requiredFont('Code'),
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  { timestamps: true }
+);
+
+// Shared trend names are unique, and each user's private trend names are unique
+DesignTrendSchema.index({ name: 1, owner: 1 }, { unique: true });
+
+// Prevent mongoose from creating the model multiple times during hot reloads
+const DesignTrend = (mongoose.models.DesignTrend as Model<IDesignTrend>) || mongoose.model<IDesignTrend>('DesignTrend', DesignTrendSchema);
+
+export default DesignTrend;
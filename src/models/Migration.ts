@@ -0,0 +1,28 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * A one-off data change that has been applied, such as seeding the built-in design trends.
+ * Recording it keeps the change from being applied again once its data is edited or deleted.
+ */
+export interface IMigration extends Document {
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MigrationSchema = new Schema<IMigration>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Migration name is required'],
+      unique: true,
+      trim: true,
+    },
+  },
+  { timestamps: true }
+);
+
+// Prevent mongoose from creating the model multiple times during hot reloads
+const Migration = (mongoose.models.Migration as Model<IMigration>) || mongoose.model<IMigration>('Migration', MigrationSchema);
+
+export default Migration;
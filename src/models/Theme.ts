@@ -1,4 +1,7 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { BaseColorPalette, PaletteScales } from '@/services/ai/generator/paletteEngine';
+import type { ThemeScales } from '@/services/ai/generator/scaleEngine';
+import type { ThemeMotion } from '@/services/ai/generator/motionEngine';
 
 export interface ITheme extends Document {
   name: string;
@@ -10,15 +13,26 @@ export interface ITheme extends Document {
     accent: string;
     background: string;
     text: string;
+    scale?: PaletteScales;
+    light?: BaseColorPalette;
+    dark?: BaseColorPalette;
   };
   typography: {
     headingFont: string;
     bodyFont: string;
     codeFont: string;
   };
+  scales?: ThemeScales;
+  motion?: ThemeMotion;
   components: Record<string, any>;
   styles: Record<string, any>;
   pageLayouts: Record<string, any>;
+  accessibility?: {
+    score: number;
+    level: 'AAA' | 'AA' | 'fail';
+    failures: number;
+    checkedAt: Date;
+  };
   creator: mongoose.Types.ObjectId;
   isPublished: boolean;
   isPublic: boolean;
@@ -29,6 +43,8 @@ export interface ITheme extends Document {
   ratingCount: number;
   tags: string[];
   previewImage: string;
+  // Number of the theme's latest revision, incremented by the update it versions
+  revisionCount: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -72,6 +88,17 @@ const ThemeSchema = new Schema<ITheme>(
         type: String,
         required: true,
       },
+      // 50-950 tonal scale per role
+      scale: {
+        type: Schema.Types.Mixed,
+      },
+      // Counterpart palette of the other color scheme
+      light: {
+        type: Schema.Types.Mixed,
+      },
+      dark: {
+        type: Schema.Types.Mixed,
+      },
     },
     typography: {
       headingFont: {
@@ -87,6 +114,14 @@ const ThemeSchema = new Schema<ITheme>(
         required: true,
       },
     },
+    // Spacing, type, radius, shadow and breakpoint scales; absent on themes saved before scales existed
+    scales: {
+      type: Schema.Types.Mixed,
+    },
+    // Durations, easings and animations of component states; absent on themes saved before motion existed
+    motion: {
+      type: Schema.Types.Mixed,
+    },
     components: {
       type: Schema.Types.Mixed,
       required: true,
@@ -99,6 +134,16 @@ const ThemeSchema = new Schema<ITheme>(
       type: Schema.Types.Mixed,
       required: true,
     },
+    // Contrast audit summary, refreshed whenever the theme is saved
+    accessibility: {
+      score: Number,
+      level: {
+        type: String,
+        enum: ['AAA', 'AA', 'fail'],
+      },
+      failures: Number,
+      checkedAt: Date,
+    },
     creator: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -140,6 +185,10 @@ const ThemeSchema = new Schema<ITheme>(
       type: String,
       default: '',
     },
+    revisionCount: {
+      type: Number,
+      default: 0,
+    },
   },
   { timestamps: true }
 );
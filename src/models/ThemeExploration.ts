@@ -0,0 +1,91 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { GeneratedTheme } from '@/services/ai/generator/themeGenerator';
+import type { Harmony } from '@/services/ai/generator/paletteEngine';
+
+export interface IThemeVariant {
+  _id: mongoose.Types.ObjectId;
+  theme: GeneratedTheme;
+  trend: string;
+  temperature: number;
+  seedColor?: string;
+  harmony?: Harmony;
+  // Set once the variant has been saved as a Theme
+  promotedTheme?: mongoose.Types.ObjectId;
+}
+
+export interface IThemeExploration extends Document {
+  creator: mongoose.Types.ObjectId;
+  description: string;
+  themeType?: string;
+  projectType: string;
+  seedColors: string[];
+  variants: mongoose.Types.DocumentArray<IThemeVariant & mongoose.Types.Subdocument>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ThemeVariantSchema = new Schema<IThemeVariant>({
+  theme: {
+    type: Schema.Types.Mixed,
+    required: [true, 'Variant theme is required'],
+  },
+  trend: {
+    type: String,
+    required: [true, 'Variant trend is required'],
+  },
+  temperature: {
+    type: Number,
+    required: [true, 'Variant temperature is required'],
+  },
+  seedColor: {
+    type: String,
+  },
+  harmony: {
+    type: String,
+  },
+  promotedTheme: {
+    type: Schema.Types.ObjectId,
+    ref: 'Theme',
+  },
+});
+
+/**
+ * A draft group of candidate themes generated for one brief
+ */
+const ThemeExplorationSchema = new Schema<IThemeExploration>(
+  {
+    creator: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Creator is required'],
+    },
+    description: {
+      type: String,
+      required: [true, 'Please provide a description'],
+      maxlength: [1000, 'Description cannot be more than 1000 characters'],
+    },
+    themeType: {
+      type: String,
+    },
+    projectType: {
+      type: String,
+      default: 'web',
+    },
+    seedColors: {
+      type: [String],
+      default: [],
+    },
+    variants: {
+      type: [ThemeVariantSchema],
+      default: [],
+    },
+  },
+  { timestamps: true }
+);
+
+ThemeExplorationSchema.index({ creator: 1, createdAt: -1 });
+
+// Prevent mongoose from creating the model multiple times during hot reloads
+const ThemeExploration = (mongoose.models.ThemeExploration as Model<IThemeExploration>) || mongoose.model<IThemeExploration>('ThemeExploration', ThemeExplorationSchema);
+
+export default ThemeExploration;
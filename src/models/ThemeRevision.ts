@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { ITheme } from './Theme';
+
+export type ThemeSnapshot = Pick<
+  ITheme,
+  'name' | 'description' | 'colorPalette' | 'typography' | 'components' | 'styles' | 'pageLayouts'
+>;
+
+export interface IThemeRevision extends Document {
+  theme: mongoose.Types.ObjectId;
+  revision: number;
+  snapshot: ThemeSnapshot;
+  author: mongoose.Types.ObjectId;
+  source: 'initial' | 'update' | 'rollback';
+  changedFields: string[];
+  restoredFrom?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ThemeRevisionSchema = new Schema<IThemeRevision>(
+  {
+    theme: {
+      type: Schema.Types.ObjectId,
+      ref: 'Theme',
+      required: [true, 'Theme is required'],
+    },
+    revision: {
+      type: Number,
+      required: [true, 'Revision number is required'],
+      min: 1,
+    },
+    snapshot: {
+      type: Schema.Types.Mixed,
+      required: [true, 'Snapshot is required'],
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Author is required'],
+    },
+    source: {
+      type: String,
+      enum: ['initial', 'update', 'rollback'],
+      default: 'update',
+    },
+    changedFields: {
+      type: [String],
+      default: [],
+    },
+    restoredFrom: {
+      type: Number,
+    },
+  },
+  { timestamps: true }
+);
+
+// Revision numbers are sequential per theme
+ThemeRevisionSchema.index({ theme: 1, revision: -1 }, { unique: true });
+
+// Prevent mongoose from creating the model multiple times during hot reloads
+const ThemeRevision = (mongoose.models.ThemeRevision as Model<IThemeRevision>) || mongoose.model<IThemeRevision>('ThemeRevision', ThemeRevisionSchema);
+
+export default ThemeRevision;
@@ -1,27 +1,65 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 
+export interface IWebsiteContent {
+  html: string;
+  // Stylesheets in cascade order, as paths of stored stylesheets shared by the site's pages;
+  // stylesheets that could not be downloaded keep their URL, and older sites hold the CSS text
+  css: string[];
+  images: string[];
+  title: string;
+  description: string;
+  structure: {
+    header: boolean;
+    footer: boolean;
+    navigation: boolean;
+    sections: number;
+  };
+}
+
+export interface IRebrandedContent {
+  html: string;
+  css: string[];
+  images: string[];
+}
+
+/**
+ * One crawled page of a website, stored with its own original and rebranded content
+ */
+export interface IWebsitePage {
+  // Site path with query string, e.g. /pricing
+  path: string;
+  url: string;
+  // Links followed from the start page to reach this page
+  depth: number;
+  originalContent: IWebsiteContent;
+  rebrandedContent?: IRebrandedContent;
+}
+
+/**
+ * An image, font, stylesheet or script captured from the source site into the asset store
+ */
+export interface IWebsiteAsset {
+  // URL the asset was captured from
+  url: string;
+  // SHA-256 of the content, its address in the asset store
+  hash: string;
+  size: number;
+  contentType: string;
+  // URL path the app serves the stored copy from
+  path: string;
+}
+
 export interface IWebsite extends Document {
   name: string;
   url: string;
   description: string;
-  originalContent: {
-    html: string;
-    css: string[];
-    images: string[];
-    title: string;
-    description: string;
-    structure: {
-      header: boolean;
-      footer: boolean;
-      navigation: boolean;
-      sections: number;
-    };
-  };
-  rebrandedContent?: {
-    html: string;
-    css: string[];
-    images: string[];
-  };
+  // The start page
+  originalContent: IWebsiteContent;
+  rebrandedContent?: IRebrandedContent;
+  // Every crawled page including the start page; empty for single-page scrapes
+  pages: mongoose.Types.DocumentArray<IWebsitePage & mongoose.Types.Subdocument>;
+  // Assets the pages reference by their stored copies
+  assets: IWebsiteAsset[];
   brandElements: {
     name: string;
     logo?: string;
@@ -49,6 +87,101 @@ export interface IWebsite extends Document {
   updatedAt: Date;
 }
 
+const originalContentDefinition = {
+  html: {
+    type: String,
+    required: true,
+  },
+  css: {
+    type: [String],
+    default: [],
+  },
+  images: {
+    type: [String],
+    default: [],
+  },
+  title: {
+    type: String,
+    required: true,
+  },
+  description: {
+    type: String,
+    default: '',
+  },
+  structure: {
+    header: {
+      type: Boolean,
+      default: false,
+    },
+    footer: {
+      type: Boolean,
+      default: false,
+    },
+    navigation: {
+      type: Boolean,
+      default: false,
+    },
+    sections: {
+      type: Number,
+      default: 0,
+    },
+  },
+};
+
+const rebrandedContentDefinition = {
+  html: {
+    type: String,
+  },
+  css: {
+    type: [String],
+    default: [],
+  },
+  images: {
+    type: [String],
+    default: [],
+  },
+};
+
+const WebsitePageSchema = new Schema<IWebsitePage>({
+  path: {
+    type: String,
+    required: [true, 'Page path is required'],
+  },
+  url: {
+    type: String,
+    required: [true, 'Page URL is required'],
+  },
+  depth: {
+    type: Number,
+    default: 0,
+  },
+  originalContent: originalContentDefinition,
+  rebrandedContent: rebrandedContentDefinition,
+});
+
+const WebsiteAssetSchema = new Schema<IWebsiteAsset>({
+  url: {
+    type: String,
+    required: true,
+  },
+  hash: {
+    type: String,
+    required: true,
+  },
+  size: {
+    type: Number,
+    required: true,
+  },
+  contentType: {
+    type: String,
+    required: true,
+  },
+  path: {
+    type: String,
+    required: true,
+  },
+}, { _id: false });
+
 const WebsiteSchema = new Schema<IWebsite>(
   {
     name: {
@@ -67,58 +200,15 @@ const WebsiteSchema = new Schema<IWebsite>(
       required: [true, 'Please provide a website description'],
       maxlength: [500, 'Description cannot be more than 500 characters'],
     },
-    originalContent: {
-      html: {
-        type: String,
-        required: true,
-      },
-      css: {
-        type: [String],
-        default: [],
-      },
-      images: {
-        type: [String],
-        default: [],
-      },
-      title: {
-        type: String,
-        required: true,
-      },
-      description: {
-        type: String,
-        default: '',
-      },
-      structure: {
-        header: {
-          type: Boolean,
-          default: false,
-        },
-        footer: {
-          type: Boolean,
-          default: false,
-        },
-        navigation: {
-          type: Boolean,
-          default: false,
-        },
-        sections: {
-          type: Number,
-          default: 0,
-        },
-      },
+    originalContent: originalContentDefinition,
+    rebrandedContent: rebrandedContentDefinition,
+    pages: {
+      type: [WebsitePageSchema],
+      default: [],
     },
-    rebrandedContent: {
-      html: {
-        type: String,
-      },
-      css: {
-        type: [String],
-        default: [],
-      },
-      images: {
-        type: [String],
-        default: [],
-      },
+    assets: {
+      type: [WebsiteAssetSchema],
+      default: [],
     },
     brandElements: {
       name: {
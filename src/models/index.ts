@@ -5,12 +5,20 @@ export { default as Review } from './Review';
 export { default as Comment } from './Comment';
 export { default as Activity } from './Activity';
 export { default as Collaboration } from './Collaboration';
+export { default as ThemeRevision } from './ThemeRevision';
+export { default as ThemeExploration } from './ThemeExploration';
+export { default as DesignTrend } from './DesignTrend';
+export { default as Migration } from './Migration';
 
 // Re-export interfaces
 export type { IUser } from './User';
 export type { ITheme } from './Theme';
-export type { IWebsite } from './Website';
+export type { IWebsite, IWebsiteAsset, IWebsiteContent, IWebsitePage, IRebrandedContent } from './Website';
 export type { IReview } from './Review';
 export type { IComment } from './Comment';
 export type { IActivity } from './Activity';
 export type { ICollaboration } from './Collaboration';
+export type { IThemeRevision, ThemeSnapshot } from './ThemeRevision';
+export type { IThemeExploration, IThemeVariant } from './ThemeExploration';
+export type { IDesignTrend } from './DesignTrend';
+export type { IMigration } from './Migration';
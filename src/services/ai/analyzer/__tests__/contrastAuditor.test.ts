@@ -0,0 +1,96 @@
+import { ContrastAuditor, AuditableTheme } from '../contrastAuditor';
+import { contrastRatio, parseColor, rgbToHsl } from '@/lib/color';
+
+describe('ContrastAuditor', () => {
+  let auditor: ContrastAuditor;
+  let theme: AuditableTheme;
+
+  beforeEach(() => {
+    auditor = new ContrastAuditor();
+
+    // The Bold Typography palette: orange accent and blue secondary fail on a light background
+    theme = {
+      colorPalette: {
+        primary: '#2B6CB0',
+        secondary: '#3182CE',
+        accent: '#F6AD55',
+        background: '#F7FAFC',
+        text: '#1A202C',
+      },
+      components: {
+        buttons: {
+          primary: { backgroundColor: '#2B6CB0', color: '#FFFFFF', border: '1px solid #2B6CB0' },
+          secondary: { backgroundColor: 'transparent', color: '#2B6CB0' },
+        },
+        tabs: { backgroundColor: '#F7FAFC', activeColor: '#F6AD55', inactiveColor: '#3182CE' },
+      },
+      pageLayouts: {
+        blog: { post: { backgroundColor: '#F7FAFC', textColor: '#1A202C' } },
+      },
+    };
+  });
+
+  describe('audit', () => {
+    it('should check each pair once with every path that uses it', () => {
+      const report = auditor.audit(theme);
+
+      const textPair = report.checks.find(check => check.foreground === '#1A202C');
+      expect(textPair).toMatchObject({ background: '#F7FAFC', level: 'AAA' });
+      expect(textPair!.paths).toEqual(['colorPalette.text', 'pageLayouts.blog.post.textColor']);
+
+      // Transparent backgrounds inherit the palette background
+      const secondaryButton = report.checks.find(check => check.paths.includes('components.buttons.secondary.color'));
+      expect(secondaryButton!.background).toBe('#F7FAFC');
+    });
+
+    it('should report failures with their contrast ratios', () => {
+      const report = auditor.audit(theme);
+
+      expect(report.level).toBe('fail');
+      expect(report.failures.map(failure => failure.foreground).sort()).toEqual(['#3182CE', '#F6AD55']);
+      expect(report.failures.find(failure => failure.foreground === '#F6AD55')!.ratio).toBeCloseTo(1.8, 1);
+      expect(report.score).toBe(60);
+    });
+
+    it('should not check the styles of disabled components', () => {
+      theme.components.buttons.primary.disabled = { color: '#F7FAFC', opacity: '0.5' };
+
+      const report = auditor.audit(theme);
+
+      expect(report.checks.some(check => check.paths.some(path => path.includes('disabled')))).toBe(false);
+    });
+
+    it('should score a theme without failures as 100', () => {
+      const { theme: repaired } = auditor.repair(theme, 'AAA');
+      expect(auditor.audit(repaired, 'AAA')).toMatchObject({ score: 100, level: 'AAA', failures: [] });
+    });
+  });
+
+  describe('repair', () => {
+    it('should fix every failing pair while keeping the hue', () => {
+      const { theme: repaired, changes, before, after } = auditor.repair(theme);
+
+      expect(before.failures).toHaveLength(2);
+      expect(after.failures).toHaveLength(0);
+
+      const accentChange = changes.find(change => change.from === '#F6AD55')!;
+      expect(rgbToHsl(parseColor(accentChange.to)!).h).toBeCloseTo(rgbToHsl(parseColor('#F6AD55')!).h, -1);
+      expect(contrastRatio(accentChange.to, '#F7FAFC')).toBeGreaterThanOrEqual(4.5);
+    });
+
+    it('should apply changed colors everywhere they are used', () => {
+      const { theme: repaired, changes } = auditor.repair(theme);
+      const accent = changes.find(change => change.from === '#F6AD55')!.to;
+
+      expect(repaired.colorPalette.accent).toBe(accent);
+      expect(repaired.components.tabs.activeColor).toBe(accent);
+    });
+
+    it('should leave passing pairs untouched', () => {
+      const { theme: repaired } = auditor.repair(theme);
+
+      expect(repaired.colorPalette.text).toBe('#1A202C');
+      expect(repaired.components.buttons.primary).toEqual(theme.components.buttons.primary);
+    });
+  });
+});
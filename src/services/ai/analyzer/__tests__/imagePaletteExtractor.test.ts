@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+import { PNG } from 'pngjs';
+import * as jpeg from 'jpeg-js';
+import { ImagePaletteError, ImagePaletteExtractor } from '../imagePaletteExtractor';
+import { contrastRatio, toOklch } from '@/lib/color';
+
+// Build an image from horizontal bands, each covering a share of the rows
+function bands(encode: 'png' | 'jpeg', ...colors: [number, number, number, number][]): Buffer {
+  const width = 40;
+  const height = colors.reduce((sum, [, , , rows]) => sum + rows, 0);
+  const data = Buffer.alloc(width * height * 4);
+
+  let row = 0;
+  for (const [r, g, b, rows] of colors) {
+    for (let y = row; y < row + rows; y++) {
+      for (let x = 0; x < width; x++) {
+        data.set([r, g, b, 255], (y * width + x) * 4);
+      }
+    }
+    row += rows;
+  }
+
+  if (encode === 'jpeg') {
+    return jpeg.encode({ width, height, data }, 95).data;
+  }
+
+  const png = new PNG({ width, height });
+  png.data = data;
+  return PNG.sync.write(png);
+}
+
+describe('ImagePaletteExtractor', () => {
+  let extractor: ImagePaletteExtractor;
+
+  beforeEach(() => {
+    extractor = new ImagePaletteExtractor();
+  });
+
+  describe('extractSwatches', () => {
+    it('should find the dominant colors of a PNG with their weights', () => {
+      const swatches = extractor.extractSwatches(bands('png', [255, 255, 255, 60], [37, 99, 235, 30], [234, 88, 12, 10]));
+
+      expect(swatches.map(swatch => swatch.color)).toEqual(['#FFFFFF', '#2563EB', '#EA580C']);
+      expect(swatches.map(swatch => Math.round(swatch.weight * 100))).toEqual([60, 30, 10]);
+    });
+
+    it('should decode JPEGs', () => {
+      const [dominant] = extractor.extractSwatches(bands('jpeg', [22, 163, 74, 80], [250, 250, 250, 20]));
+      const { h } = toOklch(dominant.color)!;
+
+      // Compression shifts the exact values, but the hue survives
+      expect(Math.abs(h - toOklch('#16A34A')!.h)).toBeLessThan(5);
+    });
+
+    it('should read fill and stroke colors from SVGs', () => {
+      const svg = Buffer.from(`<?xml version="1.0"?>
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">
+          <style>.mark { fill: #0F766E; }</style>
+          <rect class="mark" fill="#0F766E" width="10" height="10"/>
+          <circle fill="none" stroke="rgb(245, 158, 11)" r="4"/>
+          <path fill="url(#gradient)" style="fill: #0F766E"/>
+        </svg>`);
+
+      expect(extractor.extractSwatches(svg)).toEqual([
+        { color: '#0F766E', weight: 0.75 },
+        { color: '#F59E0B', weight: 0.25 },
+      ]);
+    });
+
+    it('should reject PNGs declaring more pixels than it decodes before inflating them', () => {
+      // A small file whose header claims 100000×100000 pixels, 40 GB once decoded
+      const png = bands('png', [255, 255, 255, 10]);
+      png.writeUInt32BE(100000, 16);
+      png.writeUInt32BE(100000, 20);
+
+      let error: unknown;
+      try {
+        extractor.extractSwatches(png);
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(ImagePaletteError);
+      expect(error).toMatchObject({ reason: 'too_large', message: expect.stringContaining('100000×100000') });
+    });
+
+    it('should reject files that are not PNG, JPEG or SVG', () => {
+      expect(() => extractor.extractSwatches(Buffer.from('GIF89a'))).toThrow(ImagePaletteError);
+      expect(() => extractor.extractSwatches(Buffer.from('<svg><rect fill="none"/></svg>'))).toThrow('No fill or stroke colors');
+    });
+  });
+
+  describe('mapToRoles', () => {
+    it('should keep image colors in roles where they meet the contrast minimums', () => {
+      const palette = extractor.mapToRoles([
+        { color: '#FFFFFF', weight: 0.5 },
+        { color: '#2563EB', weight: 0.3 },
+        { color: '#1F2937', weight: 0.1 },
+        { color: '#DC2626', weight: 0.1 },
+      ]);
+
+      expect(palette).toMatchObject({ background: '#FFFFFF', primary: '#2563EB', secondary: '#DC2626', text: '#1F2937' });
+      expect(contrastRatio(palette.accent, palette.background)).toBeGreaterThanOrEqual(3);
+    });
+
+    it('should adjust and derive colors that would be unreadable', () => {
+      const palette = extractor.mapToRoles([
+        { color: '#0B1120', weight: 0.7 },
+        { color: '#1E3A8A', weight: 0.3 },
+      ]);
+
+      expect(palette.background).toBe('#0B1120');
+      expect(contrastRatio(palette.text, palette.background)).toBeGreaterThanOrEqual(4.5);
+      for (const role of ['primary', 'secondary', 'accent'] as const) {
+        expect(contrastRatio(palette[role], palette.background)).toBeGreaterThanOrEqual(3);
+      }
+      // The primary keeps the image's hue
+      expect(Math.abs(toOklch(palette.primary)!.h - toOklch('#1E3A8A')!.h)).toBeLessThan(3);
+    });
+  });
+});
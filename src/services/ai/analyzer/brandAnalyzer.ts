@@ -1,5 +1,7 @@
 import * as cheerio from 'cheerio';
 import { ScrapedContent } from '../scraper/websiteScraper';
+import { toComputedCss } from '../scraper/computedStyles';
+import { isStylesheetUrl } from '../scraper/stylesheetInliner';
 
 export interface BrandElements {
     name: string;
@@ -154,17 +156,8 @@ export class BrandAnalyzer {
         };
 
         try {
-            // Parse the HTML
-            const $ = cheerio.load(scrapedContent.html);
-
-            // Extract inline styles
-            const inlineStyles: string[] = [];
-            $('style').each((_, element) => {
-                inlineStyles.push($(element).html() || '');
-            });
-
-            // Combine all CSS
-            const allCss = inlineStyles.join(' ');
+            // Read the whole cascade: stylesheets, <style> blocks and style attributes
+            const allCss = this.getCascade(scrapedContent);
 
             // Extract color values
             const colorRegex = /#[0-9a-f]{3,6}|rgba?\([^)]+\)|hsla?\([^)]+\)/gi;
@@ -234,20 +227,11 @@ export class BrandAnalyzer {
         };
 
         try {
-            // Parse the HTML
-            const $ = cheerio.load(scrapedContent.html);
-
-            // Extract inline styles
-            const inlineStyles: string[] = [];
-            $('style').each((_, element) => {
-                inlineStyles.push($(element).html() || '');
-            });
-
-            // Combine all CSS
-            const allCss = inlineStyles.join(' ');
+            // Read the whole cascade: stylesheets, <style> blocks and style attributes
+            const allCss = this.getCascade(scrapedContent);
 
             // Extract font-family values
-            const fontFamilyRegex = /font-family\s*:\s*([^;]+)/gi;
+            const fontFamilyRegex = /font-family\s*:\s*([^;}]+)/gi;
             const fontFamilyMatches = allCss.match(fontFamilyRegex) || [];
 
             if (fontFamilyMatches.length > 0) {
@@ -298,17 +282,11 @@ export class BrandAnalyzer {
             // Parse the HTML
             const $ = cheerio.load(scrapedContent.html);
 
-            // Extract inline styles
-            const inlineStyles: string[] = [];
-            $('style').each((_, element) => {
-                inlineStyles.push($(element).html() || '');
-            });
-
-            // Combine all CSS
-            const allCss = inlineStyles.join(' ');
+            // Read the whole cascade: stylesheets, <style> blocks and style attributes
+            const allCss = this.getCascade(scrapedContent);
 
             // Extract border-radius values
-            const borderRadiusRegex = /border-radius\s*:\s*([^;]+)/gi;
+            const borderRadiusRegex = /border-radius\s*:\s*([^;}]+)/gi;
             const borderRadiusMatches = allCss.match(borderRadiusRegex) || [];
 
             if (borderRadiusMatches.length > 0) {
@@ -355,6 +333,28 @@ export class BrandAnalyzer {
         }
     }
 
+    /**
+     * The CSS the page is styled with, in cascade order: downloaded stylesheets and <style> blocks,
+     * then the style attributes of its elements, then the computed styles of rendered pages.
+     * Stylesheets that could not be downloaded are skipped.
+     * @param scrapedContent The scraped website content
+     * @returns The combined CSS
+     */
+    private getCascade(scrapedContent: ScrapedContent): string {
+        const $ = cheerio.load(scrapedContent.html);
+
+        const styleAttributes: string[] = [];
+        $('[style]').each((_, element) => {
+            styleAttributes.push(`${$(element).attr('style')};`);
+        });
+
+        return [
+            ...scrapedContent.css.filter(entry => !isStylesheetUrl(entry)),
+            ...styleAttributes,
+            toComputedCss(scrapedContent.computedStyles || {})
+        ].join('\n');
+    }
+
     /**
      * Checks if a color is white or transparent
      * @param color The color to check
@@ -1,4 +1,8 @@
+import { z } from 'zod';
 import { OpenAIService } from '../openai/openaiService';
+import { StructuredOutputError } from '../openai/structuredOutput';
+import { DesignTrendAnalyzer, DesignTrendDefinition, sampleStylesheet, TrendAlignment } from '../trends/designTrendAnalyzer';
+import { DEFAULT_TRENDS } from '../trends/defaultTrends';
 
 export interface CodeAnalysisResult {
   summary: {
@@ -32,11 +36,84 @@ export interface CodeFile {
   language: string;
 }
 
+const stringListSchema = z.array(z.string());
+
+// Schemas for each model call; responses that do not match are sent back to the model for repair
+const extractedColorsSchema = z.object({
+  colors: stringListSchema.describe('Unique color values (hex, rgb, rgba, hsl, etc.)'),
+});
+
+const extractedTypographySchema = z.object({
+  typography: z.object({
+    fonts: stringListSchema.describe('Font family names'),
+    sizes: stringListSchema.describe('Font sizes'),
+  }),
+});
+
+const extractedComponentsSchema = z.object({
+  components: stringListSchema.describe('Unique React component names'),
+});
+
+const detectedDependenciesSchema = z.object({
+  frameworks: stringListSchema.describe('Framework names, e.g. React, Vue, Angular'),
+  libraries: stringListSchema.describe('Library names, e.g. lodash, axios, redux'),
+});
+
+const scoreSchema = z.number().min(0).max(100);
+
+export const codeAnalysisResultSchema: z.ZodType<CodeAnalysisResult> = z.object({
+  summary: z.object({
+    styleConsistency: scoreSchema,
+    readability: scoreSchema,
+    maintainability: scoreSchema,
+    overallScore: scoreSchema,
+  }).describe('Scores from 0 to 100'),
+  stylePatterns: z.object({
+    colors: stringListSchema,
+    typography: z.object({
+      fonts: stringListSchema,
+      sizes: stringListSchema,
+    }),
+    spacing: stringListSchema,
+    components: stringListSchema,
+  }),
+  recommendations: z.object({
+    general: stringListSchema,
+    styleImprovements: stringListSchema,
+    structureImprovements: stringListSchema,
+  }),
+  detectedFrameworks: stringListSchema,
+  detectedLibraries: stringListSchema,
+});
+
 export class CodebaseAnalyzer {
   private openAIService: OpenAIService;
+  private trendAnalyzer: DesignTrendAnalyzer;
+
+  /**
+   * @param openAIService The service used for analysis; pass one with a specific LLM provider to override the configured one
+   * @param trends The design trends stylesheets are scored against
+   */
+  constructor(openAIService: OpenAIService = new OpenAIService(), trends: DesignTrendDefinition[] = DEFAULT_TRENDS) {
+    this.openAIService = openAIService;
+    this.trendAnalyzer = new DesignTrendAnalyzer(trends);
+  }
+
+  /**
+   * Score the codebase's stylesheets against each design trend from the colors, fonts, radii, shadows
+   * and spacing they declare
+   * @param files Array of code files to analyze
+   * @returns The alignments, best match first; empty when there are no stylesheets
+   */
+  public analyzeTrendAlignment(files: CodeFile[]): TrendAlignment[] {
+    const css = this.filterRelevantFiles(files)
+      .filter(file => /\.(css|scss|less|sass)$/.test(file.path))
+      .map(file => file.content)
+      .join('\n');
 
-  constructor() {
-    this.openAIService = new OpenAIService();
+    if (!css.trim()) return [];
+
+    return this.trendAnalyzer.rankTrendAlignment(sampleStylesheet(css));
   }
 
   /**
@@ -62,6 +139,10 @@ export class CodebaseAnalyzer {
       return analysis;
     } catch (error) {
       console.error('Error analyzing codebase:', error);
+      // Keep the typed error so callers can tell invalid model output from other failures
+      if (error instanceof StructuredOutputError) {
+        throw new StructuredOutputError(`Failed to analyze codebase: ${error.message}`, error.reason, error);
+      }
       throw new Error(`Failed to analyze codebase: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
@@ -131,17 +212,8 @@ export class CodebaseAnalyzer {
       ${cssContent.substring(0, 8000)} // Limit to avoid token limits
     `;
     
-    const schema = {
-      colors: {
-        type: 'array',
-        items: {
-          type: 'string'
-        }
-      }
-    };
-    
     try {
-      const result = await this.openAIService.generateStructuredData<{ colors: string[] }>(prompt, schema);
+      const result = await this.openAIService.generateStructuredData(prompt, extractedColorsSchema);
       return result.colors || [];
     } catch (error) {
       console.error('Error extracting colors:', error);
@@ -169,24 +241,8 @@ export class CodebaseAnalyzer {
       ${cssContent.substring(0, 8000)} // Limit to avoid token limits
     `;
     
-    const schema = {
-      typography: {
-        type: 'object',
-        properties: {
-          fonts: {
-            type: 'array',
-            items: { type: 'string' }
-          },
-          sizes: {
-            type: 'array',
-            items: { type: 'string' }
-          }
-        }
-      }
-    };
-    
     try {
-      const result = await this.openAIService.generateStructuredData<{ typography: { fonts: string[], sizes: string[] } }>(prompt, schema);
+      const result = await this.openAIService.generateStructuredData(prompt, extractedTypographySchema);
       return result.typography || { fonts: [], sizes: [] };
     } catch (error) {
       console.error('Error extracting typography:', error);
@@ -212,17 +268,8 @@ export class CodebaseAnalyzer {
       ${jsxContent.substring(0, 8000)} // Limit to avoid token limits
     `;
     
-    const schema = {
-      components: {
-        type: 'array',
-        items: {
-          type: 'string'
-        }
-      }
-    };
-    
     try {
-      const result = await this.openAIService.generateStructuredData<{ components: string[] }>(prompt, schema);
+      const result = await this.openAIService.generateStructuredData(prompt, extractedComponentsSchema);
       return result.components || [];
     } catch (error) {
       console.error('Error extracting components:', error);
@@ -281,19 +328,8 @@ export class CodebaseAnalyzer {
       ${jsContent.substring(0, 8000)} // Limit to avoid token limits
     `;
     
-    const schema = {
-      frameworks: {
-        type: 'array',
-        items: { type: 'string' }
-      },
-      libraries: {
-        type: 'array',
-        items: { type: 'string' }
-      }
-    };
-    
     try {
-      const result = await this.openAIService.generateStructuredData<{ frameworks: string[], libraries: string[] }>(prompt, schema);
+      const result = await this.openAIService.generateStructuredData(prompt, detectedDependenciesSchema);
       return {
         frameworks: result.frameworks || [],
         libraries: result.libraries || []
@@ -330,47 +366,13 @@ export class CodebaseAnalyzer {
       Return the analysis in the exact format specified by the schema.
     `;
     
-    const schema = {
-      summary: {
-        type: 'object',
-        properties: {
-          styleConsistency: { type: 'number' },
-          readability: { type: 'number' },
-          maintainability: { type: 'number' },
-          overallScore: { type: 'number' }
-        }
-      },
-      stylePatterns: {
-        type: 'object',
-        properties: {
-          colors: { type: 'array', items: { type: 'string' } },
-          typography: {
-            type: 'object',
-            properties: {
-              fonts: { type: 'array', items: { type: 'string' } },
-              sizes: { type: 'array', items: { type: 'string' } }
-            }
-          },
-          spacing: { type: 'array', items: { type: 'string' } },
-          components: { type: 'array', items: { type: 'string' } }
-        }
-      },
-      recommendations: {
-        type: 'object',
-        properties: {
-          general: { type: 'array', items: { type: 'string' } },
-          styleImprovements: { type: 'array', items: { type: 'string' } },
-          structureImprovements: { type: 'array', items: { type: 'string' } }
-        }
-      },
-      detectedFrameworks: { type: 'array', items: { type: 'string' } },
-      detectedLibraries: { type: 'array', items: { type: 'string' } }
-    };
-    
     try {
-      return await this.openAIService.generateStructuredData<CodeAnalysisResult>(prompt, schema);
+      return await this.openAIService.generateStructuredData(prompt, codeAnalysisResultSchema);
     } catch (error) {
       console.error('Error generating analysis:', error);
+      if (error instanceof StructuredOutputError) {
+        throw error;
+      }
       throw new Error(`Failed to generate analysis: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
@@ -0,0 +1,238 @@
+import type { GeneratedTheme } from '../generator/themeGenerator';
+import { contrastRatio, hslToRgb, parseColor, replaceColor, rgbToHex, rgbToHsl } from '@/lib/color';
+
+export type AuditableTheme = Pick<GeneratedTheme, 'colorPalette' | 'components' | 'pageLayouts'>;
+
+export type ContrastLevel = 'AAA' | 'AA' | 'fail';
+
+export interface ContrastCheck {
+    foreground: string;
+    background: string;
+    ratio: number;
+    level: ContrastLevel;
+    // Every place in the theme where this pair is used
+    paths: string[];
+}
+
+export interface ContrastAuditReport {
+    // Percentage of pairs meeting the target level
+    score: number;
+    level: ContrastLevel;
+    checks: ContrastCheck[];
+    failures: ContrastCheck[];
+}
+
+export interface ContrastAuditSummary {
+    score: number;
+    level: ContrastLevel;
+    failures: number;
+    checkedAt: Date;
+}
+
+export interface ContrastRepairResult<T extends AuditableTheme> {
+    theme: T;
+    changes: { from: string; to: string }[];
+    before: ContrastAuditReport;
+    after: ContrastAuditReport;
+}
+
+// WCAG 2.1 minimum ratios for normal-size text (success criteria 1.4.3 and 1.4.6)
+const MIN_RATIO: Record<Exclude<ContrastLevel, 'fail'>, number> = {
+    AA: 4.5,
+    AAA: 7
+};
+
+// Properties holding text drawn on the nearest backgroundColor
+const FOREGROUND_KEYS = ['color', 'textColor', 'activeColor', 'inactiveColor'];
+
+const NON_COLORS = ['transparent', 'inherit', 'currentcolor', 'none'];
+
+// WCAG 2.1 does not require contrast from inactive components, so their styles are not checked
+const EXEMPT_STATES = ['disabled'];
+
+const MAX_REPAIR_STEPS = 30;
+
+export class ContrastAuditor {
+    /**
+     * Check every foreground/background pair the theme uses against WCAG 2.1
+     * @param theme The theme to audit
+     * @param target The level pairs must meet to pass
+     * @returns The checked pairs with their contrast ratios
+     */
+    public audit(theme: AuditableTheme, target: 'AA' | 'AAA' = 'AA'): ContrastAuditReport {
+        const checks = this.collectPairs(theme).map(pair => {
+            const ratio = contrastRatio(pair.foreground, pair.background) || 1;
+            return { ...pair, ratio: Math.round(ratio * 100) / 100, level: this.getLevel(ratio) };
+        });
+
+        const failures = checks.filter(check => check.ratio < MIN_RATIO[target]);
+        const level: ContrastLevel = checks.some(check => check.level === 'fail')
+            ? 'fail'
+            : checks.some(check => check.level === 'AA') ? 'AA' : 'AAA';
+
+        return {
+            score: checks.length ? Math.round(((checks.length - failures.length) / checks.length) * 100) : 100,
+            level,
+            checks,
+            failures
+        };
+    }
+
+    /**
+     * Summarize an audit for storing on the theme
+     */
+    public summarize(theme: AuditableTheme): ContrastAuditSummary {
+        const report = this.audit(theme);
+        return {
+            score: report.score,
+            level: report.level,
+            failures: report.failures.length,
+            checkedAt: new Date()
+        };
+    }
+
+    /**
+     * Fix failing pairs by nudging the lightness of one of their colors, keeping its hue and saturation.
+     * The more saturated color of a pair is adjusted (so brand colors darken under white text
+     * rather than the text turning gray) and the change is applied everywhere that color is used.
+     * @param theme The theme to repair
+     * @param target The level every pair should meet
+     * @returns The repaired theme, the color replacements made and the audits before and after
+     */
+    public repair<T extends AuditableTheme>(theme: T, target: 'AA' | 'AAA' = 'AA'): ContrastRepairResult<T> {
+        const before = this.audit(theme, target);
+        const changes: { from: string; to: string }[] = [];
+        const unfixable = new Set<string>();
+        let current = theme;
+
+        for (let step = 0; step < MAX_REPAIR_STEPS; step++) {
+            const failure = this.audit(current, target).failures
+                .find(check => !unfixable.has(`${check.foreground}|${check.background}`));
+            if (!failure) break;
+
+            const replacement = this.findReplacement(failure, MIN_RATIO[target]);
+            if (!replacement) {
+                unfixable.add(`${failure.foreground}|${failure.background}`);
+                continue;
+            }
+
+            current = this.replaceColorEverywhere(current, replacement.from, replacement.to);
+            changes.push(replacement);
+        }
+
+        return { theme: current, changes, before, after: this.audit(current, target) };
+    }
+
+    private collectPairs(theme: AuditableTheme): Omit<ContrastCheck, 'ratio' | 'level'>[] {
+        const pairs = new Map<string, Omit<ContrastCheck, 'ratio' | 'level'>>();
+        const add = (foreground: string, background: string, path: string) => {
+            const key = `${foreground.toLowerCase()}|${background.toLowerCase()}`;
+            const pair = pairs.get(key) || { foreground, background, paths: [] };
+            pair.paths.push(path);
+            pairs.set(key, pair);
+        };
+
+        const { colorPalette } = theme;
+        add(colorPalette.text, colorPalette.background, 'colorPalette.text');
+        add(colorPalette.accent, colorPalette.background, 'colorPalette.accent');
+
+        const walk = (node: Record<string, any>, path: string, inheritedBackground: string) => {
+            const background = this.isColor(node.backgroundColor) ? node.backgroundColor : inheritedBackground;
+
+            for (const key of FOREGROUND_KEYS) {
+                if (this.isColor(node[key])) {
+                    add(node[key], background, `${path}.${key}`);
+                }
+            }
+
+            for (const [key, child] of Object.entries(node)) {
+                if (child && typeof child === 'object' && !Array.isArray(child) && !EXEMPT_STATES.includes(key)) {
+                    walk(child, `${path}.${key}`, background);
+                }
+            }
+        };
+
+        walk(theme.components || {}, 'components', colorPalette.background);
+        walk(theme.pageLayouts || {}, 'pageLayouts', colorPalette.background);
+
+        return Array.from(pairs.values());
+    }
+
+    private isColor(value: unknown): value is string {
+        return typeof value === 'string'
+            && !NON_COLORS.includes(value.trim().toLowerCase())
+            && parseColor(value) !== null;
+    }
+
+    private getLevel(ratio: number): ContrastLevel {
+        return ratio >= MIN_RATIO.AAA ? 'AAA' : ratio >= MIN_RATIO.AA ? 'AA' : 'fail';
+    }
+
+    private findReplacement(check: ContrastCheck, minRatio: number): { from: string; to: string } | null {
+        const saturation = (color: string) => rgbToHsl(parseColor(color)!).s;
+
+        // Adjust the more colorful side first; neutral pairs adjust the text
+        const candidates = saturation(check.background) > saturation(check.foreground)
+            ? [[check.background, check.foreground], [check.foreground, check.background]]
+            : [[check.foreground, check.background], [check.background, check.foreground]];
+
+        for (const [color, against] of candidates) {
+            const adjusted = this.adjustLightness(color, against, minRatio);
+            if (adjusted) {
+                return { from: color, to: adjusted };
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Find the smallest lightness change that gives the required contrast against another color
+     * @returns The adjusted hex color, or null if no lightness reaches the ratio
+     */
+    private adjustLightness(color: string, against: string, minRatio: number): string | null {
+        const { h, s, l } = rgbToHsl(parseColor(color)!);
+        const withLightness = (lightness: number) => rgbToHex(hslToRgb(h, s, lightness));
+        const meets = (lightness: number) => (contrastRatio(withLightness(lightness), against) || 0) >= minRatio;
+
+        // Move away from the other color first, then try crossing over it
+        const lighterFirst = (contrastRatio(withLightness(1), against) || 0) >= (contrastRatio(withLightness(0), against) || 0);
+        const extremes = lighterFirst ? [1, 0] : [0, 1];
+
+        for (const extreme of extremes) {
+            if (!meets(extreme)) continue;
+
+            // Binary search for the lightness closest to the original that still meets the ratio
+            let near = l;
+            let far = extreme;
+            for (let i = 0; i < 20; i++) {
+                const middle = (near + far) / 2;
+                if (meets(middle)) {
+                    far = middle;
+                } else {
+                    near = middle;
+                }
+            }
+            return withLightness(far);
+        }
+
+        return null;
+    }
+
+    private replaceColorEverywhere<T extends AuditableTheme>(theme: T, from: string, to: string): T {
+        const replaceInTree = (node: any): any => {
+            if (typeof node === 'string') return replaceColor(node, from, to);
+            if (node && typeof node === 'object' && !Array.isArray(node)) {
+                return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, replaceInTree(value)]));
+            }
+            return node;
+        };
+
+        return {
+            ...theme,
+            colorPalette: replaceInTree(theme.colorPalette),
+            components: replaceInTree(theme.components),
+            pageLayouts: replaceInTree(theme.pageLayouts)
+        };
+    }
+}
@@ -0,0 +1,388 @@
+import { PNG } from 'pngjs';
+import * as jpeg from 'jpeg-js';
+import { OKLCH, contrastRatio, oklchToHex, parseColor, rgbToHex, rgbToOklch, toOklch } from '@/lib/color';
+import { BaseColorPalette, PaletteEngine } from '../generator/paletteEngine';
+
+export const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/svg+xml'] as const;
+export type ImageType = typeof IMAGE_TYPES[number];
+
+/**
+ * A color found in an image and the share of the image it covers
+ */
+export interface Swatch {
+    color: string;
+    weight: number;
+}
+
+export interface ImagePalette {
+    palette: BaseColorPalette;
+    swatches: Swatch[];
+}
+
+/**
+ * Why an upload could not be used: its pixel dimensions exceed the decoding budget, or it is not a usable image
+ */
+export type ImagePaletteFailure = 'too_large' | 'invalid';
+
+/**
+ * Raised when an upload is not a supported image, is too large to decode or holds no usable colors
+ */
+export class ImagePaletteError extends Error {
+    public readonly reason: ImagePaletteFailure;
+
+    constructor(message: string, reason: ImagePaletteFailure = 'invalid') {
+        super(message);
+        this.name = 'ImagePaletteError';
+        this.reason = reason;
+    }
+}
+
+// Point in OKLab, where euclidean distance follows perceived color difference
+interface LabPoint {
+    l: number;
+    a: number;
+    b: number;
+}
+
+// WCAG minimums: body text, and UI components or large text
+const TEXT_CONTRAST = 4.5;
+const UI_CONTRAST = 3;
+
+// Decoded images take 4 bytes per pixel; a small compressed file can declare enormous dimensions
+export const MAX_IMAGE_MEGAPIXELS = 50;
+
+const CLUSTER_COUNT = 6;
+const MAX_SAMPLES = 4096;
+const MAX_ITERATIONS = 20;
+// Pixels more transparent than this are ignored
+const MIN_ALPHA = 128;
+// Below this chroma a color reads as a gray
+const MIN_CHROMA = 0.04;
+// Roles need hues at least this many degrees apart to look distinct
+const MIN_HUE_DISTANCE = 25;
+
+const SVG_COLOR_ATTRIBUTE_REGEX = /\b(?:fill|stroke|stop-color|color)\s*=\s*["']([^"']+)["']/gi;
+const SVG_COLOR_PROPERTY_REGEX = /\b(?:fill|stroke|stop-color|color)\s*:\s*([^;"'}]+)/gi;
+
+export class ImagePaletteExtractor {
+    private paletteEngine: PaletteEngine;
+
+    constructor() {
+        this.paletteEngine = new PaletteEngine();
+    }
+
+    /**
+     * Extract the dominant colors of an image and map them to palette roles
+     * @param data The uploaded file
+     * @returns The palette and the swatches it was built from
+     * @throws ImagePaletteError when the file is not a PNG, JPEG or SVG, or has no usable colors
+     */
+    public extractPalette(data: Buffer): ImagePalette {
+        const swatches = this.extractSwatches(data);
+        return { palette: this.mapToRoles(swatches), swatches };
+    }
+
+    /**
+     * Find the dominant colors of an image, heaviest first
+     * @param data The uploaded file
+     * @returns The swatches, with weights summing to 1
+     * @throws ImagePaletteError when the file is not a supported image or declares more than MAX_IMAGE_MEGAPIXELS
+     */
+    public extractSwatches(data: Buffer): Swatch[] {
+        const type = this.detectType(data);
+
+        if (type === 'image/svg+xml') {
+            return this.extractSvgColors(data.toString('utf8'));
+        }
+
+        if (type === 'image/png') {
+            this.checkPngDimensions(data);
+        }
+
+        let pixels: Uint8Array;
+        try {
+            pixels = type === 'image/png'
+                ? PNG.sync.read(data).data
+                : jpeg.decode(data, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: MAX_IMAGE_MEGAPIXELS, maxMemoryUsageInMB: 512 }).data;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (/maxResolutionInMP|maxMemoryUsageInMB/.test(message)) {
+                throw new ImagePaletteError(`Images must be ${MAX_IMAGE_MEGAPIXELS} megapixels or smaller`, 'too_large');
+            }
+            throw new ImagePaletteError(`The image could not be decoded: ${message}`);
+        }
+
+        return this.quantize(pixels);
+    }
+
+    /**
+     * Check a PNG's dimensions before decoding it; they are the first fields of the IHDR chunk,
+     * which the format requires to come first
+     * @param data The PNG file
+     * @throws ImagePaletteError when the header is missing or the image exceeds MAX_IMAGE_MEGAPIXELS
+     */
+    private checkPngDimensions(data: Buffer): void {
+        if (data.length < 24 || data.toString('ascii', 12, 16) !== 'IHDR') {
+            throw new ImagePaletteError('The image could not be decoded: missing PNG header');
+        }
+
+        const width = data.readUInt32BE(16);
+        const height = data.readUInt32BE(20);
+        if (width * height > MAX_IMAGE_MEGAPIXELS * 1000000) {
+            throw new ImagePaletteError(`Images must be ${MAX_IMAGE_MEGAPIXELS} megapixels or smaller; this one is ${width}×${height}`, 'too_large');
+        }
+    }
+
+    /**
+     * Identify an upload from its content rather than its file name or declared type
+     * @param data The uploaded file
+     * @returns The image type
+     */
+    public detectType(data: Buffer): ImageType {
+        if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47) {
+            return 'image/png';
+        }
+        if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+            return 'image/jpeg';
+        }
+        if (/^\s*(?:<\?xml[^>]*>\s*)?(?:<!--[\s\S]*?-->\s*)*(?:<!DOCTYPE[^>]*>\s*)?<svg[\s>]/i.test(data.subarray(0, 4096).toString('utf8'))) {
+            return 'image/svg+xml';
+        }
+
+        throw new ImagePaletteError('Only PNG, JPEG and SVG images are supported');
+    }
+
+    /**
+     * Read the fill, stroke and gradient colors of an SVG, weighted by how often each is used
+     * @param svg The SVG markup
+     * @returns The swatches, heaviest first
+     */
+    public extractSvgColors(svg: string): Swatch[] {
+        const counts = new Map<string, number>();
+
+        for (const regex of [SVG_COLOR_ATTRIBUTE_REGEX, SVG_COLOR_PROPERTY_REGEX]) {
+            for (const [, value] of Array.from(svg.matchAll(regex))) {
+                // none, currentColor and url(#gradient) references carry no color of their own
+                const rgb = parseColor(value);
+                if (!rgb || rgb.a === 0) continue;
+
+                const hex = rgbToHex(rgb);
+                counts.set(hex, (counts.get(hex) || 0) + 1);
+            }
+        }
+
+        const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+        if (total === 0) {
+            throw new ImagePaletteError('No fill or stroke colors were found in the SVG');
+        }
+
+        return Array.from(counts.entries())
+            .map(([color, count]) => ({ color, weight: count / total }))
+            .sort((a, b) => b.weight - a.weight);
+    }
+
+    /**
+     * Cluster RGBA pixels with k-means in OKLab
+     * @param pixels RGBA pixel data
+     * @param clusterCount The most swatches to return
+     * @returns The cluster centers, heaviest first
+     */
+    public quantize(pixels: Uint8Array, clusterCount: number = CLUSTER_COUNT): Swatch[] {
+        const points = this.samplePixels(pixels);
+        if (points.length === 0) {
+            throw new ImagePaletteError('The image has no opaque pixels');
+        }
+
+        let centers = this.initialCenters(points, Math.min(clusterCount, points.length));
+        const assignments = new Array<number>(points.length).fill(0);
+
+        for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+            let changed = false;
+            points.forEach((point, index) => {
+                const nearest = this.nearest(point, centers);
+                if (nearest !== assignments[index]) {
+                    assignments[index] = nearest;
+                    changed = true;
+                }
+            });
+
+            if (!changed && iteration > 0) break;
+
+            centers = centers.map((center, cluster) => {
+                const members = points.filter((_, index) => assignments[index] === cluster);
+                if (members.length === 0) return center;
+                return {
+                    l: members.reduce((sum, point) => sum + point.l, 0) / members.length,
+                    a: members.reduce((sum, point) => sum + point.a, 0) / members.length,
+                    b: members.reduce((sum, point) => sum + point.b, 0) / members.length,
+                };
+            });
+        }
+
+        const sizes = centers.map((_, cluster) => assignments.filter(assignment => assignment === cluster).length);
+
+        return centers
+            .map((center, cluster) => ({ color: oklchToHex(this.toOklch(center)), weight: sizes[cluster] / points.length }))
+            .filter(swatch => swatch.weight > 0)
+            .sort((a, b) => b.weight - a.weight);
+    }
+
+    /**
+     * Assign swatches to palette roles so that text is readable on the background
+     * and the brand colors stand out from it. Missing roles are derived from the primary color.
+     * @param swatches Dominant colors, heaviest first
+     * @returns The palette
+     */
+    public mapToRoles(swatches: Swatch[]): BaseColorPalette {
+        const colors = swatches.map(swatch => ({ ...swatch, oklch: toOklch(swatch.color)! }));
+        const chromatic = colors.filter(color => color.oklch.c >= MIN_CHROMA);
+
+        // The background is the heaviest very light or very dark color; light or dark by the image's overall tone
+        const averageLightness = colors.reduce((sum, color) => sum + color.oklch.l * color.weight, 0)
+            / (colors.reduce((sum, color) => sum + color.weight, 0) || 1);
+        const backgroundSwatch = colors.find(color => color.oklch.c < 0.08 && (color.oklch.l >= 0.9 || color.oklch.l <= 0.2));
+        const primarySwatch = chromatic.find(color => color !== backgroundSwatch) || colors.find(color => color !== backgroundSwatch);
+        const hue = primarySwatch?.oklch.h || 0;
+
+        const background = backgroundSwatch
+            ? backgroundSwatch.color
+            : oklchToHex(averageLightness >= 0.5 ? { l: 0.985, c: 0.008, h: hue } : { l: 0.18, c: 0.015, h: hue });
+        const isDark = toOklch(background)!.l < 0.5;
+
+        // Text keeps an image color when one is readable, otherwise a near-black or near-white in the primary hue
+        const textSwatch = colors.find(color => color !== backgroundSwatch
+            && color.oklch.c < 0.08
+            && (contrastRatio(color.color, background) || 0) >= TEXT_CONTRAST);
+        const text = textSwatch
+            ? textSwatch.color
+            : this.ensureContrast(oklchToHex({ l: isDark ? 0.96 : 0.22, c: 0.02, h: hue }), background, TEXT_CONTRAST);
+
+        const primary = this.ensureContrast(
+            primarySwatch ? primarySwatch.color : oklchToHex({ l: isDark ? 0.7 : 0.5, c: 0.12, h: hue }),
+            background,
+            UI_CONTRAST
+        );
+
+        // Secondary and accent need hues of their own; otherwise they come from a harmony of the primary
+        const distinct = (candidate: OKLCH, others: string[]) => others.every(other => this.hueDistance(candidate.h, toOklch(other)!.h) >= MIN_HUE_DISTANCE);
+        const secondarySwatch = chromatic.find(color => color !== primarySwatch && distinct(color.oklch, [primary]));
+        const secondary = this.ensureContrast(
+            secondarySwatch ? secondarySwatch.color : this.paletteEngine.generateHarmony(primary, 'analogous').secondary,
+            background,
+            UI_CONTRAST
+        );
+
+        const accentSwatch = chromatic.find(color => color !== primarySwatch && color !== secondarySwatch
+            && distinct(color.oklch, [primary, secondary]));
+        const accent = this.ensureContrast(
+            accentSwatch ? accentSwatch.color : this.paletteEngine.generateHarmony(primary, 'triadic').accent,
+            background,
+            UI_CONTRAST
+        );
+
+        return { primary, secondary, accent, background, text };
+    }
+
+    /**
+     * Take an evenly spaced sample of the opaque pixels, converted to OKLab
+     */
+    private samplePixels(pixels: Uint8Array): LabPoint[] {
+        const pixelCount = Math.floor(pixels.length / 4);
+        const step = Math.max(1, Math.floor(pixelCount / MAX_SAMPLES));
+        const points: LabPoint[] = [];
+
+        for (let pixel = 0; pixel < pixelCount; pixel += step) {
+            const offset = pixel * 4;
+            if (pixels[offset + 3] < MIN_ALPHA) continue;
+
+            const { l, c, h } = rgbToOklch({ r: pixels[offset], g: pixels[offset + 1], b: pixels[offset + 2] });
+            const radians = h * Math.PI / 180;
+            points.push({ l, a: c * Math.cos(radians), b: c * Math.sin(radians) });
+        }
+
+        return points;
+    }
+
+    /**
+     * Pick starting centers with k-means++, using a fixed seed so the same image always gives the same palette
+     */
+    private initialCenters(points: LabPoint[], count: number): LabPoint[] {
+        let seed = 0x2f5d8a;
+        const random = () => {
+            // mulberry32
+            seed = (seed + 0x6d2b79f5) | 0;
+            let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+            t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+
+        const centers = [points[Math.floor(random() * points.length)]];
+        while (centers.length < count) {
+            const distances = points.map(point => Math.min(...centers.map(center => this.distance(point, center))));
+            const total = distances.reduce((sum, distance) => sum + distance, 0);
+            if (total === 0) break;
+
+            let target = random() * total;
+            const index = distances.findIndex(distance => (target -= distance) <= 0);
+            centers.push(points[index === -1 ? points.length - 1 : index]);
+        }
+
+        return centers;
+    }
+
+    private nearest(point: LabPoint, centers: LabPoint[]): number {
+        let best = 0;
+        let bestDistance = Infinity;
+        centers.forEach((center, index) => {
+            const distance = this.distance(point, center);
+            if (distance < bestDistance) {
+                best = index;
+                bestDistance = distance;
+            }
+        });
+        return best;
+    }
+
+    // Squared distance, which is all k-means needs
+    private distance(x: LabPoint, y: LabPoint): number {
+        return (x.l - y.l) ** 2 + (x.a - y.a) ** 2 + (x.b - y.b) ** 2;
+    }
+
+    private toOklch({ l, a, b }: LabPoint): OKLCH {
+        const c = Math.sqrt(a * a + b * b);
+        return { l, c, h: c < 1e-4 ? 0 : (Math.atan2(b, a) * 180 / Math.PI + 360) % 360 };
+    }
+
+    private hueDistance(x: number, y: number): number {
+        const distance = Math.abs(x - y) % 360;
+        return distance > 180 ? 360 - distance : distance;
+    }
+
+    /**
+     * Move a color's lightness, keeping its hue, until it reaches a contrast ratio against the background
+     * @returns The color, adjusted as little as possible
+     */
+    private ensureContrast(color: string, background: string, minRatio: number): string {
+        if ((contrastRatio(color, background) || 0) >= minRatio) return color;
+
+        const { c, h, l } = toOklch(color)!;
+        const withLightness = (lightness: number) => oklchToHex({ l: lightness, c, h });
+        const meets = (lightness: number) => (contrastRatio(withLightness(lightness), background) || 0) >= minRatio;
+
+        // Move away from the background's lightness
+        const extreme = toOklch(background)!.l < 0.5 ? 1 : 0;
+        if (!meets(extreme)) return extreme === 1 ? '#FFFFFF' : '#000000';
+
+        let near = l;
+        let far = extreme;
+        for (let i = 0; i < 20; i++) {
+            const middle = (near + far) / 2;
+            if (meets(middle)) {
+                far = middle;
+            } else {
+                near = middle;
+            }
+        }
+        return withLightness(far);
+    }
+}
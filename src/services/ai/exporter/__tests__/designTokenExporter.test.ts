@@ -0,0 +1,172 @@
+import { DesignTokenExporter, ExportableTheme } from '../designTokenExporter';
+
+describe('DesignTokenExporter', () => {
+  let exporter: DesignTokenExporter;
+  let theme: ExportableTheme;
+
+  beforeEach(() => {
+    exporter = new DesignTokenExporter();
+
+    theme = {
+      name: 'Shades Modern Minimalism',
+      type: 'Modern Minimalism',
+      colorPalette: {
+        primary: '#2D3748',
+        secondary: '#4A5568',
+        accent: '#38B2AC',
+        background: '#F7FAFC',
+        text: '#1A202C',
+      },
+      typography: {
+        headingFont: 'Inter, sans-serif',
+        bodyFont: 'Inter, sans-serif',
+        codeFont: 'JetBrains Mono, monospace',
+      },
+      components: {
+        buttons: {
+          primary: {
+            backgroundColor: '#2D3748',
+            color: '#FFFFFF',
+            borderRadius: '2px',
+            padding: '10px 20px',
+            fontFamily: 'Inter, sans-serif',
+            fontWeight: 'bold',
+          },
+        },
+        cards: {
+          backgroundColor: '#F7FAFC',
+          boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+        },
+        tabs: {
+          activeColor: '#38B2AC',
+        },
+      },
+      pageLayouts: {
+        blog: {
+          post: {
+            readingWidth: '680px',
+            typography: { lineHeight: 1.8 },
+          },
+        },
+      },
+    };
+  });
+
+  describe('toDTCG', () => {
+    it('should export the palette and font families as typed tokens', () => {
+      const tokens = exporter.toDTCG(theme);
+
+      expect(tokens.color.primary).toEqual({ $value: '#2D3748', $type: 'color' });
+      expect(tokens.font.family.code).toEqual({ $value: ['JetBrains Mono', 'monospace'], $type: 'fontFamily' });
+    });
+
+    it('should export tonal scales beside their role and the dark variant as a group', () => {
+      theme.colorPalette.scale = {
+        primary: { 50: '#F5F7FA', 100: '#E9EDF3', 200: '#D3DAE5', 300: '#B4BFCF', 400: '#8F9DB3', 500: '#6E7E97', 600: '#56667E', 700: '#434F63', 800: '#303949', 900: '#1F2632', 950: '#141A24' },
+      } as NonNullable<ExportableTheme['colorPalette']['scale']>;
+      theme.colorPalette.dark = {
+        primary: '#4A5A78',
+        secondary: '#A9B4C6',
+        accent: '#5FD1C8',
+        background: '#171B22',
+        text: '#E8EBF0',
+      };
+
+      const tokens = exporter.toDTCG(theme);
+
+      expect(tokens.color['primary-50']).toEqual({ $value: '#F5F7FA', $type: 'color' });
+      expect(tokens.color['primary-950']).toEqual({ $value: '#141A24', $type: 'color' });
+      expect(tokens.color.dark.background).toEqual({ $value: '#171B22', $type: 'color' });
+      expect(tokens.color.scale).toBeUndefined();
+    });
+
+    it('should map components into singular semantic groups with palette references', () => {
+      const tokens = exporter.toDTCG(theme);
+
+      expect(tokens.component.button.primary['background-color']).toEqual({ $value: '{color.primary}', $type: 'color' });
+      expect(tokens.component.button.primary.color).toEqual({ $value: '#FFFFFF', $type: 'color' });
+      expect(tokens.component.button.primary['font-weight']).toEqual({ $value: 700, $type: 'fontWeight' });
+      expect(tokens.component.button.primary['border-radius']).toEqual({ $value: '2px', $type: 'dimension' });
+      expect(tokens.component.tab['active-color']).toEqual({ $value: '{color.accent}', $type: 'color' });
+    });
+
+    it('should convert box shadows into composite shadow tokens', () => {
+      const tokens = exporter.toDTCG(theme);
+
+      expect(tokens.component.card['box-shadow']).toEqual({
+        $type: 'shadow',
+        $value: {
+          color: 'rgba(0, 0, 0, 0.1)',
+          offsetX: '0px',
+          offsetY: '4px',
+          blur: '6px',
+          spread: '0px',
+        },
+      });
+    });
+
+    it('should export the scales and reference them from components', () => {
+      theme.components.buttons.primary.borderRadius = 'var(--radius-md, 4px)';
+      theme.components.buttons.primary.padding = 'var(--space-2, 0.5rem) var(--space-5, 1.25rem)';
+      theme.components.cards.boxShadow = 'var(--shadow-md, 0 2px 4px rgba(0, 0, 0, 0.08))';
+
+      const tokens = exporter.toDTCG(theme);
+
+      expect(tokens.space['4']).toEqual({ $value: '1rem', $type: 'dimension' });
+      expect(tokens.font.size.base).toEqual({ $value: '1rem', $type: 'dimension' });
+      expect(tokens.font.size['2xl'].$value).toMatch(/^clamp\(/);
+      expect(tokens.breakpoint.md).toEqual({ $value: '768px', $type: 'dimension' });
+      expect(tokens.shadow.md.$type).toBe('shadow');
+      expect(tokens.component.button.primary['border-radius']).toEqual({ $value: '{radius.md}', $type: 'dimension' });
+      expect(tokens.component.button.primary.padding).toEqual({ $value: '{space.2} {space.5}' });
+      expect(tokens.component.card['box-shadow']).toEqual({ $value: '{shadow.md}', $type: 'shadow' });
+    });
+
+    it('should export motion tokens with transitions referencing their duration and easing', () => {
+      theme.components.buttons.primary.transition = 'var(--motion-transition-fast, 120ms cubic-bezier(0.4, 0, 0.2, 1))';
+
+      const tokens = exporter.toDTCG(theme);
+
+      expect(tokens.motion.duration.fast).toEqual({ $value: '120ms', $type: 'duration' });
+      expect(tokens.motion.easing.standard).toEqual({ $value: [0.4, 0, 0.2, 1], $type: 'cubicBezier' });
+      expect(tokens.motion.transition.fast).toEqual({
+        $type: 'transition',
+        $value: { duration: '{motion.duration.fast}', delay: '0ms', timingFunction: '{motion.easing.standard}' },
+      });
+      expect(tokens.motion.reduced.duration.fast).toEqual({ $value: '0ms', $type: 'duration' });
+      expect(tokens.component.button.primary.transition).toEqual({ $value: '{motion.transition.fast}', $type: 'transition' });
+      expect(exporter.toStyleDictionary(theme).motion.easing.standard.value).toBe('cubic-bezier(0.4, 0, 0.2, 1)');
+    });
+
+    it('should export page layouts as layout tokens', () => {
+      const tokens = exporter.toDTCG(theme);
+
+      expect(tokens.layout.blog.post['reading-width']).toEqual({ $value: '680px', $type: 'dimension' });
+      expect(tokens.layout.blog.post.typography['line-height']).toEqual({ $value: 1.8, $type: 'number' });
+    });
+  });
+
+  describe('toStyleDictionary', () => {
+    it('should use Style Dictionary token properties', () => {
+      const tokens = exporter.toStyleDictionary(theme);
+
+      expect(tokens.color.accent).toEqual({ value: '#38B2AC', type: 'color' });
+      expect(tokens.font.family.heading).toEqual({ value: 'Inter, sans-serif', type: 'fontFamily' });
+      expect(tokens.component.button.primary['background-color']).toEqual({ value: '{color.primary}', type: 'color' });
+    });
+
+    it('should produce the same token names regardless of key order', () => {
+      const reordered = {
+        ...theme,
+        components: {
+          tabs: theme.components.tabs,
+          cards: theme.components.cards,
+          buttons: theme.components.buttons,
+        },
+      };
+
+      expect(JSON.stringify(exporter.toStyleDictionary(reordered).component.card))
+        .toEqual(JSON.stringify(exporter.toStyleDictionary(theme).component.card));
+    });
+  });
+});
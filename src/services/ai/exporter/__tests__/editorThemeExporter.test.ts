@@ -0,0 +1,102 @@
+import { EditorThemeExporter, EditorThemeSource } from '../editorThemeExporter';
+import { LanguageStyleGenerator } from '../../generator/languageStyleGenerator';
+
+describe('EditorThemeExporter', () => {
+  let exporter: EditorThemeExporter;
+  let theme: EditorThemeSource;
+
+  beforeEach(async () => {
+    exporter = new EditorThemeExporter();
+
+    const colorPalette = {
+      primary: '#1A202C',
+      secondary: '#2D3748',
+      accent: '#38B2AC',
+      background: '#171923',
+      text: '#E2E8F0',
+    };
+
+    theme = {
+      name: 'Shades Dark Mode',
+      type: 'Dark Mode',
+      colorPalette,
+      typography: {
+        headingFont: 'Poppins, sans-serif',
+        bodyFont: 'Poppins, sans-serif',
+        codeFont: 'Fira Code, monospace',
+      },
+      styles: await new LanguageStyleGenerator().generateStyles('Dark Mode', colorPalette),
+    };
+  });
+
+  describe('toVSCodeExtension', () => {
+    it('should generate a dark theme extension with TextMate token colors', () => {
+      const files = exporter.toVSCodeExtension(theme);
+      const packageJson = JSON.parse(files['package.json']);
+      const colorTheme = JSON.parse(files['themes/shades-dark-mode-color-theme.json']);
+
+      expect(packageJson.contributes.themes[0]).toEqual({
+        label: 'Shades Dark Mode',
+        uiTheme: 'vs-dark',
+        path: './themes/shades-dark-mode-color-theme.json',
+      });
+      expect(colorTheme.type).toBe('dark');
+      expect(colorTheme.colors['editor.background']).toBe('#171923');
+
+      const comment = colorTheme.tokenColors.find((rule: any) => rule.name === 'comment');
+      expect(comment.scope).toContain('comment');
+      expect(comment.settings).toEqual({ foreground: '#6B7280', fontStyle: 'italic' });
+    });
+
+    it('should qualify language-specific colors with the language scope', () => {
+      const colorTheme = JSON.parse(exporter.toVSCodeExtension(theme)['themes/shades-dark-mode-color-theme.json']);
+
+      // The CSS generator marks !important in red, unlike any other language
+      const important = colorTheme.tokenColors.find((rule: any) => rule.name === 'important');
+      expect(important.scope).toContain('keyword.other.important');
+      expect(important.settings.foreground).toBe('#E53E3E');
+    });
+  });
+
+  describe('toJetBrainsScheme', () => {
+    it('should generate an icls scheme based on Darcula for dark themes', () => {
+      const scheme = exporter.toJetBrainsScheme(theme);
+
+      expect(scheme).toContain('<scheme name="Shades Dark Mode" version="142" parent_scheme="Darcula">');
+      expect(scheme).toContain('<option name="DEFAULT_KEYWORD">');
+      expect(scheme).toContain('<option name="FOREGROUND" value="1a202c" />');
+    });
+  });
+
+  describe('toVimColorscheme', () => {
+    it('should generate a colorscheme with gui colors', () => {
+      const vim = exporter.toVimColorscheme(theme);
+
+      expect(vim).toContain('set background=dark');
+      expect(vim).toContain('let g:colors_name = "shades-dark-mode"');
+      expect(vim).toContain('hi Normal guifg=#E2E8F0 guibg=#171923');
+      expect(vim).toContain('hi Comment guifg=#6B7280 gui=italic');
+    });
+  });
+
+  describe('highlighter stylesheets', () => {
+    it('should generate highlight.js and Prism rules', () => {
+      expect(exporter.toHighlightJSCSS(theme)).toContain('.hljs .hljs-keyword');
+      expect(exporter.toPrismCSS(theme)).toContain('.token.keyword');
+      expect(exporter.toPrismCSS(theme)).toContain('font-family: Fira Code, monospace;');
+    });
+  });
+
+  describe('compile', () => {
+    it('should place each format in its own folder', () => {
+      expect(Object.keys(exporter.compile(theme)).sort()).toEqual([
+        'highlightjs/shades-dark-mode.css',
+        'jetbrains/shades-dark-mode.icls',
+        'prism/shades-dark-mode.css',
+        'vim/colors/shades-dark-mode.vim',
+        'vscode/package.json',
+        'vscode/themes/shades-dark-mode-color-theme.json',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import JSZip from 'jszip';
+import { ThemeCompiler } from '../themeCompiler';
+import { ExportableTheme } from '../designTokenExporter';
+
+describe('ThemeCompiler', () => {
+  let compiler: ThemeCompiler;
+  let theme: ExportableTheme;
+
+  beforeEach(() => {
+    compiler = new ThemeCompiler();
+
+    theme = {
+      name: 'Shades Bold Typography',
+      type: 'Bold Typography',
+      colorPalette: {
+        primary: '#2B6CB0',
+        secondary: '#3182CE',
+        accent: '#F6AD55',
+        background: '#F7FAFC',
+        text: '#1A202C',
+      },
+      typography: {
+        headingFont: 'Montserrat, sans-serif',
+        bodyFont: 'Open Sans, sans-serif',
+        codeFont: 'Source Code Pro, monospace',
+      },
+      components: {
+        buttons: {
+          primary: {
+            backgroundColor: '#2B6CB0',
+            color: '#FFFFFF',
+            borderRadius: '4px',
+          },
+        },
+        cards: {
+          borderRadius: '6px',
+          boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+        },
+      },
+      pageLayouts: {},
+    };
+  });
+
+  describe('toCSSVariables', () => {
+    it('should emit custom properties that reference the palette', () => {
+      const css = compiler.toCSSVariables(theme);
+
+      expect(css).toContain(':root {');
+      expect(css).toContain('--color-primary: #2B6CB0;');
+      expect(css).toContain('--font-family-heading: Montserrat, sans-serif;');
+      expect(css).toContain('--component-button-primary-background-color: var(--color-primary);');
+      expect(css).toContain('--component-card-box-shadow: 0px 4px 6px 0px rgba(0, 0, 0, 0.1);');
+    });
+
+    it('should switch to the dark scheme with a media query and a data-theme attribute', () => {
+      theme.colorPalette.dark = {
+        primary: '#2F6DB2',
+        secondary: '#8CB8F2',
+        accent: '#F9B35E',
+        background: '#14181F',
+        text: '#E8EBF0',
+      };
+
+      const css = compiler.toCSSVariables(theme);
+      const [, mediaBlock] = css.split('@media (prefers-color-scheme: dark) {');
+      const toggleBlock = css.split(':root[data-theme="dark"] {')[1];
+
+      expect(css).toContain('color-scheme: light;');
+      expect(mediaBlock).toContain(':root:not([data-theme="light"]) {');
+      expect(mediaBlock).toContain('--color-background: #14181F;');
+      expect(toggleBlock).toContain('--color-primary: #2F6DB2;');
+      // Palette references follow the scheme on their own, so they are not redeclared
+      expect(toggleBlock).not.toContain('--component-button-primary-background-color');
+      expect(css).not.toContain('--color-dark-primary');
+    });
+  });
+
+  describe('toResponsiveCSS', () => {
+    it('should size headings from the type scale and widen the container at each breakpoint', () => {
+      const css = compiler.compile(theme)['theme.css'];
+
+      expect(css).toContain('--space-4: 1rem;');
+      expect(css).toMatch(/--font-size-4xl: clamp\([^;]+\);/);
+      expect(css).toContain('--breakpoint-lg: 1024px;');
+      expect(css).toContain('h1 {\n  font-family: var(--font-family-heading);\n  font-size: var(--font-size-4xl);\n}');
+      expect(css).toContain('@media (min-width: 768px) {\n  .container {\n    max-width: 768px;');
+    });
+
+    it('should write out component references to the scales as custom properties', () => {
+      theme.components.buttons.primary.padding = 'var(--space-2, 0.5rem) var(--space-5, 1.25rem)';
+
+      const css = compiler.toCSSVariables(theme);
+
+      expect(css).toContain('--component-button-primary-padding: var(--space-2) var(--space-5);');
+    });
+  });
+
+  describe('toMotionCSS', () => {
+    it('should declare motion tokens, keyframes and a reduced-motion override', () => {
+      const css = compiler.compile(theme)['theme.css'];
+      const [, reducedBlock] = css.split('@media (prefers-reduced-motion: reduce) {');
+
+      expect(css).toContain('--motion-easing-standard: cubic-bezier(0.4, 0, 0.2, 1);');
+      expect(css).toContain('--motion-transition-fast: var(--motion-duration-fast) var(--motion-easing-standard);');
+      expect(css).toContain('@keyframes slide-up {\n  from {\n    opacity: 0;\n    transform: translateY(8px);\n  }');
+      expect(reducedBlock).toContain('--motion-duration-fast: 0ms;');
+      expect(reducedBlock).toContain('--motion-transform-hover: none;');
+      expect(reducedBlock).toContain('--motion-animation-enter: none;');
+      // Reduced values are only declared under their media query
+      expect(css.split('@media (prefers-reduced-motion: reduce) {')[0]).not.toContain('--motion-reduced');
+    });
+  });
+
+  describe('toSCSS', () => {
+    it('should emit variables and nested maps', () => {
+      const scss = compiler.toSCSS(theme);
+
+      expect(scss).toContain('$color-accent: #F6AD55;');
+      expect(scss).toContain('$component-button-primary-background-color: $color-primary;');
+      expect(scss).toContain('$color-tokens: (');
+      expect(scss).toContain("'button': (");
+      expect(scss).toContain("'background-color': $component-button-primary-background-color");
+    });
+
+    it('should provide a breakpoint mixin', () => {
+      const scss = compiler.toSCSS(theme);
+
+      expect(scss).toContain('$breakpoint-md: 768px;');
+      expect(scss).toContain('@mixin respond-to($breakpoint) {');
+      expect(scss).toContain('@media (min-width: map-get($breakpoint-tokens, $breakpoint)) {');
+    });
+  });
+
+  describe('toTailwindConfig', () => {
+    it('should extend colors, fonts, radii and shadows with resolved values', () => {
+      const config = compiler.toTailwindConfig(theme);
+      const moduleObject: any = { exports: {} };
+      new Function('module', config)(moduleObject);
+
+      const { extend } = moduleObject.exports.theme;
+      expect(extend.colors.primary).toBe('#2B6CB0');
+      expect(extend.fontFamily.body).toEqual(['Open Sans', 'sans-serif']);
+      expect(extend.borderRadius).toEqual({ 'button-primary': '4px', card: '6px' });
+      expect(extend.boxShadow.card).toBe('0px 4px 6px 0px rgba(0, 0, 0, 0.1)');
+    });
+
+    it('should extend screens, spacing and font sizes from the scales and resolve scale references', () => {
+      theme.components.cards.borderRadius = 'var(--radius-lg, 8px)';
+      theme.components.cards.boxShadow = 'var(--shadow-md, 0 2px 4px rgba(0, 0, 0, 0.08))';
+
+      const config = compiler.toTailwindConfig(theme);
+      const moduleObject: any = { exports: {} };
+      new Function('module', config)(moduleObject);
+
+      const { extend } = moduleObject.exports.theme;
+      expect(extend.screens).toEqual({ sm: '640px', md: '768px', lg: '1024px', xl: '1280px' });
+      expect(extend.spacing['4']).toBe('1rem');
+      expect(extend.fontSize.base).toBe('1rem');
+      expect(extend.borderRadius.card).toBe('8px');
+      expect(extend.boxShadow.card).toBe('0px 2px 4px 0px rgba(0, 0, 0, 0.08)');
+    });
+
+    it('should extend durations, easings, keyframes and animations from the motion', () => {
+      const config = compiler.toTailwindConfig(theme);
+      const moduleObject: any = { exports: {} };
+      new Function('module', config)(moduleObject);
+
+      const { extend } = moduleObject.exports.theme;
+      expect(extend.transitionDuration.normal).toBe('200ms');
+      expect(extend.transitionTimingFunction.emphasized).toBe('cubic-bezier(0.2, 0, 0, 1)');
+      expect(extend.keyframes['slide-up'].to).toEqual({ opacity: '1', transform: 'translateY(0)' });
+      expect(extend.animation.enter).toBe('slide-up 200ms cubic-bezier(0, 0, 0.2, 1) both');
+    });
+  });
+
+  describe('toTypeScript', () => {
+    it('should emit a typed theme object with an Emotion augmentation', () => {
+      const ts = compiler.toTypeScript(theme);
+
+      expect(ts).toContain('export const theme = {');
+      expect(ts).toContain('} as const;');
+      expect(ts).toContain('"primary": "#2B6CB0"');
+      expect(ts).toContain("declare module '@emotion/react'");
+    });
+  });
+
+  describe('createArchive', () => {
+    it('should bundle every format into a zip', async () => {
+      const archive = await compiler.createArchive(theme);
+      const zip = await JSZip.loadAsync(archive);
+
+      expect(Object.keys(zip.files).filter(name => !zip.files[name].dir).sort()).toEqual([
+        'shades-bold-typography/_theme.scss',
+        'shades-bold-typography/tailwind.config.js',
+        'shades-bold-typography/theme.css',
+        'shades-bold-typography/theme.ts',
+        'shades-bold-typography/tokens.json',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import JSZip from 'jszip';
+
+/**
+ * Convert a theme name into a file-system friendly slug
+ */
+export function toSlug(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'theme';
+}
+
+/**
+ * Bundle generated files into a zip archive under a single top-level folder
+ * @param folderName The folder the files are placed in
+ * @param files The file contents keyed by relative path
+ * @returns The zip archive contents
+ */
+export async function createZipArchive(folderName: string, files: Record<string, string>): Promise<ArrayBuffer> {
+    const zip = new JSZip();
+    const folder = zip.folder(folderName) || zip;
+
+    for (const [filename, content] of Object.entries(files)) {
+        folder.file(filename, content);
+    }
+
+    return zip.generateAsync({ type: 'arraybuffer' });
+}
@@ -0,0 +1,425 @@
+import { GeneratedTheme } from '../generator/themeGenerator';
+import { SCALE_TOKEN_PATHS, ScaleEngine, ScaleName, ThemeScales } from '../generator/scaleEngine';
+import { MotionEngine, ThemeMotion } from '../generator/motionEngine';
+import { replaceVariableReferences } from '@/lib/cssVariables';
+
+export type ExportableTheme = Pick<
+    GeneratedTheme,
+    'name' | 'type' | 'colorPalette' | 'typography' | 'scales' | 'motion' | 'components' | 'pageLayouts'
+> & {
+    description?: string;
+};
+
+export type TokenType =
+    | 'color'
+    | 'fontFamily'
+    | 'fontWeight'
+    | 'dimension'
+    | 'shadow'
+    | 'number'
+    | 'duration'
+    | 'cubicBezier'
+    | 'transition';
+
+/**
+ * A single design token, independent of the output format
+ */
+class TokenLeaf {
+    constructor(
+        public value: any,
+        public type?: TokenType
+    ) {}
+}
+
+interface TokenTree {
+    [name: string]: TokenLeaf | TokenTree;
+}
+
+export interface DTCGToken {
+    $value: any;
+    $type?: TokenType;
+}
+
+export interface StyleDictionaryToken {
+    value: any;
+    type?: TokenType;
+}
+
+// Stable, singular group names for the component entries produced by ThemeGenerator
+const COMPONENT_GROUP_NAMES: { [key: string]: string } = {
+    buttons: 'button',
+    cards: 'card',
+    tabs: 'tab',
+    navigation: 'navigation',
+    inputs: 'input',
+    selects: 'select',
+    checkboxes: 'checkbox',
+    alerts: 'alert',
+    badges: 'badge',
+    modals: 'modal',
+    tables: 'table',
+    tooltips: 'tooltip'
+};
+
+const FONT_WEIGHTS: { [key: string]: number } = {
+    thin: 100,
+    light: 300,
+    normal: 400,
+    regular: 400,
+    medium: 500,
+    semibold: 600,
+    bold: 700,
+    extrabold: 800,
+    black: 900
+};
+
+const COLOR_REGEX = /^(#[0-9a-f]{3,8}|rgba?\([^)]+\)|hsla?\([^)]+\)|transparent)$/i;
+const DIMENSION_REGEX = /^-?\d*\.?\d+(px|rem|em|%)$/;
+const ALIAS_REGEX = /^\{[^}]+\}$/;
+
+/**
+ * A scale step or motion token a style value can reference with var(): the token it becomes and that token's type
+ */
+interface VariableAlias {
+    alias: string;
+    type?: TokenType;
+}
+
+export class DesignTokenExporter {
+    private scaleEngine = new ScaleEngine();
+    private motionEngine = new MotionEngine();
+
+    /**
+     * Export a theme as a W3C Design Tokens Community Group (DTCG) token file
+     * @param theme The theme to export
+     * @returns The DTCG token tree
+     */
+    public toDTCG(theme: ExportableTheme): Record<string, any> {
+        const tree = this.buildTokenTree(theme);
+
+        return {
+            $description: theme.description || `${theme.name} (${theme.type}) design tokens generated by Shades`,
+            ...this.formatTree(tree, leaf => {
+                const token: DTCGToken = { $value: leaf.value };
+                if (leaf.type) token.$type = leaf.type;
+                return token;
+            })
+        };
+    }
+
+    /**
+     * Export a theme as a Style Dictionary token tree
+     * @param theme The theme to export
+     * @returns The Style Dictionary token tree
+     */
+    public toStyleDictionary(theme: ExportableTheme): Record<string, any> {
+        const tree = this.buildTokenTree(theme);
+
+        return this.formatTree(tree, leaf => {
+            const token: StyleDictionaryToken = {
+                // Style Dictionary expects font stacks and easings as a single CSS string
+                value: Array.isArray(leaf.value)
+                    ? (leaf.type === 'cubicBezier' ? `cubic-bezier(${leaf.value.join(', ')})` : leaf.value.join(', '))
+                    : leaf.value
+            };
+            if (leaf.type) token.type = leaf.type;
+            return token;
+        });
+    }
+
+    /**
+     * Build the format-independent token tree for a theme
+     */
+    private buildTokenTree(theme: ExportableTheme): TokenTree {
+        const paletteAliases = this.buildPaletteAliases(theme.colorPalette);
+        // Themes stored before scales existed export a neutral trend's scales
+        const scales = theme.scales || this.scaleEngine.getDefaultScales();
+        const variableAliases = new Map<string, VariableAlias>();
+
+        const color: TokenTree = {};
+        for (const [role, value] of Object.entries(theme.colorPalette)) {
+            if (typeof value === 'string') {
+                color[this.toTokenName(role)] = new TokenLeaf(value, 'color');
+            }
+        }
+
+        // Tonal scales sit next to their role, e.g. color.primary-500
+        for (const [role, scale] of Object.entries(theme.colorPalette.scale || {})) {
+            for (const [step, value] of Object.entries(scale)) {
+                color[`${this.toTokenName(role)}-${step}`] = new TokenLeaf(value, 'color');
+            }
+        }
+
+        // The other color scheme's palette becomes its own group, e.g. color.dark.primary
+        for (const scheme of ['light', 'dark'] as const) {
+            const palette = theme.colorPalette[scheme];
+            if (palette) {
+                const group: TokenTree = {};
+                for (const [role, value] of Object.entries(palette)) {
+                    group[this.toTokenName(role)] = new TokenLeaf(value, 'color');
+                }
+                color[scheme] = group;
+            }
+        }
+
+        const font: TokenTree = {
+            family: {
+                heading: new TokenLeaf(this.toFontStack(theme.typography.headingFont), 'fontFamily'),
+                body: new TokenLeaf(this.toFontStack(theme.typography.bodyFont), 'fontFamily'),
+                code: new TokenLeaf(this.toFontStack(theme.typography.codeFont), 'fontFamily')
+            },
+            size: this.buildScaleGroup(scales, 'fontSize', paletteAliases, variableAliases)
+        };
+
+        const space = this.buildScaleGroup(scales, 'spacing', paletteAliases, variableAliases);
+        const radius = this.buildScaleGroup(scales, 'radius', paletteAliases, variableAliases);
+        const shadow = this.buildScaleGroup(scales, 'shadow', paletteAliases, variableAliases);
+        const breakpoint = this.buildScaleGroup(scales, 'breakpoints', paletteAliases, variableAliases);
+        const motion = this.buildMotionGroup(theme.motion || this.motionEngine.getDefaultMotion(), variableAliases);
+
+        const component: TokenTree = {};
+        for (const [group, entry] of Object.entries(theme.components || {})) {
+            const name = COMPONENT_GROUP_NAMES[group] || this.toTokenName(group);
+            const tokens = this.buildGroup(entry, paletteAliases, variableAliases);
+            if (Object.keys(tokens).length > 0) {
+                component[name] = tokens;
+            }
+        }
+
+        const layout: TokenTree = {};
+        for (const [category, pages] of Object.entries(theme.pageLayouts || {})) {
+            const tokens = this.buildGroup(pages, paletteAliases, variableAliases);
+            if (Object.keys(tokens).length > 0) {
+                layout[this.toTokenName(category)] = tokens;
+            }
+        }
+
+        const tree: TokenTree = { color, font, space, radius, shadow, breakpoint, motion };
+        if (Object.keys(component).length > 0) tree.component = component;
+        if (Object.keys(layout).length > 0) tree.layout = layout;
+
+        return tree;
+    }
+
+    /**
+     * Convert one of the theme's scales into a token group, registering the custom property
+     * each step is referenced by in component and layout styles
+     */
+    private buildScaleGroup(
+        scales: ThemeScales,
+        scale: ScaleName,
+        paletteAliases: Map<string, string>,
+        variableAliases: Map<string, VariableAlias>
+    ): TokenTree {
+        const group: TokenTree = {};
+        const path = SCALE_TOKEN_PATHS[scale];
+
+        for (const [step, value] of Object.entries(scales[scale])) {
+            // Scale values are plain CSS, so only the shadow scale needs its key to infer a type
+            const leaf = this.toLeaf(scale === 'shadow' ? 'boxShadow' : step, value, paletteAliases, new Map());
+            if (!leaf) continue;
+
+            group[step] = leaf;
+            variableAliases.set([...path, step].join('-'), { alias: `{${[...path, step].join('.')}}`, type: leaf.type });
+        }
+
+        return group;
+    }
+
+    /**
+     * Convert the theme's motion into a token group. Transitions reference their duration and easing;
+     * the values used when the user prefers reduced motion form the `reduced` group.
+     * Keyframes are not tokens and are left to the code exporters.
+     */
+    private buildMotionGroup(motion: ThemeMotion, variableAliases: Map<string, VariableAlias>): TokenTree {
+        const group = (entries: Record<string, any>, type: TokenType | undefined, path: string[]) => {
+            const tokens: TokenTree = {};
+            for (const [step, value] of Object.entries(entries)) {
+                tokens[step] = new TokenLeaf(value, type);
+                variableAliases.set([...path, step].join('-'), { alias: `{${[...path, step].join('.')}}`, type });
+            }
+            return tokens;
+        };
+
+        const transition = Object.fromEntries(Object.entries(motion.transition).map(([step, { duration, easing }]) => [step, {
+            duration: `{motion.duration.${duration}}`,
+            delay: '0ms',
+            timingFunction: `{motion.easing.${easing}}`
+        }]));
+
+        return {
+            duration: group(motion.duration, 'duration', ['motion', 'duration']),
+            easing: group(motion.easing, 'cubicBezier', ['motion', 'easing']),
+            transition: group(transition, 'transition', ['motion', 'transition']),
+            transform: group(motion.transform, undefined, ['motion', 'transform']),
+            animation: group(motion.animation, undefined, ['motion', 'animation']),
+            reduced: {
+                duration: group(motion.reducedMotion.duration, 'duration', ['motion', 'reduced', 'duration']),
+                transform: group(motion.reducedMotion.transform, undefined, ['motion', 'reduced', 'transform']),
+                animation: group(motion.reducedMotion.animation, undefined, ['motion', 'reduced', 'animation'])
+            }
+        };
+    }
+
+    /**
+     * Recursively convert a nested style object into a token group
+     */
+    private buildGroup(entry: any, paletteAliases: Map<string, string>, variableAliases: Map<string, VariableAlias>): TokenTree {
+        const group: TokenTree = {};
+        if (!entry || typeof entry !== 'object') return group;
+
+        // Sort keys so token order is stable regardless of how the theme was stored
+        for (const key of Object.keys(entry).sort()) {
+            const value = entry[key];
+            const name = this.toTokenName(key);
+
+            if (value && typeof value === 'object' && !Array.isArray(value)) {
+                const child = this.buildGroup(value, paletteAliases, variableAliases);
+                if (Object.keys(child).length > 0) group[name] = child;
+                continue;
+            }
+
+            const leaf = this.toLeaf(key, value, paletteAliases, variableAliases);
+            if (leaf) group[name] = leaf;
+        }
+
+        return group;
+    }
+
+    /**
+     * Convert a single style property into a token, inferring its type
+     */
+    private toLeaf(
+        key: string,
+        value: any,
+        paletteAliases: Map<string, string>,
+        variableAliases: Map<string, VariableAlias>
+    ): TokenLeaf | null {
+        if (value === undefined || value === null || Array.isArray(value)) return null;
+
+        if (typeof value === 'number') {
+            return new TokenLeaf(value, 'number');
+        }
+
+        if (typeof value === 'boolean') {
+            return new TokenLeaf(value);
+        }
+
+        const stringValue = String(value).trim();
+        const lowerKey = key.toLowerCase();
+
+        // References to the theme's scales and motion become token references, e.g. var(--space-4, 1rem) to {space.4}
+        if (stringValue.includes('var(--')) {
+            let type: TokenType | undefined;
+            const aliased = replaceVariableReferences(stringValue, (name, _fallback, reference) => {
+                const variableAlias = variableAliases.get(name);
+                type = variableAlias?.type;
+                return variableAlias ? variableAlias.alias : reference;
+            });
+
+            if (aliased !== stringValue) {
+                return new TokenLeaf(aliased, ALIAS_REGEX.test(aliased) ? type : undefined);
+            }
+        }
+
+        if (COLOR_REGEX.test(stringValue)) {
+            // Reference the palette instead of repeating raw values so palette edits cascade
+            const alias = paletteAliases.get(stringValue.toLowerCase());
+            return new TokenLeaf(alias || stringValue, 'color');
+        }
+
+        if (lowerKey.includes('fontfamily') || lowerKey.endsWith('font')) {
+            return new TokenLeaf(this.toFontStack(stringValue), 'fontFamily');
+        }
+
+        if (lowerKey.includes('fontweight')) {
+            const weight = FONT_WEIGHTS[stringValue.toLowerCase()] || Number(stringValue);
+            return isNaN(weight) ? new TokenLeaf(stringValue) : new TokenLeaf(weight, 'fontWeight');
+        }
+
+        if (lowerKey.includes('shadow')) {
+            const shadow = this.parseShadow(stringValue, paletteAliases);
+            return shadow ? new TokenLeaf(shadow, 'shadow') : new TokenLeaf(stringValue);
+        }
+
+        if (DIMENSION_REGEX.test(stringValue)) {
+            return new TokenLeaf(stringValue, 'dimension');
+        }
+
+        return new TokenLeaf(stringValue);
+    }
+
+    /**
+     * Parse a single CSS box-shadow into a DTCG composite shadow value
+     */
+    private parseShadow(value: string, paletteAliases: Map<string, string>): Record<string, string> | null {
+        if (value === 'none') return null;
+
+        const colorMatch = value.match(/(#[0-9a-f]{3,8}|rgba?\([^)]+\)|hsla?\([^)]+\))/i);
+        if (!colorMatch) return null;
+
+        const lengths = value.replace(colorMatch[0], '').trim().split(/\s+/).filter(Boolean);
+        if (lengths.length < 2 || lengths.length > 4 || lengths.includes('inset')) return null;
+
+        const [offsetX, offsetY, blur = '0px', spread = '0px'] = lengths.map(length =>
+            length === '0' ? '0px' : length);
+
+        return {
+            color: paletteAliases.get(colorMatch[0].toLowerCase()) || colorMatch[0],
+            offsetX,
+            offsetY,
+            blur,
+            spread
+        };
+    }
+
+    /**
+     * Map raw palette colors to token references
+     */
+    private buildPaletteAliases(colorPalette: ExportableTheme['colorPalette']): Map<string, string> {
+        const aliases = new Map<string, string>();
+
+        for (const [role, value] of Object.entries(colorPalette)) {
+            const key = typeof value === 'string' ? value.toLowerCase() : '';
+            // The first role wins when two roles share a color
+            if (key && !aliases.has(key)) {
+                aliases.set(key, `{color.${this.toTokenName(role)}}`);
+            }
+        }
+
+        return aliases;
+    }
+
+    private toFontStack(fontFamily: string): string[] {
+        return fontFamily
+            .split(',')
+            .map(font => font.trim().replace(/^["']|["']$/g, ''))
+            .filter(Boolean);
+    }
+
+    /**
+     * Convert a camelCase or spaced key into a kebab-case token name
+     */
+    private toTokenName(key: string): string {
+        return key
+            .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+            .replace(/[\s_]+/g, '-')
+            .toLowerCase();
+    }
+
+    private formatTree<T>(tree: TokenTree, formatLeaf: (leaf: TokenLeaf) => T): Record<string, any> {
+        const result: Record<string, any> = {};
+
+        for (const [name, node] of Object.entries(tree)) {
+            result[name] = this.isLeaf(node)
+                ? formatLeaf(node)
+                : this.formatTree(node, formatLeaf);
+        }
+
+        return result;
+    }
+
+    private isLeaf(node: TokenLeaf | TokenTree): node is TokenLeaf {
+        return node instanceof TokenLeaf;
+    }
+}
@@ -0,0 +1,515 @@
+import { GeneratedTheme } from '../generator/themeGenerator';
+import { isDarkColor, toHex } from '@/lib/color';
+import { createZipArchive, toSlug } from './archive';
+
+export type EditorThemeSource = Pick<GeneratedTheme, 'name' | 'type' | 'colorPalette' | 'typography' | 'styles'>;
+
+/**
+ * Syntax colors keyed by the highlighting roles produced by LanguageStyleGenerator
+ */
+type SyntaxRoles = { [role: string]: string };
+
+interface SyntaxPalette {
+    background: string;
+    foreground: string;
+    // Roles shared by every language
+    roles: SyntaxRoles;
+    // Roles whose color differs for a specific language
+    overrides: { [language: string]: SyntaxRoles };
+}
+
+// TextMate scopes for each highlighting role
+const TEXTMATE_SCOPES: { [role: string]: string[] } = {
+    keyword: ['keyword', 'storage.type', 'storage.modifier'],
+    string: ['string'],
+    comment: ['comment', 'punctuation.definition.comment'],
+    function: ['entity.name.function', 'support.function', 'meta.function-call'],
+    variable: ['variable', 'meta.definition.variable'],
+    number: ['constant.numeric'],
+    operator: ['keyword.operator'],
+    punctuation: ['punctuation'],
+    property: ['variable.other.property', 'support.type.property-name'],
+    tag: ['entity.name.tag'],
+    attribute: ['entity.other.attribute-name'],
+    value: ['constant.other', 'support.constant'],
+    regex: ['string.regexp'],
+    builtin: ['support.function.builtin', 'support.class.builtin', 'variable.language'],
+    className: ['entity.name.type.class', 'entity.name.class'],
+    doctype: ['meta.tag.sgml.doctype'],
+    tagName: ['entity.name.tag'],
+    attributeName: ['entity.other.attribute-name'],
+    attributeValue: ['string.quoted'],
+    selector: ['entity.name.tag.css', 'entity.other.attribute-name.class.css', 'entity.other.attribute-name.id.css'],
+    unit: ['keyword.other.unit'],
+    important: ['keyword.other.important'],
+    decorator: ['entity.name.function.decorator', 'meta.decorator'],
+    self: ['variable.language.self', 'variable.parameter.function.language.special.self'],
+    annotation: ['storage.type.annotation', 'meta.annotation'],
+    namespace: ['entity.name.namespace', 'entity.name.package'],
+    component: ['support.class.component'],
+    prop: ['entity.other.attribute-name'],
+    jsx: ['meta.tag']
+};
+
+// TextMate scope suffix for each language LanguageStyleGenerator supports
+const TEXTMATE_LANGUAGE_SUFFIXES: { [language: string]: string[] } = {
+    javascript: ['js'],
+    typescript: ['ts'],
+    react: ['jsx', 'tsx'],
+    angular: ['ng'],
+    python: ['python'],
+    java: ['java'],
+    csharp: ['cs'],
+    php: ['php'],
+    ruby: ['ruby'],
+    swift: ['swift'],
+    go: ['go'],
+    perl: ['perl'],
+    r: ['r'],
+    html: ['html'],
+    css: ['css']
+};
+
+// JetBrains color scheme attribute keys for each highlighting role
+const JETBRAINS_ATTRIBUTES: { [role: string]: string[] } = {
+    keyword: ['DEFAULT_KEYWORD'],
+    string: ['DEFAULT_STRING'],
+    comment: ['DEFAULT_LINE_COMMENT', 'DEFAULT_BLOCK_COMMENT', 'DEFAULT_DOC_COMMENT'],
+    function: ['DEFAULT_FUNCTION_DECLARATION', 'DEFAULT_FUNCTION_CALL'],
+    variable: ['DEFAULT_LOCAL_VARIABLE', 'DEFAULT_IDENTIFIER'],
+    number: ['DEFAULT_NUMBER'],
+    operator: ['DEFAULT_OPERATION_SIGN'],
+    punctuation: ['DEFAULT_COMMA', 'DEFAULT_SEMICOLON', 'DEFAULT_DOT', 'DEFAULT_PARENTHS', 'DEFAULT_BRACES', 'DEFAULT_BRACKETS'],
+    property: ['DEFAULT_INSTANCE_FIELD', 'CSS.PROPERTY_NAME'],
+    tag: ['DEFAULT_TAG', 'HTML_TAG_NAME'],
+    attribute: ['DEFAULT_ATTRIBUTE', 'HTML_ATTRIBUTE_NAME'],
+    value: ['DEFAULT_CONSTANT', 'CSS.PROPERTY_VALUE', 'HTML_ATTRIBUTE_VALUE'],
+    regex: ['JS.REGEXP'],
+    builtin: ['DEFAULT_PREDEFINED_SYMBOL'],
+    className: ['DEFAULT_CLASS_NAME'],
+    selector: ['CSS.TAG_NAME', 'CSS.CLASS_NAME', 'CSS.IDENT'],
+    important: ['CSS.IMPORTANT'],
+    decorator: ['PY.DECORATOR'],
+    self: ['PY.SELF_PARAMETER'],
+    annotation: ['DEFAULT_METADATA'],
+    namespace: ['JAVA_PACKAGE']
+};
+
+// Vim highlight groups for each highlighting role
+const VIM_GROUPS: { [role: string]: string[] } = {
+    keyword: ['Keyword', 'Statement', 'Conditional', 'Repeat'],
+    string: ['String', 'Character'],
+    comment: ['Comment'],
+    function: ['Function'],
+    variable: ['Identifier'],
+    number: ['Number', 'Float', 'Boolean'],
+    operator: ['Operator'],
+    punctuation: ['Delimiter'],
+    property: ['Label'],
+    tag: ['Tag'],
+    attribute: ['Special'],
+    value: ['Constant'],
+    regex: ['SpecialChar'],
+    builtin: ['Type'],
+    className: ['Structure', 'Typedef'],
+    decorator: ['PreProc'],
+    annotation: ['PreProc'],
+    namespace: ['Include']
+};
+
+// highlight.js token classes for each highlighting role
+const HIGHLIGHT_JS_CLASSES: { [role: string]: string[] } = {
+    keyword: ['hljs-keyword', 'hljs-literal'],
+    string: ['hljs-string'],
+    comment: ['hljs-comment', 'hljs-quote'],
+    function: ['hljs-title.function_'],
+    variable: ['hljs-variable', 'hljs-template-variable', 'hljs-params'],
+    number: ['hljs-number'],
+    operator: ['hljs-operator'],
+    punctuation: ['hljs-punctuation'],
+    property: ['hljs-property', 'hljs-attribute'],
+    tag: ['hljs-tag', 'hljs-name'],
+    attribute: ['hljs-attr'],
+    value: ['hljs-symbol', 'hljs-bullet'],
+    regex: ['hljs-regexp'],
+    builtin: ['hljs-built_in'],
+    className: ['hljs-title.class_', 'hljs-type'],
+    doctype: ['hljs-meta'],
+    selector: ['hljs-selector-tag', 'hljs-selector-class', 'hljs-selector-id'],
+    decorator: ['hljs-meta'],
+    annotation: ['hljs-meta'],
+    namespace: ['hljs-title.class_.inherited__']
+};
+
+// Prism token classes for each highlighting role
+const PRISM_CLASSES: { [role: string]: string[] } = {
+    keyword: ['keyword'],
+    string: ['string', 'char', 'template-string'],
+    comment: ['comment', 'prolog', 'cdata'],
+    function: ['function'],
+    variable: ['variable'],
+    number: ['number', 'boolean'],
+    operator: ['operator'],
+    punctuation: ['punctuation'],
+    property: ['property'],
+    tag: ['tag'],
+    attribute: ['attr-name'],
+    value: ['attr-value', 'constant'],
+    regex: ['regex'],
+    builtin: ['builtin'],
+    className: ['class-name'],
+    doctype: ['doctype'],
+    selector: ['selector'],
+    unit: ['unit'],
+    important: ['important'],
+    decorator: ['decorator'],
+    annotation: ['annotation'],
+    namespace: ['namespace']
+};
+
+// Language classes used by highlight.js and Prism for language-specific overrides
+const LANGUAGE_CLASSES: { [language: string]: string[] } = {
+    javascript: ['language-javascript', 'language-js'],
+    typescript: ['language-typescript', 'language-ts'],
+    react: ['language-jsx', 'language-tsx'],
+    csharp: ['language-csharp', 'language-cs'],
+    html: ['language-html', 'language-markup']
+};
+
+export class EditorThemeExporter {
+    /**
+     * Generate every editor theme format
+     * @param theme The theme to export
+     * @returns The generated files keyed by relative path
+     */
+    public compile(theme: EditorThemeSource): { [path: string]: string } {
+        const slug = toSlug(theme.name);
+        const vscode = this.toVSCodeExtension(theme);
+
+        const files: { [path: string]: string } = {};
+        for (const [path, content] of Object.entries(vscode)) {
+            files[`vscode/${path}`] = content;
+        }
+        files[`jetbrains/${slug}.icls`] = this.toJetBrainsScheme(theme);
+        files[`vim/colors/${slug}.vim`] = this.toVimColorscheme(theme);
+        files[`highlightjs/${slug}.css`] = this.toHighlightJSCSS(theme);
+        files[`prism/${slug}.css`] = this.toPrismCSS(theme);
+
+        return files;
+    }
+
+    /**
+     * Bundle every editor theme format into a zip archive
+     * @param theme The theme to export
+     * @returns The zip archive contents
+     */
+    public async createArchive(theme: EditorThemeSource): Promise<ArrayBuffer> {
+        return createZipArchive(`${toSlug(theme.name)}-editor-themes`, this.compile(theme));
+    }
+
+    /**
+     * Generate a VS Code color theme extension
+     * @param theme The theme to export
+     * @returns The extension's package.json and theme file keyed by relative path
+     */
+    public toVSCodeExtension(theme: EditorThemeSource): { [path: string]: string } {
+        const slug = toSlug(theme.name);
+        const palette = this.getSyntaxPalette(theme);
+        const dark = isDarkColor(palette.background);
+        const themePath = `themes/${slug}-color-theme.json`;
+
+        const tokenColors: { name: string; scope: string[]; settings: Record<string, string> }[] = [];
+        for (const [role, color] of Object.entries(palette.roles)) {
+            if (!TEXTMATE_SCOPES[role]) continue;
+            tokenColors.push({
+                name: role,
+                scope: TEXTMATE_SCOPES[role],
+                settings: this.withFontStyle(role, { foreground: color })
+            });
+        }
+
+        // Language-qualified scopes are more specific, so they win over the shared rules
+        for (const [language, roles] of Object.entries(palette.overrides)) {
+            const suffixes = TEXTMATE_LANGUAGE_SUFFIXES[language] || [language];
+            for (const [role, color] of Object.entries(roles)) {
+                if (!TEXTMATE_SCOPES[role]) continue;
+                tokenColors.push({
+                    name: `${language} ${role}`,
+                    scope: TEXTMATE_SCOPES[role].flatMap(scope => suffixes.map(suffix => `${scope}.${suffix}`)),
+                    settings: this.withFontStyle(role, { foreground: color })
+                });
+            }
+        }
+
+        const colorTheme = {
+            name: theme.name,
+            type: dark ? 'dark' : 'light',
+            colors: {
+                'editor.background': palette.background,
+                'editor.foreground': palette.foreground,
+                'editorCursor.foreground': toHex(theme.colorPalette.accent),
+                'editorLineNumber.foreground': palette.roles.comment || palette.foreground,
+                'editor.selectionBackground': `${toHex(theme.colorPalette.primary)}40`,
+                'activityBar.background': toHex(theme.colorPalette.primary),
+                'statusBar.background': toHex(theme.colorPalette.primary),
+                'titleBar.activeBackground': toHex(theme.colorPalette.primary),
+                'sideBar.background': palette.background,
+                'button.background': toHex(theme.colorPalette.primary),
+                'focusBorder': toHex(theme.colorPalette.accent)
+            },
+            tokenColors
+        };
+
+        const packageJson = {
+            name: `${slug}-theme`,
+            displayName: theme.name,
+            description: `${theme.type} color theme generated by Shades`,
+            version: '0.0.1',
+            publisher: 'shades',
+            engines: { vscode: '^1.70.0' },
+            categories: ['Themes'],
+            contributes: {
+                themes: [
+                    {
+                        label: theme.name,
+                        uiTheme: dark ? 'vs-dark' : 'vs',
+                        path: `./${themePath}`
+                    }
+                ]
+            }
+        };
+
+        return {
+            'package.json': JSON.stringify(packageJson, null, 2),
+            [themePath]: JSON.stringify(colorTheme, null, 2)
+        };
+    }
+
+    /**
+     * Generate a JetBrains IDE color scheme (.icls)
+     * @param theme The theme to export
+     * @returns The scheme XML
+     */
+    public toJetBrainsScheme(theme: EditorThemeSource): string {
+        const palette = this.getSyntaxPalette(theme);
+        const dark = isDarkColor(palette.background);
+        const hex = (color: string) => toHex(color).replace('#', '').toLowerCase();
+
+        const attribute = (name: string, foreground: string, background?: string, fontType?: number) => [
+            `    <option name="${name}">`,
+            '      <value>',
+            `        <option name="FOREGROUND" value="${hex(foreground)}" />`,
+            ...(background ? [`        <option name="BACKGROUND" value="${hex(background)}" />`] : []),
+            ...(fontType ? [`        <option name="FONT_TYPE" value="${fontType}" />`] : []),
+            '      </value>',
+            '    </option>'
+        ].join('\n');
+
+        const attributes = [attribute('TEXT', palette.foreground, palette.background)];
+        for (const [role, color] of Object.entries(palette.roles)) {
+            for (const name of JETBRAINS_ATTRIBUTES[role] || []) {
+                // FONT_TYPE 2 is italic
+                attributes.push(attribute(name, color, undefined, role === 'comment' ? 2 : undefined));
+            }
+        }
+
+        return [
+            `<scheme name="${this.escapeXml(theme.name)}" version="142" parent_scheme="${dark ? 'Darcula' : 'Default'}">`,
+            '  <metaInfo>',
+            '    <property name="created">Shades</property>',
+            '  </metaInfo>',
+            '  <colors>',
+            `    <option name="CARET_COLOR" value="${hex(theme.colorPalette.accent)}" />`,
+            `    <option name="LINE_NUMBERS_COLOR" value="${hex(palette.roles.comment || palette.foreground)}" />`,
+            `    <option name="SELECTION_BACKGROUND" value="${hex(theme.colorPalette.secondary)}" />`,
+            `    <option name="SELECTION_FOREGROUND" value="${hex(palette.background)}" />`,
+            '  </colors>',
+            '  <attributes>',
+            ...attributes,
+            '  </attributes>',
+            '</scheme>',
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Generate a Vim colorscheme
+     * @param theme The theme to export
+     * @returns The colorscheme Vim script
+     */
+    public toVimColorscheme(theme: EditorThemeSource): string {
+        const slug = toSlug(theme.name);
+        const palette = this.getSyntaxPalette(theme);
+        const dark = isDarkColor(palette.background);
+
+        const lines = [
+            `" ${theme.name} (${theme.type}) — generated by Shades`,
+            '" Requires a GUI Vim or `set termguicolors`',
+            '',
+            `set background=${dark ? 'dark' : 'light'}`,
+            'hi clear',
+            'if exists("syntax_on")',
+            '  syntax reset',
+            'endif',
+            `let g:colors_name = "${slug}"`,
+            '',
+            `hi Normal guifg=${palette.foreground} guibg=${palette.background}`,
+            `hi LineNr guifg=${palette.roles.comment || palette.foreground} guibg=${palette.background}`,
+            `hi CursorLineNr guifg=${toHex(theme.colorPalette.accent)} gui=bold`,
+            `hi Visual guifg=${palette.background} guibg=${toHex(theme.colorPalette.secondary)}`,
+            `hi StatusLine guifg=${palette.background} guibg=${toHex(theme.colorPalette.primary)} gui=NONE`
+        ];
+
+        const defined = new Set<string>();
+        for (const [role, color] of Object.entries(palette.roles)) {
+            for (const group of VIM_GROUPS[role] || []) {
+                // Several roles share a group; the first (most common) role wins
+                if (defined.has(group)) continue;
+                defined.add(group);
+                lines.push(`hi ${group} guifg=${color}${role === 'comment' ? ' gui=italic' : ''}`);
+            }
+        }
+
+        lines.push('');
+        return lines.join('\n');
+    }
+
+    /**
+     * Generate a highlight.js stylesheet
+     * @param theme The theme to export
+     * @returns The CSS source
+     */
+    public toHighlightJSCSS(theme: EditorThemeSource): string {
+        const palette = this.getSyntaxPalette(theme);
+
+        return this.toHighlighterCSS(
+            theme,
+            palette,
+            `.hljs {\n  display: block;\n  overflow-x: auto;\n  padding: 1em;\n  color: ${palette.foreground};\n  background: ${palette.background};\n}`,
+            HIGHLIGHT_JS_CLASSES,
+            className => `.hljs .${className}`,
+            (language, className) => `.hljs.${language} .${className}`
+        );
+    }
+
+    /**
+     * Generate a Prism stylesheet
+     * @param theme The theme to export
+     * @returns The CSS source
+     */
+    public toPrismCSS(theme: EditorThemeSource): string {
+        const palette = this.getSyntaxPalette(theme);
+
+        return this.toHighlighterCSS(
+            theme,
+            palette,
+            [
+                'code[class*="language-"],',
+                'pre[class*="language-"] {',
+                `  color: ${palette.foreground};`,
+                `  background: ${palette.background};`,
+                `  font-family: ${theme.typography.codeFont};`,
+                '}'
+            ].join('\n'),
+            PRISM_CLASSES,
+            className => `.token.${className}`,
+            (language, className) => `.${language} .token.${className}`
+        );
+    }
+
+    private toHighlighterCSS(
+        theme: EditorThemeSource,
+        palette: SyntaxPalette,
+        baseRule: string,
+        classes: { [role: string]: string[] },
+        selector: (className: string) => string,
+        languageSelector: (languageClass: string, className: string) => string
+    ): string {
+        const rules = [`/* ${theme.name} (${theme.type}) — generated by Shades */`, '', baseRule];
+
+        for (const [role, color] of Object.entries(palette.roles)) {
+            if (!classes[role]) continue;
+            rules.push(this.cssRule(classes[role].map(selector), color, role));
+        }
+
+        for (const [language, roles] of Object.entries(palette.overrides)) {
+            const languageClasses = LANGUAGE_CLASSES[language] || [`language-${language}`];
+            for (const [role, color] of Object.entries(roles)) {
+                if (!classes[role]) continue;
+                const selectors = languageClasses.flatMap(languageClass =>
+                    classes[role].map(className => languageSelector(languageClass, className)));
+                rules.push(this.cssRule(selectors, color, role));
+            }
+        }
+
+        return rules.join('\n\n') + '\n';
+    }
+
+    private cssRule(selectors: string[], color: string, role: string): string {
+        const declarations = [`  color: ${color};`];
+        if (role === 'comment') declarations.push('  font-style: italic;');
+        if (role === 'important') declarations.push('  font-weight: bold;');
+
+        return `${selectors.join(',\n')} {\n${declarations.join('\n')}\n}`;
+    }
+
+    /**
+     * Collect the syntax colors from the theme's language styles
+     */
+    private getSyntaxPalette(theme: EditorThemeSource): SyntaxPalette {
+        const roles: SyntaxRoles = {};
+        const overrides: SyntaxPalette['overrides'] = {};
+        let background = '';
+        let foreground = '';
+
+        const languages = Object.entries(theme.styles || {})
+            .filter(([, style]) => style && style.syntaxHighlighting);
+
+        for (const [, style] of languages) {
+            background = background || style.backgroundColor || '';
+            foreground = foreground || style.textColor || '';
+
+            for (const [role, color] of Object.entries<string>(style.syntaxHighlighting)) {
+                if (!roles[role]) roles[role] = toHex(color);
+            }
+        }
+
+        for (const [language, style] of languages) {
+            for (const [role, color] of Object.entries<string>(style.syntaxHighlighting)) {
+                if (toHex(color) !== roles[role]) {
+                    overrides[language] = { ...overrides[language], [role]: toHex(color) };
+                }
+            }
+        }
+
+        // Themes saved without language styles still get a usable scheme from the palette
+        if (languages.length === 0) {
+            Object.assign(roles, {
+                keyword: toHex(theme.colorPalette.primary),
+                string: toHex(theme.colorPalette.accent),
+                function: toHex(theme.colorPalette.secondary),
+                variable: toHex(theme.colorPalette.text),
+                number: toHex(theme.colorPalette.accent)
+            });
+        }
+
+        return {
+            background: toHex(background || theme.colorPalette.background),
+            foreground: toHex(foreground || theme.colorPalette.text),
+            roles,
+            overrides
+        };
+    }
+
+    private withFontStyle(role: string, settings: Record<string, string>): Record<string, string> {
+        return role === 'comment' ? { ...settings, fontStyle: 'italic' } : settings;
+    }
+
+    private escapeXml(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+}
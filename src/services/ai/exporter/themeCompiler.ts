@@ -0,0 +1,431 @@
+import { DesignTokenExporter, ExportableTheme } from './designTokenExporter';
+import { createZipArchive, toSlug } from './archive';
+import { ColorScheme, PaletteEngine } from '../generator/paletteEngine';
+import { BREAKPOINT_STEPS, ScaleEngine, ThemeScales } from '../generator/scaleEngine';
+import { MotionEngine, ThemeMotion } from '../generator/motionEngine';
+
+export interface CompiledThemeFiles {
+    [filename: string]: string;
+}
+
+/**
+ * A flattened token: its path in the token tree and its value
+ */
+interface FlatToken {
+    path: string[];
+    value: any;
+    type?: string;
+}
+
+const ALIAS_REGEX = /\{([^}]+)\}/g;
+
+// Heading sizes on the type scale
+const HEADING_SIZES: Record<string, keyof ThemeScales['fontSize']> = {
+    h1: '4xl', h2: '3xl', h3: '2xl', h4: 'xl', h5: 'lg', h6: 'base'
+};
+
+// Horizontal padding of the container from each breakpoint up
+const CONTAINER_PADDING: Record<typeof BREAKPOINT_STEPS[number], keyof ThemeScales['spacing']> = {
+    sm: '6', md: '6', lg: '8', xl: '8'
+};
+
+export class ThemeCompiler {
+    private tokenExporter: DesignTokenExporter;
+    private paletteEngine: PaletteEngine;
+    private scaleEngine: ScaleEngine;
+    private motionEngine: MotionEngine;
+
+    constructor() {
+        this.tokenExporter = new DesignTokenExporter();
+        this.paletteEngine = new PaletteEngine();
+        this.scaleEngine = new ScaleEngine();
+        this.motionEngine = new MotionEngine();
+    }
+
+    /**
+     * Compile a theme into every supported code format
+     * @param theme The theme to compile
+     * @returns The generated files keyed by filename
+     */
+    public compile(theme: ExportableTheme): CompiledThemeFiles {
+        return {
+            'theme.css': [this.toCSSVariables(theme), this.toResponsiveCSS(theme), this.toMotionCSS(theme)].join('\n'),
+            '_theme.scss': this.toSCSS(theme),
+            'tailwind.config.js': this.toTailwindConfig(theme),
+            'theme.ts': this.toTypeScript(theme),
+            'tokens.json': JSON.stringify(this.tokenExporter.toDTCG(theme), null, 2)
+        };
+    }
+
+    /**
+     * Bundle every compiled format into a zip archive
+     * @param theme The theme to compile
+     * @returns The zip archive contents
+     */
+    public async createArchive(theme: ExportableTheme): Promise<ArrayBuffer> {
+        return createZipArchive(toSlug(theme.name), this.compile(theme));
+    }
+
+    /**
+     * Generate a stylesheet of CSS custom properties.
+     * The theme's default scheme is declared on :root; the other scheme overrides it when the
+     * user's system prefers it, and either scheme can be forced with a data-theme attribute.
+     * @param theme The theme to compile
+     * @returns The CSS source
+     */
+    public toCSSVariables(theme: ExportableTheme): string {
+        const { defaultScheme } = this.paletteEngine.getSchemes(theme.colorPalette);
+        const otherScheme: ColorScheme = defaultScheme === 'light' ? 'dark' : 'light';
+
+        const tokens = this.getSchemeTokens(theme);
+        const defaults = new Map(tokens.map(token => [token.path.join('.'), token.value]));
+        // Only tokens whose value differs between the schemes need to be redeclared
+        const overrides = this.getSchemeTokens(this.paletteEngine.applyScheme(theme, otherScheme))
+            .filter(token => JSON.stringify(defaults.get(token.path.join('.'))) !== JSON.stringify(token.value));
+
+        const declare = (list: FlatToken[], indent: string) => list.map(token =>
+            `${indent}--${token.path.join('-')}: ${this.toCSSValue(token.value, path => `var(--${path.join('-')})`)};`);
+
+        return [
+            this.header(theme, '/*', ' */'),
+            ':root {',
+            `  color-scheme: ${defaultScheme};`,
+            ...declare(tokens, '  '),
+            '}',
+            '',
+            `@media (prefers-color-scheme: ${otherScheme}) {`,
+            `  :root:not([data-theme="${defaultScheme}"]) {`,
+            `    color-scheme: ${otherScheme};`,
+            ...declare(overrides, '    '),
+            '  }',
+            '}',
+            '',
+            `:root[data-theme="${otherScheme}"] {`,
+            `  color-scheme: ${otherScheme};`,
+            ...declare(overrides, '  '),
+            '}',
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Generate base rules that apply the theme's scales: fluid heading sizes and a container
+     * that widens at each breakpoint. Breakpoints are written out, as media queries cannot use custom properties.
+     * @param theme The theme to compile
+     * @returns The CSS source
+     */
+    public toResponsiveCSS(theme: ExportableTheme): string {
+        const scales = this.getScales(theme);
+
+        const headings = Object.entries(HEADING_SIZES).map(([heading, size]) => [
+            `${heading} {`,
+            '  font-family: var(--font-family-heading);',
+            `  font-size: var(--font-size-${size});`,
+            '}'
+        ].join('\n'));
+
+        const containers = BREAKPOINT_STEPS.map(step => [
+            `@media (min-width: ${scales.breakpoints[step]}) {`,
+            '  .container {',
+            `    max-width: ${scales.breakpoints[step]};`,
+            `    padding-inline: var(--space-${CONTAINER_PADDING[step]});`,
+            '  }',
+            '}'
+        ].join('\n'));
+
+        return [
+            'body {',
+            '  font-family: var(--font-family-body);',
+            '  font-size: var(--font-size-base);',
+            '}',
+            '',
+            ...headings.flatMap(rule => [rule, '']),
+            '.container {',
+            '  width: 100%;',
+            '  margin-inline: auto;',
+            '  padding-inline: var(--space-4);',
+            '}',
+            '',
+            ...containers.flatMap(rule => [rule, ''])
+        ].join('\n');
+    }
+
+    /**
+     * Generate the keyframes the theme's animation presets use, and the overrides that stop
+     * transitions and animations from moving anything when the user prefers reduced motion
+     * @param theme The theme to compile
+     * @returns The CSS source
+     */
+    public toMotionCSS(theme: ExportableTheme): string {
+        const motion = this.getMotion(theme);
+
+        const keyframes = Object.entries(motion.keyframes).map(([name, stops]) => [
+            `@keyframes ${name} {`,
+            ...Object.entries(stops).flatMap(([stop, properties]) => [
+                `  ${stop} {`,
+                ...Object.entries(properties).map(([property, value]) => `    ${this.toCSSProperty(property)}: ${value};`),
+                '  }'
+            ]),
+            '}'
+        ].join('\n'));
+
+        // Reduced values replace the motion tokens, so every transition and animation built on them follows
+        const reduced = Object.entries(motion.reducedMotion).flatMap(([group, steps]) =>
+            Object.entries(steps).map(([step, value]) => `    --motion-${group}-${step}: ${value};`));
+
+        return [
+            ...keyframes.flatMap(rule => [rule, '']),
+            '@media (prefers-reduced-motion: reduce) {',
+            '  :root {',
+            ...reduced,
+            '  }',
+            '}',
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Generate an SCSS partial with variables and nested maps
+     * @param theme The theme to compile
+     * @returns The SCSS source
+     */
+    public toSCSS(theme: ExportableTheme): string {
+        const tokens = this.getTokens(theme);
+        const toValue = (value: any) => this.toCSSValue(value, path => `$${path.join('-')}`);
+
+        const variables = tokens.map(token => `$${token.path.join('-')}: ${toValue(token.value)};`);
+
+        // Group tokens by their top-level category so each becomes one map
+        const maps: string[] = [];
+        for (const category of Array.from(new Set(tokens.map(token => token.path[0])))) {
+            const tree: Record<string, any> = {};
+            for (const token of tokens.filter(t => t.path[0] === category)) {
+                let node = tree;
+                token.path.slice(1, -1).forEach(segment => {
+                    node = node[segment] = node[segment] || {};
+                });
+                node[token.path[token.path.length - 1]] = `$${token.path.join('-')}`;
+            }
+            maps.push(`$${category}-tokens: ${this.toSCSSMap(tree, 0)};`);
+        }
+
+        return [
+            this.header(theme, '//', ''),
+            ...variables,
+            '',
+            ...maps,
+            '',
+            '// Wraps rules in a media query from the given breakpoint up, e.g. @include respond-to(md) { ... }',
+            '@mixin respond-to($breakpoint) {',
+            '  @media (min-width: map-get($breakpoint-tokens, $breakpoint)) {',
+            '    @content;',
+            '  }',
+            '}',
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Generate a Tailwind CSS config that extends the default theme
+     * @param theme The theme to compile
+     * @returns The tailwind.config.js source
+     */
+    public toTailwindConfig(theme: ExportableTheme): string {
+        const tokens = this.getTokens(theme);
+        const resolve = (value: any) => this.toCSSValue(value, path => this.resolveAlias(tokens, path));
+
+        const colors: Record<string, string> = {};
+        const fontFamily: Record<string, string[]> = {};
+        const borderRadius: Record<string, string> = {};
+        const boxShadow: Record<string, string> = {};
+        const screens: Record<string, string> = {};
+        const spacing: Record<string, string> = {};
+        const fontSize: Record<string, string> = {};
+        const transitionDuration: Record<string, string> = {};
+        const transitionTimingFunction: Record<string, string> = {};
+        const animation: Record<string, string> = {};
+
+        for (const token of tokens) {
+            const [category, ...rest] = token.path;
+            const property = rest[rest.length - 1];
+            const name = rest.slice(0, -1).join('-');
+
+            if (category === 'color') {
+                colors[rest.join('-')] = resolve(token.value);
+            } else if (category === 'font' && rest[0] === 'family') {
+                fontFamily[rest.slice(1).join('-')] = String(token.value).split(',').map(font => font.trim());
+            } else if (category === 'font' && rest[0] === 'size') {
+                fontSize[rest.slice(1).join('-')] = resolve(token.value);
+            } else if (category === 'space') {
+                spacing[rest.join('-')] = resolve(token.value);
+            } else if (category === 'breakpoint') {
+                screens[rest.join('-')] = resolve(token.value);
+            } else if (category === 'motion' && rest[0] === 'duration') {
+                transitionDuration[rest[1]] = resolve(token.value);
+            } else if (category === 'motion' && rest[0] === 'easing') {
+                transitionTimingFunction[rest[1]] = resolve(token.value);
+            } else if (category === 'motion' && rest[0] === 'animation') {
+                animation[rest[1]] = resolve(token.value);
+            } else if (category === 'component' && property === 'border-radius') {
+                borderRadius[name] = resolve(token.value);
+            } else if (category === 'component' && property === 'box-shadow' && resolve(token.value) !== 'none') {
+                boxShadow[name] = resolve(token.value);
+            }
+        }
+
+        const extend = {
+            colors,
+            fontFamily,
+            fontSize,
+            spacing,
+            screens,
+            borderRadius,
+            boxShadow,
+            transitionDuration,
+            transitionTimingFunction,
+            keyframes: this.getMotion(theme).keyframes,
+            animation
+        };
+
+        return [
+            this.header(theme, '//', ''),
+            '/** @type {import(\'tailwindcss\').Config} */',
+            'module.exports = {',
+            '  theme: {',
+            `    extend: ${this.indent(JSON.stringify(extend, null, 2), '    ')},`,
+            '  },',
+            '};',
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Generate a typed theme object for CSS-in-JS libraries such as Emotion
+     * @param theme The theme to compile
+     * @returns The TypeScript source
+     */
+    public toTypeScript(theme: ExportableTheme): string {
+        const themeObject = {
+            name: theme.name,
+            type: theme.type,
+            colors: { ...theme.colorPalette },
+            fonts: {
+                heading: theme.typography.headingFont,
+                body: theme.typography.bodyFont,
+                code: theme.typography.codeFont
+            },
+            scales: this.getScales(theme),
+            motion: this.getMotion(theme),
+            components: theme.components || {}
+        };
+
+        return [
+            this.header(theme, '//', ''),
+            `export const theme = ${JSON.stringify(themeObject, null, 2)} as const;`,
+            '',
+            'export type ShadesTheme = typeof theme;',
+            '',
+            '// Lets Emotion\'s useTheme() and styled components infer the theme shape',
+            'declare module \'@emotion/react\' {',
+            '  // eslint-disable-next-line @typescript-eslint/no-empty-interface',
+            '  export interface Theme extends ShadesTheme {}',
+            '}',
+            '',
+            'export default theme;',
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Flatten the theme's color, font, scale, motion and component tokens
+     */
+    private getTokens(theme: ExportableTheme): FlatToken[] {
+        const { color, font, space, radius, shadow, breakpoint, motion, component } = this.tokenExporter.toStyleDictionary(theme);
+        const tokens: FlatToken[] = [];
+
+        const walk = (node: Record<string, any>, path: string[]) => {
+            for (const [name, child] of Object.entries(node)) {
+                if (child && typeof child === 'object' && 'value' in child) {
+                    tokens.push({ path: [...path, name], value: child.value, type: child.type });
+                } else if (child && typeof child === 'object') {
+                    walk(child, [...path, name]);
+                }
+            }
+        };
+
+        walk({ color, font, space, radius, shadow, breakpoint, motion, component: component || {} }, []);
+        return tokens;
+    }
+
+    /**
+     * Render a token value as CSS, rewriting token references with the given formatter
+     */
+    private toCSSValue(value: any, formatReference: (path: string[]) => string): string {
+        if (value && typeof value === 'object' && 'timingFunction' in value) {
+            // Composite transition token
+            const { duration, delay, timingFunction } = value;
+            return [duration, timingFunction, delay === '0ms' ? '' : delay]
+                .filter(Boolean)
+                .map(part => this.toCSSValue(part, formatReference))
+                .join(' ');
+        }
+
+        if (value && typeof value === 'object') {
+            // Composite shadow token
+            const { offsetX, offsetY, blur, spread, color } = value;
+            return `${offsetX} ${offsetY} ${blur} ${spread} ${this.toCSSValue(color, formatReference)}`;
+        }
+
+        // Values such as paddings can reference several tokens, e.g. {space.2} {space.5}
+        return String(value).replace(ALIAS_REGEX, (_match, path: string) => formatReference(path.split('.')));
+    }
+
+    /**
+     * The theme's scales; themes stored before scales existed use a neutral trend's
+     */
+    private getScales(theme: ExportableTheme): ThemeScales {
+        return theme.scales || this.scaleEngine.getDefaultScales();
+    }
+
+    /**
+     * The theme's motion; themes stored before motion existed use a neutral trend's
+     */
+    private getMotion(theme: ExportableTheme): ThemeMotion {
+        return theme.motion || this.motionEngine.getDefaultMotion();
+    }
+
+    private toCSSProperty(property: string): string {
+        return property.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+    }
+
+    /**
+     * Tokens of the scheme the theme is currently in, without the other scheme's palette group
+     * or the reduced-motion values, which only apply under their media queries
+     */
+    private getSchemeTokens(theme: ExportableTheme): FlatToken[] {
+        return this.getTokens(theme)
+            .filter(token => !(token.path[0] === 'color' && ['light', 'dark'].includes(token.path[1])))
+            .filter(token => !(token.path[0] === 'motion' && token.path[1] === 'reduced'));
+    }
+
+    private resolveAlias(tokens: FlatToken[], path: string[]): string {
+        const target = tokens.find(token => token.path.join('.') === path.join('.'));
+        return target ? this.toCSSValue(target.value, next => this.resolveAlias(tokens, next)) : path.join('.');
+    }
+
+    private toSCSSMap(tree: Record<string, any>, depth: number): string {
+        const indent = '  '.repeat(depth + 1);
+        const entries = Object.entries(tree).map(([key, value]) =>
+            `${indent}'${key}': ${typeof value === 'string' ? value : this.toSCSSMap(value, depth + 1)}`);
+
+        return `(\n${entries.join(',\n')}\n${'  '.repeat(depth)})`;
+    }
+
+    private header(theme: ExportableTheme, open: string, close: string): string {
+        return `${open} ${theme.name} (${theme.type}) — generated by Shades${close}`;
+    }
+
+    private indent(text: string, prefix: string): string {
+        return text.split('\n').map((line, i) => (i === 0 ? line : prefix + line)).join('\n');
+    }
+}
@@ -0,0 +1,52 @@
+import { MotionEngine, motionReference, toMotionValue } from '../motionEngine';
+import { DEFAULT_TRENDS } from '../../trends/defaultTrends';
+
+const trend = (name: string) => DEFAULT_TRENDS.find(definition => definition.name === name)!;
+
+describe('MotionEngine', () => {
+  let engine: MotionEngine;
+
+  beforeEach(() => {
+    engine = new MotionEngine();
+  });
+
+  it('classifies trends by how their animations are described', () => {
+    expect(engine.getMotionStyle(trend('Modern Minimalism'))).toBe('subtle');
+    expect(engine.getMotionStyle(trend('Bold Typography'))).toBe('expressive');
+    expect(engine.getMotionStyle(trend('Abstract Design'))).toBe('playful');
+    expect(engine.getMotionStyle(trend('Custom'))).toBe('smooth');
+  });
+
+  it('keeps restrained trends to short fades that move nothing', () => {
+    const motion = engine.generateMotion(trend('Modern Minimalism'));
+
+    expect(motion.transform).toEqual({ hover: 'none', active: 'none' });
+    expect(Object.keys(motion.keyframes)).toEqual(['fade-in', 'fade-out']);
+    expect(motion.animation.enter).toBe('fade-in 150ms cubic-bezier(0, 0, 0.2, 1) both');
+    expect(motion.animation.attention).toBe('none');
+  });
+
+  it('gives playful trends overshooting spring easings', () => {
+    const motion = engine.generateMotion(trend('Abstract Design'));
+
+    expect(motion.easing.emphasized[1]).toBeGreaterThan(1);
+    expect(motion.keyframes['pop-in']['60%'].transform).toBe('scale(1.05)');
+    expect(motion.animation.enter).toMatch(/^pop-in 500ms cubic-bezier\(0\.34, 1\.56, 0\.64, 1\) both$/);
+  });
+
+  it('stops durations, transforms and animations under reduced motion', () => {
+    const { reducedMotion } = engine.getDefaultMotion();
+
+    expect(Object.values(reducedMotion.duration)).toEqual(['0ms', '0ms', '0ms']);
+    expect(Object.values(reducedMotion.transform)).toEqual(['none', 'none']);
+    expect(Object.values(reducedMotion.animation)).toEqual(['none', 'none', 'none']);
+  });
+
+  it('references motion tokens as custom properties with their CSS value as fallback', () => {
+    const motion = engine.getDefaultMotion();
+
+    expect(toMotionValue(motion, 'easing', 'standard')).toBe('cubic-bezier(0.4, 0, 0.2, 1)');
+    expect(motionReference(motion, 'transition', 'fast')).toBe('var(--motion-transition-fast, 120ms cubic-bezier(0.4, 0, 0.2, 1))');
+    expect(motionReference(motion, 'transform', 'hover')).toBe('var(--motion-transform-hover, translateY(-1px))');
+  });
+});
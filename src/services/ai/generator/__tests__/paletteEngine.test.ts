@@ -0,0 +1,143 @@
+import { PaletteEngine, SCALE_STEPS } from '../paletteEngine';
+import { contrastRatio, isDarkColor, toOklch } from '@/lib/color';
+
+const hueDistance = (a: number, b: number) => {
+  const distance = Math.abs(a - b) % 360;
+  return distance > 180 ? 360 - distance : distance;
+};
+
+describe('PaletteEngine', () => {
+  let engine: PaletteEngine;
+
+  beforeEach(() => {
+    engine = new PaletteEngine();
+  });
+
+  it('derives harmony hues from the seed color', () => {
+    const seedHue = toOklch('#2B6CB0')!.h;
+
+    const complementary = engine.generateHarmony('#2B6CB0', 'complementary');
+    expect(complementary.primary).toBe('#2B6CB0');
+    expect(hueDistance(toOklch(complementary.accent)!.h, seedHue)).toBeCloseTo(180, 0);
+
+    const triadic = engine.generateHarmony('#2B6CB0', 'triadic');
+    expect(hueDistance(toOklch(triadic.secondary)!.h, seedHue)).toBeCloseTo(120, 0);
+    expect(hueDistance(toOklch(triadic.accent)!.h, seedHue)).toBeCloseTo(120, 0);
+
+    const analogous = engine.generateHarmony('#2B6CB0', 'analogous');
+    expect(hueDistance(toOklch(analogous.accent)!.h, seedHue)).toBeCloseTo(30, 0);
+  });
+
+  it('produces readable text on the generated background', () => {
+    const palette = engine.generateHarmony('#E53E3E', 'split-complementary');
+
+    expect(isDarkColor(palette.background)).toBe(false);
+    expect(contrastRatio(palette.text, palette.background)).toBeGreaterThan(7);
+  });
+
+  it('generates a 50-950 scale that darkens step by step', () => {
+    const scale = engine.generateScale('#2B6CB0');
+    const lightness = SCALE_STEPS.map(step => toOklch(scale[step])!.l);
+
+    expect(Object.keys(scale)).toHaveLength(SCALE_STEPS.length);
+    lightness.slice(1).forEach((l, i) => expect(l).toBeLessThan(lightness[i]));
+  });
+
+  it('pairs light palettes with a dark scheme', () => {
+    const light = engine.generateHarmony('#2B6CB0');
+    const enriched = engine.enrichPalette(light);
+
+    expect(enriched.scale.primary[500]).toBeDefined();
+    expect(isDarkColor(enriched.dark!.background)).toBe(true);
+    expect(contrastRatio(enriched.dark!.text, enriched.dark!.background)).toBeGreaterThan(7);
+
+    const dark = engine.enrichPalette(enriched.dark!);
+    expect(dark.dark).toBeUndefined();
+  });
+
+  it('pairs dark palettes with a light scheme', () => {
+    const enriched = engine.enrichPalette({
+      primary: '#BB86FC',
+      secondary: '#03DAC6',
+      accent: '#CF6679',
+      background: '#121212',
+      text: '#FFFFFF',
+    });
+
+    expect(enriched.dark).toBeUndefined();
+    expect(isDarkColor(enriched.light!.background)).toBe(false);
+    expect(contrastRatio(enriched.light!.text, enriched.light!.background)).toBeGreaterThan(7);
+    expect(contrastRatio(enriched.light!.accent, enriched.light!.background)).toBeGreaterThan(3);
+    expect(engine.getSchemes(enriched)).toMatchObject({ defaultScheme: 'dark', dark: { background: '#121212' } });
+  });
+
+  it('darkens colors as they are hovered and pressed, lightening those too dark to darken', () => {
+    const blue = engine.deriveStateShades('#2B6CB0');
+    const black = engine.deriveStateShades('#121212');
+
+    expect(toOklch(blue.hover)!.l).toBeCloseTo(toOklch('#2B6CB0')!.l - 0.06, 2);
+    expect(toOklch(blue.active)!.l).toBeCloseTo(toOklch('#2B6CB0')!.l - 0.12, 2);
+    expect(hueDistance(toOklch(blue.active)!.h, toOklch('#2B6CB0')!.h)).toBeLessThan(2);
+    expect(toOklch(black.hover)!.l).toBeGreaterThan(toOklch('#121212')!.l);
+  });
+
+  it('derives status colors that read as text on their own surfaces', () => {
+    for (const palette of [engine.generateHarmony('#2B6CB0'), engine.deriveDarkVariant(engine.generateHarmony('#2B6CB0'))]) {
+      const status = engine.deriveStatusColors(palette);
+
+      expect(Object.keys(status)).toEqual(['info', 'success', 'warning', 'error']);
+      expect(hueDistance(toOklch(status.info.color)!.h, toOklch(palette.primary)!.h)).toBeLessThan(2);
+      for (const { color, background } of Object.values(status)) {
+        expect(isDarkColor(background)).toBe(isDarkColor(palette.background));
+        expect(contrastRatio(color, background)).toBeGreaterThan(3);
+        expect(contrastRatio(palette.text, background)).toBeGreaterThan(7);
+      }
+    }
+  });
+
+  it('renders a theme in its other scheme', () => {
+    const colorPalette = engine.enrichPalette(engine.generateHarmony('#2B6CB0'));
+    const theme = {
+      colorPalette,
+      components: { buttons: { primary: { backgroundColor: colorPalette.primary, color: '#FFFFFF' } } },
+      pageLayouts: { blog: { post: { backgroundColor: colorPalette.background } } },
+    };
+
+    const dark = engine.applyScheme(theme, 'dark');
+
+    expect(engine.applyScheme(theme, 'light')).toBe(theme);
+    expect(dark.colorPalette.background).toBe(colorPalette.dark!.background);
+    expect(dark.colorPalette.light!.background).toBe(colorPalette.background);
+    expect(dark.components.buttons.primary).toEqual({ backgroundColor: colorPalette.dark!.primary, color: '#FFFFFF' });
+    expect(dark.pageLayouts.blog.post.backgroundColor).toBe(colorPalette.dark!.background);
+    expect(engine.getSchemes(dark.colorPalette).defaultScheme).toBe('dark');
+  });
+
+  it('swaps the state shades of each role for those of its counterpart', () => {
+    const colorPalette = engine.enrichPalette(engine.generateHarmony('#2B6CB0'));
+    const theme = {
+      colorPalette,
+      components: { buttons: { primary: { hover: { backgroundColor: engine.deriveStateShades(colorPalette.primary).hover } } } },
+    };
+
+    const dark = engine.applyScheme(theme, 'dark');
+
+    expect(dark.components.buttons.primary.hover.backgroundColor).toBe(engine.deriveStateShades(colorPalette.dark!.primary).hover);
+  });
+
+  it('swaps palette colors throughout a style tree without chaining replacements', () => {
+    const from = { primary: '#111111', secondary: '#222222', accent: '#333333', background: '#FFFFFF', text: '#000000' };
+    const to = { primary: '#222222', secondary: '#333333', accent: '#444444', background: '#000000', text: '#FFFFFF' };
+
+    const tree = engine.applyPalette(
+      { buttons: { primary: { backgroundColor: '#111111', border: '1px solid #222222', color: '#FFFFFF' } }, radius: 4 },
+      from,
+      to
+    );
+
+    expect(tree).toEqual({
+      buttons: { primary: { backgroundColor: '#222222', border: '1px solid #333333', color: '#000000' } },
+      radius: 4,
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { ScaleEngine, scaleReference } from '../scaleEngine';
+import { DEFAULT_TRENDS } from '../../trends/defaultTrends';
+import { resolveVariableFallbacks } from '@/lib/cssVariables';
+
+const trend = (name: string) => DEFAULT_TRENDS.find(definition => definition.name === name)!;
+
+// Evaluate a clamp() size in px at a viewport width
+const sizeAt = (size: string, viewport: number) => {
+  const [, min, intercept, slope, max] = size.match(/^clamp\(([\d.]+)rem, ([-\d.]+)rem \+ ([\d.]+)vw, ([\d.]+)rem\)$/)!.map(Number);
+  return Math.min(Math.max(intercept * 16 + slope * viewport / 100, min * 16), max * 16);
+};
+
+describe('ScaleEngine', () => {
+  let engine: ScaleEngine;
+
+  beforeEach(() => {
+    engine = new ScaleEngine();
+  });
+
+  it('builds a 4px spacing grid in rem', () => {
+    const { spacing } = engine.getDefaultScales();
+
+    expect(spacing['0']).toBe('0');
+    expect(spacing['1']).toBe('0.25rem');
+    expect(spacing['4']).toBe('1rem');
+    expect(spacing['24']).toBe('6rem');
+  });
+
+  it('sizes type on a modular scale that grows fluidly with the viewport', () => {
+    const { typeRatio, fontSize } = engine.generateScales(trend('Bold Typography'));
+
+    expect(typeRatio).toBe(1.333);
+    expect(fontSize.base).toBe('1rem');
+    expect(fontSize.sm).toBe('0.75rem');
+    expect(sizeAt(fontSize['4xl'], 1280)).toBeCloseTo(16 * Math.pow(1.333, 5), 0);
+    expect(sizeAt(fontSize['4xl'], 360)).toBeLessThan(sizeAt(fontSize['4xl'], 1280));
+    expect(sizeAt(fontSize.lg, 320)).toBeCloseTo(sizeAt(fontSize.lg, 360), 1);
+  });
+
+  it('follows the shapes and type of each trend', () => {
+    const minimal = engine.generateScales(trend('Modern Minimalism'));
+    const abstract = engine.generateScales(trend('Abstract Design'));
+
+    expect(minimal.typeRatio).toBe(1.2);
+    expect(minimal.radius.md).toBe('2px');
+    expect(abstract.radius.md).toBe('12px');
+    expect(minimal.shadow.md).toBe('0 2px 4px rgba(0, 0, 0, 0.08)');
+    expect(minimal.breakpoints).toEqual({ sm: '640px', md: '768px', lg: '1024px', xl: '1280px' });
+  });
+
+  it('references scale steps as custom properties with the step as fallback', () => {
+    const scales = engine.getDefaultScales();
+
+    expect(scaleReference(scales, 'spacing', '4')).toBe('var(--space-4, 1rem)');
+    expect(scaleReference(scales, 'fontSize', 'base')).toBe('var(--font-size-base, 1rem)');
+    expect(resolveVariableFallbacks(scaleReference(scales, 'shadow', 'md'))).toBe(scales.shadow.md);
+    expect(resolveVariableFallbacks(scaleReference(scales, 'fontSize', 'xl'))).toBe(scales.fontSize.xl);
+  });
+});
@@ -0,0 +1,72 @@
+import { ThemeExplorer } from '../themeExplorer';
+import { ThemeGenerator } from '../themeGenerator';
+import { OpenAIService } from '../../openai/openaiService';
+import { MockLLMProvider } from '../../openai/providers';
+
+// The OpenAI SDK needs fetch, which jsdom does not provide
+jest.mock('openai', () => jest.fn().mockImplementation(() => ({})));
+
+describe('ThemeExplorer', () => {
+  let generator: ThemeGenerator;
+  let explorer: ThemeExplorer;
+
+  beforeEach(() => {
+    generator = new ThemeGenerator(new OpenAIService(new MockLLMProvider()));
+    explorer = new ThemeExplorer(generator);
+  });
+
+  describe('planVariants', () => {
+    it('should spread variants across trends and temperatures, starting with the requested trend', () => {
+      const plans = explorer.planVariants({ count: 5, themeType: 'Dark Mode' });
+
+      expect(plans.map(plan => plan.trend)).toEqual(['Dark Mode', 'Modern Minimalism', 'Bold Typography', 'Abstract Design', 'Custom']);
+      expect(plans.map(plan => plan.temperature)).toEqual([0.6, 0.75, 0.9, 1.05, 1.2]);
+      expect(plans[0].seedColor).toBeUndefined();
+    });
+
+    it('should rotate seed colors and move to the next harmony on each pass', () => {
+      const plans = explorer.planVariants({ count: 4, seedColors: ['#2B6CB0', '#E53E3E'] });
+
+      expect(plans.map(plan => [plan.seedColor, plan.harmony])).toEqual([
+        ['#2B6CB0', 'complementary'],
+        ['#E53E3E', 'complementary'],
+        ['#2B6CB0', 'analogous'],
+        ['#E53E3E', 'analogous'],
+      ]);
+    });
+
+    it('should clamp the count to the supported range', () => {
+      expect(explorer.planVariants({ count: 25 })).toHaveLength(10);
+      expect(explorer.planVariants({ count: 1 })).toEqual([{ trend: 'Modern Minimalism', temperature: 0.8 }]);
+    });
+  });
+
+  describe('explore', () => {
+    it('should generate one theme per plan with its temperature', async () => {
+      const spy = jest.spyOn(generator, 'generateAITheme');
+
+      const variants = await explorer.explore('A calm finance dashboard', { count: 3, seedColors: ['#2B6CB0'] });
+
+      expect(variants).toHaveLength(3);
+      expect(variants[1].theme.colorPalette.primary).toBeDefined();
+      expect(spy).toHaveBeenNthCalledWith(
+        2,
+        'Dark Mode',
+        'web',
+        { description: 'A calm finance dashboard', temperature: 0.9 },
+        { seedColor: '#2B6CB0', harmony: 'analogous' }
+      );
+    });
+
+    it('should keep the variants that succeed and fail only when none do', async () => {
+      const spy = jest.spyOn(generator, 'generateAITheme');
+      spy.mockRejectedValueOnce(new Error('rate limited'));
+
+      const variants = await explorer.explore('Brief', { count: 2 });
+      expect(variants.map(variant => variant.trend)).toEqual(['Dark Mode']);
+
+      spy.mockRejectedValue(new Error('provider down'));
+      await expect(explorer.explore('Brief', { count: 2 })).rejects.toThrow('provider down');
+    });
+  });
+});
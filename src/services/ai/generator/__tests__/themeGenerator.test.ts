@@ -0,0 +1,289 @@
+import { GenerationCancelledError, GenerationProgress, ThemeGenerator } from '../themeGenerator';
+import { OpenAIService } from '../../openai/openaiService';
+import { MockLLMProvider } from '../../openai/providers';
+import { DEFAULT_TRENDS } from '../../trends/defaultTrends';
+import { PaletteEngine } from '../paletteEngine';
+import { contrastRatio } from '@/lib/color';
+import { styleTreeSchema } from '@/lib/themeValidation';
+
+// The OpenAI SDK needs fetch, which jsdom does not provide
+jest.mock('openai', () => jest.fn().mockImplementation(() => ({})));
+
+describe('ThemeGenerator', () => {
+  let generator: ThemeGenerator;
+
+  beforeEach(() => {
+    generator = new ThemeGenerator(new OpenAIService(new MockLLMProvider()));
+  });
+
+  describe('progress', () => {
+    it('should report each stage with the theme built so far', async () => {
+      const progress: GenerationProgress[] = [];
+      const theme = await generator.generateTheme('Modern Minimalism', 'web', {}, { onProgress: event => progress.push(event) });
+
+      expect(progress.map(event => `${event.stage}:${event.status}`)).toEqual([
+        'trends:started', 'trends:completed',
+        'palette:started', 'palette:completed',
+        'typography:started', 'typography:completed',
+        'language-styles:started', 'language-styles:completed',
+        'page-layouts:started', 'page-layouts:completed',
+      ]);
+
+      const palette = progress.find(event => event.stage === 'palette' && event.status === 'completed');
+      expect(palette?.theme?.colorPalette).toEqual(theme.colorPalette);
+      expect(palette?.theme?.styles).toBeUndefined();
+      expect(progress[progress.length - 1].theme).toEqual(theme);
+    });
+
+    it('should refine the defaults with an AI draft', async () => {
+      const stages: string[] = [];
+      const theme = await generator.generateAITheme('Modern Minimalism', 'web', {}, {}, {
+        onProgress: event => event.status === 'completed' && stages.push(event.stage),
+      });
+
+      expect(stages).toEqual(['trends', 'palette', 'typography', 'ai-draft', 'language-styles', 'page-layouts']);
+      expect(theme.name).toBe('Shades Offline Preview');
+    });
+  });
+
+  describe('generateAITheme', () => {
+    it('should keep the derived states and references of component groups the AI returns in part', async () => {
+      const provider = new MockLLMProvider([{
+        name: 'partial-button',
+        match: 'Generate a detailed theme for a',
+        response: {
+          name: 'Partial Buttons',
+          type: 'Modern Minimalism',
+          description: 'Only restyles the primary button',
+          colorPalette: { primary: '#2F5D8A', secondary: '#5B7A99', accent: '#C2410C', background: '#F8FAFC', text: '#1E293B' },
+          typography: { headingFont: 'Inter, sans-serif', bodyFont: 'Inter, sans-serif', codeFont: 'JetBrains Mono, monospace' },
+          components: {
+            button: { primary: { borderRadius: '999px', hover: { backgroundColor: '#1D4ED8' } } },
+            cards: { padding: '32px' },
+          },
+        },
+      }]);
+      const base = await generator.generateTheme('Modern Minimalism');
+
+      const theme = await new ThemeGenerator(new OpenAIService(provider)).generateAITheme('Modern Minimalism', 'web', {
+        components: { buttons: { primary: { active: { backgroundColor: '#1E3A8A' } } } },
+      });
+      const primary = theme.components.buttons.primary;
+
+      expect(primary.borderRadius).toBe('999px');
+      expect(primary.hover).toEqual({ ...base.components.buttons.primary.hover, backgroundColor: '#1D4ED8' });
+      expect(primary.active).toEqual({ ...base.components.buttons.primary.active, backgroundColor: '#1E3A8A' });
+      expect(primary.focus).toBeDefined();
+      expect(primary.disabled).toEqual(base.components.buttons.primary.disabled);
+      expect(primary.transition).toBe(base.components.buttons.primary.transition);
+      expect(primary.padding).toBe(base.components.buttons.primary.padding);
+      expect(theme.components.buttons.secondary).toBeDefined();
+      expect(theme.components.button).toBeUndefined();
+      expect(theme.components.cards).toMatchObject({ padding: '32px', borderRadius: base.components.cards.borderRadius });
+      expect(Object.keys(theme.components.cards)).toEqual(Object.keys(base.components.cards));
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should stop before the next stage once aborted', async () => {
+      const abortController = new AbortController();
+      const stages: string[] = [];
+
+      const run = generator.generateTheme('Modern Minimalism', 'web', {}, {
+        signal: abortController.signal,
+        onProgress: event => {
+          stages.push(event.stage);
+          if (event.stage === 'palette' && event.status === 'completed') abortController.abort();
+        },
+      });
+
+      await expect(run).rejects.toBeInstanceOf(GenerationCancelledError);
+      expect(stages).not.toContain('typography');
+    });
+
+    it('should report an aborted AI request as a cancellation', async () => {
+      const abortController = new AbortController();
+
+      const run = generator.generateAITheme('Modern Minimalism', 'web', {}, {}, {
+        signal: abortController.signal,
+        onProgress: event => event.stage === 'ai-draft' && abortController.abort(),
+      });
+
+      await expect(run).rejects.toBeInstanceOf(GenerationCancelledError);
+    });
+  });
+
+  describe('generateBrandTheme', () => {
+    const brand = {
+      name: 'Acme',
+      colors: {
+        primary: 'rgb(220, 38, 38)',
+        secondary: 'var(--brand-secondary)',
+        background: '#FFFFFF',
+        text: '#111827',
+      },
+      typography: { primary: '"Source Sans Pro", sans-serif !important', secondary: 'Georgia, serif' },
+      style: { borderRadius: '2px', buttonStyle: 'rounded' },
+    };
+
+    it('should seed the theme with the brand colors and fonts it can use', async () => {
+      const spy = jest.spyOn(generator, 'generateAITheme');
+
+      const theme = await generator.generateBrandTheme(brand, 'Modern Minimalism');
+
+      expect(theme.name).toBe('Acme Theme');
+      expect(theme.colorPalette.primary).toBe('#DC2626');
+      expect(theme.colorPalette.secondary).not.toBe('var(--brand-secondary)');
+      expect(theme.typography).toMatchObject({ bodyFont: '"Source Sans Pro", sans-serif', headingFont: 'Georgia, serif' });
+      expect(spy.mock.calls[0][2]?.description).toContain('Acme');
+    });
+
+    it('should apply the brand corner style to components and layouts', async () => {
+      const theme = await generator.generateBrandTheme(brand);
+      const radii = JSON.stringify([theme.components, theme.pageLayouts]).match(/"borderRadius":"[^"]*"/g) || [];
+
+      expect(radii.length).toBeGreaterThan(0);
+      expect(new Set(radii)).toEqual(new Set(['"borderRadius":"2px"']));
+    });
+  });
+
+  describe('trends', () => {
+    const solarpunk = {
+      name: 'Solarpunk',
+      description: 'Warm greens and rounded organic shapes',
+      features: {
+        colorPalette: ['Leafy greens'],
+        typography: ['Humanist sans-serif'],
+        components: ['Rounded corners'],
+        animations: ['Gentle easing'],
+        layout: ['Airy grids'],
+      },
+      palette: { primary: '#2F855A', secondary: '#68D391', accent: '#D69E2E', background: '#FFFFF0', text: '#1C4532' },
+      typography: { headingFont: 'Nunito, sans-serif', bodyFont: 'Nunito, sans-serif', codeFont: 'Fira Code, monospace' },
+    };
+
+    it('should start themes from the palette and fonts of the trend record', async () => {
+      const custom = new ThemeGenerator(new OpenAIService(new MockLLMProvider()), [...DEFAULT_TRENDS, solarpunk]);
+
+      const theme = await custom.generateTheme('Solarpunk', 'web');
+
+      expect(theme.colorPalette).toMatchObject(solarpunk.palette);
+      expect(theme.typography).toEqual(solarpunk.typography);
+      expect(custom.getAvailableThemeTypes()).toContain('Solarpunk');
+    });
+
+    it('should fall back to the Custom trend for unknown theme types', async () => {
+      const custom = DEFAULT_TRENDS.find(trend => trend.name === 'Custom')!;
+
+      const theme = await generator.generateTheme('Vaporwave', 'web');
+
+      expect(theme.colorPalette).toMatchObject(custom.palette);
+      expect(theme.typography).toEqual(custom.typography);
+    });
+  });
+
+  describe('catalogs', () => {
+    it('should only generate the requested languages and page categories', async () => {
+      const theme = await generator.generateTheme('Dark Mode', 'web', {
+        languages: ['rust', 'kotlin', 'sql', 'yaml', 'shell'],
+        pageCategories: ['pricing', 'checkout', 'dashboard', 'docs'],
+      });
+
+      expect(Object.keys(theme.styles)).toEqual(['rust', 'kotlin', 'sql', 'yaml', 'shell']);
+      expect(theme.styles.rust.syntaxHighlighting.macro).toBe(theme.colorPalette.accent);
+      expect(Object.keys(theme.pageLayouts)).toEqual(['pricing', 'checkout', 'dashboard', 'docs']);
+      expect(Object.keys(theme.pageLayouts.checkout)).toEqual(['cart', 'shipping', 'payment', 'confirmation']);
+      expect(theme.pageLayouts.docs.reference).toMatchObject({ tableOfContents: false, codeFont: theme.typography.codeFont });
+      expect(theme.pageLayouts.pricing.faq).not.toHaveProperty('columns');
+    });
+
+    it('should keep the original languages and page categories by default', async () => {
+      const theme = await generator.generateTheme('Dark Mode', 'web');
+
+      expect(Object.keys(theme.styles)).toContain('perl');
+      expect(Object.keys(theme.styles)).not.toContain('rust');
+      expect(Object.keys(theme.pageLayouts)).toEqual(['product', 'navigation', 'profile', 'blog', 'settings', 'application']);
+    });
+
+    it('should reject languages that are not in the catalog', async () => {
+      await expect(generator.generateTheme('Dark Mode', 'web', { languages: ['cobol'] }))
+        .rejects.toThrow('Unsupported language: cobol');
+    });
+  });
+
+  describe('scales', () => {
+    it('should size components, code styles and layouts from the theme scales', async () => {
+      const theme = await generator.generateTheme('Abstract Design', 'web', { pageCategories: ['dashboard'] });
+
+      expect(theme.scales?.radius.md).toBe('12px');
+      expect(theme.components.buttons.primary.borderRadius).toBe('var(--radius-md, 12px)');
+      expect(theme.components.buttons.primary.padding).toBe('var(--space-2, 0.5rem) var(--space-5, 1.25rem)');
+      expect(theme.styles.css.fontSize).toBe(`var(--font-size-sm, ${theme.scales?.fontSize.sm})`);
+      expect(theme.pageLayouts.dashboard.overview.gap).toBe('var(--space-6, 1.5rem)');
+    });
+  });
+
+  describe('motion', () => {
+    it('should animate component states with the motion of the trend', async () => {
+      const theme = await generator.generateTheme('Abstract Design');
+      const button = theme.components.buttons.primary;
+
+      expect(theme.motion?.style).toBe('playful');
+      expect(button.transition).toBe('var(--motion-transition-fast, 150ms cubic-bezier(0.4, 0, 0.2, 1))');
+      expect(button.hover.transform).toBe('var(--motion-transform-hover, translateY(-2px) scale(1.03))');
+      expect(button.active.transform).toBe('var(--motion-transform-active, scale(0.95))');
+      expect(theme.components.cards.animation).toMatch(/^var\(--motion-animation-enter, pop-in /);
+    });
+  });
+
+  describe('component states', () => {
+    const COMPONENTS = ['buttons', 'cards', 'navigation', 'tabs', 'inputs', 'selects', 'checkboxes', 'alerts', 'badges', 'modals', 'tables', 'tooltips'];
+
+    it('should generate every core component', async () => {
+      const theme = await generator.generateTheme('Modern Minimalism');
+
+      expect(Object.keys(theme.components)).toEqual(COMPONENTS);
+      expect(Object.keys(theme.components.alerts)).toEqual(['info', 'success', 'warning', 'error']);
+    });
+
+    it('should derive hover and active shades from the palette', async () => {
+      const theme = await generator.generateTheme('Bold Typography');
+      const engine = new PaletteEngine();
+      const { primary } = theme.components.buttons;
+
+      expect(primary.hover.backgroundColor).toBe(engine.deriveStateShades(theme.colorPalette.primary).hover);
+      expect(primary.active.backgroundColor).toBe(engine.deriveStateShades(theme.colorPalette.primary).active);
+      expect(theme.components.tables.row.hover.backgroundColor).toBe(engine.deriveStateShades(theme.colorPalette.background).hover);
+    });
+
+    it('should give every interactive component a focus ring and a disabled style', async () => {
+      const theme = await generator.generateTheme('Dark Mode');
+      const interactive = [
+        theme.components.buttons.primary, theme.components.buttons.secondary, theme.components.cards,
+        theme.components.navigation, theme.components.tabs, theme.components.inputs, theme.components.selects,
+        theme.components.checkboxes, theme.components.badges, theme.components.modals.close,
+        theme.components.tables.row, theme.components.alerts.error.dismiss,
+      ];
+
+      for (const component of interactive) {
+        expect(component.focus).toMatchObject({ outlineStyle: 'solid', outlineWidth: '2px' });
+        expect(component.disabled).toMatchObject({ opacity: '0.5', cursor: 'not-allowed' });
+      }
+    });
+
+    it('should draw focus rings in a color that stands out from the background', async () => {
+      for (const themeType of generator.getAvailableThemeTypes()) {
+        const theme = await generator.generateTheme(themeType);
+        const { outlineColor } = theme.components.buttons.primary.focus;
+
+        expect(contrastRatio(outlineColor, theme.colorPalette.background)).toBeGreaterThanOrEqual(3);
+      }
+    });
+
+    it('should produce component styles the theme validation accepts', async () => {
+      const theme = await generator.generateTheme('Abstract Design');
+
+      expect(styleTreeSchema.safeParse(theme.components).success).toBe(true);
+    });
+  });
+});
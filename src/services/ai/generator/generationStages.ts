@@ -0,0 +1,4 @@
+// Stages of a theme generation run, in the order they report progress.
+// Kept apart from the generator so client components can list them without bundling it
+export const GENERATION_STAGES = ['trends', 'palette', 'typography', 'ai-draft', 'language-styles', 'page-layouts'] as const;
+export type GenerationStage = typeof GENERATION_STAGES[number];
@@ -0,0 +1,157 @@
+import type { GeneratedTheme } from './themeGenerator';
+
+/**
+ * A language themes can carry code styles for. Every language shares the base token colors;
+ * `tokens` adds or overrides the tokens specific to its grammar.
+ */
+export interface LanguageDefinition {
+    id: string;
+    label: string;
+    tokens?: (colorPalette: GeneratedTheme['colorPalette'], themeType: string) => { [token: string]: string };
+    // Included when a generate request does not choose its languages
+    includeByDefault?: boolean;
+}
+
+// Built-in languages; the last five are opt-in so default themes stay the size they were
+export const DEFAULT_LANGUAGES: LanguageDefinition[] = [
+    { id: 'php', label: 'PHP', includeByDefault: true },
+    { id: 'ruby', label: 'Ruby', includeByDefault: true },
+    {
+        id: 'javascript',
+        label: 'JavaScript',
+        includeByDefault: true,
+        tokens: colorPalette => ({
+            regex: '#D69E2E',
+            builtin: colorPalette.primary,
+            className: colorPalette.secondary
+        })
+    },
+    {
+        id: 'css',
+        label: 'CSS',
+        includeByDefault: true,
+        tokens: colorPalette => ({
+            selector: colorPalette.primary,
+            property: colorPalette.secondary,
+            value: colorPalette.accent,
+            unit: colorPalette.text,
+            important: '#E53E3E'
+        })
+    },
+    {
+        id: 'python',
+        label: 'Python',
+        includeByDefault: true,
+        tokens: colorPalette => ({
+            decorator: colorPalette.accent,
+            builtin: colorPalette.primary,
+            self: colorPalette.primary
+        })
+    },
+    {
+        id: 'java',
+        label: 'Java',
+        includeByDefault: true,
+        tokens: colorPalette => ({
+            annotation: colorPalette.accent,
+            className: colorPalette.secondary,
+            namespace: colorPalette.primary
+        })
+    },
+    {
+        id: 'csharp',
+        label: 'C#',
+        includeByDefault: true,
+        tokens: colorPalette => ({
+            annotation: colorPalette.accent,
+            className: colorPalette.secondary,
+            namespace: colorPalette.primary
+        })
+    },
+    {
+        id: 'html',
+        label: 'HTML',
+        includeByDefault: true,
+        tokens: colorPalette => ({
+            doctype: '#718096',
+            tagName: colorPalette.primary,
+            attributeName: colorPalette.secondary,
+            attributeValue: colorPalette.accent
+        })
+    },
+    {
+        id: 'typescript',
+        label: 'TypeScript',
+        includeByDefault: true,
+        tokens: colorPalette => ({
+            regex: '#D69E2E',
+            builtin: colorPalette.primary,
+            className: colorPalette.secondary
+        })
+    },
+    {
+        id: 'react',
+        label: 'React',
+        includeByDefault: true,
+        tokens: colorPalette => ({
+            component: colorPalette.primary,
+            prop: colorPalette.secondary,
+            jsx: colorPalette.accent
+        })
+    },
+    { id: 'swift', label: 'Swift', includeByDefault: true },
+    { id: 'go', label: 'Go', includeByDefault: true },
+    { id: 'perl', label: 'Perl', includeByDefault: true },
+    { id: 'r', label: 'R', includeByDefault: true },
+    { id: 'angular', label: 'Angular', includeByDefault: true },
+    {
+        id: 'rust',
+        label: 'Rust',
+        tokens: colorPalette => ({
+            macro: colorPalette.accent,
+            lifetime: colorPalette.secondary,
+            attribute: colorPalette.secondary,
+            typeName: colorPalette.primary
+        })
+    },
+    {
+        id: 'kotlin',
+        label: 'Kotlin',
+        tokens: colorPalette => ({
+            annotation: colorPalette.accent,
+            className: colorPalette.secondary,
+            stringTemplate: colorPalette.primary
+        })
+    },
+    {
+        id: 'sql',
+        label: 'SQL',
+        tokens: colorPalette => ({
+            keyword: colorPalette.primary,
+            table: colorPalette.secondary,
+            column: colorPalette.text,
+            parameter: colorPalette.accent
+        })
+    },
+    {
+        id: 'yaml',
+        label: 'YAML',
+        tokens: (colorPalette, themeType) => ({
+            key: colorPalette.primary,
+            anchor: colorPalette.accent,
+            documentMarker: themeType === 'Dark Mode' ? '#6B7280' : '#718096'
+        })
+    },
+    {
+        id: 'shell',
+        label: 'Shell',
+        tokens: colorPalette => ({
+            command: colorPalette.primary,
+            flag: colorPalette.secondary,
+            environmentVariable: colorPalette.accent,
+            prompt: colorPalette.secondary
+        })
+    }
+];
+
+export const LANGUAGE_IDS = DEFAULT_LANGUAGES.map(language => language.id);
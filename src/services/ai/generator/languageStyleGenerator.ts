@@ -1,54 +1,84 @@
 import { GeneratedTheme } from './themeGenerator';
+import { DEFAULT_LANGUAGES, LanguageDefinition } from './languageCatalog';
+import { ScaleEngine, ThemeScales, scaleReference } from './scaleEngine';
 
 export class LanguageStyleGenerator {
-    private supportedLanguages = [
-        'php', 'ruby', 'javascript', 'css', 'python', 'java', 'csharp', 
-        'html', 'typescript', 'react', 'swift', 'go', 'perl', 'r', 'angular'
-    ];
-    
+    private languages: Map<string, LanguageDefinition>;
+
+    /**
+     * @param catalog The languages styles can be generated for
+     */
+    constructor(catalog: LanguageDefinition[] = DEFAULT_LANGUAGES) {
+        this.languages = new Map(catalog.map(language => [language.id, language]));
+    }
+
+    /**
+     * Add a language to the catalog, replacing any language with the same id
+     * @param language The language definition
+     */
+    public registerLanguage(language: LanguageDefinition): void {
+        this.languages.set(language.id, language);
+    }
+
+    /**
+     * Generate code styles for a set of languages
+     * @param themeType The type of theme
+     * @param colorPalette The theme's palette
+     * @param languages The language ids to include; the catalog's default languages when omitted
+     * @param scales The theme's scales code blocks are sized from; a neutral trend's scales when omitted
+     * @returns Styles keyed by language id
+     * @throws Error when a language is not in the catalog
+     */
     public async generateStyles(
-        themeType: string, 
-        colorPalette: GeneratedTheme['colorPalette']
+        themeType: string,
+        colorPalette: GeneratedTheme['colorPalette'],
+        languages: string[] = this.getDefaultLanguages(),
+        scales: ThemeScales = new ScaleEngine().getDefaultScales()
     ): Promise<{ [language: string]: any }> {
         const styles: { [language: string]: any } = {};
-        
-        // Generate styles for each supported language
-        for (const language of this.supportedLanguages) {
-            styles[language] = await this.generateLanguageStyle(language, themeType, colorPalette);
+
+        // Generate styles for each requested language
+        for (const id of languages) {
+            const language = this.languages.get(id);
+            if (!language) {
+                throw new Error(`Unsupported language: ${id}`);
+            }
+            styles[id] = await this.generateLanguageStyle(language, themeType, colorPalette, scales);
         }
-        
+
         return styles;
     }
-    
+
     private async generateLanguageStyle(
-        language: string, 
-        themeType: string, 
-        colorPalette: GeneratedTheme['colorPalette']
+        language: LanguageDefinition,
+        themeType: string,
+        colorPalette: GeneratedTheme['colorPalette'],
+        scales: ThemeScales
     ): Promise<any> {
-        // Base style properties for all languages
+        // Base style properties for all languages, sized from the theme's scales
         const baseStyle = {
             backgroundColor: colorPalette.background,
             textColor: colorPalette.text,
             lineHeight: 1.5,
-            fontSize: '14px',
-            padding: '16px',
-            borderRadius: '4px',
+            fontSize: scaleReference(scales, 'fontSize', 'sm'),
+            padding: scaleReference(scales, 'spacing', '4'),
+            borderRadius: scaleReference(scales, 'radius', 'md'),
             border: themeType === 'Modern Minimalism' ? `1px solid ${colorPalette.secondary}` : 'none',
-            boxShadow: themeType === 'Modern Minimalism' ? 'none' : '0 2px 4px rgba(0, 0, 0, 0.1)'
+            boxShadow: themeType === 'Modern Minimalism' ? 'none' : scaleReference(scales, 'shadow', 'sm')
         };
-        
+
         // Language-specific syntax highlighting
         const syntaxHighlighting = this.getSyntaxHighlighting(language, themeType, colorPalette);
-        
+
         return {
             ...baseStyle,
             syntaxHighlighting
         };
     }
-    
+
     private getSyntaxHighlighting(
-        language: string, 
-        themeType: string, 
+        language: LanguageDefinition,
+        themeType: string,
         colorPalette: GeneratedTheme['colorPalette']
     ): any {
         // Base syntax highlighting for all languages
@@ -66,68 +96,21 @@ export class LanguageStyleGenerator {
             attribute: colorPalette.secondary,
             value: colorPalette.accent
         };
-        
+
         // Language-specific adjustments
-        switch (language) {
-            case 'javascript':
-            case 'typescript':
-                return {
-                    ...baseHighlighting,
-                    regex: '#D69E2E',
-                    builtin: colorPalette.primary,
-                    className: colorPalette.secondary
-                };
-                
-            case 'html':
-                return {
-                    ...baseHighlighting,
-                    doctype: '#718096',
-                    tagName: colorPalette.primary,
-                    attributeName: colorPalette.secondary,
-                    attributeValue: colorPalette.accent
-                };
-                
-            case 'css':
-                return {
-                    ...baseHighlighting,
-                    selector: colorPalette.primary,
-                    property: colorPalette.secondary,
-                    value: colorPalette.accent,
-                    unit: colorPalette.text,
-                    important: '#E53E3E'
-                };
-                
-            case 'python':
-                return {
-                    ...baseHighlighting,
-                    decorator: colorPalette.accent,
-                    builtin: colorPalette.primary,
-                    self: colorPalette.primary
-                };
-                
-            case 'java':
-            case 'csharp':
-                return {
-                    ...baseHighlighting,
-                    annotation: colorPalette.accent,
-                    className: colorPalette.secondary,
-                    namespace: colorPalette.primary
-                };
-                
-            case 'react':
-                return {
-                    ...baseHighlighting,
-                    component: colorPalette.primary,
-                    prop: colorPalette.secondary,
-                    jsx: colorPalette.accent
-                };
-                
-            default:
-                return baseHighlighting;
-        }
+        return {
+            ...baseHighlighting,
+            ...language.tokens?.(colorPalette, themeType)
+        };
     }
-    
+
     public getSupportedLanguages(): string[] {
-        return this.supportedLanguages;
+        return Array.from(this.languages.keys());
+    }
+
+    public getDefaultLanguages(): string[] {
+        return Array.from(this.languages.values())
+            .filter(language => language.includeByDefault)
+            .map(language => language.id);
     }
 }
@@ -0,0 +1,216 @@
+import type { DesignTrendDefinition } from '../trends/defaultTrends';
+
+export const MOTION_STYLES = ['subtle', 'smooth', 'expressive', 'playful'] as const;
+
+export type MotionStyle = typeof MOTION_STYLES[number];
+
+export const DURATION_STEPS = ['fast', 'normal', 'slow'] as const;
+
+export const EASING_STEPS = ['standard', 'enter', 'exit', 'emphasized'] as const;
+
+export const TRANSITION_STEPS = ['fast', 'normal', 'emphasized'] as const;
+
+export const TRANSFORM_STEPS = ['hover', 'active'] as const;
+
+export const ANIMATION_STEPS = ['enter', 'exit', 'attention'] as const;
+
+export type DurationStep = typeof DURATION_STEPS[number];
+export type EasingStep = typeof EASING_STEPS[number];
+export type TransitionStep = typeof TRANSITION_STEPS[number];
+export type TransformStep = typeof TRANSFORM_STEPS[number];
+export type AnimationStep = typeof ANIMATION_STEPS[number];
+
+// x1, y1, x2, y2 of a cubic-bezier() timing function
+export type CubicBezier = [number, number, number, number];
+
+/**
+ * Keyframe stops such as `from`, `60%` or `0%, 100%`, with properties in camelCase
+ */
+export type Keyframes = Record<string, Record<string, string>>;
+
+/**
+ * The durations, easings, transitions and animations a theme's interactive states use
+ */
+export interface ThemeMotion {
+    style: MotionStyle;
+    duration: Record<DurationStep, string>;
+    easing: Record<EasingStep, CubicBezier>;
+    transition: Record<TransitionStep, { duration: DurationStep; easing: EasingStep }>;
+    // Transforms applied to hovered and pressed components
+    transform: Record<TransformStep, string>;
+    keyframes: Record<string, Keyframes>;
+    // `animation` shorthands built on the keyframes, or none
+    animation: Record<AnimationStep, string>;
+    // Values that replace the above when the user prefers reduced motion
+    reducedMotion: {
+        duration: Record<DurationStep, string>;
+        transform: Record<TransformStep, string>;
+        animation: Record<AnimationStep, string>;
+    };
+}
+
+export type MotionGroup = 'duration' | 'easing' | 'transition' | 'transform' | 'animation';
+
+interface MotionPreset {
+    duration: ThemeMotion['duration'];
+    easing: ThemeMotion['easing'];
+    transform: ThemeMotion['transform'];
+    // Keyframes, duration and easing of each animation; null for no animation
+    animation: Record<AnimationStep, [string, DurationStep, EasingStep] | null>;
+}
+
+const KEYFRAMES: Record<string, Keyframes> = {
+    'fade-in': { from: { opacity: '0' }, to: { opacity: '1' } },
+    'fade-out': { from: { opacity: '1' }, to: { opacity: '0' } },
+    'slide-up': {
+        from: { opacity: '0', transform: 'translateY(8px)' },
+        to: { opacity: '1', transform: 'translateY(0)' }
+    },
+    rise: {
+        from: { opacity: '0', transform: 'translateY(24px)' },
+        to: { opacity: '1', transform: 'translateY(0)' }
+    },
+    reveal: { from: { clipPath: 'inset(0 0 100% 0)' }, to: { clipPath: 'inset(0 0 0 0)' } },
+    pulse: { '0%, 100%': { opacity: '1' }, '50%': { opacity: '0.6' } },
+    'pop-in': {
+        '0%': { opacity: '0', transform: 'scale(0.8)' },
+        '60%': { opacity: '1', transform: 'scale(1.05)' },
+        '100%': { transform: 'scale(1)' }
+    },
+    wobble: {
+        '0%, 100%': { transform: 'rotate(0deg)' },
+        '25%': { transform: 'rotate(-3deg)' },
+        '75%': { transform: 'rotate(3deg)' }
+    }
+};
+
+const MOTION_PRESETS: Record<MotionStyle, MotionPreset> = {
+    // Short fades only: nothing moves
+    subtle: {
+        duration: { fast: '100ms', normal: '150ms', slow: '250ms' },
+        easing: { standard: [0.4, 0, 0.2, 1], enter: [0, 0, 0.2, 1], exit: [0.4, 0, 1, 1], emphasized: [0.4, 0, 0.2, 1] },
+        transform: { hover: 'none', active: 'none' },
+        animation: { enter: ['fade-in', 'normal', 'enter'], exit: ['fade-out', 'fast', 'exit'], attention: null }
+    },
+    smooth: {
+        duration: { fast: '120ms', normal: '200ms', slow: '300ms' },
+        easing: { standard: [0.4, 0, 0.2, 1], enter: [0, 0, 0.2, 1], exit: [0.4, 0, 1, 1], emphasized: [0.2, 0, 0, 1] },
+        transform: { hover: 'translateY(-1px)', active: 'translateY(0)' },
+        animation: { enter: ['slide-up', 'normal', 'enter'], exit: ['fade-out', 'fast', 'exit'], attention: ['pulse', 'slow', 'standard'] }
+    },
+    // Longer, decelerating moves that draw the eye to type and content
+    expressive: {
+        duration: { fast: '150ms', normal: '250ms', slow: '400ms' },
+        easing: { standard: [0.2, 0, 0, 1], enter: [0.05, 0.7, 0.1, 1], exit: [0.3, 0, 0.8, 0.15], emphasized: [0.2, 0, 0, 1] },
+        transform: { hover: 'translateY(-2px)', active: 'scale(0.98)' },
+        animation: { enter: ['rise', 'slow', 'enter'], exit: ['fade-out', 'fast', 'exit'], attention: ['reveal', 'slow', 'emphasized'] }
+    },
+    // Springy easings that overshoot their target
+    playful: {
+        duration: { fast: '150ms', normal: '300ms', slow: '500ms' },
+        easing: { standard: [0.4, 0, 0.2, 1], enter: [0.34, 1.56, 0.64, 1], exit: [0.36, 0, 0.66, -0.56], emphasized: [0.34, 1.56, 0.64, 1] },
+        transform: { hover: 'translateY(-2px) scale(1.03)', active: 'scale(0.95)' },
+        animation: { enter: ['pop-in', 'slow', 'emphasized'], exit: ['fade-out', 'fast', 'exit'], attention: ['wobble', 'slow', 'emphasized'] }
+    }
+};
+
+const TRANSITIONS: ThemeMotion['transition'] = {
+    fast: { duration: 'fast', easing: 'standard' },
+    normal: { duration: 'normal', easing: 'standard' },
+    emphasized: { duration: 'normal', easing: 'emphasized' }
+};
+
+/**
+ * Render a motion token as a CSS value, e.g. `cubic-bezier(0.4, 0, 0.2, 1)` for an easing
+ * @param motion The theme's motion
+ * @param group The group of the token
+ * @param step The step of the group
+ * @returns The CSS value
+ */
+export function toMotionValue(motion: ThemeMotion, group: MotionGroup, step: string): string {
+    switch (group) {
+        case 'easing':
+            return `cubic-bezier(${motion.easing[step as EasingStep].join(', ')})`;
+        case 'transition': {
+            const { duration, easing } = motion.transition[step as TransitionStep];
+            return `${motion.duration[duration]} ${toMotionValue(motion, 'easing', easing)}`;
+        }
+        default:
+            return (motion[group] as Record<string, string>)[step];
+    }
+}
+
+/**
+ * Reference a motion token as a CSS custom property, falling back to its value where the
+ * theme's variables are not declared, e.g. `var(--motion-transform-hover, translateY(-1px))`
+ * @param motion The theme's motion
+ * @param group The group of the token
+ * @param step The step of the group
+ * @returns The CSS value
+ */
+export function motionReference(motion: ThemeMotion, group: MotionGroup, step: string): string {
+    return `var(--motion-${group}-${step}, ${toMotionValue(motion, group, step)})`;
+}
+
+export class MotionEngine {
+    /**
+     * Generate the motion of a design trend from the way its animations are described
+     * @param trend The design trend
+     * @returns The theme motion
+     */
+    public generateMotion(trend: DesignTrendDefinition): ThemeMotion {
+        return this.buildMotion(this.getMotionStyle(trend));
+    }
+
+    /**
+     * The motion of a neutral trend, for themes stored before they carried motion of their own
+     * @returns The theme motion
+     */
+    public getDefaultMotion(): ThemeMotion {
+        return this.buildMotion('smooth');
+    }
+
+    /**
+     * Classify a trend's animations; playful and expressive descriptors win over restrained ones
+     * @param trend The design trend
+     * @returns The motion style
+     */
+    public getMotionStyle(trend: DesignTrendDefinition): MotionStyle {
+        const animations = trend.features.animations.join(' ').toLowerCase();
+
+        if (/playful|organic|bounc|spring|whimsical/.test(animations)) return 'playful';
+        if (/kinetic|emphasis|scroll-triggered|dramatic/.test(animations)) return 'expressive';
+        if (/minimal motion|subtle/.test(animations)) return 'subtle';
+        return 'smooth';
+    }
+
+    private buildMotion(style: MotionStyle): ThemeMotion {
+        const preset = MOTION_PRESETS[style];
+        const keyframes: ThemeMotion['keyframes'] = {};
+
+        const animation = Object.fromEntries(ANIMATION_STEPS.map(step => {
+            const entry = preset.animation[step];
+            if (!entry) return [step, 'none'];
+
+            const [name, duration, easing] = entry;
+            keyframes[name] = KEYFRAMES[name];
+            return [step, `${name} ${preset.duration[duration]} cubic-bezier(${preset.easing[easing].join(', ')}) both`];
+        })) as ThemeMotion['animation'];
+
+        return {
+            style,
+            duration: { ...preset.duration },
+            easing: { ...preset.easing },
+            transition: { ...TRANSITIONS },
+            transform: { ...preset.transform },
+            keyframes,
+            animation,
+            // Durations drop to zero so state changes still apply, just without moving
+            reducedMotion: {
+                duration: { fast: '0ms', normal: '0ms', slow: '0ms' },
+                transform: { hover: 'none', active: 'none' },
+                animation: { enter: 'none', exit: 'none', attention: 'none' }
+            }
+        };
+    }
+}
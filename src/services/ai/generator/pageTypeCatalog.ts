@@ -0,0 +1,183 @@
+import type { GeneratedTheme } from './themeGenerator';
+import { ThemeScales, scaleReference } from './scaleEngine';
+
+/**
+ * What a page category's layout rules are given to work with
+ */
+export interface PageLayoutContext {
+    themeType: string;
+    colorPalette: GeneratedTheme['colorPalette'];
+    typography: GeneratedTheme['typography'];
+    // Sizes are referenced from the theme's scales instead of written as literal values
+    scales: ThemeScales;
+}
+
+/**
+ * A category of pages themes can carry layouts for. Every page shares the base layout;
+ * `layout` adds the properties specific to each page type of the category.
+ */
+export interface PageCategoryDefinition {
+    id: string;
+    label: string;
+    types: string[];
+    layout: (type: string, context: PageLayoutContext) => { [property: string]: any };
+    // Included when a generate request does not choose its page categories
+    includeByDefault?: boolean;
+}
+
+// Built-in page categories; the last four are opt-in so default themes stay the size they were
+export const DEFAULT_PAGE_CATEGORIES: PageCategoryDefinition[] = [
+    {
+        id: 'product',
+        label: 'Product',
+        includeByDefault: true,
+        types: [
+            'details', 'description', 'reviews', 'shipping',
+            'specifications', 'features', 'ingredients', 'brand'
+        ],
+        layout: (type, { colorPalette, scales }) => ({
+            layout: 'grid',
+            imageSize: 'large',
+            detailsLayout: type === 'details' ? 'sidebar' : 'below',
+            callToAction: {
+                backgroundColor: colorPalette.primary,
+                textColor: '#FFFFFF',
+                borderRadius: scaleReference(scales, 'radius', 'md'),
+                padding: `${scaleReference(scales, 'spacing', '3')} ${scaleReference(scales, 'spacing', '6')}`
+            }
+        })
+    },
+    {
+        id: 'navigation',
+        label: 'Navigation',
+        includeByDefault: true,
+        types: ['home', 'about', 'services', 'contact'],
+        layout: (type, { themeType }) => ({
+            layout: 'horizontal',
+            sticky: type === 'home',
+            transparent: type === 'home',
+            menuStyle: themeType === 'Modern Minimalism' ? 'text' : 'button',
+            activeIndicator: themeType === 'Modern Minimalism' ? 'underline' : 'background'
+        })
+    },
+    {
+        id: 'profile',
+        label: 'Profile',
+        includeByDefault: true,
+        types: ['personal', 'professional', 'education', 'skills'],
+        layout: type => ({
+            layout: type === 'personal' ? 'centered' : 'sidebar',
+            avatarSize: type === 'personal' ? 'large' : 'medium',
+            sections: type === 'professional' ? 'tabbed' : 'stacked',
+            contentWidth: type === 'education' ? 'narrow' : 'wide'
+        })
+    },
+    {
+        id: 'blog',
+        label: 'Blog',
+        includeByDefault: true,
+        types: ['post', 'comments', 'related'],
+        layout: (type, { scales }) => ({
+            layout: type === 'post' ? 'centered' : 'sidebar',
+            imagePosition: type === 'post' ? 'top' : 'side',
+            readingWidth: '680px',
+            typography: {
+                headingSize: scaleReference(scales, 'fontSize', '2xl'),
+                bodySize: scaleReference(scales, 'fontSize', 'lg'),
+                lineHeight: 1.8
+            }
+        })
+    },
+    {
+        id: 'settings',
+        label: 'Settings',
+        includeByDefault: true,
+        types: ['account', 'privacy', 'notifications'],
+        layout: (_type, { themeType }) => ({
+            layout: 'sidebar',
+            formStyle: themeType === 'Modern Minimalism' ? 'clean' : 'grouped',
+            controlSize: 'medium',
+            labelPosition: 'top'
+        })
+    },
+    {
+        id: 'application',
+        label: 'Application',
+        includeByDefault: true,
+        types: ['projectFiles', 'userFiles', 'settings'],
+        layout: (_type, { scales }) => ({
+            layout: 'split',
+            sidebarWidth: '280px',
+            toolbarPosition: 'top',
+            contentPadding: scaleReference(scales, 'spacing', '6')
+        })
+    },
+    {
+        id: 'pricing',
+        label: 'Pricing',
+        types: ['tiers', 'comparison', 'faq'],
+        layout: (type, { themeType, colorPalette, typography }) => ({
+            layout: type === 'tiers' ? 'columns' : type === 'comparison' ? 'table' : 'accordion',
+            columns: type === 'tiers' ? 3 : undefined,
+            highlightedPlan: type === 'tiers' ? {
+                borderColor: colorPalette.accent,
+                badgeBackground: colorPalette.accent,
+                scale: themeType === 'Modern Minimalism' ? 1 : 1.05
+            } : undefined,
+            priceFont: type === 'faq' ? undefined : typography.headingFont,
+            stickyHeader: type === 'comparison'
+        })
+    },
+    {
+        id: 'checkout',
+        label: 'Checkout',
+        types: ['cart', 'shipping', 'payment', 'confirmation'],
+        layout: (type, { colorPalette, scales }) => ({
+            layout: type === 'confirmation' ? 'centered' : 'split',
+            summaryPosition: type === 'confirmation' ? 'below' : 'sidebar',
+            progressIndicator: type !== 'confirmation',
+            // Checkout keeps the form narrow and distraction-free
+            contentWidth: '640px',
+            formStyle: 'stacked',
+            callToAction: {
+                backgroundColor: colorPalette.primary,
+                textColor: '#FFFFFF',
+                width: '100%',
+                padding: `${scaleReference(scales, 'spacing', '3')} ${scaleReference(scales, 'spacing', '6')}`
+            }
+        })
+    },
+    {
+        id: 'dashboard',
+        label: 'Dashboard',
+        types: ['overview', 'analytics', 'reports'],
+        layout: (type, { themeType, colorPalette, scales }) => ({
+            layout: 'grid',
+            columns: type === 'reports' ? 1 : 12,
+            gap: scaleReference(scales, 'spacing', themeType === 'Modern Minimalism' ? '4' : '6'),
+            sidebarWidth: '240px',
+            cardDensity: type === 'analytics' ? 'compact' : 'comfortable',
+            // Keyed by role: style trees hold nested objects of values, not arrays
+            chartColors: { primary: colorPalette.primary, secondary: colorPalette.secondary, accent: colorPalette.accent }
+        })
+    },
+    {
+        id: 'docs',
+        label: 'Documentation',
+        types: ['article', 'reference', 'gettingStarted'],
+        layout: (type, { typography, scales }) => ({
+            layout: 'three-column',
+            navigationWidth: '260px',
+            tableOfContents: type !== 'reference',
+            readingWidth: type === 'reference' ? '960px' : '720px',
+            codeFont: typography.codeFont,
+            typography: {
+                headingSize: scaleReference(scales, 'fontSize', '2xl'),
+                bodySize: scaleReference(scales, 'fontSize', 'base'),
+                lineHeight: 1.7
+            }
+        })
+    }
+];
+
+export const PAGE_CATEGORY_IDS = DEFAULT_PAGE_CATEGORIES.map(category => category.id);
@@ -1,59 +1,75 @@
 import { GeneratedTheme } from './themeGenerator';
+import { DEFAULT_PAGE_CATEGORIES, PageCategoryDefinition } from './pageTypeCatalog';
+import { ScaleEngine, ThemeScales, scaleReference } from './scaleEngine';
 
 export class PageTypeGenerator {
-    private pageTypes = {
-        product: [
-            'details', 'description', 'reviews', 'shipping', 
-            'specifications', 'features', 'ingredients', 'brand'
-        ],
-        navigation: [
-            'home', 'about', 'services', 'contact'
-        ],
-        profile: [
-            'personal', 'professional', 'education', 'skills'
-        ],
-        blog: [
-            'post', 'comments', 'related'
-        ],
-        settings: [
-            'account', 'privacy', 'notifications'
-        ],
-        application: [
-            'projectFiles', 'userFiles', 'settings'
-        ]
-    };
-    
+    private categories: Map<string, PageCategoryDefinition>;
+
+    /**
+     * @param catalog The page categories layouts can be generated for
+     */
+    constructor(catalog: PageCategoryDefinition[] = DEFAULT_PAGE_CATEGORIES) {
+        this.categories = new Map(catalog.map(category => [category.id, category]));
+    }
+
+    /**
+     * Add a page category to the catalog, replacing any category with the same id
+     * @param category The page category definition
+     */
+    public registerPageCategory(category: PageCategoryDefinition): void {
+        this.categories.set(category.id, category);
+    }
+
+    /**
+     * Generate layouts for every page type of a set of page categories
+     * @param themeType The type of theme
+     * @param colorPalette The theme's palette
+     * @param typography The theme's fonts
+     * @param categories The page category ids to include; the catalog's default categories when omitted
+     * @param scales The theme's scales layouts are sized from; a neutral trend's scales when omitted
+     * @returns Layouts keyed by category, then page type
+     * @throws Error when a category is not in the catalog
+     */
     public async generateLayouts(
-        themeType: string, 
+        themeType: string,
         colorPalette: GeneratedTheme['colorPalette'],
-        typography: GeneratedTheme['typography']
+        typography: GeneratedTheme['typography'],
+        categories: string[] = this.getDefaultPageCategories(),
+        scales: ThemeScales = new ScaleEngine().getDefaultScales()
     ): Promise<{ [pageType: string]: any }> {
         const layouts: { [pageType: string]: any } = {};
-        
-        // Generate layouts for each page type category
-        for (const [category, types] of Object.entries(this.pageTypes)) {
-            layouts[category] = {};
-            
-            for (const type of types) {
-                layouts[category][type] = await this.generatePageLayout(
-                    category, 
-                    type, 
-                    themeType, 
-                    colorPalette, 
-                    typography
+
+        // Generate layouts for each requested page type category
+        for (const id of categories) {
+            const category = this.categories.get(id);
+            if (!category) {
+                throw new Error(`Unsupported page category: ${id}`);
+            }
+
+            layouts[id] = {};
+
+            for (const type of category.types) {
+                layouts[id][type] = await this.generatePageLayout(
+                    category,
+                    type,
+                    themeType,
+                    colorPalette,
+                    typography,
+                    scales
                 );
             }
         }
-        
+
         return layouts;
     }
-    
+
     private async generatePageLayout(
-        category: string,
+        category: PageCategoryDefinition,
         type: string,
         themeType: string,
         colorPalette: GeneratedTheme['colorPalette'],
-        typography: GeneratedTheme['typography']
+        typography: GeneratedTheme['typography'],
+        scales: ThemeScales
     ): Promise<any> {
         // Base layout properties
         const baseLayout = {
@@ -62,86 +78,33 @@ export class PageTypeGenerator {
             headingFont: typography.headingFont,
             bodyFont: typography.bodyFont,
             spacing: themeType === 'Modern Minimalism' ? 'compact' : 'comfortable',
-            borderRadius: themeType === 'Modern Minimalism' ? '2px' : '8px',
-            boxShadow: themeType === 'Modern Minimalism' ? 'none' : '0 4px 6px rgba(0, 0, 0, 0.1)'
+            borderRadius: scaleReference(scales, 'radius', 'lg'),
+            boxShadow: themeType === 'Modern Minimalism' ? 'none' : scaleReference(scales, 'shadow', 'md')
+        };
+
+        // Category-specific layout properties; unset optional properties are left out
+        const categoryLayout = Object.fromEntries(
+            Object.entries(category.layout(type, { themeType, colorPalette, typography, scales }))
+                .filter(([, value]) => value !== undefined)
+        );
+
+        return {
+            ...baseLayout,
+            ...categoryLayout
         };
-        
-        // Category-specific layout properties
-        switch (category) {
-            case 'product':
-                return {
-                    ...baseLayout,
-                    layout: 'grid',
-                    imageSize: 'large',
-                    detailsLayout: type === 'details' ? 'sidebar' : 'below',
-                    callToAction: {
-                        backgroundColor: colorPalette.primary,
-                        textColor: '#FFFFFF',
-                        borderRadius: themeType === 'Modern Minimalism' ? '2px' : '4px',
-                        padding: '12px 24px'
-                    }
-                };
-                
-            case 'navigation':
-                return {
-                    ...baseLayout,
-                    layout: 'horizontal',
-                    sticky: type === 'home',
-                    transparent: type === 'home',
-                    menuStyle: themeType === 'Modern Minimalism' ? 'text' : 'button',
-                    activeIndicator: themeType === 'Modern Minimalism' ? 'underline' : 'background'
-                };
-                
-            case 'profile':
-                return {
-                    ...baseLayout,
-                    layout: type === 'personal' ? 'centered' : 'sidebar',
-                    avatarSize: type === 'personal' ? 'large' : 'medium',
-                    sections: type === 'professional' ? 'tabbed' : 'stacked',
-                    contentWidth: type === 'education' ? 'narrow' : 'wide'
-                };
-                
-            case 'blog':
-                return {
-                    ...baseLayout,
-                    layout: type === 'post' ? 'centered' : 'sidebar',
-                    imagePosition: type === 'post' ? 'top' : 'side',
-                    readingWidth: '680px',
-                    typography: {
-                        headingSize: '2rem',
-                        bodySize: '1.125rem',
-                        lineHeight: 1.8
-                    }
-                };
-                
-            case 'settings':
-                return {
-                    ...baseLayout,
-                    layout: 'sidebar',
-                    formStyle: themeType === 'Modern Minimalism' ? 'clean' : 'grouped',
-                    controlSize: 'medium',
-                    labelPosition: 'top'
-                };
-                
-            case 'application':
-                return {
-                    ...baseLayout,
-                    layout: 'split',
-                    sidebarWidth: '280px',
-                    toolbarPosition: 'top',
-                    contentPadding: '24px'
-                };
-                
-            default:
-                return baseLayout;
-        }
     }
-    
+
     public getPageTypeCategories(): string[] {
-        return Object.keys(this.pageTypes);
+        return Array.from(this.categories.keys());
     }
-    
+
+    public getDefaultPageCategories(): string[] {
+        return Array.from(this.categories.values())
+            .filter(category => category.includeByDefault)
+            .map(category => category.id);
+    }
+
     public getPageTypes(category: string): string[] {
-        return this.pageTypes[category as keyof typeof this.pageTypes] || [];
+        return this.categories.get(category)?.types || [];
     }
 }
@@ -0,0 +1,362 @@
+import { OKLCH, isDarkColor, oklchToHex, replaceColor, toOklch } from '@/lib/color';
+
+export type PaletteRole = 'primary' | 'secondary' | 'accent' | 'background' | 'text';
+
+export const PALETTE_ROLES: PaletteRole[] = ['primary', 'secondary', 'accent', 'background', 'text'];
+
+export type BaseColorPalette = Record<PaletteRole, string>;
+
+export const SCALE_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+
+export type ScaleStep = typeof SCALE_STEPS[number];
+
+export type TonalScale = Record<ScaleStep, string>;
+
+export type PaletteScales = Record<PaletteRole, TonalScale>;
+
+export const HARMONIES = ['complementary', 'analogous', 'triadic', 'split-complementary'] as const;
+
+export type Harmony = typeof HARMONIES[number];
+
+export type ColorScheme = 'light' | 'dark';
+
+export const INTERACTION_STATES = ['hover', 'active'] as const;
+
+export type InteractionState = typeof INTERACTION_STATES[number];
+
+/**
+ * Shades of a color for components that are hovered or pressed
+ */
+export type StateShades = Record<InteractionState, string>;
+
+export const STATUS_ROLES = ['info', 'success', 'warning', 'error'] as const;
+
+export type StatusRole = typeof STATUS_ROLES[number];
+
+/**
+ * The color of a status and the tinted surface messages with that status are shown on
+ */
+export interface StatusColors {
+    color: string;
+    background: string;
+}
+
+/**
+ * A palette as stored on a theme: the roles of its default scheme, their tonal scales
+ * and the roles of the other scheme
+ */
+export type SchemedPalette = BaseColorPalette & {
+    scale?: PaletteScales;
+    light?: BaseColorPalette;
+    dark?: BaseColorPalette;
+};
+
+/**
+ * The parts of a theme that change with the color scheme
+ */
+export interface SchemedTheme {
+    colorPalette: SchemedPalette;
+    components?: Record<string, any>;
+    pageLayouts?: Record<string, any>;
+    styles?: Record<string, any>;
+}
+
+// Hue offsets of the secondary and accent colors from the seed
+const HARMONY_OFFSETS: Record<Harmony, [number, number]> = {
+    complementary: [0, 180],
+    analogous: [-30, 30],
+    triadic: [120, 240],
+    'split-complementary': [150, 210]
+};
+
+// OKLCH lightness of each scale step, evenly spaced in perceived lightness
+const SCALE_LIGHTNESS: Record<ScaleStep, number> = {
+    50: 0.975, 100: 0.94, 200: 0.885, 300: 0.81, 400: 0.72, 500: 0.63,
+    600: 0.55, 700: 0.47, 800: 0.39, 900: 0.31, 950: 0.24
+};
+
+// OKLCH lightness shift of each interaction state; pressed components move twice as far as hovered ones
+const STATE_LIGHTNESS_SHIFT: Record<InteractionState, number> = {
+    hover: 0.06,
+    active: 0.12
+};
+
+// OKLCH hues of the status colors; info follows the primary color instead
+const STATUS_HUES: Record<Exclude<StatusRole, 'info'>, number> = {
+    success: 150,
+    warning: 75,
+    error: 27
+};
+
+// Share of the seed chroma kept at each step; very light and very dark tints look muddy when saturated
+const SCALE_CHROMA: Record<ScaleStep, number> = {
+    50: 0.2, 100: 0.35, 200: 0.55, 300: 0.75, 400: 0.92, 500: 1,
+    600: 1, 700: 0.92, 800: 0.82, 900: 0.7, 950: 0.6
+};
+
+export class PaletteEngine {
+    /**
+     * Derive a full palette from a single seed color using a color harmony
+     * @param seedColor The brand color, used as the primary color
+     * @param harmony How the secondary and accent hues relate to the seed
+     * @returns The palette roles
+     */
+    public generateHarmony(seedColor: string, harmony: Harmony = 'complementary'): BaseColorPalette {
+        const seed = this.parse(seedColor);
+        const [secondaryOffset, accentOffset] = HARMONY_OFFSETS[harmony];
+
+        // A complementary secondary would clash with the accent, so use a lighter or darker shade of the seed
+        const secondary: OKLCH = harmony === 'complementary'
+            ? { l: seed.l > 0.5 ? seed.l - 0.15 : seed.l + 0.15, c: seed.c * 0.7, h: seed.h }
+            : { ...seed, h: this.rotate(seed.h, secondaryOffset) };
+
+        return {
+            primary: oklchToHex(seed),
+            secondary: oklchToHex(secondary),
+            accent: oklchToHex({ ...seed, h: this.rotate(seed.h, accentOffset) }),
+            // Near-white and near-black, tinted towards the seed hue
+            background: oklchToHex({ l: 0.985, c: Math.min(seed.c * 0.08, 0.01), h: seed.h }),
+            text: oklchToHex({ l: 0.22, c: Math.min(seed.c * 0.25, 0.03), h: seed.h })
+        };
+    }
+
+    /**
+     * Generate a 50-950 tonal scale that keeps a color's hue
+     * @param color The color to build the scale from
+     * @returns Hex colors keyed by step, lightest first
+     */
+    public generateScale(color: string): TonalScale {
+        const { c, h } = this.parse(color);
+        const scale = {} as TonalScale;
+
+        for (const step of SCALE_STEPS) {
+            scale[step] = oklchToHex({ l: SCALE_LIGHTNESS[step], c: c * SCALE_CHROMA[step], h });
+        }
+
+        return scale;
+    }
+
+    /**
+     * Generate a tonal scale for every palette role
+     */
+    public generateScales(palette: BaseColorPalette): PaletteScales {
+        const scales = {} as PaletteScales;
+        for (const role of PALETTE_ROLES) {
+            scales[role] = this.generateScale(palette[role]);
+        }
+        return scales;
+    }
+
+    /**
+     * Derive the hover and active shades of a color. Colors darken as they are pressed, like a
+     * button pushed into its surface; colors too dark to darken visibly lighten instead.
+     * @param color The resting color
+     * @returns Hex colors keyed by state
+     */
+    public deriveStateShades(color: string): StateShades {
+        const oklch = this.parse(color);
+        const direction = oklch.l > 0.3 ? -1 : 1;
+        const shades = {} as StateShades;
+
+        for (const state of INTERACTION_STATES) {
+            const l = Math.min(Math.max(oklch.l + direction * STATE_LIGHTNESS_SHIFT[state], 0), 1);
+            shades[state] = oklchToHex({ ...oklch, l });
+        }
+
+        return shades;
+    }
+
+    /**
+     * Derive info, success, warning and error colors that sit with the palette: status colors share the
+     * primary color's lightness and chroma, and their surfaces are faint tints of the background
+     * @param palette The palette roles
+     * @returns The color and surface of each status
+     */
+    public deriveStatusColors(palette: BaseColorPalette): Record<StatusRole, StatusColors> {
+        const primary = this.parse(palette.primary);
+        const background = this.parse(palette.background);
+        const dark = isDarkColor(palette.background);
+
+        // Keep status colors readable as text on their own surface
+        const l = dark ? Math.max(primary.l, 0.72) : Math.min(primary.l, 0.5);
+        const c = Math.min(Math.max(primary.c, 0.1), 0.18);
+        const status = (h: number): StatusColors => ({
+            color: oklchToHex({ l, c, h }),
+            background: oklchToHex({ l: dark ? Math.max(background.l, 0.26) : Math.min(background.l, 0.96), c: 0.03, h })
+        });
+
+        return {
+            info: status(primary.h),
+            success: status(STATUS_HUES.success),
+            warning: status(STATUS_HUES.warning),
+            error: status(STATUS_HUES.error)
+        };
+    }
+
+    /**
+     * Derive the dark-mode counterpart of a light palette.
+     * Surfaces become dark, text light, and brand colors are shifted so they still read on the new background:
+     * primary stays dark enough for white button labels, secondary and accent lighten to work as text.
+     * @param palette A light palette
+     * @returns The dark palette, or a copy of the palette if it is already dark
+     */
+    public deriveDarkVariant(palette: BaseColorPalette): BaseColorPalette {
+        if (isDarkColor(palette.background)) {
+            return this.pickRoles(palette);
+        }
+
+        const primary = this.parse(palette.primary);
+        const secondary = this.parse(palette.secondary);
+        const accent = this.parse(palette.accent);
+        const background = this.parse(palette.background);
+        const text = this.parse(palette.text);
+        const surfaceHue = background.c > 0.005 ? background.h : primary.h;
+
+        return {
+            primary: oklchToHex({ ...primary, l: Math.min(Math.max(primary.l, 0.45), 0.58) }),
+            secondary: oklchToHex({ ...secondary, l: Math.max(secondary.l, 0.72), c: secondary.c * 0.9 }),
+            accent: oklchToHex({ ...accent, l: Math.max(accent.l, 0.75), c: accent.c * 0.9 }),
+            background: oklchToHex({ l: 0.2, c: Math.min(background.c, 0.02), h: surfaceHue }),
+            text: oklchToHex({ l: 0.93, c: Math.min(text.c, 0.02), h: text.h })
+        };
+    }
+
+    /**
+     * Derive the light-mode counterpart of a dark palette, mirroring deriveDarkVariant:
+     * surfaces become light, text dark, and secondary and accent darken so they still work as text.
+     * @param palette A dark palette
+     * @returns The light palette, or a copy of the palette if it is already light
+     */
+    public deriveLightVariant(palette: BaseColorPalette): BaseColorPalette {
+        if (!isDarkColor(palette.background)) {
+            return this.pickRoles(palette);
+        }
+
+        const primary = this.parse(palette.primary);
+        const secondary = this.parse(palette.secondary);
+        const accent = this.parse(palette.accent);
+        const background = this.parse(palette.background);
+        const text = this.parse(palette.text);
+        const surfaceHue = background.c > 0.005 ? background.h : primary.h;
+
+        return {
+            primary: oklchToHex({ ...primary, l: Math.min(Math.max(primary.l, 0.42), 0.55) }),
+            secondary: oklchToHex({ ...secondary, l: Math.min(secondary.l, 0.5) }),
+            accent: oklchToHex({ ...accent, l: Math.min(accent.l, 0.5) }),
+            background: oklchToHex({ l: 0.985, c: Math.min(background.c, 0.01), h: surfaceHue }),
+            text: oklchToHex({ l: 0.22, c: Math.min(text.c, 0.03), h: text.h })
+        };
+    }
+
+    /**
+     * Add tonal scales and the counterpart of the other color scheme to a palette.
+     * Light palettes get a dark variant, dark palettes a light one.
+     * @param palette The palette roles
+     * @returns The palette with its scale and light or dark fields filled in
+     */
+    public enrichPalette(palette: BaseColorPalette): SchemedPalette & { scale: PaletteScales } {
+        const base = this.pickRoles(palette);
+
+        return isDarkColor(base.background)
+            ? { ...base, scale: this.generateScales(base), light: this.deriveLightVariant(base) }
+            : { ...base, scale: this.generateScales(base), dark: this.deriveDarkVariant(base) };
+    }
+
+    /**
+     * Resolve the light and dark palettes of a theme, deriving the counterpart if it was never stored
+     * @param palette The theme's palette
+     * @returns Both palettes and the scheme the theme's own roles belong to
+     */
+    public getSchemes(palette: SchemedPalette): { defaultScheme: ColorScheme; light: BaseColorPalette; dark: BaseColorPalette } {
+        const base = this.pickRoles(palette);
+
+        return isDarkColor(base.background)
+            ? { defaultScheme: 'dark', light: palette.light || this.deriveLightVariant(base), dark: base }
+            : { defaultScheme: 'light', light: base, dark: palette.dark || this.deriveDarkVariant(base) };
+    }
+
+    /**
+     * Render a theme in one of its color schemes: the palette roles are swapped for that scheme
+     * and every palette color in components, page layouts and language styles follows
+     * @param theme The theme in its default scheme
+     * @param scheme The scheme to switch to
+     * @returns A copy of the theme in the requested scheme, or the theme itself if it already is
+     */
+    public applyScheme<T extends SchemedTheme>(theme: T, scheme: ColorScheme): T {
+        const schemes = this.getSchemes(theme.colorPalette);
+        if (schemes.defaultScheme === scheme) {
+            return theme;
+        }
+
+        const from = schemes[schemes.defaultScheme];
+        const to = schemes[scheme];
+
+        return {
+            ...theme,
+            colorPalette: { ...to, scale: theme.colorPalette.scale, [schemes.defaultScheme]: from },
+            components: this.applyPalette(theme.components, from, to),
+            pageLayouts: this.applyPalette(theme.pageLayouts, from, to),
+            styles: this.applyPalette(theme.styles, from, to)
+        };
+    }
+
+    /**
+     * Swap the colors of one palette for another throughout a style tree, e.g. to render
+     * components and page layouts with the dark variant. The hover and active shades of each role
+     * are swapped for the shades of its counterpart.
+     * @param node The components, page layouts or any nested style object
+     * @param from The palette the tree currently uses
+     * @param to The palette to switch to
+     * @returns A copy of the tree using the new palette
+     */
+    public applyPalette<T>(node: T, from: BaseColorPalette, to: BaseColorPalette): T {
+        // Roles come before their shades so a shade that equals a role color is swapped as the role
+        const pairs: [string, string][] = PALETTE_ROLES.map(role => [from[role], to[role]]);
+        for (const role of PALETTE_ROLES) {
+            const fromShades = this.deriveStateShades(from[role]);
+            const toShades = this.deriveStateShades(to[role]);
+            pairs.push(...INTERACTION_STATES.map((state): [string, string] => [fromShades[state], toShades[state]]));
+        }
+
+        // Swap through placeholders so a new color that equals another old color is not replaced twice
+        const swap = (value: string) => {
+            const marked = pairs.reduce(
+                (result, [color], index) => replaceColor(result, color, `\u0000${index}\u0000`),
+                value
+            );
+            return marked.replace(/\u0000(\d+)\u0000/g, (_, index) => pairs[Number(index)][1]);
+        };
+
+        const walk = (value: any): any => {
+            if (typeof value === 'string') return swap(value);
+            if (value && typeof value === 'object' && !Array.isArray(value)) {
+                return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, walk(child)]));
+            }
+            return value;
+        };
+
+        return walk(node);
+    }
+
+    private pickRoles(palette: BaseColorPalette): BaseColorPalette {
+        return {
+            primary: palette.primary,
+            secondary: palette.secondary,
+            accent: palette.accent,
+            background: palette.background,
+            text: palette.text
+        };
+    }
+
+    private parse(color: string): OKLCH {
+        const oklch = toOklch(color);
+        if (!oklch) {
+            throw new Error(`Invalid color: ${color}`);
+        }
+        return oklch;
+    }
+
+    private rotate(hue: number, degrees: number): number {
+        return (hue + degrees + 360) % 360;
+    }
+}
@@ -0,0 +1,154 @@
+import type { DesignTrendDefinition } from '../trends/defaultTrends';
+import { ShadowLevel, buildTrendProfile } from '../trends/trendScorer';
+
+export const SPACING_STEPS = ['0', '1', '2', '3', '4', '5', '6', '8', '10', '12', '16', '20', '24'] as const;
+
+export const FONT_SIZE_STEPS = ['xs', 'sm', 'base', 'lg', 'xl', '2xl', '3xl', '4xl'] as const;
+
+export const RADIUS_STEPS = ['none', 'sm', 'md', 'lg', 'xl', 'full'] as const;
+
+export const SHADOW_STEPS = ['none', 'sm', 'md', 'lg'] as const;
+
+export const BREAKPOINT_STEPS = ['sm', 'md', 'lg', 'xl'] as const;
+
+/**
+ * The spacing, type, radius, shadow and breakpoint scales a theme's components and layouts are sized from
+ */
+export interface ThemeScales {
+    // Ratio between consecutive steps of the type scale at the widest viewport
+    typeRatio: number;
+    spacing: Record<typeof SPACING_STEPS[number], string>;
+    fontSize: Record<typeof FONT_SIZE_STEPS[number], string>;
+    radius: Record<typeof RADIUS_STEPS[number], string>;
+    shadow: Record<typeof SHADOW_STEPS[number], string>;
+    breakpoints: Record<typeof BREAKPOINT_STEPS[number], string>;
+}
+
+export type ScaleName = Exclude<keyof ThemeScales, 'typeRatio'>;
+
+// Token path of each scale; its CSS custom properties join the path with dashes, e.g. --font-size-lg
+export const SCALE_TOKEN_PATHS: Record<ScaleName, string[]> = {
+    spacing: ['space'],
+    fontSize: ['font', 'size'],
+    radius: ['radius'],
+    shadow: ['shadow'],
+    breakpoints: ['breakpoint']
+};
+
+// Exponent of each type step relative to the base size
+const FONT_SIZE_EXPONENTS: Record<typeof FONT_SIZE_STEPS[number], number> = {
+    xs: -2, sm: -1, base: 0, lg: 1, xl: 2, '2xl': 3, '3xl': 4, '4xl': 5
+};
+
+// Type sizes grow fluidly between these viewport widths
+const MIN_VIEWPORT = 360;
+const MAX_VIEWPORT = 1280;
+// Share of the type ratio kept on the narrowest viewport, so large headings do not overflow small screens
+const MIN_RATIO_SHARE = 0.8;
+
+const RADIUS_SCALES = {
+    tight: { sm: '1px', md: '2px', lg: '3px', xl: '4px' },
+    moderate: { sm: '2px', md: '4px', lg: '8px', xl: '12px' },
+    round: { sm: '8px', md: '12px', lg: '16px', xl: '24px' }
+};
+
+const SHADOW_SCALES: Record<ShadowLevel, Record<'sm' | 'md' | 'lg', string>> = {
+    none: { sm: 'none', md: 'none', lg: 'none' },
+    subtle: {
+        sm: '0 1px 2px rgba(0, 0, 0, 0.05)',
+        md: '0 2px 4px rgba(0, 0, 0, 0.08)',
+        lg: '0 4px 8px rgba(0, 0, 0, 0.1)'
+    },
+    pronounced: {
+        sm: '0 1px 3px rgba(0, 0, 0, 0.1)',
+        md: '0 4px 12px rgba(0, 0, 0, 0.15)',
+        lg: '0 12px 32px rgba(0, 0, 0, 0.2)'
+    }
+};
+
+const BREAKPOINTS: ThemeScales['breakpoints'] = { sm: '640px', md: '768px', lg: '1024px', xl: '1280px' };
+
+/**
+ * Reference a scale step as a CSS custom property, falling back to the step's value where the
+ * theme's variables are not declared, e.g. `var(--space-4, 1rem)`
+ * @param scales The theme's scales
+ * @param scale The scale to reference
+ * @param step The step of the scale
+ * @returns The CSS value
+ */
+export function scaleReference<S extends ScaleName>(scales: ThemeScales, scale: S, step: keyof ThemeScales[S] & string): string {
+    const value = (scales[scale] as Record<string, string>)[step];
+    return `var(--${[...SCALE_TOKEN_PATHS[scale], step].join('-')}, ${value})`;
+}
+
+export class ScaleEngine {
+    /**
+     * Generate the scales of a design trend: its type ratio follows the trend's typography,
+     * its radii and shadows the shape and depth its components are described with
+     * @param trend The design trend
+     * @returns The theme scales
+     */
+    public generateScales(trend: DesignTrendDefinition): ThemeScales {
+        const profile = buildTrendProfile(trend);
+        const typography = trend.features.typography.join(' ').toLowerCase();
+
+        let typeRatio = 1.25;
+        if (/large headline|oversized|dramatic|expressive|typography as art/.test(typography)) typeRatio = 1.333;
+        else if (/minimal|clean|restrained/.test(typography)) typeRatio = 1.2;
+
+        // Pick the radius scale whose steps sit inside the trend's radius band
+        let radius: keyof typeof RADIUS_SCALES = 'moderate';
+        if (profile.radius.max <= 4) radius = 'tight';
+        else if (profile.radius.min >= 8) radius = 'round';
+
+        return this.buildScales(typeRatio, radius, profile.shadow);
+    }
+
+    /**
+     * The scales of a neutral trend, for themes stored before they carried scales of their own
+     * @returns The theme scales
+     */
+    public getDefaultScales(): ThemeScales {
+        return this.buildScales(1.25, 'moderate', 'subtle');
+    }
+
+    private buildScales(typeRatio: number, radius: keyof typeof RADIUS_SCALES, shadow: ShadowLevel): ThemeScales {
+        // A 4px grid in rem, so spacing follows the user's font size
+        const spacing = Object.fromEntries(SPACING_STEPS.map(step =>
+            [step, step === '0' ? '0' : `${this.round(Number(step) * 0.25)}rem`])) as ThemeScales['spacing'];
+
+        const fontSize = Object.fromEntries(FONT_SIZE_STEPS.map(step =>
+            [step, this.fluidSize(typeRatio, FONT_SIZE_EXPONENTS[step])])) as ThemeScales['fontSize'];
+
+        return {
+            typeRatio,
+            spacing,
+            fontSize,
+            radius: { none: '0', ...RADIUS_SCALES[radius], full: '9999px' },
+            shadow: { none: 'none', ...SHADOW_SCALES[shadow] },
+            breakpoints: { ...BREAKPOINTS }
+        };
+    }
+
+    /**
+     * Size of a type step as a clamp() that grows from the narrowest to the widest viewport.
+     * Steps at or below the base size stay fixed; they are already small enough for any screen.
+     */
+    private fluidSize(ratio: number, exponent: number): string {
+        const max = Math.pow(ratio, exponent);
+        if (exponent <= 0) {
+            return `${this.round(max)}rem`;
+        }
+
+        const min = Math.pow(1 + (ratio - 1) * MIN_RATIO_SHARE, exponent);
+        // Line through (MIN_VIEWPORT, min) and (MAX_VIEWPORT, max), with sizes in px
+        const slope = (max - min) * 16 / (MAX_VIEWPORT - MIN_VIEWPORT);
+        const intercept = min - slope * MIN_VIEWPORT / 16;
+
+        return `clamp(${this.round(min)}rem, ${this.round(intercept)}rem + ${this.round(slope * 100)}vw, ${this.round(max)}rem)`;
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 1000) / 1000;
+    }
+}
@@ -0,0 +1,114 @@
+import { GeneratedTheme, ThemeGenerator } from './themeGenerator';
+import { HARMONIES, Harmony } from './paletteEngine';
+
+/**
+ * The inputs one variant is generated from
+ */
+export interface VariantPlan {
+    trend: string;
+    temperature: number;
+    seedColor?: string;
+    harmony?: Harmony;
+}
+
+export interface ThemeVariant extends VariantPlan {
+    theme: GeneratedTheme;
+}
+
+export interface ExplorationOptions {
+    // Number of variants, 1-10
+    count: number;
+    // Trend of the first variant; the others rotate through the remaining trends
+    themeType?: string;
+    projectType?: string;
+    // Brand colors the variants' palettes are derived from, in rotation
+    seedColors?: string[];
+}
+
+export const MAX_VARIANTS = 10;
+
+// Temperature range the variants are spread across
+const MIN_TEMPERATURE = 0.6;
+const MAX_TEMPERATURE = 1.2;
+
+// Variants generated at once, to stay clear of provider rate limits
+const CONCURRENCY = 3;
+
+export class ThemeExplorer {
+    private themeGenerator: ThemeGenerator;
+
+    constructor(themeGenerator: ThemeGenerator = new ThemeGenerator()) {
+        this.themeGenerator = themeGenerator;
+    }
+
+    /**
+     * Generate several AI themes for one brief
+     * @param description The design brief
+     * @param options Number of variants and the inputs to vary
+     * @returns The variants that were generated, in plan order
+     * @throws The first variant's error when every variant fails
+     */
+    public async explore(description: string, options: ExplorationOptions): Promise<ThemeVariant[]> {
+        const plans = this.planVariants(options);
+        const results: Array<ThemeVariant | null> = new Array(plans.length).fill(null);
+        const errors: unknown[] = [];
+
+        for (let start = 0; start < plans.length; start += CONCURRENCY) {
+            await Promise.all(plans.slice(start, start + CONCURRENCY).map(async (plan, offset) => {
+                try {
+                    const theme = await this.themeGenerator.generateAITheme(
+                        plan.trend,
+                        options.projectType || 'web',
+                        { description, temperature: plan.temperature },
+                        { seedColor: plan.seedColor, harmony: plan.harmony }
+                    );
+                    results[start + offset] = { ...plan, theme };
+                } catch (error) {
+                    // One failed variant should not cost the user the rest of the batch
+                    console.error(`Error generating ${plan.trend} variant:`, error);
+                    errors.push(error);
+                }
+            }));
+        }
+
+        const variants = results.filter((variant): variant is ThemeVariant => variant !== null);
+        if (variants.length === 0) {
+            throw errors[0];
+        }
+
+        return variants;
+    }
+
+    /**
+     * Spread the variants across trends, temperatures and seed colors so no two share all their inputs
+     * @param options Number of variants and the inputs to vary
+     * @returns One plan per variant
+     */
+    public planVariants(options: ExplorationOptions): VariantPlan[] {
+        const count = Math.min(Math.max(Math.round(options.count), 1), MAX_VARIANTS);
+        const available = this.themeGenerator.getAvailableThemeTypes();
+        const trends = options.themeType
+            ? [options.themeType, ...available.filter(type => type !== options.themeType)]
+            : available;
+        const seedColors = options.seedColors || [];
+
+        return Array.from({ length: count }, (_, index) => {
+            const temperature = count === 1
+                ? 0.8
+                : MIN_TEMPERATURE + (MAX_TEMPERATURE - MIN_TEMPERATURE) * index / (count - 1);
+
+            const plan: VariantPlan = {
+                trend: trends[index % trends.length],
+                temperature: Math.round(temperature * 100) / 100,
+            };
+
+            if (seedColors.length > 0) {
+                // Each pass over the seed colors uses the next harmony
+                plan.seedColor = seedColors[index % seedColors.length];
+                plan.harmony = HARMONIES[Math.floor(index / seedColors.length) % HARMONIES.length];
+            }
+
+            return plan;
+        });
+    }
+}
@@ -1,7 +1,16 @@
-import { DesignTrendAnalyzer } from '../trends/designTrendAnalyzer';
+import { DesignTrendAnalyzer, DesignTrendDefinition } from '../trends/designTrendAnalyzer';
+import { DEFAULT_TRENDS } from '../trends/defaultTrends';
 import { LanguageStyleGenerator } from './languageStyleGenerator';
 import { PageTypeGenerator } from './pageTypeGenerator';
 import { OpenAIService } from '../openai/openaiService';
+import { BaseColorPalette, Harmony, PaletteEngine, PaletteScales, STATUS_ROLES } from './paletteEngine';
+import { ScaleEngine, ThemeScales, scaleReference } from './scaleEngine';
+import type { GenerationStage } from './generationStages';
+import { AnimationStep, MotionEngine, ThemeMotion, TransformStep, TransitionStep, motionReference } from './motionEngine';
+import type { BrandElements } from '../analyzer/brandAnalyzer';
+import { isValidColor, isValidFontStack, paletteRolesSchema, styleTreeSchema, typographySchema } from '@/lib/themeValidation';
+import { contrastRatio, toHex } from '@/lib/color';
+import { z } from 'zod';
 
 export interface GeneratedTheme {
     name: string;
@@ -12,12 +21,23 @@ export interface GeneratedTheme {
         accent: string;
         background: string;
         text: string;
+        // 50-950 tonal scale per role
+        scale?: PaletteScales;
+        // Counterpart palette of the other color scheme: light themes carry a dark one and vice versa
+        light?: BaseColorPalette;
+        dark?: BaseColorPalette;
     };
     typography: {
         headingFont: string;
         bodyFont: string;
         codeFont: string;
     };
+    // Spacing, type, radius, shadow and breakpoint scales the components and layouts reference;
+    // themes stored before scales existed have none
+    scales?: ThemeScales;
+    // Durations, easings and animations of the components' hover, active and focus states;
+    // themes stored before motion existed have none
+    motion?: ThemeMotion;
     components: {
         [key: string]: any;
     };
@@ -29,34 +49,131 @@ export interface GeneratedTheme {
     };
 }
 
+// Shape of the theme the model is asked to produce; the rest of the theme is generated locally
+const aiThemeSchema = z.object({
+    name: z.string().min(1).max(100).describe('The name of the theme'),
+    type: z.string().describe('The type/style of the theme'),
+    description: z.string().max(500).describe('A brief description of the theme'),
+    colorPalette: paletteRolesSchema.describe('Palette colors as hex values'),
+    typography: typographySchema.describe('CSS font stacks for headings, body text and code'),
+    components: styleTreeSchema.optional().describe('Component styles keyed by component group (buttons, cards, inputs, ...), with CSS properties in camelCase')
+});
+
+export { GENERATION_STAGES } from './generationStages';
+export type { GenerationStage } from './generationStages';
+
+/**
+ * Progress of one stage; completed stages carry the theme built so far
+ */
+export interface GenerationProgress {
+    stage: GenerationStage;
+    status: 'started' | 'completed';
+    theme?: Partial<GeneratedTheme>;
+}
+
+/**
+ * Observe and cancel a generation run
+ */
+export interface GenerationHooks {
+    onProgress?: (progress: GenerationProgress) => void;
+    // Aborting stops the run before its next stage and cancels a pending AI request
+    signal?: AbortSignal;
+}
+
+/**
+ * Raised when a generation run is aborted through its signal
+ */
+export class GenerationCancelledError extends Error {
+    constructor() {
+        super('Theme generation was cancelled');
+        this.name = 'GenerationCancelledError';
+    }
+}
+
+/**
+ * Derive the palette from a seed color instead of the theme type's defaults
+ */
+export interface PaletteOptions {
+    seedColor?: string;
+    harmony?: Harmony;
+}
+
+/**
+ * Choose which code languages and page categories the theme carries styles for;
+ * each generator's default set is used when omitted
+ */
+export interface CatalogOptions {
+    languages?: string[];
+    pageCategories?: string[];
+}
+
+export type GenerationOptions = PaletteOptions & CatalogOptions;
+
 export class ThemeGenerator {
     private trendAnalyzer: DesignTrendAnalyzer;
     private languageStyleGenerator: LanguageStyleGenerator;
     private pageTypeGenerator: PageTypeGenerator;
+    private paletteEngine: PaletteEngine;
+    private scaleEngine: ScaleEngine;
+    private motionEngine: MotionEngine;
     private openAIService: OpenAIService;
 
-    constructor() {
-        this.trendAnalyzer = new DesignTrendAnalyzer();
+    /**
+     * @param openAIService The service used for AI themes; pass one with a specific LLM provider to override the configured one
+     * @param trends The design trends theme types resolve against, usually loaded from the database
+     */
+    constructor(openAIService: OpenAIService = new OpenAIService(), trends: DesignTrendDefinition[] = DEFAULT_TRENDS) {
+        this.trendAnalyzer = new DesignTrendAnalyzer(trends);
         this.languageStyleGenerator = new LanguageStyleGenerator();
         this.pageTypeGenerator = new PageTypeGenerator();
-        this.openAIService = new OpenAIService();
+        this.paletteEngine = new PaletteEngine();
+        this.scaleEngine = new ScaleEngine();
+        this.motionEngine = new MotionEngine();
+        this.openAIService = openAIService;
     }
 
-    public async generateTheme(themeType: string, projectType: string = 'web'): Promise<GeneratedTheme> {
+    /**
+     * Generate a theme from the theme type's defaults and current design trends
+     * @param themeType The type of theme to generate
+     * @param projectType The type of project
+     * @param options Seed color and harmony the palette is derived from, and the languages and page categories to include
+     * @param hooks Progress callback and abort signal for the run
+     * @returns The generated theme
+     * @throws GenerationCancelledError when the run is aborted
+     */
+    public async generateTheme(
+        themeType: string,
+        projectType: string = 'web',
+        options: GenerationOptions = {},
+        hooks: GenerationHooks = {}
+    ): Promise<GeneratedTheme> {
+        const partial: Partial<GeneratedTheme> = { name: `Shades ${themeType}`, type: themeType };
+
         // Get current design trends
-        const trendFeatures = await this.trendAnalyzer.getDesignTrendFeatures(themeType);
+        await this.runStage('trends', partial, hooks, () => this.trendAnalyzer.getDesignTrendFeatures(themeType));
 
-        // Generate color palette based on theme type
-        const colorPalette = this.generateColorPalette(themeType);
+        // Generate color palette from the seed color, or based on theme type
+        const colorPalette = await this.runStage('palette', partial, hooks, () => this.paletteEngine.enrichPalette(
+            options.seedColor
+                ? this.paletteEngine.generateHarmony(options.seedColor, options.harmony)
+                : this.generateColorPalette(themeType)
+        ), result => ({ colorPalette: result }));
 
-        // Generate typography settings
-        const typography = this.generateTypography(themeType);
+        // Generate typography settings, scales and motion, and the component styles that depend on them
+        const { typography, scales, motion, components } = await this.runStage('typography', partial, hooks, () => {
+            const typography = this.generateTypography(themeType);
+            const scales = this.generateScales(themeType);
+            const motion = this.generateMotion(themeType);
+            return { typography, scales, motion, components: this.generateComponents(themeType, colorPalette, typography, scales, motion) };
+        }, result => result);
 
         // Generate language-specific styles
-        const languageStyles = await this.languageStyleGenerator.generateStyles(themeType, colorPalette);
+        const languageStyles = await this.runStage('language-styles', partial, hooks,
+            () => this.languageStyleGenerator.generateStyles(themeType, colorPalette, options.languages, scales), result => ({ styles: result }));
 
         // Generate page type layouts
-        const pageLayouts = await this.pageTypeGenerator.generateLayouts(themeType, colorPalette, typography);
+        const pageLayouts = await this.runStage('page-layouts', partial, hooks,
+            () => this.pageTypeGenerator.generateLayouts(themeType, colorPalette, typography, options.pageCategories, scales), result => ({ pageLayouts: result }));
 
         // Combine everything into a theme
         const theme: GeneratedTheme = {
@@ -64,7 +181,9 @@ export class ThemeGenerator {
             type: themeType,
             colorPalette,
             typography,
-            components: this.generateComponents(themeType, colorPalette, typography),
+            scales,
+            motion,
+            components,
             styles: languageStyles,
             pageLayouts
         };
@@ -72,169 +191,377 @@ export class ThemeGenerator {
         return theme;
     }
 
-    private generateColorPalette(themeType: string): GeneratedTheme['colorPalette'] {
-        // Default color palettes based on theme type
-        switch (themeType) {
-            case 'Modern Minimalism':
-                return {
-                    primary: '#2D3748',
-                    secondary: '#4A5568',
-                    accent: '#38B2AC',
-                    background: '#F7FAFC',
-                    text: '#1A202C'
-                };
-            case 'Dark Mode':
-                return {
-                    primary: '#1A202C',
-                    secondary: '#2D3748',
-                    accent: '#38B2AC',
-                    background: '#171923',
-                    text: '#E2E8F0'
-                };
-            case 'Bold Typography':
-                return {
-                    primary: '#2B6CB0',
-                    secondary: '#3182CE',
-                    accent: '#F6AD55',
-                    background: '#F7FAFC',
-                    text: '#1A202C'
-                };
-            case 'Abstract Design':
-                return {
-                    primary: '#553C9A',
-                    secondary: '#6B46C1',
-                    accent: '#F6AD55',
-                    background: '#FAF5FF',
-                    text: '#44337A'
-                };
-            default:
-                return {
-                    primary: '#3182CE',
-                    secondary: '#4299E1',
-                    accent: '#ED8936',
-                    background: '#F7FAFC',
-                    text: '#1A202C'
-                };
+    /**
+     * Run one stage of a generation, reporting its start and the theme it completes
+     * @param stage The stage being run
+     * @param partial The theme built so far; updated with the stage's patch
+     * @param hooks Progress callback and abort signal for the run
+     * @param task The work of the stage
+     * @param patch Maps the stage result to the theme fields it fills in
+     * @returns The stage result
+     */
+    private async runStage<T>(
+        stage: GenerationStage,
+        partial: Partial<GeneratedTheme>,
+        hooks: GenerationHooks,
+        task: () => T | Promise<T>,
+        patch?: (result: T) => Partial<GeneratedTheme>
+    ): Promise<T> {
+        this.throwIfCancelled(hooks.signal);
+        hooks.onProgress?.({ stage, status: 'started' });
+
+        let result: T;
+        try {
+            result = await task();
+        } catch (error) {
+            // An aborted AI request fails with its own error; report it as the cancellation it is
+            this.throwIfCancelled(hooks.signal);
+            throw error;
+        }
+        this.throwIfCancelled(hooks.signal);
+
+        if (patch) {
+            Object.assign(partial, patch(result));
         }
+        hooks.onProgress?.({ stage, status: 'completed', theme: { ...partial } });
+
+        return result;
     }
 
-    private generateTypography(themeType: string): GeneratedTheme['typography'] {
-        // Default typography settings based on theme type
-        switch (themeType) {
-            case 'Modern Minimalism':
-                return {
-                    headingFont: 'Inter, sans-serif',
-                    bodyFont: 'Inter, sans-serif',
-                    codeFont: 'JetBrains Mono, monospace'
-                };
-            case 'Dark Mode':
-                return {
-                    headingFont: 'Poppins, sans-serif',
-                    bodyFont: 'Poppins, sans-serif',
-                    codeFont: 'Fira Code, monospace'
-                };
-            case 'Bold Typography':
-                return {
-                    headingFont: 'Montserrat, sans-serif',
-                    bodyFont: 'Open Sans, sans-serif',
-                    codeFont: 'Source Code Pro, monospace'
-                };
-            case 'Abstract Design':
-                return {
-                    headingFont: 'Playfair Display, serif',
-                    bodyFont: 'Raleway, sans-serif',
-                    codeFont: 'IBM Plex Mono, monospace'
-                };
-            default:
-                return {
-                    headingFont: 'System-ui, sans-serif',
-                    bodyFont: 'System-ui, sans-serif',
-                    codeFont: 'Menlo, monospace'
-                };
+    private throwIfCancelled(signal?: AbortSignal): void {
+        if (signal?.aborted) {
+            throw new GenerationCancelledError();
         }
     }
 
+    private generateColorPalette(themeType: string): GeneratedTheme['colorPalette'] {
+        // Start from the palette of the theme type's trend record
+        return { ...this.trendAnalyzer.getTrend(themeType).palette };
+    }
+
+    private generateTypography(themeType: string): GeneratedTheme['typography'] {
+        // Start from the fonts of the theme type's trend record
+        return { ...this.trendAnalyzer.getTrend(themeType).typography };
+    }
+
+    private generateScales(themeType: string): ThemeScales {
+        // Size the theme from the shapes and type of the theme type's trend record
+        return this.scaleEngine.generateScales(this.trendAnalyzer.getTrend(themeType));
+    }
+
+    private generateMotion(themeType: string): ThemeMotion {
+        // Animate the theme the way the theme type's trend record describes its animations
+        return this.motionEngine.generateMotion(this.trendAnalyzer.getTrend(themeType));
+    }
+
     private generateComponents(
         themeType: string,
         colorPalette: GeneratedTheme['colorPalette'],
-        typography: GeneratedTheme['typography']
+        typography: GeneratedTheme['typography'],
+        scales: ThemeScales,
+        motion: ThemeMotion
     ): GeneratedTheme['components'] {
-        // Generate component styles based on theme type and color palette
+        const space = (step: keyof ThemeScales['spacing']) => scaleReference(scales, 'spacing', step);
+        const radius = (step: keyof ThemeScales['radius']) => scaleReference(scales, 'radius', step);
+        const fontSize = (step: keyof ThemeScales['fontSize']) => scaleReference(scales, 'fontSize', step);
+        const shadow = (step: keyof ThemeScales['shadow']) => scaleReference(scales, 'shadow', step);
+        const transition = (step: TransitionStep) => motionReference(motion, 'transition', step);
+        const transform = (step: TransformStep) => motionReference(motion, 'transform', step);
+        const animation = (step: AnimationStep) => motionReference(motion, 'animation', step);
+
+        // Hovered and pressed shades of the filled components and of the surface behind them
+        const primary = this.paletteEngine.deriveStateShades(colorPalette.primary);
+        const surface = this.paletteEngine.deriveStateShades(colorPalette.background);
+        const status = this.paletteEngine.deriveStatusColors(colorPalette);
+
+        // Keyboard focus is drawn the same way on every interactive component
+        const focus = {
+            outlineColor: this.getFocusRingColor(colorPalette),
+            outlineStyle: 'solid',
+            outlineWidth: '2px',
+            outlineOffset: '2px'
+        };
+
+        // Disabled components fade into the surface and stop responding to the pointer
+        const disabled = {
+            opacity: '0.5',
+            cursor: 'not-allowed',
+            transform: 'none'
+        };
+
+        const field = {
+            backgroundColor: colorPalette.background,
+            color: colorPalette.text,
+            placeholderColor: colorPalette.secondary,
+            border: `1px solid ${colorPalette.secondary}`,
+            borderRadius: radius('md'),
+            padding: `${space('2')} ${space('3')}`,
+            fontFamily: typography.bodyFont,
+            fontSize: fontSize('base'),
+            transition: transition('fast'),
+            hover: { borderColor: colorPalette.primary },
+            focus: { ...focus, outlineOffset: '0', borderColor: colorPalette.primary },
+            disabled: { ...disabled, backgroundColor: surface.hover }
+        };
+
+        // Generate component styles based on theme type and color palette, sized from the theme's scales
+        // and animated with the theme's motion
         return {
             buttons: {
                 primary: {
                     backgroundColor: colorPalette.primary,
                     color: '#FFFFFF',
-                    borderRadius: themeType === 'Modern Minimalism' ? '2px' : '4px',
-                    padding: '10px 20px',
+                    borderRadius: radius('md'),
+                    padding: `${space('2')} ${space('5')}`,
                     fontFamily: typography.bodyFont,
-                    fontWeight: 'bold'
+                    fontSize: fontSize('base'),
+                    fontWeight: 'bold',
+                    transition: transition('fast'),
+                    hover: {
+                        backgroundColor: primary.hover,
+                        transform: transform('hover')
+                    },
+                    active: {
+                        backgroundColor: primary.active,
+                        transform: transform('active')
+                    },
+                    focus,
+                    disabled
                 },
                 secondary: {
                     backgroundColor: 'transparent',
                     color: colorPalette.primary,
-                    borderRadius: themeType === 'Modern Minimalism' ? '2px' : '4px',
-                    padding: '10px 20px',
+                    borderRadius: radius('md'),
+                    padding: `${space('2')} ${space('5')}`,
                     border: `1px solid ${colorPalette.primary}`,
                     fontFamily: typography.bodyFont,
-                    fontWeight: 'normal'
+                    fontSize: fontSize('base'),
+                    fontWeight: 'normal',
+                    transition: transition('fast'),
+                    hover: {
+                        backgroundColor: colorPalette.primary,
+                        color: '#FFFFFF',
+                        transform: transform('hover')
+                    },
+                    active: {
+                        backgroundColor: primary.active,
+                        color: '#FFFFFF',
+                        transform: transform('active')
+                    },
+                    focus,
+                    disabled
                 }
             },
             cards: {
                 backgroundColor: colorPalette.background,
-                borderRadius: themeType === 'Abstract Design' ? '12px' : '6px',
-                padding: '20px',
-                boxShadow: themeType === 'Modern Minimalism'
-                    ? 'none'
-                    : '0 4px 6px rgba(0, 0, 0, 0.1)',
+                borderRadius: radius('lg'),
+                padding: space('5'),
+                boxShadow: shadow('md'),
                 border: themeType === 'Modern Minimalism'
                     ? `1px solid ${colorPalette.secondary}`
-                    : 'none'
+                    : 'none',
+                transition: transition('emphasized'),
+                animation: animation('enter'),
+                hover: {
+                    boxShadow: shadow('lg'),
+                    transform: transform('hover')
+                },
+                active: {
+                    boxShadow: shadow('sm'),
+                    transform: transform('active')
+                },
+                focus,
+                disabled: { ...disabled, boxShadow: shadow('none') }
             },
             navigation: {
                 backgroundColor: colorPalette.primary,
                 color: '#FFFFFF',
+                padding: `${space('3')} ${space('6')}`,
                 fontFamily: typography.headingFont,
-                fontWeight: 'medium'
+                fontSize: fontSize('lg'),
+                fontWeight: 'medium',
+                transition: transition('fast'),
+                hover: { backgroundColor: primary.hover },
+                active: { backgroundColor: primary.active },
+                focus,
+                disabled
             },
             tabs: {
                 backgroundColor: colorPalette.background,
                 activeColor: colorPalette.accent,
                 inactiveColor: colorPalette.secondary,
-                borderRadius: themeType === 'Modern Minimalism' ? '0px' : '4px 4px 0 0',
+                borderRadius: themeType === 'Modern Minimalism' ? radius('none') : `${radius('md')} ${radius('md')} 0 0`,
+                fontFamily: typography.bodyFont,
+                fontSize: fontSize('sm'),
+                fontWeight: 'medium',
+                transition: transition('fast'),
+                hover: { backgroundColor: surface.hover, color: colorPalette.accent },
+                active: { backgroundColor: surface.active, color: colorPalette.accent },
+                focus,
+                disabled
+            },
+            inputs: field,
+            selects: {
+                ...field,
+                appearance: 'none',
+                option: {
+                    hover: { backgroundColor: surface.hover, color: colorPalette.text },
+                    selected: { backgroundColor: colorPalette.primary, color: '#FFFFFF' }
+                }
+            },
+            checkboxes: {
+                size: space('4'),
+                backgroundColor: colorPalette.background,
+                border: `1px solid ${colorPalette.secondary}`,
+                borderRadius: radius('sm'),
+                transition: transition('fast'),
+                checked: {
+                    backgroundColor: colorPalette.primary,
+                    borderColor: colorPalette.primary,
+                    color: '#FFFFFF'
+                },
+                hover: { backgroundColor: surface.hover, borderColor: colorPalette.primary },
+                active: { backgroundColor: surface.active, borderColor: primary.active },
+                focus,
+                disabled: { ...disabled, backgroundColor: surface.hover }
+            },
+            alerts: Object.fromEntries(STATUS_ROLES.map(role => {
+                const { color, background } = status[role];
+                const dismiss = this.paletteEngine.deriveStateShades(background);
+
+                return [role, {
+                    backgroundColor: background,
+                    color: colorPalette.text,
+                    iconColor: color,
+                    borderLeft: `4px solid ${color}`,
+                    borderRadius: radius('md'),
+                    padding: `${space('3')} ${space('4')}`,
+                    fontFamily: typography.bodyFont,
+                    fontSize: fontSize('sm'),
+                    animation: animation('enter'),
+                    // The dismiss button drawn on the alert's own surface
+                    dismiss: {
+                        color: colorPalette.text,
+                        transition: transition('fast'),
+                        hover: { backgroundColor: dismiss.hover },
+                        active: { backgroundColor: dismiss.active },
+                        focus,
+                        disabled
+                    }
+                }];
+            })),
+            badges: {
+                backgroundColor: colorPalette.primary,
+                color: '#FFFFFF',
+                borderRadius: radius('full'),
+                padding: `${space('1')} ${space('2')}`,
                 fontFamily: typography.bodyFont,
-                fontWeight: 'medium'
+                fontSize: fontSize('xs'),
+                fontWeight: 'bold',
+                transition: transition('fast'),
+                hover: { backgroundColor: primary.hover },
+                active: { backgroundColor: primary.active },
+                focus,
+                disabled
+            },
+            modals: {
+                backgroundColor: colorPalette.background,
+                color: colorPalette.text,
+                backdropColor: 'rgba(0, 0, 0, 0.5)',
+                borderRadius: radius('lg'),
+                padding: space('6'),
+                maxWidth: '32rem',
+                boxShadow: shadow('lg'),
+                fontFamily: typography.bodyFont,
+                animation: animation('enter'),
+                exit: { animation: animation('exit') },
+                focus: { ...focus, outlineOffset: '0' },
+                close: {
+                    color: colorPalette.text,
+                    borderRadius: radius('sm'),
+                    transition: transition('fast'),
+                    hover: { backgroundColor: surface.hover },
+                    active: { backgroundColor: surface.active },
+                    focus,
+                    disabled
+                }
+            },
+            tables: {
+                backgroundColor: colorPalette.background,
+                color: colorPalette.text,
+                borderColor: colorPalette.secondary,
+                fontFamily: typography.bodyFont,
+                fontSize: fontSize('sm'),
+                header: {
+                    backgroundColor: surface.hover,
+                    color: colorPalette.text,
+                    fontWeight: 'bold'
+                },
+                cell: { padding: `${space('2')} ${space('4')}` },
+                row: {
+                    transition: transition('fast'),
+                    hover: { backgroundColor: surface.hover },
+                    active: { backgroundColor: surface.active },
+                    focus: { ...focus, outlineOffset: '-2px' },
+                    disabled
+                }
+            },
+            // Tooltips show while their trigger is hovered or focused and cannot be interacted with themselves,
+            // so they animate in and out but carry no states of their own
+            tooltips: {
+                backgroundColor: colorPalette.text,
+                color: colorPalette.background,
+                borderRadius: radius('sm'),
+                padding: `${space('1')} ${space('2')}`,
+                maxWidth: '20rem',
+                boxShadow: shadow('md'),
+                fontFamily: typography.bodyFont,
+                fontSize: fontSize('xs'),
+                animation: animation('enter'),
+                exit: { animation: animation('exit') }
             }
         };
     }
 
+    /**
+     * The first of the accent, primary and text colors that stands out 3:1 against the background,
+     * as WCAG 2.1 asks of focus indicators (success criterion 1.4.11)
+     */
+    private getFocusRingColor(colorPalette: BaseColorPalette): string {
+        const candidates = [colorPalette.accent, colorPalette.primary];
+        return candidates.find(color => (contrastRatio(color, colorPalette.background) || 0) >= 3) || colorPalette.text;
+    }
+
     public getAvailableThemeTypes(): string[] {
-        return [
-            'Modern Minimalism',
-            'Dark Mode',
-            'Bold Typography',
-            'Abstract Design',
-            'Custom'
-        ];
+        return this.trendAnalyzer.getTrendNames();
     }
 
     public getThemePreview(themeType: string): any {
         const colorPalette = this.generateColorPalette(themeType);
         const typography = this.generateTypography(themeType);
+        const scales = this.generateScales(themeType);
+        const motion = this.generateMotion(themeType);
 
         return {
             colorPalette,
             typography,
-            components: this.generateComponents(themeType, colorPalette, typography)
+            scales,
+            motion,
+            components: this.generateComponents(themeType, colorPalette, typography, scales, motion)
         };
     }
 
     /**
-     * Generate a theme using AI with advanced customization
+     * Generate a theme using AI with advanced customization.
+     * The palette and typography stages prepare the theme type's defaults, which the AI draft then refines.
      * @param themeType The type of theme to generate
      * @param projectType The type of project
      * @param customOptions Custom options for theme generation
+     * @param options Seed color and harmony the palette is derived from, and the languages and page categories to include
+     * @param hooks Progress callback and abort signal for the run
      * @returns The generated theme
+     * @throws StructuredOutputError when the model fails or its theme cannot be repaired
+     * @throws GenerationCancelledError when the run is aborted
      */
     public async generateAITheme(
         themeType: string,
@@ -244,11 +571,41 @@ export class ThemeGenerator {
             typography?: Partial<GeneratedTheme['typography']>;
             components?: Partial<Record<string, any>>;
             description?: string;
-        } = {}
+            // Sampling temperature of the AI draft; higher values give more adventurous themes
+            temperature?: number;
+        } = {},
+        options: GenerationOptions = {},
+        hooks: GenerationHooks = {}
     ): Promise<GeneratedTheme> {
         try {
+            const partial: Partial<GeneratedTheme> = { name: `Shades ${themeType}`, type: themeType };
+
             // Get current design trends
-            const trendFeatures = await this.trendAnalyzer.getDesignTrendFeatures(themeType);
+            const trendFeatures = await this.runStage('trends', partial, hooks,
+                () => this.trendAnalyzer.getDesignTrendFeatures(themeType));
+
+            // A seed color takes precedence over the colors the AI picks
+            const seededPalette = options.seedColor
+                ? this.paletteEngine.generateHarmony(options.seedColor, options.harmony)
+                : undefined;
+
+            const baseColorPalette = await this.runStage('palette', partial, hooks, () => this.paletteEngine.enrichPalette({
+                ...this.generateColorPalette(themeType),
+                ...seededPalette,
+                ...customOptions.colorPalette
+            }), result => ({ colorPalette: result }));
+
+            const scales = this.generateScales(themeType);
+            const motion = this.generateMotion(themeType);
+            const baseTypography = await this.runStage('typography', partial, hooks, () => ({
+                ...this.generateTypography(themeType),
+                ...customOptions.typography
+            }), result => ({
+                typography: result,
+                scales,
+                motion,
+                components: this.generateComponents(themeType, baseColorPalette, result, scales, motion)
+            }));
 
             // Create a prompt for OpenAI
             const prompt = `
@@ -262,6 +619,7 @@ export class ThemeGenerator {
                 - Animations: ${trendFeatures.animations.join(', ')}
                 - Layout: ${trendFeatures.layout.join(', ')}
 
+                ${seededPalette ? `Build the theme around this ${options.harmony || 'complementary'} color palette: ${JSON.stringify(seededPalette)}` : ''}
                 ${customOptions.colorPalette ? `Use these specific colors where appropriate: ${JSON.stringify(customOptions.colorPalette)}` : ''}
                 ${customOptions.typography ? `Use these specific fonts where appropriate: ${JSON.stringify(customOptions.typography)}` : ''}
                 ${customOptions.components ? `Include these specific component styles: ${JSON.stringify(customOptions.components)}` : ''}
@@ -269,81 +627,160 @@ export class ThemeGenerator {
                 Generate a complete theme with color palette, typography, and component styles.
             `;
 
-            // Define the schema for the AI response
-            const schema = {
-                name: { type: 'string', description: 'The name of the theme' },
-                type: { type: 'string', description: 'The type/style of the theme' },
-                description: { type: 'string', description: 'A brief description of the theme' },
-                colorPalette: {
-                    type: 'object',
-                    properties: {
-                        primary: { type: 'string', description: 'Primary color (hex)' },
-                        secondary: { type: 'string', description: 'Secondary color (hex)' },
-                        accent: { type: 'string', description: 'Accent color (hex)' },
-                        background: { type: 'string', description: 'Background color (hex)' },
-                        text: { type: 'string', description: 'Text color (hex)' }
-                    }
-                },
-                typography: {
-                    type: 'object',
-                    properties: {
-                        headingFont: { type: 'string', description: 'Font for headings' },
-                        bodyFont: { type: 'string', description: 'Font for body text' },
-                        codeFont: { type: 'string', description: 'Font for code' }
-                    }
-                },
-                components: { type: 'object', description: 'Component styles' }
-            };
-
-            // Generate the theme using OpenAI
-            const aiGeneratedTheme = await this.openAIService.generateStructuredData<Partial<GeneratedTheme>>(
-                prompt,
-                schema,
-                { temperature: 0.8 }
-            );
+            // Generate the theme using OpenAI; invalid colors or fonts are sent back to the model for repair,
+            // then merge it with the base theme and custom options
+            const { name, colorPalette, typography, components } = await this.runStage('ai-draft', partial, hooks, async () => {
+                const aiGeneratedTheme = await this.openAIService.generateStructuredData(
+                    prompt,
+                    aiThemeSchema,
+                    { temperature: customOptions.temperature ?? 0.8, signal: hooks.signal }
+                );
 
-            // Merge AI-generated theme with base theme and custom options
-            const baseColorPalette = this.generateColorPalette(themeType);
-            const baseTypography = this.generateTypography(themeType);
+                const colorPalette = this.paletteEngine.enrichPalette({
+                    ...this.generateColorPalette(themeType),
+                    ...aiGeneratedTheme.colorPalette,
+                    ...seededPalette,
+                    ...customOptions.colorPalette
+                });
 
-            const colorPalette = {
-                ...baseColorPalette,
-                ...aiGeneratedTheme.colorPalette,
-                ...customOptions.colorPalette
-            };
+                const typography = {
+                    ...baseTypography,
+                    ...aiGeneratedTheme.typography,
+                    ...customOptions.typography
+                };
 
-            const typography = {
-                ...baseTypography,
-                ...aiGeneratedTheme.typography,
-                ...customOptions.typography
-            };
+                return {
+                    name: aiGeneratedTheme.name || `Shades ${themeType}`,
+                    colorPalette,
+                    typography,
+                    // The derived groups carry the states, scale and motion references the AI and custom styles only refine
+                    components: this.mergeComponents(
+                        this.generateComponents(themeType, colorPalette, typography, scales, motion),
+                        aiGeneratedTheme.components || {},
+                        customOptions.components || {}
+                    )
+                };
+            }, result => result);
 
             // Generate language-specific styles
-            const languageStyles = await this.languageStyleGenerator.generateStyles(themeType, colorPalette);
+            const languageStyles = await this.runStage('language-styles', partial, hooks,
+                () => this.languageStyleGenerator.generateStyles(themeType, colorPalette, options.languages, scales), result => ({ styles: result }));
 
             // Generate page type layouts
-            const pageLayouts = await this.pageTypeGenerator.generateLayouts(themeType, colorPalette, typography);
+            const pageLayouts = await this.runStage('page-layouts', partial, hooks,
+                () => this.pageTypeGenerator.generateLayouts(themeType, colorPalette, typography, options.pageCategories, scales), result => ({ pageLayouts: result }));
 
             // Combine everything into a theme
             const theme: GeneratedTheme = {
-                name: aiGeneratedTheme.name || `Shades ${themeType}`,
+                name,
                 type: themeType,
                 colorPalette,
                 typography,
-                components: {
-                    ...this.generateComponents(themeType, colorPalette, typography),
-                    ...aiGeneratedTheme.components,
-                    ...customOptions.components
-                },
+                scales,
+                motion,
+                components,
                 styles: languageStyles,
                 pageLayouts
             };
 
             return theme;
         } catch (error) {
-            console.error('Error generating AI theme:', error);
-            // Fall back to standard theme generation if AI fails
-            return this.generateTheme(themeType, projectType);
+            // Surface the failure instead of quietly returning a non-AI theme
+            if (!(error instanceof GenerationCancelledError)) {
+                console.error('Error generating AI theme:', error);
+            }
+            throw error;
         }
     }
+
+    /**
+     * Generate an AI theme that matches an existing brand.
+     * The brand's colors and fonts seed the theme; its corner style is applied to every component and layout.
+     * @param brand The brand elements detected on the source website
+     * @param themeType The type of theme to generate
+     * @param projectType The type of project
+     * @param hooks Progress callback and abort signal for the run
+     * @returns The generated theme
+     * @throws StructuredOutputError when the model fails or its theme cannot be repaired
+     * @throws GenerationCancelledError when the run is aborted
+     */
+    public async generateBrandTheme(
+        brand: BrandElements,
+        themeType: string = 'Custom',
+        projectType: string = 'web',
+        hooks: GenerationHooks = {}
+    ): Promise<GeneratedTheme> {
+        // Scraped values are whatever the site's CSS contained; keep only those the theme can use
+        const colorPalette: Partial<GeneratedTheme['colorPalette']> = {};
+        for (const [role, color] of Object.entries(brand.colors)) {
+            if (color && isValidColor(color)) {
+                colorPalette[role as keyof BaseColorPalette] = toHex(color);
+            }
+        }
+
+        const fonts = [brand.typography.primary, brand.typography.secondary]
+            .map(font => font?.replace(/!important/i, '').trim())
+            .filter((font): font is string => !!font && isValidFontStack(font));
+
+        const typography: Partial<GeneratedTheme['typography']> = fonts.length > 0
+            ? { bodyFont: fonts[0], headingFont: fonts[1] || fonts[0] }
+            : {};
+
+        const theme = await this.generateAITheme(themeType, projectType, {
+            colorPalette,
+            typography,
+            description: `Match the existing brand of ${brand.name}${brand.style?.buttonStyle ? `, which uses ${brand.style.buttonStyle} buttons` : ''}.`
+        }, {}, hooks);
+
+        const borderRadius = brand.style?.borderRadius
+            || (brand.style?.buttonStyle === 'square' ? '0' : undefined);
+
+        if (!borderRadius) {
+            return { ...theme, name: brand.name ? `${brand.name} Theme` : theme.name };
+        }
+
+        return {
+            ...theme,
+            name: brand.name ? `${brand.name} Theme` : theme.name,
+            components: this.withBorderRadius(theme.components, borderRadius),
+            pageLayouts: this.withBorderRadius(theme.pageLayouts, borderRadius)
+        };
+    }
+
+    /**
+     * Merge component styles into the derived groups, property by property and state by state,
+     * so a group in the overrides only changes the values it sets.
+     * Groups named in the singular (button, card) merge into the derived plural group.
+     */
+    private mergeComponents(base: { [key: string]: any }, ...overrides: { [key: string]: any }[]): { [key: string]: any } {
+        let merged = base;
+        for (const override of overrides) {
+            const named = Object.fromEntries(Object.entries(override).map(([group, styles]) => {
+                const plural = group in merged ? undefined : [`${group}s`, `${group}es`].find(candidate => candidate in merged);
+                return [plural || group, styles];
+            }));
+            merged = this.mergeStyles(merged, named);
+        }
+        return merged;
+    }
+
+    private mergeStyles(base: { [key: string]: any }, override: { [key: string]: any }): { [key: string]: any } {
+        const isTree = (candidate: unknown) => !!candidate && typeof candidate === 'object' && !Array.isArray(candidate);
+        const merged = { ...base };
+        for (const [key, value] of Object.entries(override)) {
+            merged[key] = isTree(value) && isTree(base[key]) ? this.mergeStyles(base[key], value) : value;
+        }
+        return merged;
+    }
+
+    /**
+     * Replace every border radius in a style tree
+     */
+    private withBorderRadius(styles: { [key: string]: any }, borderRadius: string): { [key: string]: any } {
+        return Object.fromEntries(Object.entries(styles).map(([key, value]) => {
+            if (key === 'borderRadius') return [key, borderRadius];
+            if (value && typeof value === 'object' && !Array.isArray(value)) return [key, this.withBorderRadius(value, borderRadius)];
+            return [key, value];
+        }));
+    }
 }
@@ -0,0 +1,91 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { getLLMConfig } from '../llmConfig';
+import { LocalLLMProvider, MockLLMProvider, OpenAIProvider, createLLMProvider } from '../providers';
+import { OpenAIService } from '../openaiService';
+import { ThemeGenerator } from '../../generator/themeGenerator';
+import { CodebaseAnalyzer } from '../../analyzer/codebaseAnalyzer';
+
+// The OpenAI SDK needs fetch, which jsdom does not provide
+jest.mock('openai', () => jest.fn().mockImplementation(() => ({})));
+
+describe('LLM providers', () => {
+  describe('getLLMConfig', () => {
+    it('should use the mock provider in tests and OpenAI elsewhere by default', () => {
+      expect(getLLMConfig({ NODE_ENV: 'test' }).provider).toBe('mock');
+      expect(getLLMConfig({ NODE_ENV: 'production' }).provider).toBe('openai');
+      expect(getLLMConfig({ NODE_ENV: 'production' }).openai.model).toBe('gpt-4');
+    });
+
+    it('should read the provider and model from the environment', () => {
+      const config = getLLMConfig({ NODE_ENV: 'development', LLM_PROVIDER: 'local', LLM_MODEL: 'qwen2.5' });
+
+      expect(config.provider).toBe('local');
+      expect(config.local).toEqual({ baseURL: 'http://localhost:11434/v1', apiKey: undefined, model: 'qwen2.5' });
+      expect(() => getLLMConfig({ NODE_ENV: 'test', LLM_PROVIDER: 'anthropic' })).toThrow('Unknown LLM provider "anthropic"');
+    });
+  });
+
+  describe('createLLMProvider', () => {
+    it('should create the configured provider', () => {
+      expect(createLLMProvider(getLLMConfig({ NODE_ENV: 'test' }))).toBeInstanceOf(MockLLMProvider);
+      expect(createLLMProvider(getLLMConfig({ NODE_ENV: 'test', LLM_PROVIDER: 'local' }))).toBeInstanceOf(LocalLLMProvider);
+      expect(createLLMProvider(getLLMConfig({ NODE_ENV: 'test', LLM_PROVIDER: 'openai' }))).toBeInstanceOf(OpenAIProvider);
+    });
+
+    it('should answer the mock provider from a fixtures file', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'llm-fixtures-'));
+      const fixturesPath = join(dir, 'fixtures.json');
+      writeFileSync(fixturesPath, JSON.stringify([{ name: 'greeting', match: 'say hello', response: 'Hello from a file' }]));
+
+      try {
+        const service = new OpenAIService(createLLMProvider(getLLMConfig({ NODE_ENV: 'test', LLM_MOCK_FIXTURES: fixturesPath })));
+        await expect(service.generateText('Say hello')).resolves.toBe('Hello from a file');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should require an endpoint and deployment for Azure', () => {
+      expect(() => createLLMProvider(getLLMConfig({ NODE_ENV: 'test', LLM_PROVIDER: 'azure' })))
+        .toThrow('AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_DEPLOYMENT are required');
+    });
+  });
+
+  describe('MockLLMProvider', () => {
+    it('should answer from the first matching fixture', async () => {
+      const service = new OpenAIService(new MockLLMProvider([
+        { name: 'greeting', match: 'say hello', response: 'Hello from a fixture' },
+      ]));
+
+      await expect(service.generateText('Please SAY HELLO')).resolves.toBe('Hello from a fixture');
+    });
+
+    it('should shape unmatched JSON responses after the schema', async () => {
+      const service = new OpenAIService(new MockLLMProvider());
+
+      const result = await service.generateStructuredData('Unknown prompt', z.object({
+        colors: z.array(z.string()),
+        summary: z.object({ score: z.number(), label: z.string() }),
+      }));
+
+      expect(result).toEqual({ colors: [], summary: { score: 0, label: '' } });
+    });
+
+    it('should let the theme generator and codebase analyzer run offline', async () => {
+      const service = new OpenAIService(new MockLLMProvider());
+
+      const theme = await new ThemeGenerator(service).generateAITheme('Modern Minimalism');
+      expect(theme.name).toBe('Shades Offline Preview');
+      expect(theme.colorPalette.primary).toBe('#2F5D8A');
+      expect(theme.colorPalette.dark).toBeDefined();
+
+      const analysis = await new CodebaseAnalyzer(service).analyzeCodebase([
+        { name: 'styles.css', path: 'src/styles.css', content: 'body { color: #1E293B; }', language: 'css' },
+      ]);
+      expect(analysis.summary.overallScore).toBe(76);
+    });
+  });
+});
@@ -1,5 +1,8 @@
 import { OpenAIService } from '../openaiService';
+import { OpenAIProvider } from '../providers';
+import { StructuredOutputError } from '../structuredOutput';
 import OpenAI from 'openai';
+import { z } from 'zod';
 
 // Mock OpenAI
 jest.mock('openai', () => {
@@ -20,11 +23,11 @@ describe('OpenAIService', () => {
     // Clear all mocks
     jest.clearAllMocks();
     
-    // Create a new instance of the service
-    openaiService = new OpenAIService();
-    
     // Get the mocked OpenAI instance
     mockOpenAI = new OpenAI() as jest.Mocked<OpenAI>;
+
+    // Create a new instance of the service backed by the mocked client
+    openaiService = new OpenAIService(new OpenAIProvider({ model: 'gpt-4' }, mockOpenAI));
   });
 
   describe('generateText', () => {
@@ -127,10 +130,10 @@ describe('OpenAIService', () => {
       mockOpenAI.chat.completions.create.mockResolvedValue(mockResponse as any);
       
       // Define a schema
-      const schema = {
-        name: { type: 'string' },
-        value: { type: 'number' },
-      };
+      const schema = z.object({
+        name: z.string(),
+        value: z.number(),
+      });
       
       // Call the method
       const result = await openaiService.generateStructuredData('Test prompt', schema);
@@ -154,14 +157,47 @@ describe('OpenAIService', () => {
       mockOpenAI.chat.completions.create.mockRejectedValue(new Error('API error'));
       
       // Define a schema
-      const schema = {
-        name: { type: 'string' },
-        value: { type: 'number' },
-      };
+      const schema = z.object({
+        name: z.string(),
+        value: z.number(),
+      });
       
       // Call the method and expect it to throw
       await expect(openaiService.generateStructuredData('Test prompt', schema)).rejects.toThrow('Failed to generate structured data: API error');
     });
+
+    it('should send validation errors back to the model and return the repaired data', async () => {
+      const create = mockOpenAI.chat.completions.create as jest.Mock;
+      const reply = (content: string) => ({ choices: [{ message: { content } }] });
+      create
+        .mockResolvedValueOnce(reply('{"name":"Test","value":"123"}'))
+        .mockResolvedValueOnce(reply('{"name":"Test","value":123}'));
+
+      const schema = z.object({ name: z.string(), value: z.number() });
+      const result = await openaiService.generateStructuredData('Test prompt', schema);
+
+      expect(result).toEqual({ name: 'Test', value: 123 });
+      expect(create).toHaveBeenCalledTimes(2);
+
+      const repairMessages = create.mock.calls[1][0].messages;
+      expect(repairMessages[2]).toEqual({ role: 'assistant', content: '{"name":"Test","value":"123"}' });
+      expect(repairMessages[3].content).toContain('value: Expected number, received string');
+    });
+
+    it('should throw a typed error when repair attempts run out', async () => {
+      const create = mockOpenAI.chat.completions.create as jest.Mock;
+      create.mockResolvedValue({ choices: [{ message: { content: 'not json' } }] });
+
+      const error = await openaiService
+        .generateStructuredData('Test prompt', z.object({ name: z.string() }), { maxRepairAttempts: 1 })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(StructuredOutputError);
+      expect(error.reason).toBe('invalid_json');
+      expect(error.attempts).toBe(2);
+      expect(error.content).toBe('not json');
+      expect(create).toHaveBeenCalledTimes(2);
+    });
   });
 
   describe('analyzeText', () => {
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { fromJsonSchema, parseStructuredOutput, toJsonSchema } from '../structuredOutput';
+import { colorSchema } from '@/lib/themeValidation';
+
+describe('structuredOutput', () => {
+  describe('toJsonSchema', () => {
+    it('should describe objects, arrays, enums and refined strings', () => {
+      const schema = z.object({
+        name: z.string().describe('The name'),
+        color: colorSchema,
+        tags: z.array(z.string()),
+        level: z.enum(['AA', 'AAA']),
+        score: z.number().int().optional(),
+      });
+
+      expect(toJsonSchema(schema)).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'The name' },
+          color: { type: 'string' },
+          tags: { type: 'array', items: { type: 'string' } },
+          level: { type: 'string', enum: ['AA', 'AAA'] },
+          score: { type: 'integer' },
+        },
+        required: ['name', 'color', 'tags', 'level'],
+      });
+    });
+  });
+
+  describe('fromJsonSchema', () => {
+    it('should validate data against a JSON Schema', () => {
+      const schema = fromJsonSchema({
+        type: 'object',
+        properties: { name: { type: 'string' }, values: { type: 'array', items: { type: 'number' } } },
+        required: ['name'],
+      });
+
+      expect(schema.safeParse({ name: 'Test' }).success).toBe(true);
+      expect(schema.safeParse({ name: 'Test', values: ['1'] }).success).toBe(false);
+    });
+  });
+
+  describe('parseStructuredOutput', () => {
+    const schema = z.object({ primary: colorSchema });
+
+    it('should accept JSON wrapped in a markdown fence', () => {
+      expect(parseStructuredOutput('```json\n{"primary":"#2B6CB0"}\n```', schema))
+        .toEqual({ success: true, data: { primary: '#2B6CB0' } });
+    });
+
+    it('should report refinement failures with their path', () => {
+      expect(parseStructuredOutput('{"primary":"blurple"}', schema)).toEqual({
+        success: false,
+        reason: 'schema_mismatch',
+        issues: ['primary: "blurple" is not a valid color'],
+      });
+    });
+
+    it('should report unparseable responses', () => {
+      expect(parseStructuredOutput('Here is your theme!', schema)).toMatchObject({ success: false, reason: 'invalid_json' });
+    });
+  });
+});
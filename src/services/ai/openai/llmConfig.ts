@@ -0,0 +1,68 @@
+import { z } from 'zod';
+
+export const LLM_PROVIDERS = ['openai', 'azure', 'local', 'mock'] as const;
+
+export type LLMProviderName = typeof LLM_PROVIDERS[number];
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  openai: {
+    apiKey?: string;
+    baseURL?: string;
+    model: string;
+  };
+  azure: {
+    endpoint?: string;
+    apiKey?: string;
+    apiVersion: string;
+    deployment?: string;
+  };
+  local: {
+    baseURL: string;
+    apiKey?: string;
+    model: string;
+  };
+  mock: {
+    // JSON file of extra fixtures, checked before the built-in ones
+    fixturesPath?: string;
+  };
+}
+
+const providerSchema = z.enum(LLM_PROVIDERS);
+
+/**
+ * Read the LLM configuration from the environment.
+ * LLM_PROVIDER picks the backend; without it tests use the mock provider and every other
+ * environment uses OpenAI, so each .env file can choose its own provider.
+ * @param env The environment to read, process.env by default
+ * @returns The provider name and the settings of every provider
+ */
+export function getLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const provider = providerSchema.safeParse(env.LLM_PROVIDER || (env.NODE_ENV === 'test' ? 'mock' : 'openai'));
+  if (!provider.success) {
+    throw new Error(`Unknown LLM provider "${env.LLM_PROVIDER}". Expected one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+
+  return {
+    provider: provider.data,
+    openai: {
+      apiKey: env.OPENAI_API_KEY,
+      baseURL: env.OPENAI_BASE_URL,
+      model: env.LLM_MODEL || 'gpt-4',
+    },
+    azure: {
+      endpoint: env.AZURE_OPENAI_ENDPOINT,
+      apiKey: env.AZURE_OPENAI_API_KEY,
+      apiVersion: env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+      deployment: env.AZURE_OPENAI_DEPLOYMENT,
+    },
+    local: {
+      baseURL: env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: env.LOCAL_LLM_API_KEY,
+      model: env.LLM_MODEL || 'llama3.1',
+    },
+    mock: {
+      fixturesPath: env.LLM_MOCK_FIXTURES,
+    },
+  };
+}
@@ -1,9 +1,6 @@
-import OpenAI from 'openai';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { z } from 'zod';
+import { ChatMessage, CompletionRequest, LLMProvider, getLLMProvider } from './providers';
+import { StructuredOutputError, StructuredParseResult, parseStructuredOutput, toJsonSchema } from './structuredOutput';
 
 export interface OpenAIOptions {
   model?: string;
@@ -12,9 +9,27 @@ export interface OpenAIOptions {
   topP?: number;
   frequencyPenalty?: number;
   presencePenalty?: number;
+  // Cancels the request when aborted
+  signal?: AbortSignal;
+}
+
+export interface StructuredDataOptions extends OpenAIOptions {
+  // How many times an invalid response is sent back to the model for correction
+  maxRepairAttempts?: number;
 }
 
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+
 export class OpenAIService {
+  private provider?: LLMProvider;
+
+  /**
+   * @param provider The LLM backend; defaults to the provider configured for this environment
+   */
+  constructor(provider?: LLMProvider) {
+    this.provider = provider;
+  }
+
   /**
    * Generate text using OpenAI's API
    * @param prompt The prompt to send to OpenAI
@@ -26,26 +41,10 @@ export class OpenAIService {
     options: OpenAIOptions = {}
   ): Promise<string> {
     try {
-      const {
-        model = 'gpt-4',
-        temperature = 0.7,
-        maxTokens = 1000,
-        topP = 1,
-        frequencyPenalty = 0,
-        presencePenalty = 0,
-      } = options;
-
-      const response = await openai.chat.completions.create({
-        model,
+      return await this.getProvider().complete({
+        ...this.toRequestOptions(options),
         messages: [{ role: 'user', content: prompt }],
-        temperature,
-        max_tokens: maxTokens,
-        top_p: topP,
-        frequency_penalty: frequencyPenalty,
-        presence_penalty: presencePenalty,
       });
-
-      return response.choices[0]?.message?.content || '';
     } catch (error) {
       console.error('Error generating text with OpenAI:', error);
       throw new Error(`Failed to generate text: ${error instanceof Error ? error.message : String(error)}`);
@@ -53,52 +52,78 @@ export class OpenAIService {
   }
 
   /**
-   * Generate structured data using OpenAI's API
+   * Generate structured data using OpenAI's API.
+   * The response is validated against the schema; when it does not match, the validation errors are
+   * sent back to the model so it can correct its answer, up to maxRepairAttempts times.
    * @param prompt The prompt to send to OpenAI
-   * @param schema The JSON schema for the expected response
-   * @param options Configuration options for the API call
-   * @returns The generated structured data
+   * @param schema The zod schema the response must match
+   * @param options Configuration options for the API call and the number of repair attempts
+   * @returns The validated structured data
+   * @throws StructuredOutputError when the request fails or no attempt produces valid data
    */
   public async generateStructuredData<T>(
     prompt: string,
-    schema: Record<string, any>,
-    options: OpenAIOptions = {}
+    schema: z.ZodType<T>,
+    options: StructuredDataOptions = {}
   ): Promise<T> {
-    try {
-      const {
-        model = 'gpt-4',
-        temperature = 0.7,
-        maxTokens = 1000,
-        topP = 1,
-        frequencyPenalty = 0,
-        presencePenalty = 0,
-      } = options;
-
-      // Create a system message that instructs the model to follow the schema
-      const systemMessage = `You are a helpful assistant that generates structured data. 
-      Your response must be valid JSON that follows this schema: ${JSON.stringify(schema)}. 
+    const { maxRepairAttempts = DEFAULT_REPAIR_ATTEMPTS, ...requestOptions } = options;
+    const jsonSchema = toJsonSchema(schema);
+
+    // Create a system message that instructs the model to follow the schema
+    const systemMessage = `You are a helpful assistant that generates structured data. 
+      Your response must be valid JSON that follows this JSON Schema: ${JSON.stringify(jsonSchema)}. 
       Do not include any explanations or text outside of the JSON object.`;
 
-      const response = await openai.chat.completions.create({
-        model,
-        messages: [
-          { role: 'system', content: systemMessage },
-          { role: 'user', content: prompt },
-        ],
-        temperature,
-        max_tokens: maxTokens,
-        top_p: topP,
-        frequency_penalty: frequencyPenalty,
-        presence_penalty: presencePenalty,
-        response_format: { type: 'json_object' },
-      });
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemMessage },
+      { role: 'user', content: prompt },
+    ];
 
-      const content = response.choices[0]?.message?.content || '{}';
-      return JSON.parse(content) as T;
-    } catch (error) {
-      console.error('Error generating structured data with OpenAI:', error);
-      throw new Error(`Failed to generate structured data: ${error instanceof Error ? error.message : String(error)}`);
+    let attempts = 0;
+    let content = '';
+    let failure: Exclude<StructuredParseResult<T>, { success: true }> | undefined;
+
+    while (attempts <= maxRepairAttempts) {
+      attempts++;
+
+      try {
+        content = await this.getProvider().complete({
+          ...this.toRequestOptions(requestOptions),
+          messages,
+          json: true,
+          schema: jsonSchema,
+        });
+      } catch (error) {
+        console.error('Error generating structured data with OpenAI:', error);
+        throw new StructuredOutputError(
+          `Failed to generate structured data: ${error instanceof Error ? error.message : String(error)}`,
+          'request',
+          { attempts }
+        );
+      }
+
+      const result = parseStructuredOutput(content || '{}', schema);
+      if (result.success) {
+        return result.data;
+      }
+
+      failure = result;
+      messages.push(
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your response does not match the schema:\n- ${result.issues.join('\n- ')}\n`
+            + 'Reply with the corrected JSON object only.',
+        }
+      );
     }
+
+    console.error('Structured data failed validation:', failure?.issues);
+    throw new StructuredOutputError(
+      `Failed to generate structured data: the response did not match the schema after ${attempts} attempts`,
+      failure?.reason || 'schema_mismatch',
+      { issues: failure?.issues, attempts, content }
+    );
   }
 
   /**
@@ -121,4 +146,26 @@ export class OpenAIService {
       throw new Error(`Failed to analyze text: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
+
+  private getProvider(): LLMProvider {
+    // Resolved on first use so a missing key only fails the AI call, not the import
+    if (!this.provider) {
+      this.provider = getLLMProvider();
+    }
+    return this.provider;
+  }
+
+  private toRequestOptions(options: OpenAIOptions): Omit<CompletionRequest, 'messages'> {
+    const {
+      model,
+      temperature = 0.7,
+      maxTokens = 1000,
+      topP = 1,
+      frequencyPenalty = 0,
+      presencePenalty = 0,
+      signal,
+    } = options;
+
+    return { model, temperature, maxTokens, topP, frequencyPenalty, presencePenalty, signal };
+  }
 }
@@ -0,0 +1,45 @@
+import { LLMConfig, getLLMConfig } from '../llmConfig';
+import { AzureOpenAIProvider, LocalLLMProvider, OpenAIProvider } from './openaiProvider';
+import { MockLLMProvider, readFixtureFile } from './mockProvider';
+import { LLMProvider } from './types';
+
+export * from './types';
+export * from './openaiProvider';
+export * from './mockProvider';
+
+let defaultProvider: LLMProvider | null = null;
+
+/**
+ * Create the provider selected by a configuration
+ * @param config The LLM configuration
+ * @returns The provider
+ */
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case 'azure': {
+      const { endpoint, apiKey, apiVersion, deployment } = config.azure;
+      if (!endpoint || !deployment) {
+        throw new Error('AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_DEPLOYMENT are required for the azure LLM provider');
+      }
+      return new AzureOpenAIProvider({ endpoint, apiKey, apiVersion, deployment });
+    }
+    case 'local':
+      return new LocalLLMProvider(config.local);
+    case 'mock': {
+      const { fixturesPath } = config.mock;
+      return new MockLLMProvider(fixturesPath ? () => readFixtureFile(fixturesPath) : []);
+    }
+    default:
+      return new OpenAIProvider(config.openai);
+  }
+}
+
+/**
+ * The provider configured for this environment, created on first use
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!defaultProvider) {
+    defaultProvider = createLLMProvider(getLLMConfig());
+  }
+  return defaultProvider;
+}
@@ -0,0 +1,88 @@
+import defaultFixtures from '../fixtures/mockResponses.json';
+import { CompletionRequest, LLMProvider } from './types';
+
+/**
+ * A canned response, returned when a prompt contains the match text
+ */
+export interface LLMFixture {
+  name: string;
+  match: string;
+  response: string | Record<string, any>;
+}
+
+export const DEFAULT_FIXTURES: LLMFixture[] = defaultFixtures;
+
+/**
+ * Read fixtures from a JSON file. fs is loaded on first use, so importing the providers
+ * does not pull the node-only module into client bundles.
+ * @param path Path of a JSON array of fixtures
+ */
+export async function readFixtureFile(path: string): Promise<LLMFixture[]> {
+  const { readFile } = await import(/* webpackIgnore: true */ 'fs/promises');
+  return JSON.parse(await readFile(path, 'utf8'));
+}
+
+/**
+ * Deterministic provider for development without keys, offline work and CI.
+ * Prompts are answered from fixtures; JSON requests without a fixture get an empty
+ * value shaped like the requested JSON Schema.
+ */
+export class MockLLMProvider implements LLMProvider {
+  public readonly name = 'mock';
+  private loadFixtures: () => Promise<LLMFixture[]>;
+  private fixtures: Promise<LLMFixture[]> | null = null;
+
+  /**
+   * @param fixtures Fixtures checked in order, before the built-in ones, or a loader run on the first request
+   */
+  constructor(fixtures: LLMFixture[] | (() => Promise<LLMFixture[]>) = []) {
+    this.loadFixtures = typeof fixtures === 'function' ? fixtures : async () => fixtures;
+  }
+
+  private getFixtures(): Promise<LLMFixture[]> {
+    if (!this.fixtures) {
+      this.fixtures = this.loadFixtures().then(fixtures => [...fixtures, ...DEFAULT_FIXTURES]);
+    }
+    return this.fixtures;
+  }
+
+  public async complete(request: CompletionRequest): Promise<string> {
+    if (request.signal?.aborted) {
+      throw new Error('Request was aborted');
+    }
+
+    const prompt = request.messages.map(message => message.content).join('\n').toLowerCase();
+    const fixture = (await this.getFixtures()).find(candidate => prompt.includes(candidate.match.toLowerCase()));
+
+    if (fixture) {
+      return typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+    }
+
+    return request.json
+      ? JSON.stringify(this.fromSchema(request.schema || { type: 'object', properties: {} }))
+      : 'Mock response: no fixture matched this prompt.';
+  }
+
+  /**
+   * Build the emptiest value that matches a JSON Schema
+   */
+  private fromSchema(schema: Record<string, any>): any {
+    switch (schema.type) {
+      case 'object':
+        return Object.fromEntries(
+          Object.entries<Record<string, any>>(schema.properties || {}).map(([key, property]) => [key, this.fromSchema(property)])
+        );
+      case 'array':
+        return [];
+      case 'number':
+      case 'integer':
+        return 0;
+      case 'boolean':
+        return false;
+      case 'string':
+        return Array.isArray(schema.enum) ? schema.enum[0] : '';
+      default:
+        return null;
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { CompletionRequest, LLMProvider } from './types';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+}
+
+export interface AzureOpenAIProviderOptions {
+  endpoint: string;
+  apiKey?: string;
+  apiVersion: string;
+  // Azure routes requests by deployment rather than by model name
+  deployment: string;
+}
+
+export interface LocalLLMProviderOptions {
+  baseURL: string;
+  apiKey?: string;
+  model: string;
+}
+
+/**
+ * Provider for the OpenAI API and anything that speaks its chat completions protocol
+ */
+export class OpenAIProvider implements LLMProvider {
+  public readonly name: string = 'openai';
+  protected client: OpenAI;
+  protected model: string;
+
+  constructor({ apiKey, baseURL, model }: OpenAIProviderOptions, client?: OpenAI) {
+    this.client = client || new OpenAI({ apiKey, baseURL });
+    this.model = model;
+  }
+
+  public async complete(request: CompletionRequest): Promise<string> {
+    const body = {
+      model: request.model || this.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      top_p: request.topP,
+      frequency_penalty: request.frequencyPenalty,
+      presence_penalty: request.presencePenalty,
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+    };
+
+    const response = request.signal
+      ? await this.client.chat.completions.create(body, { signal: request.signal })
+      : await this.client.chat.completions.create(body);
+
+    return response.choices[0]?.message?.content || '';
+  }
+}
+
+/**
+ * Provider for an Azure OpenAI deployment
+ */
+export class AzureOpenAIProvider extends OpenAIProvider {
+  public readonly name: string = 'azure';
+
+  constructor({ endpoint, apiKey, apiVersion, deployment }: AzureOpenAIProviderOptions) {
+    super({ model: deployment }, new AzureOpenAI({ endpoint, apiKey, apiVersion, deployment }));
+  }
+}
+
+/**
+ * Provider for a self-hosted OpenAI-compatible server such as Ollama or the llama.cpp server
+ */
+export class LocalLLMProvider extends OpenAIProvider {
+  public readonly name: string = 'local';
+
+  constructor({ baseURL, apiKey, model }: LocalLLMProviderOptions) {
+    // Local servers ignore the key, but the SDK refuses to start without one
+    super({ baseURL, apiKey: apiKey || 'local', model });
+  }
+}
@@ -0,0 +1,38 @@
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  // Falls back to the provider's configured model
+  model?: string;
+  temperature: number;
+  maxTokens: number;
+  topP: number;
+  frequencyPenalty: number;
+  presencePenalty: number;
+  // Ask for a JSON object instead of free text
+  json?: boolean;
+  // The property schema a JSON response should follow
+  schema?: Record<string, any>;
+  // Aborts the request when the caller no longer needs the response
+  signal?: AbortSignal;
+}
+
+/**
+ * A chat completion backend. OpenAIService talks to every model through this interface,
+ * so analyzers and generators never depend on a specific vendor SDK.
+ */
+export interface LLMProvider {
+  readonly name: string;
+
+  /**
+   * Run a chat completion
+   * @param request The messages and sampling options
+   * @returns The content of the first choice
+   */
+  complete(request: CompletionRequest): Promise<string>;
+}
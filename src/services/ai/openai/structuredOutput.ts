@@ -0,0 +1,146 @@
+import { z } from 'zod';
+
+export type StructuredOutputFailure = 'request' | 'invalid_json' | 'schema_mismatch';
+
+/**
+ * Raised when a structured LLM call cannot produce data matching its schema
+ */
+export class StructuredOutputError extends Error {
+  // Why the call failed: the provider request itself, unparseable JSON or data that fails the schema
+  public readonly reason: StructuredOutputFailure;
+  // Validation messages from the last attempt
+  public readonly issues: string[];
+  // Number of completions requested, including repair attempts
+  public readonly attempts: number;
+  // The last raw response, if there was one
+  public readonly content?: string;
+
+  constructor(
+    message: string,
+    reason: StructuredOutputFailure,
+    { issues = [], attempts = 0, content }: { issues?: string[]; attempts?: number; content?: string } = {}
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.reason = reason;
+    this.issues = issues;
+    this.attempts = attempts;
+    this.content = content;
+  }
+}
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; reason: Exclude<StructuredOutputFailure, 'request'>; issues: string[] };
+
+/**
+ * Parse and validate a model response
+ * @param content The raw completion
+ * @param schema The schema the data must match
+ * @returns The typed data, or the problems to send back to the model
+ */
+export function parseStructuredOutput<T>(content: string, schema: z.ZodType<T>): StructuredParseResult<T> {
+  let json: unknown;
+  try {
+    // Some models wrap JSON in a markdown fence even when asked not to
+    json = JSON.parse(content.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch (error) {
+    return {
+      success: false,
+      reason: 'invalid_json',
+      issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    reason: 'schema_mismatch',
+    issues: result.error.issues.map(issue => `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`),
+  };
+}
+
+/**
+ * Describe a zod schema as JSON Schema for the prompt.
+ * Covers the zod types used for model output; refinements are validated but not described.
+ * @param schema The zod schema
+ * @returns The JSON Schema
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, any> {
+  const withDescription = (json: Record<string, any>) =>
+    schema.description ? { ...json, description: schema.description } : json;
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, z.ZodTypeAny> = (schema as z.AnyZodObject).shape;
+      const properties: Record<string, any> = {};
+      const required: string[] = [];
+
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = toJsonSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+
+      return withDescription({ type: 'object', properties, required });
+    }
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return withDescription({ type: 'array', items: toJsonSchema(def.type) });
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return withDescription({ type: 'object', additionalProperties: toJsonSchema(def.valueType) });
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return withDescription({ type: 'string' });
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return withDescription({ type: def.checks.some((check: { kind: string }) => check.kind === 'int') ? 'integer' : 'number' });
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return withDescription({ type: 'boolean' });
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return withDescription({ type: 'string', enum: def.values });
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return withDescription(toJsonSchema(def.innerType));
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return withDescription(toJsonSchema(def.schema));
+    default:
+      return withDescription({});
+  }
+}
+
+/**
+ * Build a zod schema from a JSON Schema, for callers that send their schema over the API
+ * @param json The JSON Schema
+ * @returns The equivalent zod schema
+ */
+export function fromJsonSchema(json: Record<string, any>): z.ZodTypeAny {
+  switch (json?.type) {
+    case 'object': {
+      if (!json.properties) {
+        return z.record(json.additionalProperties ? fromJsonSchema(json.additionalProperties) : z.any());
+      }
+
+      const required: string[] = Array.isArray(json.required) ? json.required : Object.keys(json.properties);
+      const shape: Record<string, z.ZodTypeAny> = {};
+      for (const [key, property] of Object.entries<Record<string, any>>(json.properties)) {
+        shape[key] = required.includes(key) ? fromJsonSchema(property) : fromJsonSchema(property).optional();
+      }
+      return z.object(shape);
+    }
+    case 'array':
+      return z.array(json.items ? fromJsonSchema(json.items) : z.any());
+    case 'string':
+      return Array.isArray(json.enum) && json.enum.length > 0 ? z.enum(json.enum as [string, ...string[]]) : z.string();
+    case 'number':
+      return z.number();
+    case 'integer':
+      return z.number().int();
+    case 'boolean':
+      return z.boolean();
+    default:
+      return z.any();
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+import { WebsiteRebrander } from '../websiteRebrander';
+import { BrandElements } from '../../analyzer/brandAnalyzer';
+import { ScrapedContent } from '../../scraper/websiteScraper';
+
+const originalBrand: BrandElements = {
+  name: 'Acme',
+  colors: { primary: '#1a73e8', secondary: '#34a853', background: '#ffffff', text: '#202124' },
+  typography: { primary: 'Roboto' },
+};
+
+const newBrand: BrandElements = {
+  name: 'Nimbus',
+  colors: { primary: '#7c3aed', secondary: '#f59e0b', background: '#ffffff', text: '#111827' },
+  typography: { primary: 'Inter' },
+};
+
+const content = (html: string, css: string[]): ScrapedContent => ({
+  html,
+  css,
+  images: [],
+  title: 'Acme',
+  description: '',
+  url: 'https://acme.example/',
+  structure: { header: false, footer: false, navigation: false, sections: 0 },
+});
+
+describe('WebsiteRebrander', () => {
+  const rebrander = new WebsiteRebrander();
+
+  it('rewrites inlined stylesheets and replaces their links with style blocks', async () => {
+    const html = '<html><head><link rel="stylesheet" href="/main.css" media="screen"><style>.b { color: #34a853; }</style></head>'
+      + '<body><h1>Acme</h1></body></html>';
+    const css = ['a { color: #1a73e8; font-family: Roboto, sans-serif; }', '.b { color: #34a853; }'];
+
+    const result = await rebrander.rebrandWebsite(content(html, css), originalBrand, newBrand);
+
+    expect(result.html).not.toContain('href="/main.css"');
+    expect(result.html).toContain('<style media="screen">a { color: #7c3aed; font-family: Inter, sans-serif; }</style>');
+    expect(result.html).toContain('<style>.b { color: #f59e0b; }</style>');
+    expect(result.css).toBe('a { color: #7c3aed; font-family: Inter, sans-serif; }\n.b { color: #f59e0b; }');
+    expect(result.changes).toMatchObject({ colorReplacements: 2, fontReplacements: 1 });
+  });
+
+  it('keeps links to stylesheets that were not downloaded', async () => {
+    const html = '<html><head><link rel="stylesheet" href="https://cdn.example/missing.css"></head><body></body></html>';
+
+    const result = await rebrander.rebrandWebsite(content(html, ['https://cdn.example/missing.css']), originalBrand, newBrand);
+
+    expect(result.html).toContain('href="https://cdn.example/missing.css"');
+    expect(result.css).toBe('');
+  });
+
+  it('rewrites style attributes without touching longer colors', async () => {
+    const html = '<html><head></head><body><p style="color: #1a73e8; border-color: #1a73e8ff">Hi</p></body></html>';
+
+    const result = await rebrander.rebrandWebsite(content(html, []), originalBrand, newBrand);
+
+    expect(result.html).toContain('style="color: #7c3aed; border-color: #1a73e8ff"');
+    expect(result.changes.colorReplacements).toBe(1);
+  });
+});
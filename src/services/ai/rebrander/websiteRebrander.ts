@@ -1,6 +1,8 @@
 import * as cheerio from 'cheerio';
 import { ScrapedContent } from '../scraper/websiteScraper';
 import { BrandElements } from '../analyzer/brandAnalyzer';
+import { STYLESHEET_SELECTOR } from '../scraper/pageParser';
+import { isStylesheetUrl } from '../scraper/stylesheetInliner';
 
 export interface RebrandedContent {
     html: string;
@@ -99,59 +101,46 @@ export class WebsiteRebrander {
                 }
             }
 
-            // Extract inline styles
-            const inlineStyles: string[] = [];
-            $('style').each((_, element) => {
-                inlineStyles.push($(element).html() || '');
-            });
-
-            // Combine all CSS
-            let allCss = inlineStyles.join('\n');
-
-            // Replace colors in CSS
-            if (originalBrand.colors && newBrand.colors) {
-                // Replace primary color
-                const primaryColorRegex = new RegExp(this.escapeRegExp(originalBrand.colors.primary), 'gi');
-                allCss = allCss.replace(primaryColorRegex, newBrand.colors.primary);
-                changes.colorReplacements += (allCss.match(primaryColorRegex) || []).length;
-
-                // Replace secondary color
-                if (originalBrand.colors.secondary && newBrand.colors.secondary) {
-                    const secondaryColorRegex = new RegExp(this.escapeRegExp(originalBrand.colors.secondary), 'gi');
-                    allCss = allCss.replace(secondaryColorRegex, newBrand.colors.secondary);
-                    changes.colorReplacements += (allCss.match(secondaryColorRegex) || []).length;
-                }
-
-                // Replace accent color
-                if (originalBrand.colors.accent && newBrand.colors.accent) {
-                    const accentColorRegex = new RegExp(this.escapeRegExp(originalBrand.colors.accent), 'gi');
-                    allCss = allCss.replace(accentColorRegex, newBrand.colors.accent);
-                    changes.colorReplacements += (allCss.match(accentColorRegex) || []).length;
-                }
-            }
-
-            // Replace typography in CSS
-            if (originalBrand.typography && newBrand.typography) {
-                // Replace primary font
-                const primaryFontRegex = new RegExp(this.escapeRegExp(originalBrand.typography.primary), 'gi');
-                allCss = allCss.replace(primaryFontRegex, newBrand.typography.primary);
-                changes.fontReplacements += (allCss.match(primaryFontRegex) || []).length;
-
-                // Replace secondary font
-                if (originalBrand.typography.secondary && newBrand.typography.secondary) {
-                    const secondaryFontRegex = new RegExp(this.escapeRegExp(originalBrand.typography.secondary), 'gi');
-                    allCss = allCss.replace(secondaryFontRegex, newBrand.typography.secondary);
-                    changes.fontReplacements += (allCss.match(secondaryFontRegex) || []).length;
+            // Rewrite colors and fonts across the whole cascade, counting matches before they are replaced
+            const replacements = this.getReplacements(originalBrand, newBrand);
+            const rewrite = (css: string): string => replacements.reduce((result, { from, to, change }) => {
+                const regex = new RegExp(`(?<![\\w#-])${this.escapeRegExp(from)}(?![\\w-])`, 'gi');
+                changes[change] += (result.match(regex) || []).length;
+                return result.replace(regex, to);
+            }, css);
+
+            // Entries of scrapedContent.css pair with the page's stylesheets in document order;
+            // content scraped before stylesheets were inlined only has its <style> blocks to go on
+            const stylesheets = $(STYLESHEET_SELECTOR);
+            const aligned = stylesheets.length === scrapedContent.css.length;
+            const cascade: string[] = [];
+
+            stylesheets.each((i, element) => {
+                const isStyle = element.tagName === 'style';
+                const entry = aligned ? scrapedContent.css[i] : (isStyle ? $(element).html() || '' : undefined);
+                // Stylesheets that could not be downloaded stay linked and keep their original brand
+                if (entry === undefined || isStylesheetUrl(entry)) return;
+
+                const css = rewrite(entry);
+                cascade.push(css);
+
+                if (isStyle) {
+                    $(element).text(css);
+                } else {
+                    // The rewritten stylesheet replaces the link, keeping its media query
+                    const style = $('<style></style>').text(css);
+                    const media = $(element).attr('media');
+                    if (media) style.attr('media', media);
+                    $(element).replaceWith(style);
                 }
-            }
+            });
 
-            // Replace inline styles
-            $('style').each((i, element) => {
-                if (i < inlineStyles.length) {
-                    $(element).html(allCss);
-                }
+            $('[style]').each((_, element) => {
+                $(element).attr('style', rewrite($(element).attr('style') || ''));
             });
 
+            const allCss = cascade.join('\n');
+
             // Add Google Fonts for the new brand font
             if (newBrand.typography.primary) {
                 const fontName = newBrand.typography.primary.split(',')[0].trim();
@@ -179,6 +168,41 @@ export class WebsiteRebrander {
         }
     }
 
+    /**
+     * Lists the colors and fonts of the original brand with their replacements in the new brand
+     * @param originalBrand The original brand elements
+     * @param newBrand The new brand elements
+     * @returns The values to replace and what each replacement counts as
+     */
+    private getReplacements(
+        originalBrand: BrandElements,
+        newBrand: BrandElements
+    ): { from: string; to: string; change: 'colorReplacements' | 'fontReplacements' }[] {
+        const replacements: { from: string; to: string; change: 'colorReplacements' | 'fontReplacements' }[] = [];
+
+        if (originalBrand.colors && newBrand.colors) {
+            for (const role of ['primary', 'secondary', 'accent'] as const) {
+                const from = originalBrand.colors[role];
+                const to = newBrand.colors[role];
+                if (from && to) {
+                    replacements.push({ from, to, change: 'colorReplacements' });
+                }
+            }
+        }
+
+        if (originalBrand.typography && newBrand.typography) {
+            for (const role of ['primary', 'secondary'] as const) {
+                const from = originalBrand.typography[role];
+                const to = newBrand.typography[role];
+                if (from && to) {
+                    replacements.push({ from, to, change: 'fontReplacements' });
+                }
+            }
+        }
+
+        return replacements;
+    }
+
     /**
      * Escapes special characters in a string for use in a regular expression
      * @param string The string to escape
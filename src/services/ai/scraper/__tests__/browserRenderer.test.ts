@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { BrowserRenderer, getBrowserRendererOptions } from '../browserRenderer';
+import { toComputedCss } from '../computedStyles';
+import { parsePage } from '../pageParser';
+import { BrandAnalyzer } from '../../analyzer/brandAnalyzer';
+
+// Fixture site: a client-side app that renders from /brand.json, and a robots.txt
+const ROUTES: Record<string, { body: string; contentType: string }> = {
+  '/': { body: readFileSync(path.join(__dirname, 'fixtures/spa.html'), 'utf8'), contentType: 'text/html; charset=utf-8' },
+  '/brand.json': {
+    body: JSON.stringify({ name: 'Lumen', primary: '#6d28d9', text: '#1f2937', font: 'Poppins, sans-serif' }),
+    contentType: 'application/json',
+  },
+  '/robots.txt': { body: 'User-agent: *\nDisallow: /admin', contentType: 'text/plain' },
+};
+
+describe('getBrowserRendererOptions', () => {
+  it('is disabled without a Chromium executable', () => {
+    expect(getBrowserRendererOptions({ NODE_ENV: 'test' })).toBeNull();
+  });
+
+  it('reads the executable, extra flags and timeout', () => {
+    const options = getBrowserRendererOptions({
+      NODE_ENV: 'test',
+      CHROMIUM_EXECUTABLE_PATH: '/usr/bin/chromium',
+      CHROMIUM_ARGS: '--no-sandbox  --single-process',
+      BROWSER_RENDER_TIMEOUT: '45000',
+    });
+
+    expect(options).toMatchObject({ executablePath: '/usr/bin/chromium', args: ['--no-sandbox', '--single-process'], timeout: 45000 });
+  });
+});
+
+describe('toComputedCss', () => {
+  it('writes a rule per key element', () => {
+    const css = toComputedCss({
+      body: { color: 'rgb(31, 41, 55)', 'font-family': 'Poppins, sans-serif' },
+      button: { 'background-color': 'rgb(109, 40, 217)', 'border-radius': '' },
+    });
+
+    expect(css).toBe([
+      '/* body */ body { color: rgb(31, 41, 55); font-family: Poppins, sans-serif; }',
+      '/* button */ button { background-color: rgb(109, 40, 217); }',
+    ].join('\n'));
+  });
+});
+
+// Runs where CHROMIUM_EXECUTABLE_PATH names a Chromium build, e.g. in CI images with a browser installed
+const options = getBrowserRendererOptions();
+const describeWithBrowser = options ? describe : describe.skip;
+
+describeWithBrowser('BrowserRenderer', () => {
+  let server: http.Server;
+  let origin: string;
+  let renderer: BrowserRenderer;
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      const route = ROUTES[request.url || ''];
+      response.writeHead(route ? 200 : 404, { 'Content-Type': route?.contentType || 'text/html' });
+      response.end(route?.body || '<h1>Not found</h1>');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    renderer = new BrowserRenderer(options!);
+  });
+
+  afterAll(async () => {
+    await renderer.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('captures the DOM and CSSOM rules a client-side app renders', async () => {
+    const rendered = await renderer.render(`${origin}/`);
+    const page = parsePage(rendered.html, rendered.url);
+
+    expect(page.title).toBe('Lumen | Home');
+    expect(page.structure).toEqual({ header: true, footer: true, navigation: true, sections: 2 });
+    expect(page.css.join('\n')).toContain('.hero-button { background-color: rgb(109, 40, 217)');
+    expect(rendered.computedStyles.button).toMatchObject({ 'background-color': 'rgb(109, 40, 217)', 'border-radius': '8px' });
+    expect(rendered.computedStyles.body['font-family']).toBe('Poppins, sans-serif');
+  }, 60000);
+
+  it('gives the brand analyzer what it needs from a rendered page', async () => {
+    const rendered = await renderer.render(`${origin}/`);
+    const { links, ...content } = parsePage(rendered.html, rendered.url);
+
+    const brand = await new BrandAnalyzer().analyzeBrand({ ...content, computedStyles: rendered.computedStyles });
+
+    expect(links).toContain(`${origin}/pricing`);
+    expect(brand.name).toBe('Lumen');
+    expect(Object.values(brand.colors)).toContain('rgb(109, 40, 217)');
+    expect(brand.typography.primary).toBe('Poppins, sans-serif');
+
+    // Without rendering there is nothing to analyze
+    expect(parsePage(ROUTES['/'].body, `${origin}/`).structure.sections).toBe(0);
+  }, 60000);
+
+  it('returns the body of responses that are not HTML', async () => {
+    const rendered = await renderer.render(`${origin}/robots.txt`);
+
+    expect(rendered.html).toBe('User-agent: *\nDisallow: /admin');
+    expect(rendered.computedStyles).toEqual({});
+  }, 60000);
+
+  it('fails on error statuses', async () => {
+    await expect(renderer.render(`${origin}/missing`)).rejects.toThrow('Website returned an error: 404');
+  }, 60000);
+});
@@ -0,0 +1,33 @@
+/**
+ * @jest-environment node
+ */
+import { isPublicAddress, resolvePublicAddress } from '../publicAddress';
+
+describe('isPublicAddress', () => {
+  it('accepts addresses on the public internet', () => {
+    ['93.184.216.34', '8.8.8.8', '2606:2800:220:1:248:1893:25c8:1946'].forEach(address =>
+      expect(isPublicAddress(address)).toBe(true));
+  });
+
+  it('rejects loopback, private, link-local and reserved addresses', () => {
+    [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:169.254.169.254',
+    ].forEach(address => expect(isPublicAddress(address)).toBe(false));
+  });
+
+  it('rejects what is not an IP address', () => {
+    expect(isPublicAddress('localhost')).toBe(false);
+  });
+});
+
+describe('resolvePublicAddress', () => {
+  it('refuses hosts resolving to internal addresses', async () => {
+    await expect(resolvePublicAddress('localhost')).rejects.toMatchObject({ code: 'ERR_PRIVATE_ADDRESS' });
+    await expect(resolvePublicAddress('[::1]')).rejects.toMatchObject({ code: 'ERR_PRIVATE_ADDRESS' });
+  });
+
+  it('passes public IP addresses through without a lookup', async () => {
+    await expect(resolvePublicAddress('8.8.8.8')).resolves.toEqual({ address: '8.8.8.8', family: 4 });
+  });
+});
@@ -0,0 +1,37 @@
+import { RobotsPolicy } from '../robotsTxt';
+
+describe('RobotsPolicy', () => {
+  const robots = [
+    '# Keep crawlers out of the app',
+    'User-agent: *',
+    'Disallow: /app/',
+    'Disallow: /*.pdf$',
+    'Allow: /app/pricing',
+    '',
+    'User-agent: GPTBot',
+    'User-agent: ShadesBot',
+    'Disallow: /private',
+  ].join('\n');
+
+  it('applies the * group to crawlers without a group of their own', () => {
+    const policy = RobotsPolicy.parse(robots, 'OtherBot');
+
+    expect(policy.isAllowed('/')).toBe(true);
+    expect(policy.isAllowed('/app/settings')).toBe(false);
+    expect(policy.isAllowed('/app/pricing')).toBe(true);
+    expect(policy.isAllowed('/docs/guide.pdf')).toBe(false);
+    expect(policy.isAllowed('/docs/guide.pdf?download=1')).toBe(true);
+  });
+
+  it('prefers the group addressed to the crawler, shared by consecutive user agents', () => {
+    const policy = RobotsPolicy.parse(robots);
+
+    expect(policy.isAllowed('/app/settings')).toBe(true);
+    expect(policy.isAllowed('/private/notes')).toBe(false);
+  });
+
+  it('allows everything when there are no rules', () => {
+    expect(RobotsPolicy.parse('User-agent: *\nDisallow:').isAllowed('/anything')).toBe(true);
+    expect(RobotsPolicy.parse('<html>Not found</html>').isAllowed('/anything')).toBe(true);
+  });
+});
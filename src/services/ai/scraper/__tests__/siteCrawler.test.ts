@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+import { SiteCrawler, globToRegExp } from '../siteCrawler';
+
+const page = (title: string, links: string[]) =>
+  `<html><head><title>${title}</title></head><body>${links.map(href => `<a href="${href}">${href}</a>`).join('')}</body></html>`;
+
+// A small marketing site: home links to pricing, the blog and an external page; the blog links to its posts
+const SITE: Record<string, string> = {
+  'https://example.com/': page('Home', ['/pricing', '/blog/', 'https://other.com/', '/app/login', '/brochure.pdf', '#top']),
+  'https://example.com/pricing': page('Pricing', ['/', '/pricing#plans']),
+  'https://example.com/blog/': page('Blog', ['first-post', 'second-post']),
+  'https://example.com/blog/first-post': page('First post', ['/blog/third-post']),
+  'https://example.com/blog/second-post': page('Second post', []),
+  'https://example.com/blog/third-post': page('Third post', []),
+  'https://example.com/app/login': page('Log in', []),
+  'https://example.com/robots.txt': 'User-agent: *\nDisallow: /app/',
+};
+
+describe('SiteCrawler', () => {
+  let fetched: string[];
+  let crawler: SiteCrawler;
+
+  beforeEach(() => {
+    fetched = [];
+    crawler = new SiteCrawler(async url => {
+      fetched.push(url);
+      if (!(url in SITE)) throw new Error(`404 ${url}`);
+      return SITE[url];
+    });
+  });
+
+  it('crawls same-origin pages breadth-first up to the maximum depth', async () => {
+    const { pages, skipped } = await crawler.crawl('https://example.com/', { maxDepth: 1 });
+
+    expect(pages.map(({ path, depth }) => [path, depth])).toEqual([['/', 0], ['/pricing', 1], ['/blog/', 1]]);
+    expect(pages[1].title).toBe('Pricing');
+    expect(skipped).toEqual([
+      { url: 'https://other.com/', reason: 'cross-origin' },
+      { url: 'https://example.com/app/login', reason: 'robots' },
+    ]);
+    expect(fetched).not.toContain('https://example.com/brochure.pdf');
+  });
+
+  it('resolves relative links and follows them to deeper pages', async () => {
+    const { pages } = await crawler.crawl('https://example.com/', { maxDepth: 3 });
+
+    expect(pages.map(({ path }) => path)).toEqual([
+      '/', '/pricing', '/blog/', '/blog/first-post', '/blog/second-post', '/blog/third-post',
+    ]);
+    expect(fetched.filter(url => url === 'https://example.com/robots.txt')).toHaveLength(1);
+  });
+
+  it('stops at the page limit', async () => {
+    const { pages, skipped } = await crawler.crawl('https://example.com/', { maxDepth: 3, maxPages: 2 });
+
+    expect(pages).toHaveLength(2);
+    expect(skipped).toContainEqual({ url: 'https://example.com/blog/', reason: 'limit' });
+  });
+
+  it('filters pages with include and exclude globs', async () => {
+    const { pages, skipped } = await crawler.crawl('https://example.com/', {
+      maxDepth: 3,
+      include: ['/blog/**'],
+      exclude: ['/blog/second-*'],
+    });
+
+    expect(pages.map(({ path }) => path)).toEqual(['/', '/blog/', '/blog/first-post', '/blog/third-post']);
+    expect(skipped).toContainEqual({ url: 'https://example.com/pricing', reason: 'excluded' });
+    expect(skipped).toContainEqual({ url: 'https://example.com/blog/second-post', reason: 'excluded' });
+  });
+
+  it('ignores robots.txt and other origins when asked to', async () => {
+    const { pages, skipped } = await crawler.crawl('https://example.com/', { maxDepth: 1, respectRobotsTxt: false, sameOrigin: false });
+
+    expect(pages.map(({ path }) => path)).toContain('/app/login');
+    expect(fetched).not.toContain('https://example.com/robots.txt');
+    // other.com cannot be fetched, which only skips that page
+    expect(skipped).toEqual([{ url: 'https://other.com/', reason: 'failed' }]);
+  });
+
+  it('fails when the start page cannot be fetched', async () => {
+    await expect(crawler.crawl('https://example.com/missing')).rejects.toThrow('404 https://example.com/missing');
+  });
+
+  it('matches path globs within and across segments', () => {
+    expect(globToRegExp('/docs/*').test('/docs/intro')).toBe(true);
+    expect(globToRegExp('/docs/*').test('/docs/guides/intro')).toBe(false);
+    expect(globToRegExp('/docs/**').test('/docs/guides/intro')).toBe(true);
+    expect(globToRegExp('/v?/api').test('/v2/api')).toBe(true);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+import { AssetStore, StoredAsset, hashAsset, toAssetPath } from '@/services/assets/types';
+import { SiteSnapshotter } from '../siteSnapshotter';
+import { ScrapedContent } from '../websiteScraper';
+
+// Keeps stored assets in memory
+class MemoryAssetStore implements AssetStore {
+  readonly name = 'memory';
+  assets = new Map<string, { asset: StoredAsset; data: Buffer }>();
+
+  async put(data: Buffer, contentType: string): Promise<StoredAsset> {
+    const asset = { hash: hashAsset(data), size: data.length, contentType };
+    this.assets.set(asset.hash, { asset, data });
+    return asset;
+  }
+
+  async get(hash: string) {
+    return this.assets.get(hash) || null;
+  }
+}
+
+const FILES: Record<string, { data: string; contentType?: string }> = {
+  'https://example.com/img/logo.png': { data: 'logo', contentType: 'image/png' },
+  'https://example.com/img/hero.jpg': { data: 'hero', contentType: 'image/jpeg' },
+  'https://example.com/img/hero@2x.jpg': { data: 'hero2x', contentType: 'image/jpeg' },
+  'https://example.com/fonts/inter.woff2': { data: 'font', contentType: 'application/octet-stream' },
+  'https://example.com/js/app.js': { data: 'console.log(1)', contentType: 'text/javascript; charset=utf-8' },
+  'https://example.com/img/bg.png': { data: 'bg', contentType: 'image/png' },
+};
+
+const path = (url: string) => {
+  const { data, contentType } = FILES[url];
+  const type = /octet-stream/.test(contentType || '') ? 'font/woff2' : contentType!.split(';')[0];
+  return toAssetPath({ hash: hashAsset(Buffer.from(data)), contentType: type });
+};
+
+const page = (html: string, css: string[], url = 'https://example.com/'): ScrapedContent => ({
+  html,
+  css,
+  images: [],
+  title: 'Example',
+  description: '',
+  url,
+  structure: { header: false, footer: false, navigation: false, sections: 0 },
+});
+
+describe('SiteSnapshotter', () => {
+  let fetched: string[];
+  let store: MemoryAssetStore;
+  let snapshotter: SiteSnapshotter;
+
+  beforeEach(() => {
+    fetched = [];
+    store = new MemoryAssetStore();
+    snapshotter = new SiteSnapshotter(async url => {
+      fetched.push(url);
+      if (!(url in FILES)) throw new Error(`404 ${url}`);
+      return { data: Buffer.from(FILES[url].data), contentType: FILES[url].contentType };
+    }, store);
+  });
+
+  it('captures images, scripts and srcset candidates and rewrites their references', async () => {
+    const html = '<html><head><script src="/js/app.js" integrity="sha384-x"></script></head><body>'
+      + '<img src="img/logo.png" srcset="img/hero.jpg 1x, img/hero@2x.jpg 2x"><img src="data:image/gif;base64,R0lG"></body></html>';
+
+    const result = await snapshotter.snapshot({ ...page(html, []), images: ['https://example.com/img/logo.png'] });
+
+    expect(result.html).toContain(`<script src="${path('https://example.com/js/app.js')}" integrity="sha384-x">`);
+    expect(result.html).toContain(`src="${path('https://example.com/img/logo.png')}"`);
+    expect(result.html).toContain(`srcset="${path('https://example.com/img/hero.jpg')} 1x, ${path('https://example.com/img/hero@2x.jpg')} 2x"`);
+    expect(result.html).toContain('src="data:image/gif;base64,R0lG"');
+    expect(result.images).toEqual([path('https://example.com/img/logo.png')]);
+  });
+
+  it('stores inlined stylesheets and the fonts and images they reference', async () => {
+    const css = '@font-face { font-family: Inter; src: url(https://example.com/fonts/inter.woff2) format("woff2"); }';
+    const html = '<html><head><link rel="stylesheet" href="/css/main.css" integrity="sha384-y">'
+      + '<style>.hero { background: url(img/bg.png); }</style></head><body></body></html>';
+
+    const result = await snapshotter.snapshot(page(html, [css, '.hero { background: url(https://example.com/img/bg.png); }']));
+
+    const fontPath = path('https://example.com/fonts/inter.woff2');
+    expect(fontPath).toMatch(/\.woff2$/);
+    expect(result.css[0]).toContain(`url(${fontPath})`);
+    expect(result.css[1]).toBe(`.hero { background: url(${path('https://example.com/img/bg.png')}); }`);
+    expect(result.html).toContain(`<style>.hero { background: url(${path('https://example.com/img/bg.png')}); }</style>`);
+
+    const stylesheet = snapshotter.getAssets().find(asset => asset.url === 'https://example.com/css/main.css')!;
+    expect(stylesheet.contentType).toBe('text/css');
+    expect(store.assets.get(stylesheet.hash)!.data.toString()).toBe(result.css[0]);
+    expect(result.html).toContain(`<link rel="stylesheet" href="${stylesheet.path}">`);
+  });
+
+  it('rewrites url() references in style attributes against <base href>', async () => {
+    const html = '<html><head><base href="https://example.com/img/"></head><body>'
+      + '<div style="background-image: url(\'bg.png\')"><a href="../pricing">Pricing</a></div></body></html>';
+
+    const result = await snapshotter.snapshot(page(html, [], 'https://example.com/about'));
+
+    expect(result.html).toContain(`style="background-image: url('${path('https://example.com/img/bg.png')}')"`);
+    expect(result.html).not.toContain('<base');
+    expect(result.html).toContain('href="https://example.com/pricing"');
+  });
+
+  it('keeps the URL of assets that cannot be fetched and reports them', async () => {
+    const html = '<html><head></head><body><img src="https://cdn.example.com/missing.png"></body></html>';
+
+    const result = await snapshotter.snapshot(page(html, []));
+
+    expect(result.html).toContain('src="https://cdn.example.com/missing.png"');
+    expect(snapshotter.getFailures()).toEqual(['https://cdn.example.com/missing.png']);
+  });
+
+  it('downloads assets shared by several pages once', async () => {
+    const html = '<html><head></head><body><img src="/img/logo.png"></body></html>';
+
+    await snapshotter.snapshot(page(html, []));
+    await snapshotter.snapshot(page(html, [], 'https://example.com/pricing'));
+
+    expect(fetched).toEqual(['https://example.com/img/logo.png']);
+    expect(snapshotter.getAssets()).toHaveLength(1);
+    expect(snapshotter.getAssets()[0]).toMatchObject({ url: 'https://example.com/img/logo.png', size: 4, contentType: 'image/png' });
+  });
+});
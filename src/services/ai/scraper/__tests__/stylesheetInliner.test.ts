@@ -0,0 +1,83 @@
+import { StylesheetInliner, isStylesheetUrl } from '../stylesheetInliner';
+
+const STYLESHEETS: Record<string, string> = {
+  'https://example.com/css/main.css': '@import "base.css";\n@import url(print.css) print;\n.hero { background: url("../img/hero.png"); color: #1a73e8; }',
+  'https://example.com/css/base.css': 'body { font-family: Inter, sans-serif; } .icon { background: url(data:image/png;base64,AAAA); }',
+  'https://example.com/css/print.css': 'nav { display: none; }',
+  'https://example.com/css/a.css': '@import "b.css";\n.a { color: red; }',
+  'https://example.com/css/b.css': '@import "a.css";\n.b { color: blue; }',
+  'https://example.com/css/layered.css': '@import url(theme.css) layer(theme);\n.c { color: green; }',
+};
+
+describe('StylesheetInliner', () => {
+  let fetched: string[];
+  let inliner: StylesheetInliner;
+
+  beforeEach(() => {
+    fetched = [];
+    inliner = new StylesheetInliner(async url => {
+      fetched.push(url);
+      if (!(url in STYLESHEETS)) throw new Error(`404 ${url}`);
+      return STYLESHEETS[url];
+    });
+  });
+
+  it('replaces linked stylesheets with their text, inlining @import chains', async () => {
+    const [css] = await inliner.inline(['https://example.com/css/main.css'], 'https://example.com/');
+
+    expect(css).toContain('body { font-family: Inter, sans-serif; }');
+    expect(css).toContain('@media print {\nnav { display: none; }\n}');
+    expect(css).not.toContain('@import');
+    expect(css.indexOf('font-family')).toBeLessThan(css.indexOf('.hero'));
+  });
+
+  it('makes url() references absolute against the stylesheet they appear in', async () => {
+    const [css] = await inliner.inline(['https://example.com/css/main.css'], 'https://example.com/');
+
+    expect(css).toContain('url("https://example.com/img/hero.png")');
+    expect(css).toContain('url(data:image/png;base64,AAAA)');
+  });
+
+  it('resolves <style> blocks against the page', async () => {
+    const [css] = await inliner.inline(['@import "css/print.css" print;\n.logo { background: url(logo.svg); }'], 'https://example.com/');
+
+    expect(fetched).toEqual(['https://example.com/css/print.css']);
+    expect(css).toContain('@media print {\nnav { display: none; }\n}');
+    expect(css).toContain('url(https://example.com/logo.svg)');
+  });
+
+  it('keeps @import rules whose stylesheet cannot be fetched', async () => {
+    const [css] = await inliner.inline(['@import "missing.css";\n.a { color: red; }'], 'https://example.com/');
+
+    expect(css).toBe('@import "missing.css";\n.a { color: red; }');
+  });
+
+  it('breaks import cycles', async () => {
+    const [css] = await inliner.inline(['https://example.com/css/a.css'], 'https://example.com/');
+
+    expect(css).toContain('.b { color: blue; }');
+    expect(css).toContain('/* @import cycle: https://example.com/css/a.css */');
+  });
+
+  it('leaves layered imports for the browser without fetching them', async () => {
+    const [css] = await inliner.inline(['https://example.com/css/layered.css'], 'https://example.com/');
+
+    expect(css).toContain('@import url(https://example.com/css/theme.css) layer(theme);');
+    expect(fetched).not.toContain('https://example.com/css/theme.css');
+  });
+
+  it('keeps the URL of stylesheets that cannot be fetched', async () => {
+    const css = await inliner.inline(['https://cdn.example.com/missing.css', '.a { color: red; }'], 'https://example.com/');
+
+    expect(css).toEqual(['https://cdn.example.com/missing.css', '.a { color: red; }']);
+    expect(isStylesheetUrl(css[0])).toBe(true);
+    expect(isStylesheetUrl(css[1])).toBe(false);
+  });
+
+  it('downloads each stylesheet once across pages', async () => {
+    await inliner.inline(['https://example.com/css/base.css'], 'https://example.com/');
+    await inliner.inline(['https://example.com/css/base.css'], 'https://example.com/pricing');
+
+    expect(fetched).toEqual(['https://example.com/css/base.css']);
+  });
+});
@@ -0,0 +1,183 @@
+import puppeteer, { Browser } from 'puppeteer-core';
+import { COMPUTED_PROPERTIES, ComputedStyles, KEY_ELEMENTS } from './computedStyles';
+import { FetchError, toStatusError } from './fetchPipeline';
+
+/**
+ * A page as the browser rendered it
+ */
+export interface RenderedPage {
+    // The URL after redirects
+    url: string;
+    // The rendered DOM; the body text for responses that are not HTML
+    html: string;
+    computedStyles: ComputedStyles;
+}
+
+export interface BrowserRendererOptions {
+    executablePath: string;
+    // Extra Chromium flags, e.g. --no-sandbox in containers running as root
+    args: string[];
+    // Milliseconds a page may take to load and settle
+    timeout: number;
+    viewport: { width: number; height: number };
+}
+
+/**
+ * Read the renderer configuration from the environment
+ * @param env The environment to read, process.env by default
+ * @returns The options, or null when CHROMIUM_EXECUTABLE_PATH does not name a browser to render with
+ */
+export function getBrowserRendererOptions(env: NodeJS.ProcessEnv = process.env): BrowserRendererOptions | null {
+    if (!env.CHROMIUM_EXECUTABLE_PATH) {
+        return null;
+    }
+
+    return {
+        executablePath: env.CHROMIUM_EXECUTABLE_PATH,
+        args: (env.CHROMIUM_ARGS || '').split(/\s+/).filter(Boolean),
+        timeout: Number(env.BROWSER_RENDER_TIMEOUT) || 30000,
+        viewport: { width: 1280, height: 800 }
+    };
+}
+
+/**
+ * Runs in the page. Rules inserted through the CSSOM, as CSS-in-JS libraries do in production,
+ * never reach the DOM, so they are written into their <style> elements and adopted stylesheets
+ * are added as <style> elements; then the computed styles of the key elements are read.
+ * Kept free of syntax the compiler would rewrite into helpers, since only its source reaches the page.
+ */
+function capturePage(elements: Record<string, string>, properties: string[]): ComputedStyles {
+    const styleElements = Array.from(document.querySelectorAll('style'));
+    for (let i = 0; i < styleElements.length; i++) {
+        const style = styleElements[i];
+        if (!style.sheet) continue;
+
+        const parsed = new CSSStyleSheet();
+        parsed.replaceSync(style.textContent || '');
+        if (parsed.cssRules.length !== style.sheet.cssRules.length) {
+            style.textContent = Array.from(style.sheet.cssRules).map(rule => rule.cssText).join('\n');
+        }
+    }
+
+    const adopted = document.adoptedStyleSheets || [];
+    for (let i = 0; i < adopted.length; i++) {
+        const style = document.createElement('style');
+        style.textContent = Array.from(adopted[i].cssRules).map(rule => rule.cssText).join('\n');
+        document.head.appendChild(style);
+    }
+
+    const computedStyles: ComputedStyles = {};
+    const names = Object.keys(elements);
+    for (let i = 0; i < names.length; i++) {
+        const element = Array.from(document.querySelectorAll(elements[names[i]])).find(candidate => {
+            const rect = candidate.getBoundingClientRect();
+            return rect.width > 0 && rect.height > 0;
+        });
+        if (!element) continue;
+
+        const computed = getComputedStyle(element);
+        const values: Record<string, string> = {};
+        for (let j = 0; j < properties.length; j++) {
+            values[properties[j]] = computed.getPropertyValue(properties[j]);
+        }
+        computedStyles[names[i]] = values;
+    }
+
+    return computedStyles;
+}
+
+/**
+ * Renders pages in headless Chromium, for single-page apps whose HTML is an empty root element
+ * until their scripts run. One browser serves every page rendered until close() is called.
+ */
+export class BrowserRenderer {
+    private options: BrowserRendererOptions;
+    private browser: Promise<Browser> | null = null;
+
+    /**
+     * @param options The browser to launch and how long pages may take
+     */
+    constructor(options: BrowserRendererOptions) {
+        this.options = options;
+    }
+
+    /**
+     * Load a page, wait until its network is idle and capture the rendered DOM and the computed styles of key elements
+     * @param url The URL of the page
+     * @returns The rendered page; responses that are not HTML, such as robots.txt, return their body as is
+     * @throws FetchError when the page fails to load, times out or responds with an error status
+     */
+    public async render(url: string): Promise<RenderedPage> {
+        const browser = await this.getBrowser();
+        const page = await browser.newPage();
+
+        try {
+            await page.setViewport(this.options.viewport);
+
+            // networkidle2 rather than networkidle0: analytics beacons and long polling keep a connection or two open
+            const response = await page.goto(url, { waitUntil: 'networkidle2', timeout: this.options.timeout })
+                .catch(error => {
+                    throw this.toFetchError(url, error);
+                });
+            if (!response) {
+                throw new FetchError(`No response from ${url}`, 'network', url);
+            }
+            if (!response.ok()) {
+                throw toStatusError(url, response.status());
+            }
+
+            if (!/html/i.test(response.headers()['content-type'] || '')) {
+                return { url: page.url(), html: await response.text(), computedStyles: {} };
+            }
+
+            const computedStyles = await page.evaluate(capturePage, KEY_ELEMENTS, COMPUTED_PROPERTIES);
+            return { url: page.url(), html: await page.content(), computedStyles };
+        } finally {
+            await page.close();
+        }
+    }
+
+    /**
+     * Close the browser
+     */
+    public async close(): Promise<void> {
+        if (!this.browser) return;
+
+        const browser = this.browser;
+        this.browser = null;
+        await (await browser).close();
+    }
+
+    // Navigation errors carry Chromium's net:: error codes
+    private toFetchError(url: string, error: unknown): FetchError {
+        const host = new URL(url).host;
+        const message = error instanceof Error ? error.message : String(error);
+
+        if (error instanceof Error && error.name === 'TimeoutError') {
+            return new FetchError(`${url} did not finish loading within ${this.options.timeout} ms`, 'timeout', url);
+        }
+        if (/net::ERR_NAME_NOT_RESOLVED/.test(message)) {
+            return new FetchError(`Could not resolve ${host}`, 'dns', url);
+        }
+        if (/net::ERR_(CERT_|SSL_)/.test(message)) {
+            return new FetchError(`Secure connection to ${host} failed: ${message}`, 'tls', url);
+        }
+        return new FetchError(`Could not load ${url}: ${message}`, 'network', url);
+    }
+
+    private getBrowser(): Promise<Browser> {
+        if (!this.browser) {
+            this.browser = puppeteer.launch({
+                executablePath: this.options.executablePath,
+                headless: true,
+                args: ['--disable-dev-shm-usage', ...this.options.args],
+                timeout: this.options.timeout
+            });
+            // A failed launch is retried by the next render
+            this.browser.catch(() => {
+                this.browser = null;
+            });
+        }
+        return this.browser;
+    }
+}
@@ -0,0 +1,42 @@
+/**
+ * Computed values of brand-relevant style properties, by key element name
+ */
+export type ComputedStyles = Record<string, Record<string, string>>;
+
+// The first visible element matching each selector stands for that part of the page
+export const KEY_ELEMENTS: Record<string, string> = {
+    body: 'body',
+    header: 'header, [role="banner"]',
+    navigation: 'nav, [role="navigation"]',
+    heading: 'h1',
+    link: 'main a[href], a[href]',
+    button: 'button, [role="button"], a[class*="btn"], a[class*="button"]',
+    footer: 'footer, [role="contentinfo"]'
+};
+
+export const COMPUTED_PROPERTIES = [
+    'color',
+    'background-color',
+    'font-family',
+    'font-size',
+    'font-weight',
+    'border-radius',
+    'border-color'
+];
+
+/**
+ * Write computed styles as CSS rules, one per key element, so they can be read like the rest of the cascade
+ * @param computedStyles The computed styles of a rendered page
+ * @returns The CSS text
+ */
+export function toComputedCss(computedStyles: ComputedStyles): string {
+    return Object.entries(computedStyles)
+        .map(([element, styles]) => {
+            const declarations = Object.entries(styles)
+                .filter(([, value]) => value)
+                .map(([property, value]) => `${property}: ${value};`)
+                .join(' ');
+            return `/* ${element} */ ${KEY_ELEMENTS[element]?.split(',')[0] || element} { ${declarations} }`;
+        })
+        .join('\n');
+}
@@ -0,0 +1,70 @@
+import * as cheerio from 'cheerio';
+import type { ScrapedContent } from './websiteScraper';
+
+/**
+ * A scraped page with the absolute URLs of the pages it links to
+ */
+export interface ParsedPage extends ScrapedContent {
+    links: string[];
+}
+
+// Elements contributing to a page's cascade, matched in document order
+export const STYLESHEET_SELECTOR = 'link[rel="stylesheet"][href], style';
+
+/**
+ * Extract the stylesheets, images, metadata, structure and links of an HTML page
+ * @param html The page's HTML
+ * @param url The URL the page was fetched from; relative URLs resolve against it
+ * @returns The parsed page
+ */
+export function parsePage(html: string, url: string): ParsedPage {
+    const $ = cheerio.load(html);
+
+    // Honour <base href>, which changes what relative URLs resolve against
+    const base = resolveUrl($('base[href]').attr('href') || '', url) || url;
+
+    // One entry per stylesheet in cascade order: the URL of each linked stylesheet and the text of each <style> block
+    const css: string[] = [];
+    $(STYLESHEET_SELECTOR).each((_, element) => {
+        css.push(element.tagName === 'style'
+            ? $(element).html() || ''
+            : resolveUrl($(element).attr('href'), base) || '');
+    });
+
+    const images: string[] = [];
+    $('img').each((_, element) => {
+        const src = resolveUrl($(element).attr('src'), base);
+        if (src) images.push(src);
+    });
+
+    const links = new Set<string>();
+    $('a[href]').each((_, element) => {
+        const href = resolveUrl($(element).attr('href'), base);
+        if (href && /^https?:/.test(href)) links.add(href);
+    });
+
+    return {
+        html,
+        css,
+        images,
+        title: $('title').text() || '',
+        description: $('meta[name="description"]').attr('content') || '',
+        url,
+        structure: {
+            header: $('header').length > 0 || $('div[class*="header"]').length > 0,
+            footer: $('footer').length > 0 || $('div[class*="footer"]').length > 0,
+            navigation: $('nav').length > 0 || $('div[class*="nav"]').length > 0,
+            sections: $('section').length + $('div[class*="section"]').length
+        },
+        links: Array.from(links)
+    };
+}
+
+function resolveUrl(href: string | undefined, base: string): string | null {
+    if (!href) return null;
+    try {
+        return new URL(href, base).toString();
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,73 @@
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+
+// Loopback, private, link-local (where cloud metadata services live), carrier-grade NAT,
+// documentation, multicast and reserved ranges. IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+const NON_PUBLIC_SUBNETS: [string, number, 'ipv4' | 'ipv6'][] = [
+    ['0.0.0.0', 8, 'ipv4'],
+    ['10.0.0.0', 8, 'ipv4'],
+    ['100.64.0.0', 10, 'ipv4'],
+    ['127.0.0.0', 8, 'ipv4'],
+    ['169.254.0.0', 16, 'ipv4'],
+    ['172.16.0.0', 12, 'ipv4'],
+    ['192.0.0.0', 24, 'ipv4'],
+    ['192.0.2.0', 24, 'ipv4'],
+    ['192.168.0.0', 16, 'ipv4'],
+    ['198.18.0.0', 15, 'ipv4'],
+    ['198.51.100.0', 24, 'ipv4'],
+    ['203.0.113.0', 24, 'ipv4'],
+    ['224.0.0.0', 4, 'ipv4'],
+    ['240.0.0.0', 4, 'ipv4'],
+    ['::', 128, 'ipv6'],
+    ['::1', 128, 'ipv6'],
+    ['64:ff9b::', 96, 'ipv6'],
+    ['100::', 64, 'ipv6'],
+    ['2001:db8::', 32, 'ipv6'],
+    ['fc00::', 7, 'ipv6'],
+    ['fe80::', 10, 'ipv6'],
+    ['ff00::', 8, 'ipv6'],
+];
+
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix, type] of NON_PUBLIC_SUBNETS) {
+    NON_PUBLIC.addSubnet(network, prefix, type);
+}
+
+/**
+ * Raised for hosts that are, or resolve to, addresses outside the public internet
+ */
+export class PrivateAddressError extends Error {
+    public readonly code = 'ERR_PRIVATE_ADDRESS';
+
+    constructor(host: string) {
+        super(`${host} is not a public address`);
+        this.name = 'PrivateAddressError';
+    }
+}
+
+/**
+ * Whether an IP address is routable on the public internet
+ * @param address An IPv4 or IPv6 address
+ * @returns false for private, loopback, link-local and reserved addresses, and for anything that is not an IP address
+ */
+export function isPublicAddress(address: string): boolean {
+    const family = isIP(address);
+    return family !== 0 && !NON_PUBLIC.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolve a host, refusing it when any of its addresses is not public
+ * @param hostname A host name or IP address; IPv6 addresses may be bracketed as in URLs
+ * @returns The first address the host resolves to
+ * @throws PrivateAddressError when the host is or resolves to a non-public address
+ */
+export async function resolvePublicAddress(hostname: string): Promise<{ address: string; family: number }> {
+    const host = hostname.replace(/^\[(.*)\]$/, '$1');
+    const addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true });
+
+    // Every address is checked, so a host cannot pair a public address with an internal one
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+        throw new PrivateAddressError(hostname);
+    }
+    return addresses[0];
+}
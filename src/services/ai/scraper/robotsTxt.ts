@@ -0,0 +1,91 @@
+// Product token the crawler identifies itself with in robots.txt groups
+export const CRAWLER_USER_AGENT = 'ShadesBot';
+
+interface RobotsRule {
+    allow: boolean;
+    pattern: string;
+}
+
+/**
+ * The Allow and Disallow rules of a robots.txt that apply to one crawler, matched
+ * as RFC 9309 describes: the longest matching pattern wins and Allow wins ties
+ */
+export class RobotsPolicy {
+    private rules: RobotsRule[];
+
+    constructor(rules: RobotsRule[] = []) {
+        this.rules = rules;
+    }
+
+    /**
+     * Parse a robots.txt, keeping the group addressed to the user agent or, if there is none, the `*` group
+     * @param text The robots.txt body
+     * @param userAgent The crawler's product token
+     * @returns The policy of the matching group; an empty policy allows everything
+     */
+    public static parse(text: string, userAgent: string = CRAWLER_USER_AGENT): RobotsPolicy {
+        const groups: { agents: string[]; rules: RobotsRule[] }[] = [];
+        let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+
+        for (const line of text.split(/\r?\n/)) {
+            const match = line.replace(/#.*$/, '').match(/^\s*([A-Za-z-]+)\s*:\s*(.*?)\s*$/);
+            if (!match) continue;
+
+            const [, field, value] = match;
+            switch (field.toLowerCase()) {
+                case 'user-agent':
+                    // Consecutive user-agent lines share the group that follows them
+                    if (!current || current.rules.length > 0) {
+                        current = { agents: [], rules: [] };
+                        groups.push(current);
+                    }
+                    current.agents.push(value.toLowerCase());
+                    break;
+                case 'allow':
+                case 'disallow':
+                    // An empty Disallow allows everything, so it adds no rule
+                    if (current && value) {
+                        current.rules.push({ allow: field.toLowerCase() === 'allow', pattern: value });
+                    }
+                    break;
+            }
+        }
+
+        const agent = userAgent.toLowerCase();
+        const group = groups.find(candidate => candidate.agents.some(name => name !== '*' && agent.includes(name)))
+            || groups.find(candidate => candidate.agents.includes('*'));
+
+        return new RobotsPolicy(group?.rules || []);
+    }
+
+    /**
+     * Check whether a path may be crawled
+     * @param path The URL path with its query string
+     * @returns True unless the longest matching rule disallows the path
+     */
+    public isAllowed(path: string): boolean {
+        let winner: RobotsRule | null = null;
+
+        for (const rule of this.rules) {
+            if (!this.matches(rule.pattern, path)) continue;
+            if (!winner
+                || rule.pattern.length > winner.pattern.length
+                || (rule.pattern.length === winner.pattern.length && rule.allow)) {
+                winner = rule;
+            }
+        }
+
+        return winner ? winner.allow : true;
+    }
+
+    // `*` matches any run of characters and a trailing `$` anchors the pattern to the end of the path
+    private matches(pattern: string, path: string): boolean {
+        const anchored = pattern.endsWith('$');
+        const body = (anchored ? pattern.slice(0, -1) : pattern)
+            .split('*')
+            .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+            .join('.*');
+
+        return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+    }
+}
@@ -0,0 +1,185 @@
+import { ParsedPage, parsePage } from './pageParser';
+import { FetchError, FetchFailure } from './fetchPipeline';
+import { RobotsPolicy } from './robotsTxt';
+import type { ScrapedContent } from './websiteScraper';
+
+/**
+ * Limits of a crawl
+ */
+export interface CrawlOptions {
+    // Links followed from the start page; 0 crawls the start page only
+    maxDepth: number;
+    maxPages: number;
+    // Only follow links to the start page's origin
+    sameOrigin: boolean;
+    // Path globs a page must match to be crawled; every path matches when empty
+    include: string[];
+    // Path globs of pages never crawled
+    exclude: string[];
+    respectRobotsTxt: boolean;
+}
+
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = {
+    maxDepth: 2,
+    maxPages: 20,
+    sameOrigin: true,
+    include: [],
+    exclude: [],
+    respectRobotsTxt: true
+};
+
+// Upper bound on maxPages, so a whole site still fits in one Website document with its stylesheets stored apart
+export const MAX_CRAWL_PAGES = 50;
+
+/**
+ * A crawled page with its site path and how many links away from the start page it was found
+ */
+export interface CrawledPage extends ScrapedContent {
+    path: string;
+    depth: number;
+}
+
+export type CrawlSkipReason = 'robots' | 'excluded' | 'cross-origin' | 'limit' | 'failed';
+
+export interface CrawlResult {
+    pages: CrawledPage[];
+    // Linked pages that were not crawled and why; pages that failed to fetch say how
+    skipped: { url: string; reason: CrawlSkipReason; failure?: FetchFailure }[];
+}
+
+/**
+ * Fetches the body of a URL, throwing when it cannot be fetched
+ */
+export type PageFetcher = (url: string) => Promise<string>;
+
+// Links to these files are downloads, not pages
+const NON_PAGE_EXTENSIONS = /\.(pdf|zip|gz|tar|dmg|exe|png|jpe?g|gif|webp|svg|ico|mp3|mp4|mov|webm|css|js|json|xml|txt)$/i;
+
+/**
+ * Convert a path glob to a regular expression: `**` matches across slashes, `*` within one segment
+ * and `?` one character, e.g. `/blog/**` matches every post and `/docs/*` the top-level docs pages
+ */
+export function globToRegExp(glob: string): RegExp {
+    const source = glob.split(/(\*\*|\*|\?)/).map(part => {
+        if (part === '**') return '.*';
+        if (part === '*') return '[^/]*';
+        if (part === '?') return '[^/]';
+        return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }).join('');
+
+    return new RegExp(`^${source}$`);
+}
+
+export class SiteCrawler {
+    private fetchPage: PageFetcher;
+    private fetchRobots: PageFetcher;
+
+    /**
+     * @param fetchPage Fetches page HTML
+     * @param fetchRobots Fetches the site's robots.txt; fetchPage by default
+     */
+    constructor(fetchPage: PageFetcher, fetchRobots: PageFetcher = fetchPage) {
+        this.fetchPage = fetchPage;
+        this.fetchRobots = fetchRobots;
+    }
+
+    /**
+     * Crawl a site breadth-first from a start page, following links until the depth or page limit is reached.
+     * The start page is always crawled; the limits, globs and robots.txt apply to the pages it leads to.
+     * @param startUrl The first page to crawl
+     * @param options Crawl limits; defaults apply to omitted fields
+     * @returns The crawled pages in the order they were found, and the links that were skipped
+     * @throws Error when the start page cannot be fetched
+     */
+    public async crawl(startUrl: string, options: Partial<CrawlOptions> = {}): Promise<CrawlResult> {
+        const settings = { ...DEFAULT_CRAWL_OPTIONS, ...options };
+        const maxPages = Math.min(Math.max(settings.maxPages, 1), MAX_CRAWL_PAGES);
+        const include = settings.include.map(globToRegExp);
+        const exclude = settings.exclude.map(globToRegExp);
+        const origin = new URL(startUrl).origin;
+        const robots = new Map<string, Promise<RobotsPolicy>>();
+
+        const pages: CrawledPage[] = [];
+        const skipped: CrawlResult['skipped'] = [];
+        const seen = new Set<string>([this.normalize(startUrl)]);
+        let queue: { url: string; depth: number }[] = [{ url: startUrl, depth: 0 }];
+
+        while (queue.length > 0) {
+            const next: typeof queue = [];
+
+            for (const { url, depth } of queue) {
+                if (pages.length >= maxPages) {
+                    skipped.push({ url, reason: 'limit' });
+                    continue;
+                }
+
+                let page: ParsedPage;
+                try {
+                    page = parsePage(await this.fetchPage(url), url);
+                } catch (error) {
+                    if (depth === 0) {
+                        throw error;
+                    }
+                    skipped.push(error instanceof FetchError
+                        ? { url, reason: 'failed', failure: error.reason }
+                        : { url, reason: 'failed' });
+                    continue;
+                }
+
+                const { links, ...content } = page;
+                pages.push({ ...content, path: this.toPath(url), depth });
+
+                if (depth >= settings.maxDepth) continue;
+
+                for (const link of links) {
+                    const normalized = this.normalize(link);
+                    if (seen.has(normalized)) continue;
+                    seen.add(normalized);
+
+                    const target = new URL(normalized);
+                    if (NON_PAGE_EXTENSIONS.test(target.pathname)) continue;
+
+                    const path = this.toPath(normalized);
+                    if (settings.sameOrigin && target.origin !== origin) {
+                        skipped.push({ url: normalized, reason: 'cross-origin' });
+                    } else if (exclude.some(glob => glob.test(target.pathname))
+                        || (include.length > 0 && !include.some(glob => glob.test(target.pathname)))) {
+                        skipped.push({ url: normalized, reason: 'excluded' });
+                    } else if (settings.respectRobotsTxt && !(await this.getRobots(robots, target.origin)).isAllowed(path)) {
+                        skipped.push({ url: normalized, reason: 'robots' });
+                    } else {
+                        next.push({ url: normalized, depth: depth + 1 });
+                    }
+                }
+            }
+
+            queue = next;
+        }
+
+        return { pages, skipped };
+    }
+
+    /**
+     * Fetch an origin's robots.txt once per crawl; a missing or unreadable file allows everything
+     */
+    private getRobots(cache: Map<string, Promise<RobotsPolicy>>, origin: string): Promise<RobotsPolicy> {
+        if (!cache.has(origin)) {
+            cache.set(origin, this.fetchRobots(`${origin}/robots.txt`)
+                .then(text => RobotsPolicy.parse(text))
+                .catch(() => new RobotsPolicy()));
+        }
+        return cache.get(origin)!;
+    }
+
+    // Fragments address parts of the same page
+    private normalize(url: string): string {
+        const parsed = new URL(url);
+        parsed.hash = '';
+        return parsed.toString();
+    }
+
+    private toPath(url: string): string {
+        const { pathname, search } = new URL(url);
+        return `${pathname}${search}`;
+    }
+}
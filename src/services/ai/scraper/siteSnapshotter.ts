@@ -0,0 +1,223 @@
+import * as cheerio from 'cheerio';
+import { AssetStore, StoredAsset, contentTypeFromPath, toAssetPath } from '@/services/assets/types';
+import { STYLESHEET_SELECTOR } from './pageParser';
+import { isStylesheetUrl, mapCssUrls } from './stylesheetInliner';
+import type { ScrapedContent } from './websiteScraper';
+
+/**
+ * A downloaded asset; servers that send no content type leave it to the file extension
+ */
+export interface FetchedAsset {
+    data: Buffer;
+    contentType?: string;
+}
+
+/**
+ * Fetches the bytes of an asset, throwing when it cannot be fetched
+ */
+export type AssetFetcher = (url: string) => Promise<FetchedAsset>;
+
+/**
+ * A captured asset: where it came from and where the app now serves it
+ */
+export interface SnapshotAsset extends StoredAsset {
+    url: string;
+    path: string;
+}
+
+// Larger files (videos, mostly) keep their original URL
+export const MAX_ASSET_BYTES = 10 * 1024 * 1024;
+
+// Attributes holding the URL of an asset the page loads; srcset attributes list several
+const ASSET_ATTRIBUTES: { selector: string; attribute: string }[] = [
+    { selector: 'img[src], input[type="image"][src], script[src], source[src], video[src], audio[src], track[src]', attribute: 'src' },
+    { selector: 'img[srcset], source[srcset]', attribute: 'srcset' },
+    { selector: 'video[poster]', attribute: 'poster' },
+    { selector: 'link[rel~="icon"][href], link[rel="apple-touch-icon"][href], link[rel="preload"][href], link[rel="modulepreload"][href]', attribute: 'href' },
+];
+
+/**
+ * Captures the images, fonts, stylesheets and scripts a scraped page loads into an asset store
+ * and points the page at the stored copies, so it renders the same after the source site changes
+ * or starts blocking hotlinks. Assets shared by several pages are downloaded once per snapshotter.
+ */
+export class SiteSnapshotter {
+    private fetchAsset: AssetFetcher;
+    private store: AssetStore;
+    private captures = new Map<string, Promise<SnapshotAsset | null>>();
+    private assets = new Map<string, SnapshotAsset>();
+    private failures = new Set<string>();
+
+    /**
+     * @param fetchAsset Downloads the assets pages reference
+     * @param store Stores the downloaded assets
+     */
+    constructor(fetchAsset: AssetFetcher, store: AssetStore) {
+        this.fetchAsset = fetchAsset;
+        this.store = store;
+    }
+
+    /**
+     * Capture a page's assets and rewrite its references to them
+     * @param content The scraped page, with its stylesheets inlined
+     * @returns The page with its HTML, CSS and image list pointing at the stored assets;
+     * references that could not be captured keep their original URL
+     */
+    public async snapshot<T extends ScrapedContent>(content: T): Promise<T> {
+        const $ = cheerio.load(content.html);
+        const base = this.toAbsolute($('base[href]').attr('href') || '', content.url) || content.url;
+
+        // Inlined stylesheets already have absolute references; <style> blocks are relative to the page
+        const css: string[] = [];
+        for (const entry of content.css) {
+            css.push(isStylesheetUrl(entry) ? entry : await this.rewriteCss(entry, base));
+        }
+
+        // Entries of css pair with the page's stylesheets in document order, as the rebrander pairs them
+        const stylesheets = $(STYLESHEET_SELECTOR).toArray();
+        const aligned = stylesheets.length === content.css.length;
+
+        for (let i = 0; i < stylesheets.length; i++) {
+            const element = stylesheets[i];
+            const inlined = aligned && !isStylesheetUrl(css[i]) ? css[i] : null;
+
+            if (element.tagName === 'style') {
+                $(element).text(inlined ?? await this.rewriteCss($(element).html() || '', base));
+                continue;
+            }
+
+            const href = this.toAbsolute($(element).attr('href') || '', base);
+            if (!href) continue;
+
+            // A linked stylesheet is replaced by its inlined text, which no longer matches its integrity hash
+            const asset = inlined !== null
+                ? this.record(href, await this.store.put(Buffer.from(inlined), 'text/css'))
+                : await this.capture(href);
+            if (asset) {
+                $(element).attr('href', asset.path).removeAttr('integrity');
+            }
+        }
+
+        for (const { selector, attribute } of ASSET_ATTRIBUTES) {
+            for (const element of $(selector).toArray()) {
+                const value = $(element).attr(attribute) || '';
+                $(element).attr(attribute, attribute === 'srcset'
+                    ? await this.rewriteSrcset(value, base)
+                    : await this.rewriteUrl(value, base));
+            }
+        }
+
+        for (const element of $('[style]').toArray()) {
+            $(element).attr('style', await this.rewriteCss($(element).attr('style') || '', base));
+        }
+
+        // Stored assets are served from the app's origin, which a <base> pointing at the source site would override;
+        // links keep pointing at the source site
+        if ($('base[href]').length > 0) {
+            $('a[href], area[href], form[action]').each((_, element) => {
+                const attribute = element.tagName === 'form' ? 'action' : 'href';
+                const url = this.toAbsolute($(element).attr(attribute) || '', base);
+                if (url) $(element).attr(attribute, url);
+            });
+            $('base[href]').remove();
+        }
+
+        const images: string[] = [];
+        for (const image of content.images) {
+            images.push((await this.capture(image))?.path || image);
+        }
+
+        return { ...content, html: $.html(), css, images };
+    }
+
+    /**
+     * Every asset captured so far, one entry per source URL
+     */
+    public getAssets(): SnapshotAsset[] {
+        return Array.from(this.assets.values());
+    }
+
+    /**
+     * URLs of assets that could not be captured
+     */
+    public getFailures(): string[] {
+        return Array.from(this.failures);
+    }
+
+    private async rewriteCss(css: string, baseUrl: string): Promise<string> {
+        const paths = new Map<string, string>();
+        const urls: string[] = [];
+        mapCssUrls(css, reference => {
+            const url = this.toAbsolute(reference, baseUrl);
+            if (url) urls.push(url);
+            return null;
+        });
+
+        for (const url of urls) {
+            const asset = await this.capture(url);
+            if (asset) paths.set(url, asset.path);
+        }
+
+        return mapCssUrls(css, reference => paths.get(this.toAbsolute(reference, baseUrl) || '') || null);
+    }
+
+    private async rewriteUrl(value: string, baseUrl: string): Promise<string> {
+        const url = this.toAbsolute(value.trim(), baseUrl);
+        return (url && (await this.capture(url))?.path) || value;
+    }
+
+    // Candidates are "url descriptor" pairs separated by commas, e.g. "a.png 1x, b.png 2x"
+    private async rewriteSrcset(value: string, baseUrl: string): Promise<string> {
+        const candidates: string[] = [];
+        for (const candidate of value.split(',')) {
+            const [reference, ...descriptors] = candidate.trim().split(/\s+/);
+            if (!reference) continue;
+            candidates.push([await this.rewriteUrl(reference, baseUrl), ...descriptors].join(' '));
+        }
+        return candidates.join(', ');
+    }
+
+    private capture(url: string): Promise<SnapshotAsset | null> {
+        if (!/^https?:/i.test(url)) {
+            return Promise.resolve(null);
+        }
+
+        if (!this.captures.has(url)) {
+            this.captures.set(url, this.download(url).catch(() => {
+                this.failures.add(url);
+                return null;
+            }));
+        }
+        return this.captures.get(url)!;
+    }
+
+    private async download(url: string): Promise<SnapshotAsset> {
+        const { data, contentType } = await this.fetchAsset(url);
+        if (data.length > MAX_ASSET_BYTES) {
+            throw new Error(`Asset is larger than ${MAX_ASSET_BYTES} bytes: ${url}`);
+        }
+
+        // Generic types say nothing a static host could serve the file with, so the extension decides
+        const type = contentType && !/octet-stream/i.test(contentType)
+            ? contentType.split(';')[0].trim().toLowerCase()
+            : contentTypeFromPath(new URL(url).pathname);
+
+        return this.record(url, await this.store.put(data, type));
+    }
+
+    private record(url: string, stored: StoredAsset): SnapshotAsset {
+        const asset = { ...stored, url, path: toAssetPath(stored) };
+        this.assets.set(url, asset);
+        return asset;
+    }
+
+    // data: URIs and fragment references are already self-contained
+    private toAbsolute(reference: string, baseUrl: string): string | null {
+        if (!reference || /^(data:|#)/i.test(reference)) return null;
+        try {
+            return new URL(reference, baseUrl).toString();
+        } catch {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,144 @@
+/**
+ * Fetches the text of a stylesheet, throwing when it cannot be fetched
+ */
+export type StylesheetFetcher = (url: string) => Promise<string>;
+
+// Nested @imports deeper than this are left for the browser to load
+const MAX_IMPORT_DEPTH = 5;
+
+const IMPORT_REGEX = /@import\s+(?:url\(\s*(['"]?)([^'")]+)\1\s*\)|(['"])([^'"]+)\3)\s*([^;]*);/gi;
+
+const URL_REGEX = /url\(\s*(['"]?)([^'")]+)\1\s*\)/gi;
+
+/**
+ * Whether an entry of a page's `css` is the URL of a stylesheet rather than CSS text;
+ * stylesheets that could not be downloaded are kept as their URL
+ * @param entry An entry of the page's css
+ * @returns True for a URL
+ */
+export function isStylesheetUrl(entry: string): boolean {
+    return /^https?:\/\/\S+$/.test(entry.trim());
+}
+
+/**
+ * Rewrite every url() reference of a stylesheet
+ * @param css The stylesheet's text
+ * @param replace Maps a reference to its replacement, or to null to keep it
+ * @returns The rewritten stylesheet
+ */
+export function mapCssUrls(css: string, replace: (reference: string) => string | null): string {
+    return css.replace(URL_REGEX, (match, quote: string, reference: string) => {
+        const replacement = replace(reference.trim());
+        return replacement ? `url(${quote}${replacement}${quote})` : match;
+    });
+}
+
+/**
+ * Downloads linked stylesheets so a page's CSS can be read and rewritten without the network.
+ * `@import` chains are inlined in place and relative `url()` references are made absolute,
+ * since the CSS no longer lives at the URL they were relative to.
+ */
+export class StylesheetInliner {
+    private fetchStylesheet: StylesheetFetcher;
+    // Downloaded text of each stylesheet URL, shared by every page of a crawl
+    private cache = new Map<string, Promise<string>>();
+
+    /**
+     * @param fetchStylesheet Fetches the text of stylesheets and their imports
+     */
+    constructor(fetchStylesheet: StylesheetFetcher) {
+        this.fetchStylesheet = fetchStylesheet;
+    }
+
+    /**
+     * Replace the stylesheet URLs of a page's css with their resolved text.
+     * Inline `<style>` blocks get their imports and url() references resolved against the page.
+     * @param css The page's stylesheet URLs and `<style>` blocks in document order
+     * @param pageUrl The URL of the page
+     * @returns The CSS text of every entry; stylesheets that cannot be fetched keep their URL
+     */
+    public async inline(css: string[], pageUrl: string): Promise<string[]> {
+        const resolved: string[] = [];
+
+        for (const entry of css) {
+            if (!isStylesheetUrl(entry)) {
+                resolved.push(await this.resolve(entry, pageUrl, new Set(), 0));
+                continue;
+            }
+
+            try {
+                resolved.push(await this.load(entry.trim(), new Set(), 0));
+            } catch {
+                resolved.push(entry);
+            }
+        }
+
+        return resolved;
+    }
+
+    private async load(url: string, chain: Set<string>, depth: number): Promise<string> {
+        return this.resolve(await this.download(url), url, new Set(chain).add(url), depth);
+    }
+
+    // Only downloads are shared: resolving follows the import chain that led to the stylesheet,
+    // so a stylesheet never waits on one that imports it
+    private download(url: string): Promise<string> {
+        if (!this.cache.has(url)) {
+            const text = this.fetchStylesheet(url);
+            this.cache.set(url, text);
+            // A failed download is retried by the next page that links the stylesheet
+            text.catch(() => this.cache.delete(url));
+        }
+        return this.cache.get(url)!;
+    }
+
+    /**
+     * Make the url() references of a stylesheet absolute, then replace its @import rules with the imported text
+     * @param css The stylesheet's text
+     * @param baseUrl The URL its references are relative to
+     * @param chain Stylesheets being resolved above this one; importing one of them again is a cycle
+     * @param depth How many imports deep this stylesheet is
+     */
+    private async resolve(css: string, baseUrl: string, chain: Set<string>, depth: number): Promise<string> {
+        const absolute = mapCssUrls(css, reference => this.toAbsolute(reference, baseUrl));
+
+        const imports = Array.from(absolute.matchAll(IMPORT_REGEX));
+        if (imports.length === 0 || depth >= MAX_IMPORT_DEPTH) {
+            return absolute;
+        }
+
+        const replacements = await Promise.all(imports.map(async match => {
+            const url = this.toAbsolute((match[2] || match[4]).trim(), baseUrl);
+            if (!url || chain.has(url)) {
+                // Cyclic imports add nothing the cascade does not already have
+                return url ? `/* @import cycle: ${url} */` : match[0];
+            }
+
+            // Layered and conditional imports are left to the browser; media queries wrap the imported rules
+            const condition = match[5].trim();
+            if (/^(layer|supports)\b/i.test(condition)) {
+                return match[0];
+            }
+
+            try {
+                const text = await this.load(url, chain, depth + 1);
+                return condition ? `@media ${condition} {\n${text}\n}` : text;
+            } catch {
+                return match[0];
+            }
+        }));
+
+        let index = 0;
+        return absolute.replace(IMPORT_REGEX, () => replacements[index++]);
+    }
+
+    // data: URIs and fragment references (e.g. SVG filters) are not relative to the stylesheet
+    private toAbsolute(reference: string, baseUrl: string): string | null {
+        if (/^(data:|#)/i.test(reference)) return null;
+        try {
+            return new URL(reference, baseUrl).toString();
+        } catch {
+            return null;
+        }
+    }
+}
@@ -1,8 +1,11 @@
 import axios from 'axios';
-import * as cheerio from 'cheerio';
+import type { ComputedStyles } from './computedStyles';
+import type { CrawlOptions, CrawlResult } from './siteCrawler';
 
 export interface ScrapedContent {
     html: string;
+    // CSS text of each linked stylesheet and <style> block in cascade order;
+    // stylesheets that could not be downloaded are kept as their URL
     css: string[];
     images: string[];
     title: string;
@@ -14,94 +17,86 @@ export interface ScrapedContent {
         navigation: boolean;
         sections: number;
     };
+    // Computed styles of key elements, for pages rendered in a headless browser
+    computedStyles?: ComputedStyles;
 }
 
+/**
+ * A crawled site: the start page's content, every crawled page including the start page,
+ * and the links that were not followed
+ */
+export interface ScrapedSite extends ScrapedContent, CrawlResult {}
+
 export class WebsiteScraper {
+    private baseUrl: string;
+
+    /**
+     * @param baseUrl Origin of the app serving the scrape-website route; only needed when scraping from the server
+     */
+    constructor(baseUrl: string = '') {
+        this.baseUrl = baseUrl;
+    }
+
     /**
      * Scrapes a website and returns its content
      * @param url The URL of the website to scrape
-     * @param useProxy Whether to use a proxy for scraping (optional)
+     * @param useProxy Whether to fetch through the operator's proxies only (optional)
+     * @param render Whether to render the page in a headless browser, for sites built with JavaScript; requires signing in (optional)
      * @returns The scraped content
+     * @throws Error saying why the website could not be scraped
      */
-    public async scrapeWebsite(url: string, useProxy: boolean = false): Promise<ScrapedContent> {
+    public async scrapeWebsite(url: string, useProxy: boolean = false, render: boolean = false): Promise<ScrapedContent> {
         try {
             // In a web application, we need to use a server-side API to avoid CORS issues
             // This will be handled by our API route
-            const apiUrl = `/api/scrape-website?url=${encodeURIComponent(url)}${useProxy ? '&useProxy=true' : ''}`;
+            const apiUrl = `${this.baseUrl}/api/scrape-website?url=${encodeURIComponent(url)}${useProxy ? '&useProxy=true' : ''}${render ? '&render=true' : ''}`;
 
-            // Add a timeout to the request
+            // Add a timeout to the request; the route retries slow sites, and rendering waits for the page's network to go idle
             const response = await axios.get(apiUrl, {
-                timeout: 30000, // 30 seconds timeout
+                timeout: render ? 120000 : 90000,
             });
 
             return response.data;
         } catch (error) {
             console.error('Error scraping website:', error);
-
-            // If the error is from axios and it's a 500 error, try with proxy
-            if (axios.isAxiosError(error) && error.response?.status === 500 && !useProxy) {
-                console.log('Retrying with proxy...');
-                return this.scrapeWebsite(url, true);
-            }
-
-            // If we already tried with proxy and still got an error, create a minimal fallback content
-            if (useProxy) {
-                console.log('Creating fallback content...');
-                return this.createFallbackContent(url);
-            }
-
-            throw new Error(`Failed to scrape website: ${error instanceof Error ? error.message : String(error)}`);
+            throw new Error(`Failed to scrape website: ${this.getErrorMessage(error)}`);
         }
     }
 
     /**
-     * Creates fallback content when scraping fails
-     * @param url The URL that failed to scrape
-     * @returns A minimal ScrapedContent object
+     * Crawls a website from a start page and returns the content of every page found
+     * @param url The URL of the start page
+     * @param options Depth and page limits, path globs and whether to respect robots.txt
+     * @param useProxy Whether to fetch through the operator's proxies only (optional)
+     * @param render Whether to render every page in a headless browser (optional)
+     * @returns The crawled site
      */
-    private createFallbackContent(url: string): ScrapedContent {
-        const html = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-            <title>Fallback for ${url}</title>
-            <meta name="description" content="Fallback content for ${url}">
-            <style>
-                body { font-family: Arial, sans-serif; margin: 0; padding: 20px; }
-                .container { max-width: 800px; margin: 0 auto; }
-                .alert { background-color: #f8d7da; color: #721c24; padding: 10px; border-radius: 4px; margin-bottom: 20px; }
-                .url { word-break: break-all; }
-            </style>
-        </head>
-        <body>
-            <div class="container">
-                <div class="alert">
-                    <p>We were unable to scrape the website due to security restrictions.</p>
-                    <p>Please try using a different URL or contact support if this issue persists.</p>
-                </div>
-                <h1>Fallback Content for:</h1>
-                <p class="url">${url}</p>
-                <div id="header">Header Placeholder</div>
-                <div id="content">Content Placeholder</div>
-                <div id="footer">Footer Placeholder</div>
-            </div>
-        </body>
-        </html>
-        `;
+    public async scrapeSite(url: string, options: Partial<CrawlOptions> = {}, useProxy: boolean = false, render: boolean = false): Promise<ScrapedSite> {
+        const params = new URLSearchParams({ url, crawl: 'true' });
+        if (useProxy) params.set('useProxy', 'true');
+        if (render) params.set('render', 'true');
+        for (const [key, value] of Object.entries(options)) {
+            params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+        }
 
-        return {
-            html,
-            css: [],
-            images: [],
-            title: `Fallback for ${url}`,
-            description: `Fallback content for ${url}`,
-            url,
-            structure: {
-                header: true,
-                footer: true,
-                navigation: false,
-                sections: 1
-            }
-        };
+        try {
+            // Crawling takes one request per page, so allow longer than a single scrape
+            const response = await axios.get(`${this.baseUrl}/api/scrape-website?${params}`, {
+                timeout: 120000,
+            });
+
+            return response.data;
+        } catch (error) {
+            console.error('Error crawling website:', error);
+            throw new Error(`Failed to crawl website: ${this.getErrorMessage(error)}`);
+        }
+    }
+
+    // The route says why the site could not be fetched, e.g. that it timed out or refused the request
+    private getErrorMessage(error: unknown): string {
+        if (axios.isAxiosError(error) && error.response?.data?.error) {
+            return error.response.data.error;
+        }
+        return error instanceof Error ? error.message : String(error);
     }
 }
@@ -0,0 +1,109 @@
+import { DesignTrendAnalyzer } from '../designTrendAnalyzer';
+import { DEFAULT_TRENDS } from '../defaultTrends';
+import { classifyFont, classifyShadow, sampleStylesheet, sampleTheme } from '../trendScorer';
+
+const trend = (name: string) => DEFAULT_TRENDS.find(definition => definition.name === name)!;
+
+describe('trendScorer', () => {
+  const analyzer = new DesignTrendAnalyzer();
+
+  const minimalTheme = {
+    colorPalette: trend('Modern Minimalism').palette,
+    typography: trend('Modern Minimalism').typography,
+    components: {
+      buttons: { primary: { borderRadius: '2px', boxShadow: '0 1px 2px rgba(0, 0, 0, 0.05)' } },
+      cards: { borderRadius: '4px', boxShadow: 'none' },
+    },
+    pageLayouts: {
+      landing: { hero: { padding: '64px 32px' }, features: { gap: '32px' } },
+    },
+  };
+
+  describe('classification', () => {
+    it('should classify fonts by generic family and well-known names', () => {
+      expect(classifyFont('Inter, sans-serif')).toBe('sans-serif');
+      expect(classifyFont('"Playfair Display", serif')).toBe('serif');
+      expect(classifyFont('Georgia')).toBe('serif');
+      expect(classifyFont('JetBrains Mono')).toBe('monospace');
+    });
+
+    it('should classify shadows by blur radius', () => {
+      expect(classifyShadow('none')).toBe('none');
+      expect(classifyShadow('0 0 0 rgba(0, 0, 0, 0.2)')).toBe('none');
+      expect(classifyShadow('0 1px 3px rgba(0, 0, 0, 0.1)')).toBe('subtle');
+      expect(classifyShadow('0 1px 2px #0001, 0 20px 40px rgba(0, 0, 0, 0.3)')).toBe('pronounced');
+    });
+  });
+
+  describe('analyzeTrendAlignment', () => {
+    it('should score a theme built on a trend highly against that trend', () => {
+      const alignment = analyzer.analyzeTrendAlignment(sampleTheme(minimalTheme), 'Modern Minimalism');
+
+      expect(alignment.overall).toBeGreaterThanOrEqual(90);
+      expect(Object.keys(alignment.categories)).toEqual(['colorPalette', 'typography', 'components', 'layout']);
+      expect(alignment.recommendations).toEqual([]);
+    });
+
+    it('should cite the properties that pull the score down', () => {
+      const alignment = analyzer.analyzeTrendAlignment(sampleTheme({
+        ...minimalTheme,
+        colorPalette: { ...minimalTheme.colorPalette, accent: '#FF0000' },
+        typography: { ...minimalTheme.typography, headingFont: 'Georgia, serif' },
+        components: { cards: { borderRadius: '24px', boxShadow: '0 20px 40px rgba(0, 0, 0, 0.4)' } },
+      }), 'Modern Minimalism');
+
+      const properties = alignment.recommendations.map(recommendation => recommendation.property);
+      expect(properties).toEqual(expect.arrayContaining([
+        'colorPalette.accent',
+        'typography.headingFont',
+        'components.cards.borderRadius',
+        'components.cards.boxShadow',
+      ]));
+      expect(alignment.recommendations.find(r => r.property === 'typography.headingFont')?.message)
+        .toContain('serif font (Georgia, serif)');
+      expect(alignment.categories.components).toBeLessThan(50);
+    });
+
+    it('should leave out categories the design has no properties for', () => {
+      const alignment = analyzer.analyzeTrendAlignment(sampleTheme({ colorPalette: minimalTheme.colorPalette }), 'Dark Mode');
+
+      expect(Object.keys(alignment.categories)).toEqual(['colorPalette']);
+      expect(alignment.recommendations.map(r => r.property)).toContain('colorPalette.background');
+    });
+  });
+
+  describe('stylesheets', () => {
+    const css = `
+      /* Site styles */
+      :root { --brand: #553C9A; }
+      body { background-color: #111827; color: #F9FAFB; font-family: Inter, sans-serif; }
+      h1, h2 { font-family: "Playfair Display", serif; }
+      pre { font-family: Menlo, monospace; }
+      .card { border-radius: 16px; box-shadow: 0 12px 32px rgba(0, 0, 0, 0.3); }
+      @media (min-width: 768px) {
+        .hero-section { padding: 96px 48px; }
+      }
+    `;
+
+    it('should sample colors, fonts, shapes and spacing from CSS rules', () => {
+      const sample = sampleStylesheet(css);
+
+      expect(sample.background).toEqual({ property: 'body { background-color }', value: '#111827' });
+      expect(sample.text?.value).toBe('#F9FAFB');
+      expect(sample.colors.map(color => color.value)).toEqual(['#553C9A', '#111827', '#F9FAFB']);
+      expect(sample.fonts.heading.map(font => font.property)).toEqual(['h1, h2 { font-family }']);
+      expect(sample.fonts.body.map(font => font.value)).toEqual(['Inter, sans-serif']);
+      expect(sample.radii).toEqual([{ property: '.card { border-radius }', value: '16px' }]);
+      expect(sample.spacing).toEqual([{ property: '.hero-section { padding }', value: '96px 48px' }]);
+    });
+
+    it('should rank dark stylesheets closest to Dark Mode over light trends', () => {
+      const ranking = analyzer.rankTrendAlignment(sampleStylesheet(css));
+      const dark = ranking.find(alignment => alignment.trend === 'Dark Mode')!;
+      const minimal = ranking.find(alignment => alignment.trend === 'Modern Minimalism')!;
+
+      expect(ranking).toHaveLength(DEFAULT_TRENDS.length);
+      expect(dark.categories.colorPalette).toBeGreaterThan(minimal.categories.colorPalette!);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import type { BaseColorPalette } from '../generator/paletteEngine';
+
+export interface DesignTrendFeatures {
+    colorPalette: string[];
+    typography: string[];
+    components: string[];
+    animations: string[];
+    layout: string[];
+}
+
+/**
+ * A design trend: the descriptors given to the AI, and the palette and fonts themes of this type start from
+ */
+export interface DesignTrendDefinition {
+    name: string;
+    description: string;
+    features: DesignTrendFeatures;
+    palette: BaseColorPalette;
+    typography: {
+        headingFont: string;
+        bodyFont: string;
+        codeFont: string;
+    };
+}
+
+// Used when a theme type names no known trend
+export const FALLBACK_TREND = 'Custom';
+
+// Built-in trends, seeded into the database as shared trends
+export const DEFAULT_TRENDS: DesignTrendDefinition[] = [
+    {
+        name: 'Modern Minimalism',
+        description: 'Restrained palettes, clean sans-serif type and plenty of whitespace',
+        features: {
+            colorPalette: [
+                'Monochromatic schemes',
+                'Muted colors',
+                'High contrast',
+                'Limited color palette'
+            ],
+            typography: [
+                'Sans-serif fonts',
+                'Clean typography',
+                'Minimal font variations',
+                'Generous whitespace'
+            ],
+            components: [
+                'Borderless elements',
+                'Subtle shadows',
+                'Minimal decoration',
+                'Functional UI elements'
+            ],
+            animations: [
+                'Subtle transitions',
+                'Functional animations',
+                'Minimal motion',
+                'Purpose-driven interactions'
+            ],
+            layout: [
+                'Asymmetrical layouts',
+                'Negative space',
+                'Grid-based design',
+                'Content-focused layouts'
+            ]
+        },
+        palette: {
+            primary: '#2D3748',
+            secondary: '#4A5568',
+            accent: '#38B2AC',
+            background: '#F7FAFC',
+            text: '#1A202C'
+        },
+        typography: {
+            headingFont: 'Inter, sans-serif',
+            bodyFont: 'Inter, sans-serif',
+            codeFont: 'JetBrains Mono, monospace'
+        }
+    },
+    {
+        name: 'Dark Mode',
+        description: 'Dark surfaces with high-contrast text and vibrant accents',
+        features: {
+            colorPalette: [
+                'Dark backgrounds',
+                'High contrast text',
+                'Vibrant accent colors',
+                'Reduced blue light'
+            ],
+            typography: [
+                'Legible fonts',
+                'Higher contrast text',
+                'Slightly larger font sizes',
+                'Careful use of font weights'
+            ],
+            components: [
+                'Subtle borders',
+                'Glowing effects',
+                'Depth through layering',
+                'Reduced shadows'
+            ],
+            animations: [
+                'Smooth transitions',
+                'Subtle glow effects',
+                'Reduced motion option',
+                'Meaningful animations'
+            ],
+            layout: [
+                'Content separation',
+                'Strategic use of space',
+                'Clear visual hierarchy',
+                'Reduced visual noise'
+            ]
+        },
+        palette: {
+            primary: '#1A202C',
+            secondary: '#2D3748',
+            accent: '#38B2AC',
+            background: '#171923',
+            text: '#E2E8F0'
+        },
+        typography: {
+            headingFont: 'Poppins, sans-serif',
+            bodyFont: 'Poppins, sans-serif',
+            codeFont: 'Fira Code, monospace'
+        }
+    },
+    {
+        name: 'Bold Typography',
+        description: 'Large, expressive type carries the design',
+        features: {
+            colorPalette: [
+                'High contrast',
+                'Bold accent colors',
+                'Simple backgrounds',
+                'Color as emphasis'
+            ],
+            typography: [
+                'Large headlines',
+                'Variable font weights',
+                'Mixed typefaces',
+                'Text as UI element'
+            ],
+            components: [
+                'Typography-focused UI',
+                'Text-based buttons',
+                'Minimal decoration',
+                'Text alignment as design'
+            ],
+            animations: [
+                'Text-based animations',
+                'Scroll-triggered effects',
+                'Emphasis through motion',
+                'Kinetic typography'
+            ],
+            layout: [
+                'Text-driven layouts',
+                'Editorial design influence',
+                'Asymmetrical text blocks',
+                'Typographic hierarchy'
+            ]
+        },
+        palette: {
+            primary: '#2B6CB0',
+            secondary: '#3182CE',
+            accent: '#F6AD55',
+            background: '#F7FAFC',
+            text: '#1A202C'
+        },
+        typography: {
+            headingFont: 'Montserrat, sans-serif',
+            bodyFont: 'Open Sans, sans-serif',
+            codeFont: 'Source Code Pro, monospace'
+        }
+    },
+    {
+        name: 'Abstract Design',
+        description: 'Vibrant color, organic shapes and artistic composition',
+        features: {
+            colorPalette: [
+                'Vibrant colors',
+                'Gradients',
+                'Unexpected color combinations',
+                'Color as expression'
+            ],
+            typography: [
+                'Experimental typefaces',
+                'Custom fonts',
+                'Decorative elements',
+                'Typography as art'
+            ],
+            components: [
+                'Organic shapes',
+                'Asymmetrical elements',
+                'Artistic expression',
+                'Unique UI components'
+            ],
+            animations: [
+                'Fluid animations',
+                'Organic motion',
+                'Playful interactions',
+                'Unexpected behaviors'
+            ],
+            layout: [
+                'Broken grids',
+                'Overlapping elements',
+                'Artistic composition',
+                'Visual storytelling'
+            ]
+        },
+        palette: {
+            primary: '#553C9A',
+            secondary: '#6B46C1',
+            accent: '#F6AD55',
+            background: '#FAF5FF',
+            text: '#44337A'
+        },
+        typography: {
+            headingFont: 'Playfair Display, serif',
+            bodyFont: 'Raleway, sans-serif',
+            codeFont: 'IBM Plex Mono, monospace'
+        }
+    },
+    {
+        name: 'Custom',
+        description: 'A neutral starting point for brand-specific themes',
+        features: {
+            colorPalette: [
+                'Personalized palette',
+                'Brand-specific colors',
+                'Contextual color usage',
+                'Accessible combinations'
+            ],
+            typography: [
+                'Brand-specific fonts',
+                'Consistent type system',
+                'Purposeful hierarchy',
+                'Readable text'
+            ],
+            components: [
+                'Branded elements',
+                'Consistent design language',
+                'Recognizable patterns',
+                'Unique identity'
+            ],
+            animations: [
+                'Brand-appropriate motion',
+                'Consistent transitions',
+                'Meaningful interactions',
+                'Purposeful animations'
+            ],
+            layout: [
+                'Brand-aligned layouts',
+                'Consistent spacing',
+                'Recognizable patterns',
+                'Flexible but cohesive'
+            ]
+        },
+        palette: {
+            primary: '#3182CE',
+            secondary: '#4299E1',
+            accent: '#ED8936',
+            background: '#F7FAFC',
+            text: '#1A202C'
+        },
+        typography: {
+            headingFont: 'System-ui, sans-serif',
+            bodyFont: 'System-ui, sans-serif',
+            codeFont: 'Menlo, monospace'
+        }
+    }
+];
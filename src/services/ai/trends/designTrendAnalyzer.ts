@@ -1,233 +1,70 @@
-export interface DesignTrendFeatures {
-    colorPalette: string[];
-    typography: string[];
-    components: string[];
-    animations: string[];
-    layout: string[];
-}
+import { DEFAULT_TRENDS, DesignTrendDefinition, DesignTrendFeatures, FALLBACK_TREND } from './defaultTrends';
+import { scoreAlignment, StyleSample, TrendAlignment } from './trendScorer';
+
+export type { DesignTrendDefinition, DesignTrendFeatures } from './defaultTrends';
+export type { AlignmentCategory, StyleSample, TrendAlignment, TrendRecommendation } from './trendScorer';
+export { sampleStylesheet, sampleTheme } from './trendScorer';
 
 export class DesignTrendAnalyzer {
-    // Current design trends data
-    private trends: { [trendName: string]: DesignTrendFeatures } = {
-        'Modern Minimalism': {
-            colorPalette: [
-                'Monochromatic schemes',
-                'Muted colors',
-                'High contrast',
-                'Limited color palette'
-            ],
-            typography: [
-                'Sans-serif fonts',
-                'Clean typography',
-                'Minimal font variations',
-                'Generous whitespace'
-            ],
-            components: [
-                'Borderless elements',
-                'Subtle shadows',
-                'Minimal decoration',
-                'Functional UI elements'
-            ],
-            animations: [
-                'Subtle transitions',
-                'Functional animations',
-                'Minimal motion',
-                'Purpose-driven interactions'
-            ],
-            layout: [
-                'Asymmetrical layouts',
-                'Negative space',
-                'Grid-based design',
-                'Content-focused layouts'
-            ]
-        },
-        'Dark Mode': {
-            colorPalette: [
-                'Dark backgrounds',
-                'High contrast text',
-                'Vibrant accent colors',
-                'Reduced blue light'
-            ],
-            typography: [
-                'Legible fonts',
-                'Higher contrast text',
-                'Slightly larger font sizes',
-                'Careful use of font weights'
-            ],
-            components: [
-                'Subtle borders',
-                'Glowing effects',
-                'Depth through layering',
-                'Reduced shadows'
-            ],
-            animations: [
-                'Smooth transitions',
-                'Subtle glow effects',
-                'Reduced motion option',
-                'Meaningful animations'
-            ],
-            layout: [
-                'Content separation',
-                'Strategic use of space',
-                'Clear visual hierarchy',
-                'Reduced visual noise'
-            ]
-        },
-        'Bold Typography': {
-            colorPalette: [
-                'High contrast',
-                'Bold accent colors',
-                'Simple backgrounds',
-                'Color as emphasis'
-            ],
-            typography: [
-                'Large headlines',
-                'Variable font weights',
-                'Mixed typefaces',
-                'Text as UI element'
-            ],
-            components: [
-                'Typography-focused UI',
-                'Text-based buttons',
-                'Minimal decoration',
-                'Text alignment as design'
-            ],
-            animations: [
-                'Text-based animations',
-                'Scroll-triggered effects',
-                'Emphasis through motion',
-                'Kinetic typography'
-            ],
-            layout: [
-                'Text-driven layouts',
-                'Editorial design influence',
-                'Asymmetrical text blocks',
-                'Typographic hierarchy'
-            ]
-        },
-        'Abstract Design': {
-            colorPalette: [
-                'Vibrant colors',
-                'Gradients',
-                'Unexpected color combinations',
-                'Color as expression'
-            ],
-            typography: [
-                'Experimental typefaces',
-                'Custom fonts',
-                'Decorative elements',
-                'Typography as art'
-            ],
-            components: [
-                'Organic shapes',
-                'Asymmetrical elements',
-                'Artistic expression',
-                'Unique UI components'
-            ],
-            animations: [
-                'Fluid animations',
-                'Organic motion',
-                'Playful interactions',
-                'Unexpected behaviors'
-            ],
-            layout: [
-                'Broken grids',
-                'Overlapping elements',
-                'Artistic composition',
-                'Visual storytelling'
-            ]
-        },
-        'Custom': {
-            colorPalette: [
-                'Personalized palette',
-                'Brand-specific colors',
-                'Contextual color usage',
-                'Accessible combinations'
-            ],
-            typography: [
-                'Brand-specific fonts',
-                'Consistent type system',
-                'Purposeful hierarchy',
-                'Readable text'
-            ],
-            components: [
-                'Branded elements',
-                'Consistent design language',
-                'Recognizable patterns',
-                'Unique identity'
-            ],
-            animations: [
-                'Brand-appropriate motion',
-                'Consistent transitions',
-                'Meaningful interactions',
-                'Purposeful animations'
-            ],
-            layout: [
-                'Brand-aligned layouts',
-                'Consistent spacing',
-                'Recognizable patterns',
-                'Flexible but cohesive'
-            ]
-        }
-    };
-    
+    // Trends by name; loaded from the database by the API routes, or the built-in defaults
+    private trends: Map<string, DesignTrendDefinition>;
+
+    /**
+     * @param trends The trends available to the user, in display order
+     */
+    constructor(trends: DesignTrendDefinition[] = DEFAULT_TRENDS) {
+        this.trends = new Map(trends.map(trend => [trend.name, trend]));
+    }
+
+    /**
+     * Look up a trend, falling back to the Custom trend for unknown names
+     * @param trendName The trend name
+     * @returns The trend definition
+     */
+    public getTrend(trendName: string): DesignTrendDefinition {
+        return this.trends.get(trendName)
+            || this.trends.get(FALLBACK_TREND)
+            || DEFAULT_TRENDS.find(trend => trend.name === FALLBACK_TREND)!;
+    }
+
     // Get design trend features for a specific trend
     public async getDesignTrendFeatures(trendName: string): Promise<DesignTrendFeatures> {
-        return this.trends[trendName] || this.trends['Custom'];
+        return this.getTrend(trendName).features;
     }
     
-    // Analyze a specific design element against current trends
-    public analyzeTrendAlignment(
-        element: string, 
-        category: keyof DesignTrendFeatures, 
-        trendName: string
-    ): number {
-        const trend = this.trends[trendName] || this.trends['Custom'];
-        const trendFeatures = trend[category];
-        
-        // Simple matching algorithm - could be enhanced with NLP in a real implementation
-        let matchScore = 0;
-        for (const feature of trendFeatures) {
-            if (element.toLowerCase().includes(feature.toLowerCase())) {
-                matchScore += 1;
-            }
-        }
-        
-        // Normalize score between 0 and 1
-        return matchScore / trendFeatures.length;
+    /**
+     * Score how closely a theme or stylesheet follows a trend
+     * @param sample The measured properties, from sampleTheme or sampleStylesheet
+     * @param trendName The trend to compare against
+     * @returns Per-category scores and recommendations citing the properties that differ
+     */
+    public analyzeTrendAlignment(sample: StyleSample, trendName: string): TrendAlignment {
+        return scoreAlignment(sample, this.getTrend(trendName));
     }
-    
-    // Generate trend-based recommendations
-    public generateTrendRecommendations(
-        currentDesign: any, 
-        targetTrend: string
-    ): string[] {
-        const recommendations: string[] = [];
-        const trend = this.trends[targetTrend] || this.trends['Custom'];
-        
-        // Generate recommendations based on the gap between current design and target trend
-        // This is a simplified implementation - a real version would do deeper analysis
-        
-        // Color recommendations
-        recommendations.push(`Consider using a ${trend.colorPalette[0].toLowerCase()} for your color scheme.`);
-        
-        // Typography recommendations
-        recommendations.push(`Update typography to use ${trend.typography[0].toLowerCase()}.`);
-        
-        // Component recommendations
-        recommendations.push(`Redesign UI components to incorporate ${trend.components[0].toLowerCase()}.`);
-        
-        // Animation recommendations
-        recommendations.push(`Add ${trend.animations[0].toLowerCase()} to improve user experience.`);
-        
-        // Layout recommendations
-        recommendations.push(`Restructure layouts to follow ${trend.layout[0].toLowerCase()}.`);
-        
-        return recommendations;
+
+    /**
+     * Score a theme or stylesheet against every trend
+     * @param sample The measured properties, from sampleTheme or sampleStylesheet
+     * @returns The alignments, best match first
+     */
+    public rankTrendAlignment(sample: StyleSample): TrendAlignment[] {
+        return Array.from(this.trends.values())
+            .map(trend => scoreAlignment(sample, trend))
+            .sort((a, b) => b.overall - a.overall);
     }
-    
+
+    /**
+     * Recommend the changes that would bring a design closer to a trend
+     * @param sample The measured properties, from sampleTheme or sampleStylesheet
+     * @param targetTrend The trend to move towards
+     * @returns One recommendation per offending property, worst first within each category
+     */
+    public generateTrendRecommendations(sample: StyleSample, targetTrend: string): string[] {
+        return this.analyzeTrendAlignment(sample, targetTrend).recommendations.map(recommendation => recommendation.message);
+    }
+
     // Get all available trend names
     public getTrendNames(): string[] {
-        return Object.keys(this.trends);
+        return Array.from(this.trends.keys());
     }
 }
@@ -0,0 +1,492 @@
+import { contrastRatio, isDarkColor, parseColor, toHex, toOklch } from '@/lib/color';
+import { resolveVariableFallbacks } from '@/lib/cssVariables';
+import type { DesignTrendDefinition, DesignTrendFeatures } from './defaultTrends';
+
+// Categories with concrete properties to measure; animations are not part of a theme's styles
+export const ALIGNMENT_CATEGORIES = ['colorPalette', 'typography', 'components', 'layout'] as const;
+
+export type AlignmentCategory = typeof ALIGNMENT_CATEGORIES[number] & keyof DesignTrendFeatures;
+
+export type FontClass = 'serif' | 'sans-serif' | 'monospace' | 'display';
+
+export type ShadowLevel = 'none' | 'subtle' | 'pronounced';
+
+/**
+ * A style value and where it was found, e.g. `components.cards.boxShadow` or `.card { box-shadow }`
+ */
+export interface StyleProperty {
+    property: string;
+    value: string;
+}
+
+/**
+ * The measurable properties of a theme or stylesheet
+ */
+export interface StyleSample {
+    // Brand colors; neutrals are ignored when measuring saturation
+    colors: StyleProperty[];
+    background?: StyleProperty;
+    text?: StyleProperty;
+    fonts: {
+        heading: StyleProperty[];
+        body: StyleProperty[];
+    };
+    radii: StyleProperty[];
+    shadows: StyleProperty[];
+    spacing: StyleProperty[];
+}
+
+export interface TrendRecommendation {
+    category: AlignmentCategory;
+    // The property the recommendation is about
+    property: string;
+    message: string;
+}
+
+export interface TrendAlignment {
+    trend: string;
+    // 0-100 over the categories that could be measured
+    overall: number;
+    // 0-100 per category; categories the sample has no properties for are left out
+    categories: Partial<Record<AlignmentCategory, number>>;
+    recommendations: TrendRecommendation[];
+}
+
+/**
+ * What a trend expects of each measurable property, derived from its palette, fonts and descriptors
+ */
+export interface TrendProfile {
+    // OKLCH chroma range of the trend's primary, secondary and accent colors
+    chroma: { min: number; max: number };
+    contrast: number;
+    darkBackground: boolean;
+    headingFont: FontClass;
+    bodyFont: FontClass;
+    radius: { min: number; max: number; label: string };
+    shadow: ShadowLevel;
+    spacing: { min: number; max: number; label: string };
+}
+
+interface Check {
+    category: AlignmentCategory;
+    score: number;
+    property?: string;
+    message?: string;
+}
+
+// Colors below this OKLCH chroma read as grays and say nothing about saturation
+const NEUTRAL_CHROMA = 0.03;
+// Chroma a color may stray outside the trend's range before it starts to count against it
+const CHROMA_MARGIN = 0.02;
+// Chroma beyond the margin at which a color no longer matches the trend at all
+const CHROMA_TOLERANCE = 0.1;
+// Checks scoring below this produce a recommendation
+const RECOMMENDATION_THRESHOLD = 0.75;
+// Recommendations kept per category, worst first
+const MAX_RECOMMENDATIONS_PER_CATEGORY = 3;
+// Stand-in for percentage radii, which render as pills or circles
+const PILL_RADIUS = 9999;
+
+const RADIUS_BANDS = {
+    tight: { min: 0, max: 4, label: 'sharp corners (0-4px)' },
+    moderate: { min: 2, max: 12, label: 'moderately rounded corners (2-12px)' },
+    round: { min: 8, max: PILL_RADIUS, label: 'well-rounded corners (8px or more)' },
+};
+
+const SPACING_BANDS = {
+    compact: { min: 4, max: 16, label: 'compact spacing (4-16px)' },
+    moderate: { min: 12, max: 48, label: 'moderate spacing (12-48px)' },
+    generous: { min: 24, max: 160, label: 'generous spacing (24px or more)' },
+};
+
+const SERIF_FAMILIES = /georgia|times|garamond|playfair|merriweather|baskerville|lora|bodoni|didot|caslon|cambria|crimson|libre baskerville|pt serif|noto serif|source serif/i;
+const MONO_FAMILIES = /mono|code|consolas|courier|menlo|monaco/i;
+const DISPLAY_FAMILIES = /lobster|pacifico|bangers|comic|brush|script/i;
+
+/**
+ * Classify a font stack by its generic family, or by well-known family names when it has none
+ */
+export function classifyFont(stack: string): FontClass {
+    const families = stack.split(',').map(family => family.trim().replace(/^["']|["']$/g, '').toLowerCase());
+
+    if (families.includes('monospace')) return 'monospace';
+    if (families.includes('sans-serif') || families.includes('system-ui')) return 'sans-serif';
+    if (families.includes('serif')) return 'serif';
+    if (families.includes('cursive') || families.includes('fantasy')) return 'display';
+
+    const primary = families[0] || '';
+    if (MONO_FAMILIES.test(primary)) return 'monospace';
+    if (SERIF_FAMILIES.test(primary)) return 'serif';
+    if (DISPLAY_FAMILIES.test(primary)) return 'display';
+    return 'sans-serif';
+}
+
+/**
+ * Classify a box-shadow by its blur radius
+ */
+export function classifyShadow(value: string): ShadowLevel {
+    const shadows = value.trim().toLowerCase();
+    if (!shadows || shadows === 'none' || shadows === '0' || shadows === 'transparent') return 'none';
+
+    // Each shadow is offset-x offset-y [blur]; the largest blur decides
+    const lengths = shadows.split(/,(?![^(]*\))/).map(shadow =>
+        (shadow.replace(/\b(rgba?|hsla?)\([^)]*\)/g, '').match(/-?[\d.]+(px|rem|em)?/g) || []).map(length => toPixels(length) ?? 0)
+    );
+    if (lengths.every(shadow => shadow.every(length => length === 0))) return 'none';
+
+    const blur = Math.max(...lengths.map(shadow => shadow[2] ?? 0));
+    return blur <= 8 ? 'subtle' : 'pronounced';
+}
+
+/**
+ * Convert a CSS length to pixels, treating rem and em as 16px
+ * @returns The length in pixels, or null for values that are not lengths
+ */
+export function toPixels(value: string): number | null {
+    const match = value.trim().match(/^(-?[\d.]+)(px|rem|em|%)?$/i);
+    if (!match) return null;
+
+    const amount = parseFloat(match[1]);
+    switch ((match[2] || '').toLowerCase()) {
+        case 'rem':
+        case 'em':
+            return amount * 16;
+        case '%':
+            return amount > 0 ? PILL_RADIUS : 0;
+        default:
+            return amount;
+    }
+}
+
+// Shorthands such as `padding: 8px 24px` are measured by their largest length
+function largestLength(value: string): number | null {
+    const lengths = value.split(/\s+/).map(toPixels).filter((length): length is number => length !== null);
+    return lengths.length ? Math.max(...lengths) : null;
+}
+
+/**
+ * Derive what a trend expects of each measurable property
+ */
+export function buildTrendProfile(trend: DesignTrendDefinition): TrendProfile {
+    const { palette, typography, features } = trend;
+    const descriptors = [...features.components, ...features.layout, trend.description].join(' ').toLowerCase();
+
+    const brandChroma = [palette.primary, palette.secondary, palette.accent].map(color => toOklch(color)?.c ?? 0);
+
+    let radius = RADIUS_BANDS.moderate;
+    if (/organic|round|soft|pill|fluid|blob|curv/.test(descriptors)) radius = RADIUS_BANDS.round;
+    else if (/borderless|sharp|square|geometric|minimal decoration/.test(descriptors)) radius = RADIUS_BANDS.tight;
+
+    let shadow: ShadowLevel = 'subtle';
+    if (/subtle|reduced|soft/.test(descriptors)) shadow = 'subtle';
+    else if (/flat|no shadow|shadowless/.test(descriptors)) shadow = 'none';
+    else if (/depth|layer|elevat|shadow|glow|3d/.test(descriptors)) shadow = 'pronounced';
+
+    let spacing = SPACING_BANDS.moderate;
+    if (/whitespace|negative space|spacious|airy|generous|breathing/.test(descriptors)) spacing = SPACING_BANDS.generous;
+    else if (/dense|compact/.test(descriptors)) spacing = SPACING_BANDS.compact;
+
+    return {
+        chroma: { min: Math.min(...brandChroma), max: Math.max(...brandChroma) },
+        contrast: contrastRatio(palette.text, palette.background) ?? 7,
+        darkBackground: isDarkColor(palette.background),
+        headingFont: classifyFont(typography.headingFont),
+        bodyFont: classifyFont(typography.bodyFont),
+        radius,
+        shadow,
+        spacing,
+    };
+}
+
+/**
+ * Collect the measurable properties of a generated or stored theme
+ */
+export function sampleTheme(theme: {
+    colorPalette?: Partial<Record<'primary' | 'secondary' | 'accent' | 'background' | 'text', string>>;
+    typography?: { headingFont?: string; bodyFont?: string };
+    components?: Record<string, any>;
+    pageLayouts?: Record<string, any>;
+}): StyleSample {
+    const palette = theme.colorPalette || {};
+    const at = (property: string, value?: string) => (value ? [{ property, value }] : []);
+
+    const sample: StyleSample = {
+        colors: [
+            ...at('colorPalette.primary', palette.primary),
+            ...at('colorPalette.secondary', palette.secondary),
+            ...at('colorPalette.accent', palette.accent),
+        ],
+        background: at('colorPalette.background', palette.background)[0],
+        text: at('colorPalette.text', palette.text)[0],
+        fonts: {
+            heading: at('typography.headingFont', theme.typography?.headingFont),
+            body: at('typography.bodyFont', theme.typography?.bodyFont),
+        },
+        radii: [],
+        shadows: [],
+        spacing: [],
+    };
+
+    const walk = (styles: unknown, path: string, collectSpacing: boolean) => {
+        if (!styles || typeof styles !== 'object') return;
+        for (const [key, value] of Object.entries(styles)) {
+            const property = `${path}.${key}`;
+            if (value && typeof value === 'object') {
+                walk(value, property, collectSpacing);
+            } else if (typeof value === 'string' || typeof value === 'number') {
+                // Values referencing the theme's scales are measured by their fallback
+                const style = { property, value: resolveVariableFallbacks(String(value)) };
+                if (/radius$/i.test(key)) sample.radii.push(style);
+                else if (key === 'boxShadow') sample.shadows.push(style);
+                else if (collectSpacing && /^(padding|margin|gap|rowGap|columnGap)$/.test(key)) sample.spacing.push(style);
+            }
+        }
+    };
+
+    walk(theme.components, 'components', false);
+    walk(theme.pageLayouts, 'pageLayouts', true);
+
+    return sample;
+}
+
+const COLOR_VALUE = /#[0-9a-f]{3,8}\b|rgba?\([^)]*\)|hsla?\([^)]*\)/gi;
+const COLOR_PROPERTIES = /^(color|background|background-color|border(-\w+)?-color|border|fill|stroke|outline-color|--[\w-]+)$/;
+const ROOT_SELECTOR = /(^|,)\s*(html|body|:root)\s*(,|$)/;
+const HEADING_SELECTOR = /(^|[\s,>+~])h[1-6]\b|heading|title/i;
+const CONTAINER_SELECTOR = /section|container|main|layout|wrapper|hero|page|content|grid/i;
+
+/**
+ * Collect the measurable properties of a stylesheet
+ * @param css CSS source; nested at-rules are flattened to their inner rules
+ */
+export function sampleStylesheet(css: string): StyleSample {
+    const sample: StyleSample = {
+        colors: [],
+        fonts: { heading: [], body: [] },
+        radii: [],
+        shadows: [],
+        spacing: [],
+    };
+    const seenColors = new Set<string>();
+
+    const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+    for (const rule of Array.from(source.matchAll(/([^{}]+)\{([^{}]*)\}/g))) {
+        const selector = rule[1].trim().replace(/\s+/g, ' ');
+        if (selector.startsWith('@')) continue;
+
+        for (const declaration of rule[2].split(';')) {
+            const separator = declaration.indexOf(':');
+            if (separator === -1) continue;
+
+            const name = declaration.slice(0, separator).trim().toLowerCase();
+            const value = declaration.slice(separator + 1).replace(/!important/i, '').trim();
+            const style = { property: `${selector} { ${name} }`, value };
+
+            if (COLOR_PROPERTIES.test(name)) {
+                for (const color of value.match(COLOR_VALUE) || []) {
+                    if (!parseColor(color)) continue;
+                    const colorStyle = { property: style.property, value: color };
+
+                    if (ROOT_SELECTOR.test(selector) && name === 'color' && !sample.text) sample.text = colorStyle;
+                    else if (ROOT_SELECTOR.test(selector) && /^background/.test(name) && !sample.background) sample.background = colorStyle;
+
+                    const hex = toHex(color);
+                    if (!seenColors.has(hex)) {
+                        seenColors.add(hex);
+                        sample.colors.push(colorStyle);
+                    }
+                }
+            }
+
+            if (name === 'font-family') {
+                // Code blocks are expected to be monospaced whatever the trend
+                if (classifyFont(value) === 'monospace') continue;
+                (HEADING_SELECTOR.test(selector) ? sample.fonts.heading : sample.fonts.body).push(style);
+            } else if (/radius$/.test(name)) {
+                sample.radii.push(style);
+            } else if (name === 'box-shadow') {
+                sample.shadows.push(style);
+            } else if (/^(padding|margin|gap|row-gap|column-gap)$/.test(name) && CONTAINER_SELECTOR.test(selector)) {
+                sample.spacing.push(style);
+            }
+        }
+    }
+
+    // Without a root text color, body text cannot be compared against the background
+    if (!sample.text || !sample.background) {
+        sample.text = undefined;
+        sample.background = undefined;
+    }
+
+    return sample;
+}
+
+// 1 inside [min, max], falling to 0 as the value moves a factor of three away
+function bandScore(value: number, min: number, max: number): number {
+    if (value >= min && value <= max) return 1;
+    const edge = value < min ? min : max;
+    if (edge === 0) return Math.max(0, 1 - value / 8);
+    if (value <= 0) return 0;
+    return Math.max(0, 1 - Math.abs(Math.log(value / edge)) / Math.log(3));
+}
+
+// Score of each actual shadow level against the level a trend expects; flat surfaces suit restrained trends
+const SHADOW_SCORES: Record<ShadowLevel, Record<ShadowLevel, number>> = {
+    none: { none: 1, subtle: 0.5, pronounced: 0 },
+    subtle: { none: 0.8, subtle: 1, pronounced: 0.25 },
+    pronounced: { none: 0, subtle: 0.5, pronounced: 1 },
+};
+
+const SHADOW_LABELS: Record<ShadowLevel, string> = {
+    none: 'flat surfaces without shadows',
+    subtle: 'subtle shadows (blur of 8px or less)',
+    pronounced: 'pronounced, layered shadows',
+};
+
+function colorChecks(sample: StyleSample, profile: TrendProfile, trendName: string): Check[] {
+    const checks: Check[] = [];
+
+    for (const color of sample.colors) {
+        const chroma = toOklch(color.value)?.c ?? 0;
+        if (chroma < NEUTRAL_CHROMA) continue;
+
+        const { min, max } = profile.chroma;
+        const outside = Math.max(0, min - CHROMA_MARGIN - chroma, chroma - max - CHROMA_MARGIN);
+        checks.push({
+            category: 'colorPalette',
+            score: Math.max(0, 1 - outside / CHROMA_TOLERANCE),
+            property: color.property,
+            message: chroma > max
+                ? `${color.property} is ${color.value}, more saturated than ${trendName} palettes; use a more muted tone.`
+                : `${color.property} is ${color.value}, less saturated than ${trendName} palettes; use a more vivid tone.`,
+        });
+    }
+
+    if (sample.background && sample.text) {
+        const { background, text } = sample;
+        const contrast = contrastRatio(text.value, background.value);
+
+        if (contrast !== null) {
+            checks.push({
+                category: 'colorPalette',
+                score: bandScore(contrast, profile.contrast * 0.8, profile.contrast * 1.25),
+                property: text.property,
+                message: `${text.property} on ${background.property} has a contrast of ${contrast.toFixed(1)}:1; ${trendName} aims for about ${profile.contrast.toFixed(1)}:1.`,
+            });
+        }
+
+        const darkBackground = isDarkColor(background.value);
+        checks.push({
+            category: 'colorPalette',
+            score: darkBackground === profile.darkBackground ? 1 : 0,
+            property: background.property,
+            message: `${background.property} is ${background.value}, a ${darkBackground ? 'dark' : 'light'} background; ${trendName} uses ${profile.darkBackground ? 'dark' : 'light'} backgrounds.`,
+        });
+    }
+
+    return checks;
+}
+
+function fontChecks(sample: StyleSample, profile: TrendProfile, trendName: string): Check[] {
+    const check = (font: StyleProperty, expected: FontClass, role: string): Check => {
+        const actual = classifyFont(font.value);
+        return {
+            category: 'typography',
+            score: actual === expected ? 1 : 0,
+            property: font.property,
+            message: `${font.property} uses a ${actual} font (${font.value}); ${trendName} sets ${role} in ${expected} type.`,
+        };
+    };
+
+    return [
+        ...sample.fonts.heading.map(font => check(font, profile.headingFont, 'headings')),
+        ...sample.fonts.body.map(font => check(font, profile.bodyFont, 'body text')),
+    ];
+}
+
+function componentChecks(sample: StyleSample, profile: TrendProfile, trendName: string): Check[] {
+    const checks: Check[] = [];
+    const { radius } = profile;
+
+    for (const style of sample.radii) {
+        const value = largestLength(style.value);
+        if (value === null) continue;
+        checks.push({
+            category: 'components',
+            score: bandScore(value, radius.min, radius.max),
+            property: style.property,
+            message: `${style.property} is ${style.value}; ${trendName} favors ${radius.label}.`,
+        });
+    }
+
+    for (const style of sample.shadows) {
+        const level = classifyShadow(style.value);
+        checks.push({
+            category: 'components',
+            score: SHADOW_SCORES[profile.shadow][level],
+            property: style.property,
+            message: `${style.property} is ${style.value}; ${trendName} favors ${SHADOW_LABELS[profile.shadow]}.`,
+        });
+    }
+
+    return checks;
+}
+
+function layoutChecks(sample: StyleSample, profile: TrendProfile, trendName: string): Check[] {
+    const checks: Check[] = [];
+    const { spacing } = profile;
+
+    for (const style of sample.spacing) {
+        const value = largestLength(style.value);
+        if (value === null || value === 0) continue;
+        checks.push({
+            category: 'layout',
+            score: bandScore(value, spacing.min, spacing.max),
+            property: style.property,
+            message: `${style.property} is ${style.value}; ${trendName} favors ${spacing.label}.`,
+        });
+    }
+
+    return checks;
+}
+
+/**
+ * Score how closely a theme or stylesheet follows a trend, per category, with recommendations for the
+ * properties that pull the score down
+ */
+export function scoreAlignment(sample: StyleSample, trend: DesignTrendDefinition): TrendAlignment {
+    const profile = buildTrendProfile(trend);
+    const checks = [
+        ...colorChecks(sample, profile, trend.name),
+        ...fontChecks(sample, profile, trend.name),
+        ...componentChecks(sample, profile, trend.name),
+        ...layoutChecks(sample, profile, trend.name),
+    ];
+
+    const categories: TrendAlignment['categories'] = {};
+    const recommendations: TrendRecommendation[] = [];
+
+    for (const category of ALIGNMENT_CATEGORIES) {
+        const categoryChecks = checks.filter(check => check.category === category);
+        if (categoryChecks.length === 0) continue;
+
+        categories[category] = Math.round(
+            100 * categoryChecks.reduce((sum, check) => sum + check.score, 0) / categoryChecks.length
+        );
+
+        categoryChecks
+            .filter(check => check.score < RECOMMENDATION_THRESHOLD && check.property && check.message)
+            .sort((a, b) => a.score - b.score)
+            .slice(0, MAX_RECOMMENDATIONS_PER_CATEGORY)
+            .forEach(check => recommendations.push({ category, property: check.property!, message: check.message! }));
+    }
+
+    const scores = Object.values(categories);
+
+    return {
+        trend: trend.name,
+        overall: scores.length ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0,
+        categories,
+        recommendations,
+    };
+}
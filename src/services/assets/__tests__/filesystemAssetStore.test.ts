@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FilesystemAssetStore } from '../filesystemAssetStore';
+import { contentTypeFromPath, hashAsset, toAssetPath } from '../types';
+import { getAssetConfig } from '../assetConfig';
+
+describe('FilesystemAssetStore', () => {
+  let root: string;
+  let store: FilesystemAssetStore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'assets-'));
+    store = new FilesystemAssetStore(root);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('stores content under its SHA-256 hash', async () => {
+    const data = Buffer.from('body { color: red; }');
+
+    const asset = await store.put(data, 'text/css');
+
+    expect(asset).toEqual({ hash: hashAsset(data), size: data.length, contentType: 'text/css' });
+    expect(asset.hash).toMatch(/^[a-f0-9]{64}$/);
+    expect(await store.get(asset.hash)).toEqual({ asset, data });
+  });
+
+  it('stores identical content once', async () => {
+    const data = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+
+    const first = await store.put(data, 'image/png');
+    const second = await store.put(data, 'image/png');
+
+    expect(second).toEqual(first);
+    expect(await fs.readdir(path.join(root, first.hash.slice(0, 2)))).toEqual([first.hash, `${first.hash}.json`]);
+  });
+
+  it('returns null for unknown and malformed hashes', async () => {
+    expect(await store.get('0'.repeat(64))).toBeNull();
+    expect(await store.get('../../etc/passwd')).toBeNull();
+  });
+});
+
+describe('asset paths', () => {
+  it('name assets by hash with the extension of their type', () => {
+    expect(toAssetPath({ hash: 'abc', contentType: 'font/woff2' })).toBe('/api/assets/abc.woff2');
+    expect(toAssetPath({ hash: 'abc', contentType: 'text/css; charset=utf-8' })).toBe('/api/assets/abc.css');
+    expect(toAssetPath({ hash: 'abc', contentType: 'application/x-unknown' })).toBe('/api/assets/abc');
+  });
+
+  it('infer types from file extensions', () => {
+    expect(contentTypeFromPath('/fonts/Inter.WOFF2')).toBe('font/woff2');
+    expect(contentTypeFromPath('/img/logo.svg')).toBe('image/svg+xml');
+    expect(contentTypeFromPath('/download')).toBe('application/octet-stream');
+  });
+});
+
+describe('getAssetConfig', () => {
+  it('defaults to the filesystem store', () => {
+    expect(getAssetConfig({ NODE_ENV: 'test' }).store).toBe('filesystem');
+  });
+
+  it('rejects unknown stores', () => {
+    expect(() => getAssetConfig({ NODE_ENV: 'test', ASSET_STORE: 's3' })).toThrow('Unknown asset store "s3"');
+  });
+});
@@ -0,0 +1,43 @@
+import path from 'path';
+import { z } from 'zod';
+
+export const ASSET_STORES = ['filesystem', 'gridfs'] as const;
+
+export type AssetStoreName = typeof ASSET_STORES[number];
+
+export interface AssetConfig {
+  store: AssetStoreName;
+  filesystem: {
+    // Directory the assets are written to
+    root: string;
+  };
+  gridfs: {
+    bucketName: string;
+  };
+}
+
+const storeSchema = z.enum(ASSET_STORES);
+
+/**
+ * Read the asset store configuration from the environment.
+ * ASSET_STORE picks the backend: the local filesystem by default, or GridFS for deployments
+ * without a persistent disk.
+ * @param env The environment to read, process.env by default
+ * @returns The store name and the settings of every store
+ */
+export function getAssetConfig(env: NodeJS.ProcessEnv = process.env): AssetConfig {
+  const store = storeSchema.safeParse(env.ASSET_STORE || 'filesystem');
+  if (!store.success) {
+    throw new Error(`Unknown asset store "${env.ASSET_STORE}". Expected one of: ${ASSET_STORES.join(', ')}`);
+  }
+
+  return {
+    store: store.data,
+    filesystem: {
+      root: path.resolve(env.ASSET_STORE_PATH || '.assets'),
+    },
+    gridfs: {
+      bucketName: env.ASSET_STORE_BUCKET || 'assets',
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AssetStore, StoredAsset, hashAsset } from './types';
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Stores assets as files under a directory, fanned out by the first two characters of their hash,
+ * with the content type in a JSON file beside each asset
+ */
+export class FilesystemAssetStore implements AssetStore {
+  readonly name = 'filesystem';
+  private root: string;
+
+  constructor(root: string) {
+    this.root = root;
+  }
+
+  async put(data: Buffer, contentType: string): Promise<StoredAsset> {
+    const asset: StoredAsset = { hash: hashAsset(data), size: data.length, contentType };
+    const file = this.toFile(asset.hash);
+
+    if (await this.exists(file)) {
+      return asset;
+    }
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write the metadata first and rename the content into place last, so a reader never sees a partial asset
+    await fs.writeFile(`${file}.json`, JSON.stringify({ size: asset.size, contentType }));
+    const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temporary, data);
+    await fs.rename(temporary, file);
+
+    return asset;
+  }
+
+  async get(hash: string): Promise<{ asset: StoredAsset; data: Buffer } | null> {
+    if (!HASH_PATTERN.test(hash)) return null;
+
+    const file = this.toFile(hash);
+    try {
+      const [data, metadata] = await Promise.all([fs.readFile(file), fs.readFile(`${file}.json`, 'utf8')]);
+      const { contentType } = JSON.parse(metadata);
+      return { asset: { hash, size: data.length, contentType }, data };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private toFile(hash: string): string {
+    return path.join(this.root, hash.slice(0, 2), hash);
+  }
+
+  private async exists(file: string): Promise<boolean> {
+    try {
+      await fs.access(file);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import type { Connection } from 'mongoose';
+import { GridFSBucket } from 'mongodb';
+import { AssetStore, StoredAsset, hashAsset } from './types';
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Stores assets in a GridFS bucket of the app's MongoDB database, one file per hash
+ * with the content type in its metadata. Callers connect to MongoDB before using it.
+ */
+export class GridFSAssetStore implements AssetStore {
+  readonly name = 'gridfs';
+  private connection: Connection;
+  private bucketName: string;
+
+  constructor(connection: Connection, bucketName = 'assets') {
+    this.connection = connection;
+    this.bucketName = bucketName;
+  }
+
+  async put(data: Buffer, contentType: string): Promise<StoredAsset> {
+    const asset: StoredAsset = { hash: hashAsset(data), size: data.length, contentType };
+    const bucket = this.getBucket();
+
+    if (await bucket.find({ filename: asset.hash }).limit(1).hasNext()) {
+      return asset;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      bucket.openUploadStream(asset.hash, { metadata: { contentType } })
+        .once('finish', () => resolve())
+        .once('error', reject)
+        .end(data);
+    });
+
+    return asset;
+  }
+
+  async get(hash: string): Promise<{ asset: StoredAsset; data: Buffer } | null> {
+    if (!HASH_PATTERN.test(hash)) return null;
+
+    const bucket = this.getBucket();
+    const [file] = await bucket.find({ filename: hash }).limit(1).toArray();
+    if (!file) return null;
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of bucket.openDownloadStream(file._id)) {
+      chunks.push(chunk as Buffer);
+    }
+    const data = Buffer.concat(chunks);
+
+    return {
+      asset: { hash, size: data.length, contentType: file.metadata?.contentType || 'application/octet-stream' },
+      data,
+    };
+  }
+
+  private getBucket(): GridFSBucket {
+    if (!this.connection.db) {
+      throw new Error('Connect to MongoDB before using the GridFS asset store');
+    }
+    return new GridFSBucket(this.connection.db, { bucketName: this.bucketName });
+  }
+}
@@ -0,0 +1,35 @@
+import mongoose from 'mongoose';
+import { AssetConfig, getAssetConfig } from './assetConfig';
+import { FilesystemAssetStore } from './filesystemAssetStore';
+import { GridFSAssetStore } from './gridfsAssetStore';
+import { AssetStore } from './types';
+
+export * from './types';
+export * from './filesystemAssetStore';
+export * from './gridfsAssetStore';
+
+let defaultStore: AssetStore | null = null;
+
+/**
+ * Create the store selected by a configuration
+ * @param config The asset store configuration
+ * @returns The store
+ */
+export function createAssetStore(config: AssetConfig): AssetStore {
+  switch (config.store) {
+    case 'gridfs':
+      return new GridFSAssetStore(mongoose.connection, config.gridfs.bucketName);
+    default:
+      return new FilesystemAssetStore(config.filesystem.root);
+  }
+}
+
+/**
+ * The store configured for this environment, created on first use
+ */
+export function getAssetStore(): AssetStore {
+  if (!defaultStore) {
+    defaultStore = createAssetStore(getAssetConfig());
+  }
+  return defaultStore;
+}
@@ -0,0 +1,114 @@
+import { createHash } from 'crypto';
+
+/**
+ * What the store records about an asset; the hash is the asset's address
+ */
+export interface StoredAsset {
+  // SHA-256 of the content, hex encoded
+  hash: string;
+  size: number;
+  contentType: string;
+}
+
+/**
+ * Content-addressed storage for captured site assets. Identical files share one entry,
+ * so the same stylesheet or font captured from many pages is stored once.
+ */
+export interface AssetStore {
+  readonly name: string;
+
+  /**
+   * Store content under its hash; storing content that is already stored is a no-op
+   * @param data The asset's bytes
+   * @param contentType The asset's MIME type
+   * @returns The stored asset
+   */
+  put(data: Buffer, contentType: string): Promise<StoredAsset>;
+
+  /**
+   * Read an asset
+   * @param hash The asset's hash
+   * @returns The asset and its bytes, or null when nothing is stored under the hash
+   */
+  get(hash: string): Promise<{ asset: StoredAsset; data: Buffer } | null>;
+}
+
+// URL path the app serves stored assets from; deployments serve them from /assets
+export const ASSET_BASE_PATH = '/api/assets';
+
+const EXTENSIONS: Record<string, string> = {
+  'text/css': '.css',
+  'text/javascript': '.js',
+  'application/javascript': '.js',
+  'application/json': '.json',
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/avif': '.avif',
+  'image/svg+xml': '.svg',
+  'image/x-icon': '.ico',
+  'image/vnd.microsoft.icon': '.ico',
+  'font/woff2': '.woff2',
+  'font/woff': '.woff',
+  'font/ttf': '.ttf',
+  'font/otf': '.otf',
+  'application/font-woff': '.woff',
+  'application/vnd.ms-fontobject': '.eot',
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+};
+
+export function hashAsset(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * The MIME type of a file going by its extension, for servers that send none
+ * @param pathname A URL path or file name
+ * @returns The MIME type, or application/octet-stream for unknown extensions
+ */
+export function contentTypeFromPath(pathname: string): string {
+  const extension = pathname.toLowerCase().match(/\.[a-z0-9]+$/)?.[0];
+  const match = Object.entries(EXTENSIONS).find(([, candidate]) => candidate === extension);
+  return match ? match[0] : 'application/octet-stream';
+}
+
+/**
+ * File name of a stored asset: its hash with the extension of its type, so static hosts serve it with the right type
+ */
+export function toAssetFile(asset: Pick<StoredAsset, 'hash' | 'contentType'>): string {
+  const type = asset.contentType.split(';')[0].trim().toLowerCase();
+  return `${asset.hash}${EXTENSIONS[type] || ''}`;
+}
+
+/**
+ * URL path the app serves a stored asset from
+ */
+export function toAssetPath(asset: Pick<StoredAsset, 'hash' | 'contentType'>): string {
+  return `${ASSET_BASE_PATH}/${toAssetFile(asset)}`;
+}
+
+/**
+ * Whether a page's CSS entry references a stored stylesheet rather than holding CSS text
+ */
+export function isAssetPath(entry: string): boolean {
+  return entry.startsWith(`${ASSET_BASE_PATH}/`) && !/\s/.test(entry);
+}
+
+/**
+ * Move the CSS text of a page into the store, so every page sharing a stylesheet references one copy
+ * instead of carrying its own in the website document
+ * @param store The store to keep the stylesheets in
+ * @param css The page's CSS entries: CSS text, stylesheet URLs or references to stored stylesheets
+ * @returns The entries with each CSS text replaced by the path of its stored copy
+ */
+export async function storeStylesheets(store: AssetStore, css: string[]): Promise<string[]> {
+  const entries: string[] = [];
+  for (const entry of css) {
+    entries.push(/^https?:\/\/\S+$/.test(entry) || isAssetPath(entry)
+      ? entry
+      : toAssetPath(await store.put(Buffer.from(entry), 'text/css')));
+  }
+  return entries;
+}